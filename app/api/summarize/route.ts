@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireTranscriptionProvider } from '@/lib/transcription/server'
+import { TranscriptionError } from '@/lib/transcription/types'
+
+export async function POST(request: NextRequest) {
+    try {
+        const provider = requireTranscriptionProvider()
+
+        const { transcript } = await request.json()
+        if (typeof transcript !== 'string' || !transcript.trim()) {
+            return NextResponse.json(
+                { error: 'No transcript was sent' },
+                { status: 400 }
+            )
+        }
+
+        const summary = await provider.summarize(transcript)
+
+        return NextResponse.json({ provider: provider.name, summary })
+    } catch (error) {
+        console.error('Summary generation error:', error)
+        return NextResponse.json(
+            { error: error instanceof TranscriptionError ? error.message : 'Failed to generate summary' },
+            { status: error instanceof TranscriptionError ? error.status : 500 }
+        )
+    }
+}
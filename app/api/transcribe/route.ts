@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createTranscriptionProvider, requireTranscriptionProvider } from '@/lib/transcription/server'
+import { TranscriptionError } from '@/lib/transcription/types'
+
+export async function GET() {
+    try {
+        const provider = createTranscriptionProvider()
+        return NextResponse.json({ provider: provider?.name ?? null })
+    } catch (error) {
+        console.error('Transcription configuration error:', error)
+        return NextResponse.json({ provider: null })
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const provider = requireTranscriptionProvider()
+
+        const formData = await request.formData()
+        const file = formData.get('file')
+        if (!(file instanceof Blob)) {
+            return NextResponse.json(
+                { error: 'No media file was sent' },
+                { status: 400 }
+            )
+        }
+        const duration = Number(formData.get('duration'))
+
+        const segments = await provider.transcribe(file, {
+            duration: isFinite(duration) && duration > 0 ? duration : undefined
+        })
+
+        return NextResponse.json({ provider: provider.name, segments })
+    } catch (error) {
+        console.error('Transcription error:', error)
+        return NextResponse.json(
+            { error: error instanceof TranscriptionError ? error.message : 'Failed to transcribe video' },
+            { status: error instanceof TranscriptionError ? error.status : 500 }
+        )
+    }
+}
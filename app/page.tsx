@@ -1,12 +1,31 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import VideoRecorder from '@/components/VideoRecorder'
 import VideoPlayer from '@/components/VideoPlayer'
 import VideoEditor from '@/components/VideoEditor'
+import RecentProjects from '@/components/RecentProjects'
 import SetupInstructions from '@/components/SetupInstructions'
 import { uploadVideo, createShareableLink, isSupabaseConfigured } from '@/lib/supabase'
-import { transcribeVideo } from '@/lib/transcription'
+import { TranscriptionError, segmentsToText, transcribeVideo } from '@/lib/transcription'
+import { useVideoEditorStore } from '@/stores/videoEditorStore'
+import { SCREEN_RECORDING_ASSET_ID, WEBCAM_RECORDING_ASSET_ID } from '@/lib/videoEditor/mediaAssets'
+import { createCaptionsFromTranscript } from '@/lib/videoEditor/captions'
+import { CursorTrack } from '@/lib/videoEditor/cursorTracking'
+import {
+  ProjectSession,
+  ProjectSummary,
+  clearActiveProject,
+  createProjectId,
+  deleteProject,
+  getActiveProjectId,
+  getDefaultProjectName,
+  listProjects,
+  loadProject,
+  restoreProjectRecord,
+  saveProject
+} from '@/lib/videoEditor/projectStorage'
+import { ProjectBundleError, createProjectRecordFromBundle, readProjectBundle } from '@/lib/videoEditor/projectBundle'
 import { toast } from 'sonner'
 
 export default function Home() {
@@ -20,12 +39,54 @@ export default function Home() {
   const [isTranscribing, setIsTranscribing] = useState(false)
   const [showEditor, setShowEditor] = useState(false)
   const [editedVideo, setEditedVideo] = useState<Blob | null>(null)
+  const [project, setProject] = useState<ProjectSession | null>(null)
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([])
+  const [recoverableProject, setRecoverableProject] = useState<ProjectSummary | null>(null)
 
-  // Check if both Supabase and Gemini are configured
-  const isGeminiConfigured = process.env.NEXT_PUBLIC_GEMINI_API_KEY
-  const isFullyConfigured = isSupabaseConfigured && isGeminiConfigured
+  // Transcription is configured on the server and checked when it is used
+  const isFullyConfigured = isSupabaseConfigured
+
+  const refreshRecentProjects = useCallback(async () => {
+    try {
+      const projects = await listProjects()
+      setRecentProjects(projects)
+      return projects
+    } catch (error) {
+      console.warn('Failed to load recent projects:', error)
+      return []
+    }
+  }, [])
+
+  // A project still marked as open means the tab went away mid-edit
+  useEffect(() => {
+    refreshRecentProjects().then((projects) => {
+      const activeProjectId = getActiveProjectId()
+      if (!activeProjectId) return
+      const activeProject = projects.find(p => p.id === activeProjectId)
+      if (activeProject) {
+        setRecoverableProject(activeProject)
+      } else {
+        clearActiveProject()
+      }
+    })
+  }, [refreshRecentProjects])
+
+  // The URLs made for an opened project's stored media last as long as the
+  // project does: they are let go when another project replaces it or it is closed
+  useEffect(() => {
+    if (!project) return
+    const urls = Object.values(project.storedMedia)
+    return () => urls.forEach(url => URL.revokeObjectURL(url))
+  }, [project])
+
+  const handleVideoRecorded = (videoBlob: Blob, webcamBlob?: Blob, cursorTrack?: CursorTrack) => {
+    // Every recording starts a new project
+    useVideoEditorStore.getState().reset()
+    if (cursorTrack) {
+      useVideoEditorStore.getState().setCursorTrack(cursorTrack)
+    }
+    setProject({ id: createProjectId(), name: getDefaultProjectName(), storedMedia: {} })
 
-  const handleVideoRecorded = (videoBlob: Blob, webcamBlob?: Blob) => {
     setRecordedVideo(videoBlob)
     const url = URL.createObjectURL(videoBlob)
     setVideoUrl(url)
@@ -52,6 +113,90 @@ export default function Home() {
     setTranscript('')
     setEditedVideo(null)
     setShowEditor(false)
+    setProject(null)
+    clearActiveProject()
+  }
+
+  const handleOpenProject = async (projectId: string) => {
+    const mediaUrls: Record<string, string> = {}
+    try {
+      const saved = await loadProject(projectId)
+      if (!saved) {
+        toast.error('This project could not be found')
+        await refreshRecentProjects()
+        return false
+      }
+      const recording = saved.media[SCREEN_RECORDING_ASSET_ID]
+      if (!recording) {
+        toast.error('This project has no screen recording to edit')
+        return false
+      }
+
+      for (const [assetId, blob] of Object.entries(saved.media)) {
+        mediaUrls[assetId] = URL.createObjectURL(blob)
+      }
+
+      const { editor, mediaAssets } = restoreProjectRecord(saved.record, mediaUrls)
+      useVideoEditorStore.getState().openProject(editor, mediaAssets)
+
+      const webcamRecording = saved.media[WEBCAM_RECORDING_ASSET_ID]
+      setRecordedVideo(recording)
+      setVideoUrl(mediaUrls[SCREEN_RECORDING_ASSET_ID])
+      setWebcamVideo(webcamRecording ?? null)
+      setWebcamUrl(webcamRecording ? mediaUrls[WEBCAM_RECORDING_ASSET_ID] : '')
+      setShareableLink('')
+      setTranscript('')
+      setEditedVideo(null)
+      setProject({
+        id: saved.record.id,
+        name: saved.record.name,
+        createdAt: saved.record.createdAt,
+        thumbnail: saved.record.thumbnail,
+        storedMedia: mediaUrls
+      })
+      setRecoverableProject(null)
+      setShowEditor(true)
+      return true
+    } catch (error) {
+      console.error('Failed to open project:', error)
+      Object.values(mediaUrls).forEach(url => URL.revokeObjectURL(url))
+      toast.error('Failed to open project')
+      return false
+    }
+  }
+
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await deleteProject(projectId)
+      if (recoverableProject?.id === projectId) {
+        clearActiveProject()
+        setRecoverableProject(null)
+      }
+      await refreshRecentProjects()
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+      toast.error('Failed to delete project')
+    }
+  }
+
+  // Imported bundles become local projects, so they autosave like any other
+  const handleImportProject = async (file: File) => {
+    try {
+      const { manifest, media } = await readProjectBundle(file)
+      const record = createProjectRecordFromBundle(manifest, createProjectId())
+      await saveProject(record, media)
+      if (await handleOpenProject(record.id)) {
+        toast.success(`Opened "${record.name}"`)
+      }
+    } catch (error) {
+      console.error('Failed to import project:', error)
+      toast.error(error instanceof ProjectBundleError ? error.message : 'Failed to import project')
+    }
+  }
+
+  const handleDismissRecovery = () => {
+    clearActiveProject()
+    setRecoverableProject(null)
   }
 
   const handleUpload = async (videoBlob: Blob) => {
@@ -73,12 +218,19 @@ export default function Home() {
       // Start transcription
       setIsTranscribing(true)
       try {
-        const transcription = await transcribeVideo(videoBlob)
-        setTranscript(transcription)
+        const segments = await transcribeVideo(videoBlob)
+        setTranscript(segmentsToText(segments))
+        // Hand the timed transcript to the editor as captions unless it already has some
+        const editor = useVideoEditorStore.getState()
+        if (editor.captions.length === 0 && segments.length > 0) {
+          editor.setCaptions(createCaptionsFromTranscript(segments))
+        }
         toast.success('Transcription completed!')
       } catch (error) {
         console.error('Transcription failed:', error)
-        toast.error('Transcription failed, but video was uploaded successfully')
+        toast.error(error instanceof TranscriptionError && error.status === 503
+          ? `${error.message} The video was uploaded successfully.`
+          : 'Transcription failed, but video was uploaded successfully')
       } finally {
         setIsTranscribing(false)
       }
@@ -102,11 +254,15 @@ export default function Home() {
   const handleSaveEditedVideo = (editedBlob: Blob) => {
     setEditedVideo(editedBlob)
     setShowEditor(false)
+    clearActiveProject()
+    refreshRecentProjects()
     toast.success('Video edited successfully!')
   }
 
   const handleCancelEdit = () => {
     setShowEditor(false)
+    clearActiveProject()
+    refreshRecentProjects()
   }
 
   const resetRecording = () => {
@@ -118,6 +274,8 @@ export default function Home() {
     setTranscript('')
     setShowEditor(false)
     setEditedVideo(null)
+    setProject(null)
+    clearActiveProject()
   }
 
   // Show setup instructions if not fully configured
@@ -155,18 +313,31 @@ export default function Home() {
 
         <div className="space-y-8">
           {!recordedVideo ? (
-            <VideoRecorder
-              onVideoRecorded={handleVideoRecorded}
-              onUpload={handleUpload}
-              onStartRecording={handleStartRecording}
-              isUploading={isUploading || isTranscribing}
-            />
+            <>
+              <RecentProjects
+                projects={recentProjects}
+                recoverableProject={recoverableProject}
+                onOpenProject={handleOpenProject}
+                onDeleteProject={handleDeleteProject}
+                onDismissRecovery={handleDismissRecovery}
+                onImportProject={handleImportProject}
+              />
+              <VideoRecorder
+                onVideoRecorded={handleVideoRecorded}
+                onUpload={handleUpload}
+                onStartRecording={handleStartRecording}
+                isUploading={isUploading || isTranscribing}
+              />
+            </>
           ) : showEditor ? (
             <VideoEditor
+              key={project?.id}
               videoUrl={editedVideo ? URL.createObjectURL(editedVideo) : videoUrl}
               webcamUrl={webcamUrl}
               onSave={handleSaveEditedVideo}
               onCancel={handleCancelEdit}
+              project={project ?? undefined}
+              onImportProject={handleImportProject}
             />
           ) : (
             <div className="space-y-6">
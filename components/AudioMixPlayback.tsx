@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { Clip } from '@/hooks/useClips'
+import { MediaAsset } from '@/lib/videoEditor/mediaAssets'
+import { getClipGainEnvelope, getGainAtTime } from '@/lib/videoEditor/audioMixing'
+import { MAIN_VIDEO_TRACK_ID, TimelineComposition, getClipSourceIn, getSegmentAtTime, sourceToTimelineTime } from '@/lib/videoEditor/timelineComposition'
+import { Track, getTrackGain } from '@/lib/videoEditor/timelineTracks'
+
+interface AudioMixPlaybackProps {
+    clips: Clip[]
+    tracks: Track[]
+    mediaAssets: MediaAsset[]
+    // The edit the preview plays back
+    composition: TimelineComposition
+    videoRef: React.RefObject<HTMLVideoElement | null>
+    // Plays the clips of imported video in place of the recording
+    mediaVideoRef: React.RefObject<HTMLVideoElement | null>
+    currentTime: number
+}
+
+// How far music may drift from the recording before it is re-seeked
+const MAX_MUSIC_DRIFT = 0.25
+
+const clampVolume = (gain: number) => Math.max(0, Math.min(1, gain))
+
+// Plays the music on the audio tracks along with the player and sets the
+// players' volume from the video track and clip gains. Elements cannot go
+// above full volume and the music is not ducked here; the export mix is exact.
+export default function AudioMixPlayback({
+    clips,
+    tracks,
+    mediaAssets,
+    composition,
+    videoRef,
+    mediaVideoRef,
+    currentTime
+}: AudioMixPlaybackProps) {
+    const audioRefs = useRef(new Map<string, HTMLAudioElement>())
+    const currentTimeRef = useRef(currentTime)
+    currentTimeRef.current = currentTime
+
+    const musicClips = useMemo(() => clips.filter(clip =>
+        clip.type === 'audio' &&
+        tracks.some(track => track.id === clip.trackId && track.type === 'audio') &&
+        mediaAssets.some(asset => asset.id === clip.sourceId)
+    ), [clips, tracks, mediaAssets])
+
+    useEffect(() => {
+        let frameId = 0
+        const audios = audioRefs.current
+
+        const update = () => {
+            frameId = requestAnimationFrame(update)
+
+            const video = videoRef.current
+            if (!video) return
+            const mediaVideo = mediaVideoRef.current
+            const playing = !video.paused || mediaVideo?.paused === false
+            const time = !video.paused
+                ? sourceToTimelineTime(composition, video.currentTime) ?? currentTimeRef.current
+                : currentTimeRef.current
+
+            const segment = getSegmentAtTime(composition, time)
+            const segmentClip = segment ? clips.find(clip => clip.id === segment.clipId) : undefined
+            const clipGain = segmentClip ? getGainAtTime(getClipGainEnvelope(segmentClip), time) : 1
+            video.volume = clampVolume(getTrackGain(MAIN_VIDEO_TRACK_ID, tracks) * clipGain)
+            if (mediaVideo) mediaVideo.volume = video.volume
+
+            musicClips.forEach(clip => {
+                const audio = audios.get(clip.id)
+                if (!audio) return
+
+                const inClip = time >= clip.startTime && time < clip.endTime
+                if (!playing || !inClip) {
+                    if (!audio.paused) audio.pause()
+                    return
+                }
+
+                const sourceTime = getClipSourceIn(clip) + (time - clip.startTime)
+                if (Math.abs(audio.currentTime - sourceTime) > MAX_MUSIC_DRIFT) audio.currentTime = sourceTime
+                audio.volume = clampVolume(getTrackGain(clip.trackId, tracks) * getGainAtTime(getClipGainEnvelope(clip), time))
+                if (audio.paused) audio.play().catch(() => { })
+            })
+        }
+
+        frameId = requestAnimationFrame(update)
+        return () => {
+            cancelAnimationFrame(frameId)
+            audios.forEach(audio => audio.pause())
+        }
+    }, [clips, tracks, musicClips, composition, videoRef, mediaVideoRef])
+
+    return (
+        <>
+            {musicClips.map(clip => (
+                <audio
+                    key={clip.id}
+                    ref={(element) => {
+                        if (element) audioRefs.current.set(clip.id, element)
+                        else audioRefs.current.delete(clip.id)
+                    }}
+                    src={mediaAssets.find(asset => asset.id === clip.sourceId)?.url}
+                    preload="auto"
+                    className="hidden"
+                />
+            ))}
+        </>
+    )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Music, Upload, Volume2, VolumeX } from 'lucide-react'
+import { Clip } from '@/hooks/useClips'
+import { AudioMixSettings, MAX_CLIP_FADE, MAX_CLIP_GAIN } from '@/lib/videoEditor/audioMixing'
+import { MAX_TRACK_VOLUME, Track, hasTrackAudio, isTrackAudible } from '@/lib/videoEditor/timelineTracks'
+
+interface AudioPanelProps {
+    clips: Clip[]
+    tracks: Track[]
+    audioMix: AudioMixSettings
+    formatTime: (seconds: number) => string
+    // New music starts at the playhead
+    onImportMusic: (file: File) => void
+    onUpdateClip: (clipId: string, updates: Partial<Clip>) => void
+    onUpdateTrack: (trackId: string, updates: Partial<Track>) => void
+    // Solo is exclusive, so it changes the other tracks too
+    onSoloTrack: (trackId: string) => void
+    onAudioMixChange: (settings: Partial<AudioMixSettings>) => void
+}
+
+export default function AudioPanel({
+    clips,
+    tracks,
+    audioMix,
+    formatTime,
+    onImportMusic,
+    onUpdateClip,
+    onUpdateTrack,
+    onSoloTrack,
+    onAudioMixChange
+}: AudioPanelProps) {
+    const importInputRef = useRef<HTMLInputElement>(null)
+    const [selectedClipId, setSelectedClipId] = useState<string | null>(null)
+
+    const soundTracks = tracks.filter(hasTrackAudio)
+    const soundClips = clips.filter(clip => soundTracks.some(track => track.id === clip.trackId))
+    const selected = soundClips.find(clip => clip.id === selectedClipId)
+    const maxFade = selected ? Math.min(MAX_CLIP_FADE, (selected.endTime - selected.startTime) / 2) : 0
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        Array.from(e.target.files ?? []).forEach(onImportMusic)
+        e.target.value = ''
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Music */}
+            <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                    <Music className="h-4 w-4" />
+                    <h3 className="font-medium text-sm">Music</h3>
+                </div>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => importInputRef.current?.click()}
+                    className="w-full text-xs h-7"
+                >
+                    <Upload className="h-3 w-3 mr-1" />
+                    Import music
+                </Button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="audio/*"
+                    multiple
+                    className="hidden"
+                    onChange={handleImport}
+                />
+                <p className="text-[10px] text-gray-400">Added to the first audio track at the playhead.</p>
+            </div>
+
+            {/* Tracks */}
+            <div className="space-y-2">
+                <h4 className="text-sm font-medium">Tracks</h4>
+                {soundTracks.map(track => (
+                    <div
+                        key={track.id}
+                        className={`p-2 rounded bg-gray-700 space-y-2 ${isTrackAudible(track, tracks) ? '' : 'opacity-60'}`}
+                    >
+                        <div className="flex items-center gap-1">
+                            <span className="flex-1 text-xs truncate">{track.name}</span>
+                            <Button
+                                size="sm"
+                                variant={track.muted ? 'default' : 'outline'}
+                                onClick={() => onUpdateTrack(track.id, { muted: !track.muted })}
+                                className="text-xs h-6 px-2"
+                                title={track.muted ? 'Unmute' : 'Mute'}
+                            >
+                                {track.muted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant={track.solo ? 'default' : 'outline'}
+                                onClick={() => onSoloTrack(track.id)}
+                                className="text-xs h-6 px-2"
+                                title="Solo"
+                            >
+                                S
+                            </Button>
+                        </div>
+                        <div>
+                            <Label className="text-xs text-gray-400">Volume: {Math.round(track.volume * 100)}%</Label>
+                            <Slider
+                                value={[Math.round(track.volume * 100)]}
+                                onValueChange={(value) => onUpdateTrack(track.id, { volume: value[0] / 100 })}
+                                max={MAX_TRACK_VOLUME * 100}
+                                step={5}
+                                className="mt-2"
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Clips */}
+            {soundClips.length > 0 && (
+                <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Clips</h4>
+                    {soundClips.map(clip => (
+                        <div
+                            key={clip.id}
+                            onClick={() => setSelectedClipId(clip.id)}
+                            className={`flex items-center justify-between gap-2 p-2 rounded text-xs cursor-pointer ${
+                                clip.id === selectedClipId ? 'bg-sky-900/60 ring-1 ring-sky-500' : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            {clip.type === 'audio' && <Music className="h-3 w-3 flex-shrink-0" />}
+                            <span className="flex-1 truncate">{clip.name}</span>
+                            <span className="text-gray-400 flex-shrink-0">
+                                {formatTime(clip.startTime)} - {formatTime(clip.endTime)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Selected clip */}
+            {selected && (
+                <div className="space-y-3 border-t border-gray-700 pt-3">
+                    <div>
+                        <Label className="text-xs">Gain: {Math.round((selected.gain ?? 1) * 100)}%</Label>
+                        <Slider
+                            value={[Math.round((selected.gain ?? 1) * 100)]}
+                            onValueChange={(value) => onUpdateClip(selected.id, { gain: value[0] / 100 })}
+                            max={MAX_CLIP_GAIN * 100}
+                            step={5}
+                            className="mt-2"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Fade in: {(selected.fadeIn ?? 0).toFixed(1)}s</Label>
+                            <Slider
+                                value={[Math.min(selected.fadeIn ?? 0, maxFade)]}
+                                onValueChange={(value) => onUpdateClip(selected.id, { fadeIn: value[0] })}
+                                max={maxFade}
+                                step={0.1}
+                                className="mt-3"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">Fade out: {(selected.fadeOut ?? 0).toFixed(1)}s</Label>
+                            <Slider
+                                value={[Math.min(selected.fadeOut ?? 0, maxFade)]}
+                                onValueChange={(value) => onUpdateClip(selected.id, { fadeOut: value[0] })}
+                                max={maxFade}
+                                step={0.1}
+                                className="mt-3"
+                            />
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Ducking */}
+            <div className="space-y-3 border-t border-gray-700 pt-3">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">Duck music under speech</h4>
+                    <Button
+                        size="sm"
+                        variant={audioMix.duckMusic ? 'default' : 'outline'}
+                        onClick={() => onAudioMixChange({ duckMusic: !audioMix.duckMusic })}
+                        className="text-xs h-7"
+                    >
+                        {audioMix.duckMusic ? 'On' : 'Off'}
+                    </Button>
+                </div>
+                {audioMix.duckMusic && (
+                    <div>
+                        <Label className="text-xs text-gray-400">Music under speech: {Math.round(audioMix.duckLevel * 100)}%</Label>
+                        <Slider
+                            value={[Math.round(audioMix.duckLevel * 100)]}
+                            onValueChange={(value) => onAudioMixChange({ duckLevel: value[0] / 100 })}
+                            max={100}
+                            step={5}
+                            className="mt-2"
+                        />
+                    </div>
+                )}
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                        type="checkbox"
+                        checked={audioMix.normalizeMusic}
+                        onChange={(e) => onAudioMixChange({ normalizeMusic: e.target.checked })}
+                    />
+                    Even out music loudness
+                </label>
+                <p className="text-[10px] text-gray-400">
+                    Ducking, loudness and volumes above 100% are heard in the export.
+                </p>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,380 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { ImagePlus, Trash2 } from 'lucide-react'
+import {
+    BrandColor,
+    BrandFont,
+    BrandKit,
+    BrandLogo,
+    BrandWatermark,
+    createCustomBrandKit,
+    defaultBrandKits
+} from '@/lib/templates/brandKit'
+import { CAPTION_FONT_FAMILIES } from '@/lib/videoEditor/captions'
+import { createBrandImageId } from '@/lib/videoEditor/brandKitStorage'
+
+interface BrandKitEditorProps {
+    open: boolean
+    // The kit to edit, or null to create a new one
+    kit: BrandKit | null
+    // Stored images of the kit, keyed by logo or watermark id
+    images: Record<string, Blob>
+    onClose: () => void
+    onSave: (kit: BrandKit, images: Record<string, Blob>) => Promise<void>
+}
+
+const COLOR_USAGES: { usage: BrandColor['usage']; label: string }[] = [
+    { usage: 'primary', label: 'Primary' },
+    { usage: 'secondary', label: 'Secondary' },
+    { usage: 'accent', label: 'Accent' },
+    { usage: 'background', label: 'Background' },
+    { usage: 'text', label: 'Text' }
+]
+
+const FONT_USAGES: { usage: BrandFont['usage']; label: string }[] = [
+    { usage: 'heading', label: 'Headings' },
+    { usage: 'body', label: 'Body' },
+    { usage: 'caption', label: 'Captions' }
+]
+
+const LOGO_POSITIONS: BrandLogo['position'][] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right']
+const WATERMARK_POSITIONS: BrandWatermark['position'][] = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+const LOGO_SIZES: BrandLogo['size'][] = ['small', 'medium', 'large']
+
+const formatOption = (value: string) => value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+// New kits start from the first built-in kit's palette and fonts
+const createDraftKit = () => createCustomBrandKit('My Brand', defaultBrandKits[0].colors, defaultBrandKits[0].fonts)
+
+const selectClassName = 'mt-1 w-full h-7 px-2 text-xs rounded-md bg-gray-700 text-white border border-gray-600'
+
+export default function BrandKitEditor({ open, kit, images, onClose, onSave }: BrandKitEditorProps) {
+    const [draft, setDraft] = useState<BrandKit>(() => kit ?? createDraftKit())
+    const [draftImages, setDraftImages] = useState<Record<string, Blob>>(images)
+    const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({})
+    const [isSaving, setIsSaving] = useState(false)
+    const logoInputRef = useRef<HTMLInputElement>(null)
+    const watermarkInputRef = useRef<HTMLInputElement>(null)
+
+    // Start over from the kit every time the editor opens
+    useEffect(() => {
+        if (!open) return
+        setDraft(kit ?? createDraftKit())
+        setDraftImages(images)
+    }, [open, kit, images])
+
+    useEffect(() => {
+        const urls = Object.fromEntries(
+            Object.entries(draftImages).map(([imageId, blob]) => [imageId, URL.createObjectURL(blob)])
+        )
+        setPreviewUrls(urls)
+        return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url))
+    }, [draftImages])
+
+    const logo = draft.logos[0]
+    const watermark = draft.watermarks[0]
+
+    const update = (updates: Partial<BrandKit>) => setDraft(prev => ({ ...prev, ...updates }))
+
+    const setColor = (usage: BrandColor['usage'], hex: string) => {
+        const existing = draft.colors.find(color => color.usage === usage)
+        update({
+            colors: existing
+                ? draft.colors.map(color => color.usage === usage ? { ...color, hex } : color)
+                : [...draft.colors, { id: usage, name: formatOption(usage), hex, usage }]
+        })
+    }
+
+    const setFont = (usage: BrandFont['usage'], family: string) => {
+        const others = draft.fonts.filter(font => font.usage !== usage)
+        update({
+            fonts: family
+                ? [...others, { id: usage, name: family, family, weights: [400, 700], usage }]
+                : others
+        })
+    }
+
+    const updateLogo = (updates: Partial<BrandLogo>) => update({ logos: [{ ...logo, ...updates }] })
+    const updateWatermark = (updates: Partial<BrandWatermark>) => update({ watermarks: [{ ...watermark, ...updates }] })
+
+    const handleImageSelected = (kind: 'logo' | 'watermark') => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        const id = createBrandImageId()
+        setDraftImages(prev => ({ ...prev, [id]: file }))
+
+        if (kind === 'logo') {
+            update({
+                logos: [{
+                    id,
+                    name: file.name,
+                    url: '',
+                    type: 'full',
+                    position: logo?.position ?? draft.defaultSettings.logoPosition,
+                    size: logo?.size ?? draft.defaultSettings.logoSize,
+                    opacity: logo?.opacity ?? 1
+                }]
+            })
+        } else {
+            update({
+                watermarks: [{
+                    id,
+                    name: file.name,
+                    url: '',
+                    position: watermark?.position ?? 'bottom-right',
+                    size: watermark?.size ?? 10,
+                    opacity: watermark?.opacity ?? draft.defaultSettings.watermarkOpacity,
+                    padding: watermark?.padding ?? 24
+                }]
+            })
+        }
+    }
+
+    const handleSave = async () => {
+        const primary = draft.colors.find(color => color.usage === 'primary')
+        const secondary = draft.colors.find(color => color.usage === 'secondary')
+        setIsSaving(true)
+        try {
+            await onSave({
+                ...draft,
+                name: draft.name.trim() || 'Untitled Brand',
+                defaultSettings: {
+                    ...draft.defaultSettings,
+                    primaryColor: primary?.hex ?? draft.defaultSettings.primaryColor,
+                    secondaryColor: secondary?.hex ?? draft.defaultSettings.secondaryColor
+                }
+            }, draftImages)
+            onClose()
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+            <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto bg-gray-900 border-gray-700 text-white">
+                <DialogHeader>
+                    <DialogTitle>{kit ? 'Edit Brand Kit' : 'New Brand Kit'}</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label className="text-xs text-gray-400">Name</Label>
+                        <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} className="h-8 text-sm" />
+                        <Label className="text-xs text-gray-400">Description</Label>
+                        <Input value={draft.description} onChange={(e) => update({ description: e.target.value })} className="h-8 text-sm" />
+                    </div>
+
+                    {/* Colors */}
+                    <div>
+                        <Label className="text-xs text-gray-400">Colors</Label>
+                        <div className="grid grid-cols-5 gap-2 mt-1">
+                            {COLOR_USAGES.map(({ usage, label }) => (
+                                <label key={usage} className="text-[10px] text-gray-400 text-center">
+                                    <input
+                                        type="color"
+                                        value={draft.colors.find(color => color.usage === usage)?.hex ?? '#000000'}
+                                        onChange={(e) => setColor(usage, e.target.value)}
+                                        className="w-full h-8 rounded cursor-pointer bg-transparent"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Fonts */}
+                    <div className="grid grid-cols-3 gap-2">
+                        {FONT_USAGES.map(({ usage, label }) => (
+                            <div key={usage}>
+                                <Label className="text-xs text-gray-400">{label}</Label>
+                                <select
+                                    value={draft.fonts.find(font => font.usage === usage)?.family ?? ''}
+                                    onChange={(e) => setFont(usage, e.target.value)}
+                                    className={selectClassName}
+                                >
+                                    <option value="">None</option>
+                                    {[...new Set([...CAPTION_FONT_FAMILIES, ...draft.fonts.map(font => font.family)])].map(family => (
+                                        <option key={family} value={family}>{family}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Logo */}
+                    <div className="space-y-2 rounded-lg border border-gray-700 p-3">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-xs text-gray-400">Logo</Label>
+                            <div className="flex gap-1">
+                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => logoInputRef.current?.click()}>
+                                    <ImagePlus className="h-3 w-3 mr-1" />
+                                    {logo ? 'Replace' : 'Upload'}
+                                </Button>
+                                {logo && (
+                                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => update({ logos: [] })}>
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageSelected('logo')} />
+                        {logo && (
+                            <div className="grid grid-cols-[64px_1fr] gap-3 items-start">
+                                {previewUrls[logo.id] && (
+                                    <img src={previewUrls[logo.id]} alt={logo.name} className="w-16 h-16 object-contain rounded bg-gray-800" />
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <Label className="text-xs text-gray-400">Position</Label>
+                                        <select
+                                            value={logo.position}
+                                            onChange={(e) => updateLogo({ position: e.target.value as BrandLogo['position'] })}
+                                            className={selectClassName}
+                                        >
+                                            {LOGO_POSITIONS.map(position => (
+                                                <option key={position} value={position}>{formatOption(position)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs text-gray-400">Size</Label>
+                                        <select
+                                            value={logo.size}
+                                            onChange={(e) => updateLogo({ size: e.target.value as BrandLogo['size'] })}
+                                            className={selectClassName}
+                                        >
+                                            {LOGO_SIZES.map(size => (
+                                                <option key={size} value={size}>{formatOption(size)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="col-span-2">
+                                        <Slider
+                                            value={[Math.round(logo.opacity * 100)]}
+                                            onValueChange={(value) => updateLogo({ opacity: value[0] / 100 })}
+                                            max={100}
+                                            step={5}
+                                        />
+                                        <div className="text-xs text-gray-400 text-center mt-1">{Math.round(logo.opacity * 100)}% opacity</div>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Watermark */}
+                    <div className="space-y-2 rounded-lg border border-gray-700 p-3">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-xs text-gray-400">Watermark</Label>
+                            <div className="flex gap-1">
+                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => watermarkInputRef.current?.click()}>
+                                    <ImagePlus className="h-3 w-3 mr-1" />
+                                    {watermark ? 'Replace' : 'Upload'}
+                                </Button>
+                                {watermark && (
+                                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => update({ watermarks: [] })}>
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        <input ref={watermarkInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageSelected('watermark')} />
+                        {watermark && (
+                            <div className="grid grid-cols-[64px_1fr] gap-3 items-start">
+                                {previewUrls[watermark.id] && (
+                                    <img src={previewUrls[watermark.id]} alt={watermark.name} className="w-16 h-16 object-contain rounded bg-gray-800" />
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <Label className="text-xs text-gray-400">Position</Label>
+                                        <select
+                                            value={watermark.position}
+                                            onChange={(e) => updateWatermark({ position: e.target.value as BrandWatermark['position'] })}
+                                            className={selectClassName}
+                                        >
+                                            {WATERMARK_POSITIONS.map(position => (
+                                                <option key={position} value={position}>{formatOption(position)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs text-gray-400">Width (% of frame)</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            max={100}
+                                            value={watermark.size}
+                                            onChange={(e) => updateWatermark({ size: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                                            className="mt-1 h-7 text-xs"
+                                        />
+                                    </div>
+                                    <div className="col-span-2">
+                                        <Slider
+                                            value={[Math.round(watermark.opacity * 100)]}
+                                            onValueChange={(value) => updateWatermark({ opacity: value[0] / 100 })}
+                                            max={100}
+                                            step={5}
+                                        />
+                                        <div className="text-xs text-gray-400 text-center mt-1">{Math.round(watermark.opacity * 100)}% opacity</div>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Defaults for logos and watermarks added later */}
+                    <div className="grid grid-cols-3 gap-2">
+                        <div>
+                            <Label className="text-xs text-gray-400">Default logo position</Label>
+                            <select
+                                value={draft.defaultSettings.logoPosition}
+                                onChange={(e) => update({ defaultSettings: { ...draft.defaultSettings, logoPosition: e.target.value as BrandLogo['position'] } })}
+                                className={selectClassName}
+                            >
+                                {LOGO_POSITIONS.map(position => (
+                                    <option key={position} value={position}>{formatOption(position)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <Label className="text-xs text-gray-400">Default logo size</Label>
+                            <select
+                                value={draft.defaultSettings.logoSize}
+                                onChange={(e) => update({ defaultSettings: { ...draft.defaultSettings, logoSize: e.target.value as BrandLogo['size'] } })}
+                                className={selectClassName}
+                            >
+                                {LOGO_SIZES.map(size => (
+                                    <option key={size} value={size}>{formatOption(size)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <Label className="text-xs text-gray-400">Default watermark opacity</Label>
+                            <Slider
+                                value={[Math.round(draft.defaultSettings.watermarkOpacity * 100)]}
+                                onValueChange={(value) => update({ defaultSettings: { ...draft.defaultSettings, watermarkOpacity: value[0] / 100 } })}
+                                max={100}
+                                step={5}
+                                className="mt-3"
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save Kit'}</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { BrandMark } from '@/lib/templates/brandKit'
+import { LoadedBrandMark, drawBrandMarks, loadBrandMarks } from '@/lib/videoEditor/brandOverlay'
+
+interface BrandOverlayProps {
+    marks: BrandMark[]
+}
+
+// Draws the brand kit's logo and watermark over the preview with the
+// exporter's renderer, so they land where the export puts them
+export default function BrandOverlay({ marks }: BrandOverlayProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const [size, setSize] = useState({ width: 0, height: 0 })
+    const [loaded, setLoaded] = useState<LoadedBrandMark[]>([])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas) return
+
+        const observer = new ResizeObserver(([entry]) => {
+            const ratio = window.devicePixelRatio || 1
+            setSize({
+                width: Math.round(entry.contentRect.width * ratio),
+                height: Math.round(entry.contentRect.height * ratio)
+            })
+        })
+        observer.observe(canvas)
+        return () => observer.disconnect()
+    }, [])
+
+    useEffect(() => {
+        let cancelled = false
+        loadBrandMarks(marks).then(result => {
+            if (!cancelled) setLoaded(result)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [marks])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (!canvas || !ctx || size.width === 0 || size.height === 0) return
+
+        canvas.width = size.width
+        canvas.height = size.height
+        ctx.clearRect(0, 0, size.width, size.height)
+        drawBrandMarks(ctx, loaded, size.width, size.height)
+    }, [loaded, size])
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-20" />
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { CaptionStyle, drawCaption } from '@/lib/videoEditor/captions'
+
+interface CaptionOverlayProps {
+    text: string
+    style: CaptionStyle
+    fontFamily: string
+}
+
+// Draws the current caption over the preview with the exporter's renderer,
+// so what is shown here is what gets burned in
+export default function CaptionOverlay({ text, style, fontFamily }: CaptionOverlayProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const [size, setSize] = useState({ width: 0, height: 0 })
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas) return
+
+        const observer = new ResizeObserver(([entry]) => {
+            const ratio = window.devicePixelRatio || 1
+            setSize({
+                width: Math.round(entry.contentRect.width * ratio),
+                height: Math.round(entry.contentRect.height * ratio)
+            })
+        })
+        observer.observe(canvas)
+        return () => observer.disconnect()
+    }, [])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (!canvas || !ctx || size.width === 0 || size.height === 0) return
+
+        canvas.width = size.width
+        canvas.height = size.height
+        ctx.clearRect(0, 0, size.width, size.height)
+        drawCaption(ctx, text, style, fontFamily, size.width, size.height)
+    }, [text, style, fontFamily, size])
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-20" />
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Captions, Loader2, Palette, Trash2, Type, Wand2 } from 'lucide-react'
+import {
+    CAPTION_FONT_FAMILIES,
+    Caption,
+    CaptionPosition,
+    CaptionStyle,
+    TimelineCaption
+} from '@/lib/videoEditor/captions'
+
+interface CaptionsPanelProps {
+    captions: Caption[]
+    // The same captions placed on the edited timeline
+    timelineCaptions: TimelineCaption[]
+    captionStyle: CaptionStyle
+    // Font of the applied brand kit, when there is one
+    brandFontFamily?: string
+    currentTime: number
+    formatTime: (seconds: number) => string
+    isTranscribing: boolean
+    onGenerateCaptions: () => void
+    onUpdateCaption: (id: string, updates: Partial<Caption>) => void
+    onRemoveCaption: (id: string) => void
+    onCaptionStyleChange: (style: Partial<CaptionStyle>) => void
+    onSeek: (time: number) => void
+}
+
+const POSITIONS: CaptionPosition[] = ['top', 'middle', 'bottom']
+
+export default function CaptionsPanel({
+    captions,
+    timelineCaptions,
+    captionStyle,
+    brandFontFamily,
+    currentTime,
+    formatTime,
+    isTranscribing,
+    onGenerateCaptions,
+    onUpdateCaption,
+    onRemoveCaption,
+    onCaptionStyleChange,
+    onSeek
+}: CaptionsPanelProps) {
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <Button
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    onClick={onGenerateCaptions}
+                    disabled={isTranscribing}
+                >
+                    {isTranscribing ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                        <Wand2 className="h-3 w-3 mr-1" />
+                    )}
+                    {captions.length > 0 ? 'Regenerate' : 'Generate captions'}
+                </Button>
+                <Button
+                    size="sm"
+                    variant={captionStyle.enabled ? 'default' : 'outline'}
+                    onClick={() => onCaptionStyleChange({ enabled: !captionStyle.enabled })}
+                    className="text-xs h-7"
+                >
+                    {captionStyle.enabled ? 'Visible' : 'Hidden'}
+                </Button>
+            </div>
+
+            {/* Style */}
+            <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                    <Type className="h-4 w-4" />
+                    <h3 className="font-medium text-sm">Style</h3>
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Font</Label>
+                    <select
+                        value={captionStyle.fontFamily}
+                        onChange={(e) => onCaptionStyleChange({ fontFamily: e.target.value })}
+                        disabled={captionStyle.useBrandFont && !!brandFontFamily}
+                        className="mt-1 w-full h-7 px-2 text-xs rounded-md bg-gray-700 text-white border border-gray-600 disabled:opacity-50"
+                    >
+                        {CAPTION_FONT_FAMILIES.map(family => (
+                            <option key={family} value={family}>{family}</option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={captionStyle.useBrandFont}
+                            onChange={(e) => onCaptionStyleChange({ useBrandFont: e.target.checked })}
+                        />
+                        Use brand kit font{brandFontFamily ? ` (${brandFontFamily})` : ' (no brand kit applied)'}
+                    </label>
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Size</Label>
+                    <div className="space-y-1 mt-1">
+                        <Slider
+                            value={[captionStyle.fontSize]}
+                            onValueChange={(value) => onCaptionStyleChange({ fontSize: value[0] })}
+                            min={16}
+                            max={120}
+                            step={2}
+                            className="w-full"
+                        />
+                        <div className="text-xs text-gray-400 text-center">{captionStyle.fontSize}px</div>
+                    </div>
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Position</Label>
+                    <div className="grid grid-cols-3 gap-1 mt-1">
+                        {POSITIONS.map(position => (
+                            <button
+                                key={position}
+                                onClick={() => onCaptionStyleChange({ position })}
+                                className={`px-2 py-2 text-xs rounded-md transition-all duration-200 ${captionStyle.position === position
+                                    ? 'bg-purple-600 text-white scale-105'
+                                    : 'bg-gray-700 text-gray-400 hover:text-white hover:bg-gray-600'
+                                    }`}
+                            >
+                                {position.charAt(0).toUpperCase() + position.slice(1)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <Label className="text-xs text-gray-400">Text color</Label>
+                        <input
+                            type="color"
+                            value={captionStyle.textColor}
+                            onChange={(e) => onCaptionStyleChange({ textColor: e.target.value })}
+                            className="mt-1 w-full h-7 rounded cursor-pointer bg-transparent"
+                        />
+                    </div>
+                    <div>
+                        <Label className="text-xs text-gray-400">Box color</Label>
+                        <input
+                            type="color"
+                            value={captionStyle.backgroundColor}
+                            onChange={(e) => onCaptionStyleChange({ backgroundColor: e.target.value })}
+                            disabled={!captionStyle.showBackground}
+                            className="mt-1 w-full h-7 rounded cursor-pointer bg-transparent disabled:opacity-50"
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <Palette className="h-4 w-4" />
+                            <h3 className="font-medium text-sm">Background box</h3>
+                        </div>
+                        <Button
+                            size="sm"
+                            variant={captionStyle.showBackground ? 'default' : 'outline'}
+                            onClick={() => onCaptionStyleChange({ showBackground: !captionStyle.showBackground })}
+                            className="text-xs h-7"
+                        >
+                            {captionStyle.showBackground ? 'On' : 'Off'}
+                        </Button>
+                    </div>
+                    {captionStyle.showBackground && (
+                        <div className="space-y-1 mt-2">
+                            <Slider
+                                value={[Math.round(captionStyle.backgroundOpacity * 100)]}
+                                onValueChange={(value) => onCaptionStyleChange({ backgroundOpacity: value[0] / 100 })}
+                                max={100}
+                                step={5}
+                                className="w-full"
+                            />
+                            <div className="text-xs text-gray-400 text-center">
+                                {Math.round(captionStyle.backgroundOpacity * 100)}% opacity
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Caption list */}
+            <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                    <Captions className="h-4 w-4" />
+                    <h3 className="font-medium text-sm">Captions</h3>
+                </div>
+
+                {captions.length === 0 ? (
+                    <div className="text-center py-6 text-gray-400">
+                        <Captions className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                        <p className="text-xs">Generate captions from the recording&apos;s speech</p>
+                    </div>
+                ) : (
+                    captions.map(caption => {
+                        const pieces = timelineCaptions.filter(piece => piece.captionId === caption.id)
+                        const isActive = pieces.some(piece => currentTime >= piece.start && currentTime < piece.end)
+                        return (
+                            <div
+                                key={caption.id}
+                                className={`p-2 rounded-md border ${isActive
+                                    ? 'border-purple-500 bg-purple-500/10'
+                                    : 'border-gray-700 bg-gray-800/50'
+                                    }`}
+                            >
+                                <div className="flex items-center justify-between mb-1">
+                                    {pieces.length > 0 ? (
+                                        <button
+                                            className="text-xs text-gray-400 hover:text-white"
+                                            onClick={() => onSeek(pieces[0].start)}
+                                            title="Go to caption"
+                                        >
+                                            {formatTime(pieces[0].start)}
+                                        </button>
+                                    ) : (
+                                        <span className="text-xs text-gray-500" title="This speech was cut from the timeline">
+                                            Cut
+                                        </span>
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                                        onClick={() => onRemoveCaption(caption.id)}
+                                        title="Delete caption"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                                <Input
+                                    value={caption.text}
+                                    onChange={(e) => onUpdateCaption(caption.id, { text: e.target.value, words: undefined })}
+                                    className="h-7 text-xs"
+                                />
+                            </div>
+                        )
+                    })
+                )}
+            </div>
+        </div>
+    )
+}
@@ -19,11 +19,13 @@ import {
     Unlock
 } from 'lucide-react'
 import { Clip } from '@/hooks/useClips'
+import { MediaAsset, createMediaAssetFromFile } from '@/lib/videoEditor/mediaAssets'
 
 interface ClipManagerProps {
     onAddClip: (clip: Clip) => void
     onRemoveClip: (clipId: string) => void
     onUpdateClip: (clipId: string, updates: Partial<Clip>) => void
+    onRegisterMediaAsset?: (asset: MediaAsset) => void
     clips: Clip[]
 }
 
@@ -31,6 +33,7 @@ export default function ClipManager({
     onAddClip,
     onRemoveClip,
     onUpdateClip,
+    onRegisterMediaAsset,
     clips
 }: ClipManagerProps) {
     const [selectedClips, setSelectedClips] = useState<string[]>([])
@@ -44,31 +47,37 @@ export default function ClipManager({
         return Array.from({ length: samples }, () => Math.random() * 0.8 + 0.1)
     }
 
-    // Handle file upload
-    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Handle file upload: register each file as a media asset and add a clip playing all of it
+    const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files
         if (!files) return
 
-        Array.from(files).forEach((file) => {
-            const duration = file.type.startsWith('video/') ? 30 :
-                file.type.startsWith('audio/') ? 60 : 5
+        for (const file of Array.from(files)) {
+            const asset = await createMediaAssetFromFile(file)
+            if (!asset) continue
+            onRegisterMediaAsset?.(asset)
+
+            // Fall back to the old guesses when the browser cannot read the length
+            const duration = asset.duration || (asset.type === 'video' ? 30 : asset.type === 'audio' ? 60 : 5)
             const clip: Clip = {
                 id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                type: file.type.startsWith('video/') ? 'video' :
-                    file.type.startsWith('audio/') ? 'audio' : 'effect',
+                type: asset.type === 'video' ? 'video' :
+                    asset.type === 'audio' ? 'audio' : 'effect',
                 name: file.name,
                 startTime: 0,
                 endTime: duration,
-                trackId: file.type.startsWith('video/') ? 'video-1' : 'audio-1',
-                thumbnail: file.type.startsWith('video/') ?
-                    URL.createObjectURL(file) : undefined,
-                waveform: file.type.startsWith('audio/') ?
+                sourceId: asset.id,
+                sourceIn: 0,
+                sourceOut: duration,
+                trackId: asset.type === 'video' ? 'video-1' : 'audio-1',
+                thumbnail: asset.thumbnail,
+                waveform: asset.type === 'audio' ?
                     generateWaveform(60) : undefined,
-                color: file.type.startsWith('video/') ? '#3b82f6' :
-                    file.type.startsWith('audio/') ? '#10b981' : '#f59e0b'
+                color: asset.type === 'video' ? '#3b82f6' :
+                    asset.type === 'audio' ? '#10b981' : '#f59e0b'
             }
             onAddClip(clip)
-        })
+        }
     }
 
     // Handle drag start
@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { CursorSettings, CursorTrack, drawCursor } from '@/lib/videoEditor/cursorTracking'
+
+interface CursorLayerProps {
+    track: CursorTrack
+    settings: CursorSettings
+    videoRef: React.RefObject<HTMLVideoElement | null>
+}
+
+// Draws the recorded cursor over the player with the exporter's renderer. The
+// track is timed against the recording, so this follows the player's video
+// rather than the timeline, both while playing and after seeking.
+export default function CursorLayer({ track, settings, videoRef }: CursorLayerProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const [size, setSize] = useState({ width: 0, height: 0 })
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas) return
+
+        const observer = new ResizeObserver(([entry]) => {
+            const ratio = window.devicePixelRatio || 1
+            setSize({
+                width: Math.round(entry.contentRect.width * ratio),
+                height: Math.round(entry.contentRect.height * ratio)
+            })
+        })
+        observer.observe(canvas)
+        return () => observer.disconnect()
+    }, [])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (!canvas || !ctx || size.width === 0 || size.height === 0) return
+
+        canvas.width = size.width
+        canvas.height = size.height
+        let frameId = 0
+        let drawnTime: number | null = null
+
+        const draw = () => {
+            frameId = requestAnimationFrame(draw)
+
+            const time = videoRef.current?.currentTime ?? 0
+            if (time === drawnTime) return
+
+            drawnTime = time
+            ctx.clearRect(0, 0, size.width, size.height)
+            drawCursor(ctx, track, settings, time, { x: 0, y: 0, width: size.width, height: size.height })
+        }
+
+        frameId = requestAnimationFrame(draw)
+        return () => cancelAnimationFrame(frameId)
+    }, [track, settings, size, videoRef])
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { useRef } from 'react'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Download, MousePointer, MousePointerClick, Trash2, Upload } from 'lucide-react'
+import {
+    CURSOR_TRACK_FILE_EXTENSION,
+    CursorSettings,
+    CursorTrack,
+    CursorTrackFileError,
+    createCursorTrackFile,
+    parseCursorTrackFile
+} from '@/lib/videoEditor/cursorTracking'
+import { downloadBlob } from '@/lib/videoExporter'
+
+interface CursorPanelProps {
+    cursorTrack: CursorTrack | null
+    cursorSettings: CursorSettings
+    onCursorTrackChange: (track: CursorTrack | null) => void
+    onCursorSettingsChange: (settings: Partial<CursorSettings>) => void
+}
+
+export default function CursorPanel({
+    cursorTrack,
+    cursorSettings,
+    onCursorTrackChange,
+    onCursorSettingsChange
+}: CursorPanelProps) {
+    const importInputRef = useRef<HTMLInputElement>(null)
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        try {
+            const track = parseCursorTrackFile(await file.text())
+            onCursorTrackChange(track)
+            toast.success(`Imported ${track.samples.length} cursor positions`)
+        } catch (error) {
+            if (error instanceof CursorTrackFileError) {
+                toast.error(error.message)
+            } else {
+                console.error('Failed to import cursor track:', error)
+                toast.error('Failed to import cursor track')
+            }
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Track */}
+            <div className="bg-gray-700 rounded-lg p-3 space-y-2">
+                {cursorTrack ? (
+                    <p className="text-xs text-gray-300">
+                        {cursorTrack.samples.length} positions and {cursorTrack.clicks.length} clicks recorded
+                    </p>
+                ) : (
+                    <p className="text-xs text-gray-400">
+                        No cursor track. Turn on cursor tracking before recording this tab, or import a track.
+                    </p>
+                )}
+                <div className="flex gap-1">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => importInputRef.current?.click()}
+                        className="flex-1 text-xs h-7"
+                    >
+                        <Upload className="h-3 w-3 mr-1" />
+                        Import
+                    </Button>
+                    {cursorTrack && (
+                        <>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => downloadBlob(createCursorTrackFile(cursorTrack), `recording${CURSOR_TRACK_FILE_EXTENSION}`)}
+                                className="text-xs h-7 px-2"
+                                title="Export cursor track"
+                            >
+                                <Download className="h-3 w-3" />
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => onCursorTrackChange(null)}
+                                className="text-xs h-7 px-2 hover:text-red-400"
+                                title="Remove cursor track"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </>
+                    )}
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleImport}
+                    />
+                </div>
+            </div>
+
+            {/* Cursor */}
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <MousePointer className="h-4 w-4" />
+                        <h4 className="text-sm font-medium">Cursor</h4>
+                    </div>
+                    <Button
+                        size="sm"
+                        variant={cursorSettings.visible ? 'default' : 'outline'}
+                        onClick={() => onCursorSettingsChange({ visible: !cursorSettings.visible })}
+                        className="text-xs h-7"
+                    >
+                        {cursorSettings.visible ? 'Visible' : 'Hidden'}
+                    </Button>
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Size: {cursorSettings.size.toFixed(1)}x</Label>
+                    <Slider
+                        value={[cursorSettings.size]}
+                        onValueChange={(value) => onCursorSettingsChange({ size: value[0] })}
+                        min={0.5}
+                        max={4}
+                        step={0.1}
+                        className="mt-2"
+                    />
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Smoothing: {Math.round(cursorSettings.smoothing * 100)}%</Label>
+                    <Slider
+                        value={[Math.round(cursorSettings.smoothing * 100)]}
+                        onValueChange={(value) => onCursorSettingsChange({ smoothing: value[0] / 100 })}
+                        max={100}
+                        step={5}
+                        className="mt-2"
+                    />
+                </div>
+
+                <div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={cursorSettings.hideWhenIdle}
+                            onChange={(e) => onCursorSettingsChange({ hideWhenIdle: e.target.checked })}
+                        />
+                        Hide when idle
+                    </label>
+                    {cursorSettings.hideWhenIdle && (
+                        <div className="mt-2">
+                            <Label className="text-xs text-gray-400">After {cursorSettings.idleTimeout.toFixed(1)}s without moving</Label>
+                            <Slider
+                                value={[cursorSettings.idleTimeout]}
+                                onValueChange={(value) => onCursorSettingsChange({ idleTimeout: value[0] })}
+                                min={0.5}
+                                max={10}
+                                step={0.5}
+                                className="mt-2"
+                            />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Clicks */}
+            <div className="space-y-3 border-t border-gray-700 pt-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <MousePointerClick className="h-4 w-4" />
+                        <h4 className="text-sm font-medium">Click highlights</h4>
+                    </div>
+                    <Button
+                        size="sm"
+                        variant={cursorSettings.clickEffects ? 'default' : 'outline'}
+                        onClick={() => onCursorSettingsChange({ clickEffects: !cursorSettings.clickEffects })}
+                        className="text-xs h-7"
+                    >
+                        {cursorSettings.clickEffects ? 'On' : 'Off'}
+                    </Button>
+                </div>
+                {cursorSettings.clickEffects && (
+                    <div>
+                        <Label className="text-xs text-gray-400">Ripple color</Label>
+                        <input
+                            type="color"
+                            value={cursorSettings.clickColor}
+                            onChange={(e) => onCursorSettingsChange({ clickColor: e.target.value })}
+                            className="mt-1 w-full h-7 rounded cursor-pointer bg-transparent"
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -2,21 +2,37 @@
 
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { X, Download, Loader2, Check, AlertCircle } from 'lucide-react'
+import { X, Check, ListPlus, Captions } from 'lucide-react'
+import { useFFmpegStatus } from '@/hooks/useFFmpegStatus'
+import { AspectRatioTemplate, getPublishTemplates } from '@/lib/templates/aspectRatioTemplates'
+import { REFRAME_MODES, ReframeMode } from '@/lib/videoEditor/reframing'
 
 interface ExportDialogProps {
     isOpen: boolean
     onClose: () => void
-    onExport: (options: ExportOptions, onProgress: (progress: number) => void) => Promise<void>
+    // Queue an export; it renders in the background and shows in the export jobs panel
+    onExport: (options: ExportOptions) => void
+    // Queue one export per platform template, reframed to each template's shape
+    onPublishPack?: (options: ExportOptions, templates: AspectRatioTemplate[], reframe: ReframeMode) => void
     duration: number
+    // Offer caption burn-in and sidecar files when the edit has captions
+    hasCaptions?: boolean
+    onDownloadCaptions?: (format: CaptionFileFormat) => void
+    // Offer to leave out the brand kit's logo and watermark when there are any
+    hasBranding?: boolean
 }
 
+export type CaptionFileFormat = 'srt' | 'vtt'
+
 export interface ExportOptions {
     resolution: '4k' | '1080p' | '720p' | '480p' | 'original'
     format: 'mp4' | 'webm'
     quality: 'high' | 'medium' | 'low'
     fps: 30 | 60
     includeWebcam: boolean
+    includeAudio: boolean
+    burnCaptions: boolean
+    includeBranding: boolean
 }
 
 const resolutionDetails = {
@@ -27,80 +43,58 @@ const resolutionDetails = {
     'original': { width: 0, height: 0, label: 'Original', size: 'Varies' }
 }
 
-export default function ExportDialog({ isOpen, onClose, onExport, duration }: ExportDialogProps) {
+const publishTemplates = getPublishTemplates()
+const DEFAULT_PACK_TEMPLATE_IDS = ['youtube-standard', 'tiktok-vertical', 'instagram-square']
+
+export default function ExportDialog({
+    isOpen,
+    onClose,
+    onExport,
+    onPublishPack,
+    duration,
+    hasCaptions = false,
+    onDownloadCaptions,
+    hasBranding = false
+}: ExportDialogProps) {
     const [resolution, setResolution] = useState<ExportOptions['resolution']>('1080p')
     const [format, setFormat] = useState<ExportOptions['format']>('mp4')
     const [quality, setQuality] = useState<ExportOptions['quality']>('high')
     const [fps, setFps] = useState<ExportOptions['fps']>(30)
     const [includeWebcam, setIncludeWebcam] = useState(true)
-    const [isExporting, setIsExporting] = useState(false)
-    const [exportProgress, setExportProgress] = useState(0)
-    const [exportStatus, setExportStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle')
-    const [exportStage, setExportStage] = useState<string>('Initializing...')
+    const [includeAudio, setIncludeAudio] = useState(true)
+    const [burnCaptions, setBurnCaptions] = useState(true)
+    const [includeBranding, setIncludeBranding] = useState(true)
+    const [mode, setMode] = useState<'single' | 'publish-pack'>('single')
+    const [packTemplateIds, setPackTemplateIds] = useState<string[]>(DEFAULT_PACK_TEMPLATE_IDS)
+    const [reframe, setReframe] = useState<ReframeMode>('blur-fill')
+    const ffmpeg = useFFmpegStatus()
 
     if (!isOpen) return null
 
-    const handleExport = async () => {
-        setIsExporting(true)
-        setExportStatus('processing')
-        setExportProgress(0)
-        setExportStage('Initializing...')
-
-        try {
-            await onExport(
-                {
-                    resolution,
-                    format,
-                    quality,
-                    fps,
-                    includeWebcam
-                },
-                (progress) => {
-                    // Update progress from the exporter (0-1 range)
-                    const percentage = Math.round(progress * 100)
-                    setExportProgress(percentage)
-                    
-                    // Update stage message based on progress
-                    if (percentage < 15) {
-                        setExportStage('Loading video files...')
-                    } else if (percentage < 30) {
-                        setExportStage('Preparing export...')
-                    } else if (percentage < 50) {
-                        setExportStage('Rendering frames...')
-                    } else if (percentage < 80) {
-                        setExportStage('Processing video...')
-                    } else if (percentage < 85) {
-                        setExportStage('Encoding video...')
-                    } else if (percentage < 98) {
-                        setExportStage(format === 'mp4' ? 'Converting to MP4...' : 'Finalizing export...')
-                    } else {
-                        setExportStage('Finalizing export...')
-                    }
-                }
-            )
+    const isPublishPack = mode === 'publish-pack' && !!onPublishPack
+    const packTemplates = publishTemplates.filter(template => packTemplateIds.includes(template.id))
 
-            setExportProgress(100)
-            setExportStage('Export complete!')
-            setExportStatus('success')
-
-            // Auto close after success
-            setTimeout(() => {
-                onClose()
-                resetState()
-            }, 2000)
-        } catch (error) {
-            console.error('Export failed:', error)
-            setExportStatus('error')
-            setExportStage('Export failed')
-        } finally {
-            setIsExporting(false)
+    const handleExport = () => {
+        const options: ExportOptions = {
+            resolution,
+            format,
+            quality,
+            fps,
+            includeWebcam,
+            includeAudio,
+            burnCaptions: hasCaptions && burnCaptions,
+            includeBranding: hasBranding && includeBranding
+        }
+        if (isPublishPack) {
+            onPublishPack(options, packTemplates, reframe)
+        } else {
+            onExport(options)
         }
+        onClose()
     }
 
-    const resetState = () => {
-        setExportProgress(0)
-        setExportStatus('idle')
-        setExportStage('Initializing...')
+    const togglePackTemplate = (templateId: string) => {
+        setPackTemplateIds(ids => ids.includes(templateId) ? ids.filter(id => id !== templateId) : [...ids, templateId])
     }
 
     const estimatedSize = () => {
@@ -129,16 +123,6 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
 
     return (
         <>
-            <style jsx>{`
-                @keyframes gradient {
-                    0% { background-position: 0% 50%; }
-                    50% { background-position: 100% 50%; }
-                    100% { background-position: 0% 50%; }
-                }
-                .animate-gradient {
-                    animation: gradient 2s ease infinite;
-                }
-            `}</style>
             <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[100] animate-in fade-in duration-200">
                 <div className="bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 w-full max-w-2xl mx-4 overflow-hidden animate-in zoom-in-95 duration-200">
                 {/* Header */}
@@ -146,14 +130,15 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                     <div>
                         <h2 className="text-xl font-bold text-white">Export Video</h2>
                         <p className="text-sm text-purple-100 mt-0.5">
-                            Duration: {formatTime(duration)} • Format: {format.toUpperCase()} • Est. size: {estimatedSize()}
+                            Duration: {formatTime(duration)} • Format: {format.toUpperCase()} • {isPublishPack
+                                ? `${packTemplates.length} platform${packTemplates.length === 1 ? '' : 's'}`
+                                : `Est. size: ${estimatedSize()}`}
                         </p>
                     </div>
                     <Button
                         variant="ghost"
                         size="sm"
                         onClick={onClose}
-                        disabled={isExporting}
                         className="text-white hover:bg-white/20 h-8 w-8 p-0 rounded-full"
                     >
                         <X className="h-4 w-4" />
@@ -162,39 +147,136 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
 
                 {/* Content */}
                 <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
-                    {/* Resolution Selection */}
-                    <div>
-                        <label className="text-sm font-semibold text-gray-300 mb-3 block">
-                            Resolution
-                        </label>
-                        <div className="grid grid-cols-2 gap-3">
-                            {Object.entries(resolutionDetails).map(([key, details]) => (
+                    {/* Single export or publish pack */}
+                    {onPublishPack && (
+                        <div className="grid grid-cols-2 gap-2 p-1 bg-gray-900/50 rounded-lg">
+                            {([['single', 'Single Export'], ['publish-pack', 'Publish Pack']] as const).map(([id, label]) => (
                                 <button
-                                    key={key}
-                                    onClick={() => setResolution(key as ExportOptions['resolution'])}
-                                    disabled={isExporting}
-                                    className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
-                                        resolution === key
-                                            ? 'border-purple-500 bg-purple-500/20 shadow-lg shadow-purple-500/20'
-                                            : 'border-gray-700 bg-gray-900/50 hover:border-gray-600 hover:bg-gray-900'
-                                    } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                    key={id}
+                                    onClick={() => setMode(id)}
+                                    className={`py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+                                        mode === id ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'
+                                    }`}
                                 >
-                                    <div className="flex items-start justify-between mb-1">
-                                        <span className="font-semibold text-white">{details.label}</span>
-                                        {resolution === key && (
-                                            <Check className="h-4 w-4 text-purple-400" />
-                                        )}
-                                    </div>
-                                    <div className="text-xs text-gray-400">
-                                        {key !== 'original' && `${details.width} × ${details.height}`}
-                                    </div>
-                                    <div className="text-xs text-gray-500 mt-1">
-                                        Size: {details.size}
-                                    </div>
+                                    {label}
                                 </button>
                             ))}
                         </div>
-                    </div>
+                    )}
+
+                    {isPublishPack && (
+                        <>
+                            {/* Platforms */}
+                            <div>
+                                <label className="text-sm font-semibold text-gray-300 mb-3 block">
+                                    Platforms
+                                </label>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {publishTemplates.map(template => {
+                                        const selected = packTemplateIds.includes(template.id)
+                                        const maxDuration = template.limits?.maxDuration
+                                        const maxBitrate = template.limits?.maxVideoBitrate
+                                        return (
+                                            <button
+                                                key={template.id}
+                                                onClick={() => togglePackTemplate(template.id)}
+                                                className={`p-3 rounded-xl border-2 transition-all duration-200 text-left ${
+                                                    selected
+                                                        ? 'border-purple-500 bg-purple-500/20'
+                                                        : 'border-gray-700 bg-gray-900/50 hover:border-gray-600 hover:bg-gray-900'
+                                                } cursor-pointer`}
+                                            >
+                                                <div className="flex items-start justify-between mb-1">
+                                                    <span className="font-semibold text-white">{template.icon} {template.name}</span>
+                                                    {selected && (
+                                                        <Check className="h-4 w-4 text-purple-400" />
+                                                    )}
+                                                </div>
+                                                <div className="text-xs text-gray-400">
+                                                    {template.ratio} • {template.width} × {template.height}
+                                                </div>
+                                                <div className="text-xs text-gray-500 mt-1">
+                                                    {maxDuration && `Up to ${formatTime(maxDuration)}`}
+                                                    {maxDuration && maxBitrate && ' • '}
+                                                    {maxBitrate && `${maxBitrate / 1000000} Mbps`}
+                                                </div>
+                                                {maxDuration && duration > maxDuration && (
+                                                    <div className="text-xs text-yellow-300 mt-1">
+                                                        ⚠️ Cut to the first {formatTime(maxDuration)}
+                                                    </div>
+                                                )}
+                                            </button>
+                                        )
+                                    })}
+                                </div>
+                            </div>
+
+                            {/* Reframing */}
+                            <div>
+                                <label className="text-sm font-semibold text-gray-300 mb-3 block">
+                                    Reframing
+                                </label>
+                                <div className="grid grid-cols-3 gap-3">
+                                    {REFRAME_MODES.map(reframeMode => (
+                                        <button
+                                            key={reframeMode.id}
+                                            onClick={() => setReframe(reframeMode.id)}
+                                            className={`p-3 rounded-lg border-2 transition-all duration-200 text-left ${
+                                                reframe === reframeMode.id
+                                                    ? 'border-purple-500 bg-purple-500/20'
+                                                    : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
+                                            } cursor-pointer`}
+                                        >
+                                            <div className="flex items-center justify-between">
+                                                <span className="text-white font-medium">{reframeMode.label}</span>
+                                                {reframe === reframeMode.id && (
+                                                    <Check className="h-4 w-4 text-purple-400" />
+                                                )}
+                                            </div>
+                                            <div className="text-xs text-gray-400 mt-1">
+                                                {reframeMode.description}
+                                            </div>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {/* Resolution Selection */}
+                    {!isPublishPack && (
+                        <div>
+                            <label className="text-sm font-semibold text-gray-300 mb-3 block">
+                                Resolution
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                {Object.entries(resolutionDetails).map(([key, details]) => (
+                                    <button
+                                        key={key}
+                                        onClick={() => setResolution(key as ExportOptions['resolution'])}
+                                        className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
+                                            resolution === key
+                                                ? 'border-purple-500 bg-purple-500/20 shadow-lg shadow-purple-500/20'
+                                                : 'border-gray-700 bg-gray-900/50 hover:border-gray-600 hover:bg-gray-900'
+                                        } cursor-pointer`}
+                                    >
+                                        <div className="flex items-start justify-between mb-1">
+                                            <span className="font-semibold text-white">{details.label}</span>
+                                            {resolution === key && (
+                                                <Check className="h-4 w-4 text-purple-400" />
+                                            )}
+                                        </div>
+                                        <div className="text-xs text-gray-400">
+                                            {key !== 'original' && `${details.width} × ${details.height}`}
+                                        </div>
+                                        <div className="text-xs text-gray-500 mt-1">
+                                            Size: {details.size}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
 
                     {/* Format & Quality */}
                     <div className="grid grid-cols-2 gap-4">
@@ -205,12 +287,11 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                             <div className="space-y-2">
                                 <button
                                     onClick={() => setFormat('mp4')}
-                                    disabled={isExporting}
                                     className={`w-full p-3 rounded-lg border-2 transition-all duration-200 text-left ${
                                         format === 'mp4'
                                             ? 'border-purple-500 bg-purple-500/20'
                                             : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
-                                    } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                    } cursor-pointer`}
                                 >
                                     <div className="flex items-center justify-between">
                                         <div className="flex items-center gap-2">
@@ -230,12 +311,11 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                                 
                                 <button
                                     onClick={() => setFormat('webm')}
-                                    disabled={isExporting}
                                     className={`w-full p-3 rounded-lg border-2 transition-all duration-200 text-left ${
                                         format === 'webm'
                                             ? 'border-purple-500 bg-purple-500/20'
                                             : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
-                                    } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                    } cursor-pointer`}
                                 >
                                     <div className="flex items-center justify-between">
                                         <div className="flex items-center gap-2">
@@ -250,11 +330,26 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                                     </div>
                                 </button>
                             </div>
-                            {format === 'mp4' && (
+                            {format === 'mp4' && ffmpeg.status !== 'unavailable' && (
                                 <div className="mt-2 p-2 bg-blue-500/10 border border-blue-500/30 rounded-lg">
                                     <p className="text-xs text-blue-300">
                                         ℹ️ MP4 conversion adds ~10-15 seconds to export time
                                     </p>
+                                    <p className="text-[10px] text-blue-300/70 mt-1">
+                                        {ffmpeg.status === 'ready' && `Encoder ready (${ffmpeg.multiThreaded ? 'multi-threaded' : 'single-threaded'})`}
+                                        {ffmpeg.status === 'loading' && 'Loading encoder...'}
+                                        {(ffmpeg.status === 'available' || ffmpeg.status === 'unknown') && 'Encoder loads when the export starts'}
+                                    </p>
+                                </div>
+                            )}
+                            {format === 'mp4' && ffmpeg.status === 'unavailable' && (
+                                <div className="mt-2 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                                    <p className="text-xs text-yellow-300">
+                                        ⚠️ The MP4 encoder is unavailable, so this export will be WebM
+                                    </p>
+                                    {ffmpeg.error && (
+                                        <p className="text-[10px] text-yellow-300/70 mt-1">{ffmpeg.error}</p>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -268,12 +363,11 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                                     <button
                                         key={qual}
                                         onClick={() => setQuality(qual)}
-                                        disabled={isExporting}
                                         className={`w-full p-3 rounded-lg border-2 transition-all duration-200 text-left ${
                                             quality === qual
                                                 ? 'border-purple-500 bg-purple-500/20'
                                                 : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
-                                        } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                        } cursor-pointer`}
                                     >
                                         <div className="flex items-center justify-between">
                                             <span className="text-white font-medium capitalize">{qual}</span>
@@ -297,12 +391,11 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                                 <button
                                     key={fpsValue}
                                     onClick={() => setFps(fpsValue)}
-                                    disabled={isExporting}
                                     className={`p-3 rounded-lg border-2 transition-all duration-200 ${
                                         fps === fpsValue
                                             ? 'border-purple-500 bg-purple-500/20'
                                             : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
-                                    } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                    } cursor-pointer`}
                                 >
                                     <div className="flex items-center justify-between">
                                         <span className="text-white font-semibold">{fpsValue} FPS</span>
@@ -325,12 +418,11 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                         </label>
                         <button
                             onClick={() => setIncludeWebcam(!includeWebcam)}
-                            disabled={isExporting}
                             className={`w-full p-4 rounded-lg border-2 transition-all duration-200 text-left ${
                                 includeWebcam
                                     ? 'border-purple-500 bg-purple-500/20'
                                     : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
-                            } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                            } cursor-pointer`}
                         >
                             <div className="flex items-center justify-between">
                                 <div>
@@ -348,58 +440,110 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                                 </div>
                             </div>
                         </button>
-                    </div>
 
-                    {/* Progress Bar */}
-                    {isExporting && (
-                        <div className="space-y-3 p-4 bg-gray-900/50 rounded-xl border border-gray-700">
-                            <div className="flex items-center justify-between text-sm">
-                                <div className="flex items-center gap-2">
-                                    {exportStatus === 'processing' && (
-                                        <Loader2 className="h-4 w-4 text-purple-400 animate-spin" />
-                                    )}
-                                    {exportStatus === 'success' && (
-                                        <Check className="h-4 w-4 text-green-400" />
-                                    )}
-                                    {exportStatus === 'error' && (
-                                        <AlertCircle className="h-4 w-4 text-red-400" />
-                                    )}
-                                    <span className="text-gray-300 font-medium">
-                                        {exportStage}
-                                    </span>
+                        <button
+                            onClick={() => setIncludeAudio(!includeAudio)}
+                            className={`w-full mt-3 p-4 rounded-lg border-2 transition-all duration-200 text-left ${
+                                includeAudio
+                                    ? 'border-purple-500 bg-purple-500/20'
+                                    : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
+                            } cursor-pointer`}
+                        >
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <span className="text-white font-medium">Include Audio</span>
+                                    <div className="text-xs text-gray-400 mt-1">
+                                        Export the narration and music with the video
+                                    </div>
+                                </div>
+                                <div className={`w-12 h-6 rounded-full transition-colors duration-200 ${
+                                    includeAudio ? 'bg-purple-500' : 'bg-gray-600'
+                                }`}>
+                                    <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-200 mt-0.5 ${
+                                        includeAudio ? 'translate-x-6 ml-0.5' : 'translate-x-0.5'
+                                    }`} />
                                 </div>
-                                <span className="text-purple-400 font-bold text-lg">{exportProgress}%</span>
-                            </div>
-                            <div className="h-3 bg-gray-700 rounded-full overflow-hidden shadow-inner">
-                                <div
-                                    className={`h-full transition-all duration-300 ease-out ${
-                                        exportStatus === 'success' ? 'bg-gradient-to-r from-green-500 to-emerald-500' :
-                                        exportStatus === 'error' ? 'bg-gradient-to-r from-red-500 to-rose-500' :
-                                        'bg-gradient-to-r from-purple-500 via-blue-500 to-purple-500 bg-[length:200%_100%] animate-gradient'
-                                    }`}
-                                    style={{ width: `${exportProgress}%` }}
-                                />
                             </div>
-                            {exportStatus === 'processing' && (
-                                <div className="text-xs text-gray-400 text-center">
-                                    Please wait, this may take a few moments...
+                        </button>
+
+                        {hasCaptions && (
+                            <button
+                                onClick={() => setBurnCaptions(!burnCaptions)}
+                                className={`w-full mt-3 p-4 rounded-lg border-2 transition-all duration-200 text-left ${
+                                    burnCaptions
+                                        ? 'border-purple-500 bg-purple-500/20'
+                                        : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
+                                } cursor-pointer`}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <span className="text-white font-medium">Burn In Captions</span>
+                                        <div className="text-xs text-gray-400 mt-1">
+                                            Draw captions into the video frames
+                                        </div>
+                                    </div>
+                                    <div className={`w-12 h-6 rounded-full transition-colors duration-200 ${
+                                        burnCaptions ? 'bg-purple-500' : 'bg-gray-600'
+                                    }`}>
+                                        <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-200 mt-0.5 ${
+                                            burnCaptions ? 'translate-x-6 ml-0.5' : 'translate-x-0.5'
+                                        }`} />
+                                    </div>
                                 </div>
-                            )}
-                        </div>
-                    )}
+                            </button>
+                        )}
 
-                    {/* Status Messages */}
-                    {exportStatus === 'success' && (
-                        <div className="flex items-center gap-2 p-3 bg-green-500/20 border border-green-500/50 rounded-lg">
-                            <Check className="h-5 w-5 text-green-400" />
-                            <span className="text-sm text-green-300">Video exported successfully!</span>
-                        </div>
-                    )}
+                        {hasBranding && (
+                            <button
+                                onClick={() => setIncludeBranding(!includeBranding)}
+                                className={`w-full mt-3 p-4 rounded-lg border-2 transition-all duration-200 text-left ${
+                                    includeBranding
+                                        ? 'border-purple-500 bg-purple-500/20'
+                                        : 'border-gray-700 bg-gray-900/50 hover:border-gray-600'
+                                } cursor-pointer`}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <span className="text-white font-medium">Include Logo & Watermark</span>
+                                        <div className="text-xs text-gray-400 mt-1">
+                                            Draw the brand kit&apos;s logo and watermark into the video
+                                        </div>
+                                    </div>
+                                    <div className={`w-12 h-6 rounded-full transition-colors duration-200 ${
+                                        includeBranding ? 'bg-purple-500' : 'bg-gray-600'
+                                    }`}>
+                                        <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-200 mt-0.5 ${
+                                            includeBranding ? 'translate-x-6 ml-0.5' : 'translate-x-0.5'
+                                        }`} />
+                                    </div>
+                                </div>
+                            </button>
+                        )}
+                    </div>
 
-                    {exportStatus === 'error' && (
-                        <div className="flex items-center gap-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
-                            <AlertCircle className="h-5 w-5 text-red-400" />
-                            <span className="text-sm text-red-300">Export failed. Please try again.</span>
+                    {/* Caption Files */}
+                    {hasCaptions && onDownloadCaptions && (
+                        <div>
+                            <label className="text-sm font-semibold text-gray-300 mb-3 block">
+                                Caption Files
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                {([['srt', 'SubRip (.srt)'], ['vtt', 'WebVTT (.vtt)']] as const).map(([captionFormat, label]) => (
+                                    <button
+                                        key={captionFormat}
+                                        onClick={() => onDownloadCaptions(captionFormat)}
+                                        className={`p-3 rounded-lg border-2 border-gray-700 bg-gray-900/50 hover:border-gray-600 transition-all duration-200 text-left cursor-pointer`}
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <Captions className="h-4 w-4 text-purple-400" />
+                                            <span className="text-white font-medium">{label}</span>
+                                        </div>
+                                        <div className="text-xs text-gray-400 mt-1">
+                                            Timed to the exported video
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
                         </div>
                     )}
                 </div>
@@ -413,32 +557,17 @@ export default function ExportDialog({ isOpen, onClose, onExport, duration }: Ex
                         <Button
                             variant="ghost"
                             onClick={onClose}
-                            disabled={isExporting}
                             className="text-gray-300 hover:text-white hover:bg-gray-700"
                         >
                             Cancel
                         </Button>
                         <Button
                             onClick={handleExport}
-                            disabled={isExporting || exportStatus === 'success'}
+                            disabled={isPublishPack && packTemplates.length === 0}
                             className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-lg hover:shadow-purple-500/50 transition-all duration-200"
                         >
-                            {isExporting ? (
-                                <>
-                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                    Exporting...
-                                </>
-                            ) : exportStatus === 'success' ? (
-                                <>
-                                    <Check className="h-4 w-4 mr-2" />
-                                    Exported
-                                </>
-                            ) : (
-                                <>
-                                    <Download className="h-4 w-4 mr-2" />
-                                    Export Video
-                                </>
-                            )}
+                            <ListPlus className="h-4 w-4 mr-2" />
+                            {isPublishPack ? `Add ${packTemplates.length} to Export Queue` : 'Add to Export Queue'}
                         </Button>
                     </div>
                 </div>
@@ -0,0 +1,145 @@
+'use client'
+
+import { Button } from './ui/button'
+import { AlertCircle, Check, Download, Loader2, RotateCcw, X } from 'lucide-react'
+import { useExportQueueStore } from '@/stores/exportQueueStore'
+import { EXPORT_STAGE_LABELS, ExportJob, isExportJobActive } from '@/lib/exportJobs'
+import { downloadBlob } from '@/lib/videoExporter'
+
+interface ExportJobsPanelProps {
+    // Hands a finished export back to the app, e.g. to save it as the edited video
+    onUseExport?: (blob: Blob) => void
+}
+
+const getStatusText = (job: ExportJob) => {
+    switch (job.status) {
+        case 'queued':
+            return 'Waiting in queue'
+        case 'running':
+            return `${job.stage ? EXPORT_STAGE_LABELS[job.stage] : 'Starting'}... ${Math.round(job.progress * 100)}%`
+        case 'done':
+            return 'Ready to download'
+        case 'failed':
+            return job.error ?? 'Export failed'
+        case 'cancelled':
+            return 'Cancelled'
+    }
+}
+
+const StatusIcon = ({ job }: { job: ExportJob }) => {
+    switch (job.status) {
+        case 'running':
+            return <Loader2 className="h-4 w-4 text-purple-400 animate-spin" />
+        case 'done':
+            return <Check className="h-4 w-4 text-green-400" />
+        case 'failed':
+            return <AlertCircle className="h-4 w-4 text-red-400" />
+        default:
+            return <div className="h-4 w-4 rounded-full border-2 border-gray-500" />
+    }
+}
+
+export default function ExportJobsPanel({ onUseExport }: ExportJobsPanelProps) {
+    const { jobs, cancelExport, retryExport, removeExport, clearFinishedExports } = useExportQueueStore()
+
+    if (jobs.length === 0) return null
+
+    const hasFinished = jobs.some(job => !isExportJobActive(job))
+
+    return (
+        <div className="fixed bottom-4 right-4 z-[90] w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+                <h3 className="text-sm font-semibold text-white">Exports</h3>
+                {hasFinished && (
+                    <button
+                        onClick={clearFinishedExports}
+                        className="text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        Clear finished
+                    </button>
+                )}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-700">
+                {jobs.map(job => (
+                    <div key={job.id} className="px-4 py-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <StatusIcon job={job} />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-white truncate">{job.name}</div>
+                                <div
+                                    className={`text-xs truncate ${job.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}
+                                    title={getStatusText(job)}
+                                >
+                                    {getStatusText(job)}
+                                </div>
+                            </div>
+                            {isExportJobActive(job) ? (
+                                <button
+                                    onClick={() => cancelExport(job.id)}
+                                    className="p-1 text-gray-400 hover:text-white transition-colors"
+                                    title="Cancel export"
+                                >
+                                    <X className="h-4 w-4" />
+                                </button>
+                            ) : (
+                                <>
+                                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                                        <button
+                                            onClick={() => retryExport(job.id)}
+                                            className="p-1 text-gray-400 hover:text-white transition-colors"
+                                            title="Retry export"
+                                        >
+                                            <RotateCcw className="h-4 w-4" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => removeExport(job.id)}
+                                        className="p-1 text-gray-400 hover:text-white transition-colors"
+                                        title="Remove from list"
+                                    >
+                                        <X className="h-4 w-4" />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+
+                        {job.status === 'running' && (
+                            <div className="w-full bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                                <div
+                                    className="bg-purple-600 h-full transition-all duration-300"
+                                    style={{ width: `${job.progress * 100}%` }}
+                                />
+                            </div>
+                        )}
+
+                        {job.output && (
+                            <div className="flex gap-2">
+                                <Button
+                                    size="sm"
+                                    className="flex-1 h-7 text-xs bg-purple-600 hover:bg-purple-700"
+                                    onClick={() => job.output && downloadBlob(job.output.blob, job.output.fileName)}
+                                >
+                                    <Download className="h-3 w-3 mr-1" />
+                                    Download
+                                </Button>
+                                {onUseExport && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="flex-1 h-7 text-xs"
+                                        onClick={() => job.output && onUseExport(job.output.blob)}
+                                        title="Save this export as the edited video"
+                                    >
+                                        <Check className="h-3 w-3 mr-1" />
+                                        Finish
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { Button } from './ui/button'
+import { History, Redo2, Undo2 } from 'lucide-react'
+import { EditorHistory, canRedo, canUndo } from '@/lib/videoEditor/editorHistory'
+
+interface HistoryPanelProps<T> {
+    history: EditorHistory<T>
+    onUndo: () => void
+    onRedo: () => void
+    onJumpToHistory: (index: number) => void
+}
+
+const formatEntryTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export default function HistoryPanel<T>({
+    history,
+    onUndo,
+    onRedo,
+    onJumpToHistory
+}: HistoryPanelProps<T>) {
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    onClick={onUndo}
+                    disabled={!canUndo(history)}
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 className="h-3 w-3 mr-1" />
+                    Undo
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    onClick={onRedo}
+                    disabled={!canRedo(history)}
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 className="h-3 w-3 mr-1" />
+                    Redo
+                </Button>
+            </div>
+
+            {history.entries.length <= 1 ? (
+                <div className="text-center py-6 text-gray-400">
+                    <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p className="text-xs">No edits yet</p>
+                </div>
+            ) : (
+                <div className="space-y-1">
+                    {history.entries.map((entry, index) => {
+                        const isCurrent = index === history.index
+                        const isUndone = index > history.index
+
+                        return (
+                            <button
+                                key={entry.id}
+                                className={`w-full flex items-center justify-between px-2 py-1.5 rounded text-left text-xs transition-colors ${isCurrent
+                                    ? 'bg-purple-600 text-white'
+                                    : isUndone
+                                        ? 'text-gray-500 hover:bg-gray-800'
+                                        : 'text-gray-300 hover:bg-gray-800'
+                                    }`}
+                                onClick={() => onJumpToHistory(index)}
+                            >
+                                <span className={isUndone ? 'line-through' : undefined}>{entry.label}</span>
+                                <span className="text-[10px] opacity-70">{formatEntryTime(entry.timestamp)}</span>
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -36,20 +36,46 @@ import {
     Move,
     Copy,
     Slice,
+    MoveHorizontal,
+    Type,
+    Image as ImageIcon,
 } from "lucide-react"
 import { Clip } from "@/hooks/useClips"
-
-interface Track {
-    id: string
-    name: string
-    type: "video" | "audio" | "effect" | "text"
-    muted: boolean
-    solo: boolean
-    locked: boolean
-    visible: boolean
-    height: number
-    color: string
-}
+import { MediaAsset } from "@/lib/videoEditor/mediaAssets"
+import { TimelineCaption } from "@/lib/videoEditor/captions"
+import { ProposedCut } from "@/lib/videoEditor/silenceRemoval"
+import { PlacedTransition, getMaxTransitionDuration, getResizedTransitionDuration } from "@/lib/videoEditor/clipTransitions"
+import { MIN_OVERLAY_DURATION, Overlay } from "@/lib/videoEditor/overlays"
+import { MIN_ZOOM_DURATION, ZoomSegment } from "@/lib/videoEditor/autoZoom"
+import { DEFAULT_TRACKS, Track, TrackType, createTrack, toggleSolo } from "@/lib/videoEditor/timelineTracks"
+import {
+    getAdjacentClips,
+    getClipResizeBounds,
+    getClipSourceIn,
+    getSlideRange,
+    slideClip,
+    slipClip,
+    splitClipAt,
+} from "@/lib/videoEditor/timelineComposition"
+
+// Row holding the captions; it is not a track clips can be placed on
+const CAPTIONS_ROW_ID = "captions"
+const CAPTIONS_COLOR = "#0ea5e9"
+// Row previewing cuts that have been proposed but not made yet
+const CUTS_ROW_ID = "proposed-cuts"
+const CUTS_COLOR = "#ef4444"
+// Row holding the transitions between clips, each centered on its cut
+const TRANSITIONS_ROW_ID = "transitions"
+const TRANSITIONS_COLOR = "#a855f7"
+// Row holding the text and image overlays
+const OVERLAYS_ROW_ID = "overlays"
+const OVERLAYS_COLOR = "#14b8a6"
+// Row holding the zooms on the recording
+const ZOOMS_ROW_ID = "zooms"
+const ZOOMS_COLOR = "#f59e0b"
+
+// Rows that hold timed items instead of clips
+const ITEM_ROW_IDS = [CAPTIONS_ROW_ID, CUTS_ROW_ID, TRANSITIONS_ROW_ID, OVERLAYS_ROW_ID, ZOOMS_ROW_ID]
 
 interface Marker {
     id: string
@@ -71,10 +97,33 @@ interface MultiTrackTimelineProps {
     onCrop: () => void
     onAspectRatioChange: (ratio: string) => void
     clips: Clip[]
+    mediaAssets: MediaAsset[]
     onUpdateClip: (clipId: string, updates: Partial<Clip>) => void
     onDeleteClip: (clipId: string) => void
     onDuplicateClip: (clipId: string) => void
     onAddClip: (clip: Clip) => void
+    onBeginHistoryTransaction?: (label: string) => void
+    onEndHistoryTransaction?: () => void
+    captions?: TimelineCaption[]
+    // Called with the new timeline range of a dragged or trimmed caption
+    onRetimeCaption?: (caption: TimelineCaption, start: number, end: number) => void
+    proposedCuts?: ProposedCut[]
+    transitions?: PlacedTransition[]
+    onResizeTransition?: (transitionId: string, duration: number) => void
+    onRemoveTransition?: (transitionId: string) => void
+    overlays?: Overlay[]
+    selectedOverlay?: string | null
+    onSelectOverlay?: (overlayId: string) => void
+    // Called with the new timeline range of a dragged or trimmed overlay
+    onRetimeOverlay?: (overlayId: string, startTime: number, endTime: number) => void
+    zoomSegments?: ZoomSegment[]
+    selectedZoomSegment?: string | null
+    onSelectZoomSegment?: (segmentId: string) => void
+    // Called with the new timeline range of a dragged or trimmed zoom
+    onRetimeZoomSegment?: (segmentId: string, startTime: number, endTime: number) => void
+    tracks?: Track[]
+    // Called with the whole new track list and the name of the edit
+    onTracksChange?: (tracks: Track[], label: string) => void
 }
 
 const MultiTrackTimeline = memo(function MultiTrackTimeline({
@@ -90,10 +139,29 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
     onCrop,
     onAspectRatioChange,
     clips,
+    mediaAssets,
     onAddClip,
     onUpdateClip,
     onDeleteClip,
     onDuplicateClip,
+    onBeginHistoryTransaction,
+    onEndHistoryTransaction,
+    captions = [],
+    onRetimeCaption,
+    proposedCuts = [],
+    transitions = [],
+    onResizeTransition,
+    onRemoveTransition,
+    overlays = [],
+    selectedOverlay = null,
+    onSelectOverlay,
+    onRetimeOverlay,
+    zoomSegments = [],
+    selectedZoomSegment = null,
+    onSelectZoomSegment,
+    onRetimeZoomSegment,
+    tracks = DEFAULT_TRACKS,
+    onTracksChange,
 }: MultiTrackTimelineProps) {
     const [zoom, setZoom] = useState(1)
     const [isSnapping, setIsSnapping] = useState(true)
@@ -125,41 +193,27 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
 
     const timelineState = useRef<TimelineState | null>(null)
 
-    const [tracks, setTracks] = useState<Track[]>([
-        {
-            id: "video-1",
-            name: "Video Track 1",
-            type: "video",
-            muted: false,
-            solo: false,
-            locked: false,
-            visible: true,
-            height: 60,
-            color: "#eab308",
-        },
-        {
-            id: "effect-1",
-            name: "Effect Track 1",
-            type: "effect",
-            muted: false,
-            solo: false,
-            locked: false,
-            visible: true,
-            height: 50,
-            color: "#a855f7",
-        },
-        {
-            id: "text-1",
-            name: "Text Track 1",
-            type: "text",
-            muted: false,
-            solo: false,
-            locked: false,
-            visible: true,
-            height: 40,
-            color: "#14b8a6",
+    // Group several clip edits into a single undo step
+    const runAsHistoryStep = useCallback(
+        (label: string, edit: () => void) => {
+            onBeginHistoryTransaction?.(label)
+            try {
+                edit()
+            } finally {
+                onEndHistoryTransaction?.()
+            }
         },
-    ])
+        [onBeginHistoryTransaction, onEndHistoryTransaction],
+    )
+
+    // Clip states when a slip/slide drag began; slip accumulates its own offset
+    // because the dragged clip itself never moves
+    const dragOriginRef = useRef<{ clipId: string; clips: Clip[]; slipOffset: number } | null>(null)
+
+    const getSourceDuration = useCallback(
+        (clip: Clip) => mediaAssets.find((asset) => asset.id === clip.sourceId)?.duration ?? 0,
+        [mediaAssets],
+    )
 
     // Removed editorData state - using timelineData directly
 
@@ -213,29 +267,22 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
             return
         }
 
-        clipsAtPlayhead.forEach((clip) => {
-            // Create two new clips from the split
-            const leftClip: Clip = {
-                ...clip,
-                id: `${clip.id}-left-${Date.now()}`,
-                endTime: currentTime,
-            }
-            const rightClip: Clip = {
-                ...clip,
-                id: `${clip.id}-right-${Date.now()}`,
-                startTime: currentTime,
-            }
+        runAsHistoryStep("Split clip", () => {
+            clipsAtPlayhead.forEach((clip) => {
+                // Create two new clips from the split
+                const [leftClip, rightClip] = splitClipAt(clip, currentTime)
 
-            console.log("[Timeline] Splitting clip:", clip.name, "at", currentTime)
-            console.log("[Timeline] Left clip:", leftClip.startTime, "to", leftClip.endTime)
-            console.log("[Timeline] Right clip:", rightClip.startTime, "to", rightClip.endTime)
+                console.log("[Timeline] Splitting clip:", clip.name, "at", currentTime)
+                console.log("[Timeline] Left clip:", leftClip.startTime, "to", leftClip.endTime)
+                console.log("[Timeline] Right clip:", rightClip.startTime, "to", rightClip.endTime)
 
-            // Delete original and add split clips
-            onDeleteClip(clip.id)
-            onAddClip(leftClip)
-            onAddClip(rightClip)
+                // Delete original and add split clips
+                onDeleteClip(clip.id)
+                onAddClip(leftClip)
+                onAddClip(rightClip)
+            })
         })
-    }, [clips, currentTime, onDeleteClip, onAddClip])
+    }, [clips, currentTime, onDeleteClip, onAddClip, runAsHistoryStep])
 
     const copySelectedClips = useCallback(() => {
         const clipsToCopy = clips.filter((clip) => selectedClips.includes(clip.id))
@@ -266,21 +313,31 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
         const latestEnd = Math.max(...clipsToDelete.map((c) => c.endTime))
         const gap = latestEnd - earliestStart
 
-        // Delete selected clips
-        selectedClips.forEach((clipId) => onDeleteClip(clipId))
-
-        // Shift all clips after the gap
-        clips.forEach((clip) => {
-            if (clip.startTime > latestEnd && !selectedClips.includes(clip.id)) {
-                onUpdateClip(clip.id, {
-                    startTime: clip.startTime - gap,
-                    endTime: clip.endTime - gap,
-                })
-            }
+        runAsHistoryStep("Ripple delete", () => {
+            // Delete selected clips
+            selectedClips.forEach((clipId) => onDeleteClip(clipId))
+
+            // Shift all clips after the gap
+            clips.forEach((clip) => {
+                if (clip.startTime > latestEnd && !selectedClips.includes(clip.id)) {
+                    onUpdateClip(clip.id, {
+                        startTime: clip.startTime - gap,
+                        endTime: clip.endTime - gap,
+                        sourceIn: getClipSourceIn(clip),
+                    })
+                }
+            })
         })
 
         setSelectedClips([])
-    }, [clips, selectedClips, onDeleteClip, onUpdateClip])
+    }, [clips, selectedClips, onDeleteClip, onUpdateClip, runAsHistoryStep])
+
+    const deleteSelectedClips = useCallback(() => {
+        runAsHistoryStep(selectedClips.length > 1 ? "Delete clips" : "Delete clip", () => {
+            selectedClips.forEach((clipId) => onDeleteClip(clipId))
+        })
+        setSelectedClips([])
+    }, [selectedClips, onDeleteClip, runAsHistoryStep])
 
     const navigateFrame = useCallback(
         (direction: "forward" | "backward") => {
@@ -371,15 +428,23 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
         (params: { action: TimelineAction; row: TimelineRow; dir: "left" | "right" }) => {
             setIsResizing(true)
             setResizeDirection(params.dir)
+            onBeginHistoryTransaction?.(
+                params.row.id === CAPTIONS_ROW_ID ? "Retime caption"
+                    : params.row.id === TRANSITIONS_ROW_ID ? "Resize transition"
+                        : params.row.id === OVERLAYS_ROW_ID ? "Retime overlay"
+                            : params.row.id === ZOOMS_ROW_ID ? "Retime zoom"
+                                : "Trim clip",
+            )
             console.log(`Started resizing clip ${params.action.id} from ${params.dir} edge`)
         },
-        [],
+        [onBeginHistoryTransaction],
     )
 
     const handleActionResizeEnd = useCallback(
         (params: { action: TimelineAction; row: TimelineRow; start: number; end: number; dir: "right" | "left" }) => {
             setIsResizing(false)
             setResizeDirection(null)
+            onEndHistoryTransaction?.()
             console.log(`Finished resizing clip ${params.action.id}`)
 
             // Ensure clip stays on its original track after resize
@@ -389,27 +454,51 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 // The onChange handler will fix this
             }
         },
-        [clips],
+        [clips, onEndHistoryTransaction],
     )
 
     const handleActionMoveStart = useCallback(
         (params: { action: TimelineAction; row: TimelineRow }) => {
+            if (params.row.id === CAPTIONS_ROW_ID) {
+                onBeginHistoryTransaction?.("Move caption")
+                return
+            }
+            if (params.row.id === OVERLAYS_ROW_ID) {
+                onBeginHistoryTransaction?.("Move overlay")
+                return
+            }
+            if (params.row.id === ZOOMS_ROW_ID) {
+                onBeginHistoryTransaction?.("Move zoom")
+                return
+            }
             console.log(`Started moving clip ${params.action.id}`)
+            dragOriginRef.current = { clipId: params.action.id, clips, slipOffset: 0 }
+            onBeginHistoryTransaction?.(tool === "slip" ? "Slip clip" : tool === "slide" ? "Slide clip" : "Move clip")
         },
-        [],
+        [clips, tool, onBeginHistoryTransaction],
     )
 
     const handleActionMoveEnd = useCallback(
         (params: { action: TimelineAction; row: TimelineRow; start: number; end: number }) => {
             console.log(`Finished moving clip ${params.action.id} to track ${params.row.id}`)
+            dragOriginRef.current = null
+            onEndHistoryTransaction?.()
         },
-        [],
+        [onEndHistoryTransaction],
     )
 
     const handleActionClick = useCallback(
         (e: React.MouseEvent, param: { action: TimelineAction; row: TimelineRow; time: number }) => {
             e.stopPropagation()
-            const { action, time } = param
+            const { action, row, time } = param
+
+            // Captions, proposed cuts, transitions, overlays and zooms are not clips; clicking one jumps to it
+            if (ITEM_ROW_IDS.includes(row.id)) {
+                if (row.id === OVERLAYS_ROW_ID) onSelectOverlay?.(action.id)
+                if (row.id === ZOOMS_ROW_ID) onSelectZoomSegment?.(action.id)
+                onSeek(action.start)
+                return
+            }
 
             // Razor tool: split clip at click position
             if (tool === "razor") {
@@ -418,21 +507,14 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                     console.log("[Timeline] Razor tool: splitting clip at", time)
 
                     // Create two new clips from the split
-                    const leftClip: Clip = {
-                        ...clip,
-                        id: `${clip.id}-left-${Date.now()}`,
-                        endTime: time,
-                    }
-                    const rightClip: Clip = {
-                        ...clip,
-                        id: `${clip.id}-right-${Date.now()}`,
-                        startTime: time,
-                    }
+                    const [leftClip, rightClip] = splitClipAt(clip, time)
 
                     // Delete original and add split clips
-                    onDeleteClip(clip.id)
-                    onAddClip(leftClip)
-                    onAddClip(rightClip)
+                    runAsHistoryStep("Split clip", () => {
+                        onDeleteClip(clip.id)
+                        onAddClip(leftClip)
+                        onAddClip(rightClip)
+                    })
                 }
                 return
             }
@@ -446,7 +528,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 setSelectedClips([action.id])
             }
         },
-        [tool, clips, onDeleteClip, onAddClip],
+        [tool, clips, onDeleteClip, onAddClip, runAsHistoryStep, onSeek, onSelectOverlay, onSelectZoomSegment],
     )
 
     const handleActionMoving = useCallback(
@@ -504,9 +586,99 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
             }
         })
 
+        if (captions.length > 0) {
+            rows.push({
+                id: CAPTIONS_ROW_ID,
+                actions: captions.map((caption) => {
+                    // A caption split by a cut is edited from the captions panel instead
+                    const isSplit = captions.some((c) => c.captionId === caption.captionId && c.id !== caption.id)
+                    const clip = clips.find((c) => c.id === caption.clipId)
+                    return {
+                        id: caption.id,
+                        start: caption.start,
+                        end: caption.end,
+                        effectId: CAPTIONS_ROW_ID,
+                        flexible: !isSplit,
+                        movable: !isSplit,
+                        // Captions stay within the clip whose speech they belong to
+                        minStart: clip?.startTime ?? 0,
+                        maxEnd: clip?.endTime ?? duration,
+                    }
+                }),
+            })
+        }
+
+        if (proposedCuts.length > 0) {
+            rows.push({
+                id: CUTS_ROW_ID,
+                actions: proposedCuts.map((cut) => ({
+                    id: cut.id,
+                    start: cut.start,
+                    end: cut.end,
+                    effectId: CUTS_ROW_ID,
+                    flexible: false,
+                    movable: false,
+                })),
+            })
+        }
+
+        if (transitions.length > 0) {
+            rows.push({
+                id: TRANSITIONS_ROW_ID,
+                actions: transitions.map((placed) => {
+                    // Either edge can be dragged out to the longest the two clips allow
+                    const maxHalf = getMaxTransitionDuration(placed.boundary) / 2
+                    return {
+                        id: placed.transition.id,
+                        start: placed.start,
+                        end: placed.end,
+                        effectId: TRANSITIONS_ROW_ID,
+                        flexible: true,
+                        movable: false,
+                        minStart: placed.boundary.time - maxHalf,
+                        maxEnd: placed.boundary.time + maxHalf,
+                    }
+                }),
+            })
+        }
+
+        if (overlays.length > 0) {
+            rows.push({
+                id: OVERLAYS_ROW_ID,
+                actions: overlays.map((overlay) => ({
+                    id: overlay.id,
+                    start: overlay.startTime,
+                    end: overlay.endTime,
+                    effectId: OVERLAYS_ROW_ID,
+                    flexible: true,
+                    movable: true,
+                    selected: overlay.id === selectedOverlay,
+                    minStart: 0,
+                    maxEnd: duration,
+                })),
+            })
+        }
+
+        if (zoomSegments.length > 0) {
+            rows.push({
+                id: ZOOMS_ROW_ID,
+                actions: zoomSegments.map((segment) => ({
+                    id: segment.id,
+                    start: segment.startTime,
+                    end: segment.endTime,
+                    effectId: ZOOMS_ROW_ID,
+                    flexible: true,
+                    movable: true,
+                    selected: segment.id === selectedZoomSegment,
+                    minStart: 0,
+                    maxEnd: duration,
+                })),
+            })
+        }
+
         console.log("Timeline data created:", rows)
         return rows
-    }, [tracks, clips, selectedClips, duration])
+    }, [tracks, clips, selectedClips, duration, captions, proposedCuts, transitions, overlays, selectedOverlay, zoomSegments, selectedZoomSegment])
 
     // Handle timeline changes
     const handleTimelineChangeFinal = useCallback(
@@ -523,6 +695,13 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                             endTime: action.end,
                         }
 
+                        // Pin the source in-point so moving keeps the same footage
+                        // and trimming the left edge skips into it
+                        if (clip.startTime !== action.start) {
+                            const trimmedLeft = clip.endTime === action.end
+                            updates.sourceIn = getClipSourceIn(clip) + (trimmedLeft ? action.start - clip.startTime : 0)
+                        }
+
                         // Only update trackId if it actually changed
                         if (clip.trackId !== row.id) {
                             console.log(`Clip ${clip.name} moved from track ${clip.trackId} to ${row.id}`)
@@ -531,17 +710,38 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
 
                         onUpdateClip(clipId, updates)
                     }
+
+                    const caption = row.id === CAPTIONS_ROW_ID ? captions.find((c) => c.id === action.id) : undefined
+                    if (caption && (caption.start !== action.start || caption.end !== action.end)) {
+                        onRetimeCaption?.(caption, action.start, action.end)
+                    }
+
+                    const placed = row.id === TRANSITIONS_ROW_ID ? transitions.find((t) => t.transition.id === action.id) : undefined
+                    if (placed && (placed.start !== action.start || placed.end !== action.end)) {
+                        onResizeTransition?.(placed.transition.id, getResizedTransitionDuration(placed, action.start, action.end))
+                    }
+
+                    const overlay = row.id === OVERLAYS_ROW_ID ? overlays.find((o) => o.id === action.id) : undefined
+                    if (overlay && (overlay.startTime !== action.start || overlay.endTime !== action.end)) {
+                        onRetimeOverlay?.(overlay.id, action.start, Math.max(action.end, action.start + MIN_OVERLAY_DURATION))
+                    }
+
+                    const zoomSegment = row.id === ZOOMS_ROW_ID ? zoomSegments.find((z) => z.id === action.id) : undefined
+                    if (zoomSegment && (zoomSegment.startTime !== action.start || zoomSegment.endTime !== action.end)) {
+                        onRetimeZoomSegment?.(zoomSegment.id, action.start, Math.max(action.end, action.start + MIN_ZOOM_DURATION))
+                    }
                 })
             })
         },
-        [clips, onUpdateClip],
+        [clips, onUpdateClip, captions, onRetimeCaption, transitions, onResizeTransition, overlays, onRetimeOverlay, zoomSegments, onRetimeZoomSegment],
     )
 
     // Handle action context menu
     const handleActionContextMenu = useCallback(
         (e: React.MouseEvent, param: { action: TimelineAction; row: TimelineRow; time: number }) => {
             e.preventDefault()
-            const { action } = param
+            const { action, row } = param
+            if (ITEM_ROW_IDS.includes(row.id)) return
 
             if (!selectedClips.includes(action.id)) {
                 setSelectedClips([action.id])
@@ -567,6 +767,29 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 return false
             }
 
+            const origin = dragOriginRef.current
+            const originClip = origin?.clipId === action.id ? origin.clips.find((c) => c.id === action.id) : undefined
+
+            // Slip tool: the clip stays put, the footage inside it moves
+            if (tool === "slip" && origin && originClip) {
+                origin.slipOffset += start - action.start
+                onUpdateClip(action.id, slipClip(originClip, origin.slipOffset, getSourceDuration(originClip)))
+                return false
+            }
+
+            // Slide tool: neighbours give up or take over the time the clip moves by
+            if (tool === "slide" && origin && originClip) {
+                const { previous, next } = getAdjacentClips(origin.clips, originClip)
+                const delta = start - originClip.startTime
+                const range = getSlideRange(originClip, previous, next, getSourceDuration)
+                if (delta < range.min || delta > range.max) return false
+
+                slideClip(originClip, previous, next, delta, getSourceDuration)
+                    .filter((update) => update.clipId !== action.id)
+                    .forEach((update) => onUpdateClip(update.clipId, update.updates))
+                return true
+            }
+
             // Apply constraints
             const minStart = action.minStart || 0
             const maxEnd = action.maxEnd || duration
@@ -594,7 +817,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
             console.log("Moving action:", action.id, "from", start, "to", params.start, "end:", params.end)
             return true
         },
-        [isSnapping, duration],
+        [isSnapping, duration, tool, onUpdateClip, getSourceDuration],
     )
 
     // Handle action resize
@@ -615,6 +838,14 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 return false // Block the resize if it would move the clip to a different track
             }
 
+            // Edges cannot be dragged past the start or end of the clip's footage
+            if (clip) {
+                const bounds = getClipResizeBounds(clip, getSourceDuration(clip))
+                if ((dir === "left" && start < bounds.minStart) || (dir === "right" && end > bounds.maxEnd)) {
+                    return false
+                }
+            }
+
             // Apply constraints
             const minStart = action.minStart || 0
             const maxEnd = action.maxEnd || duration
@@ -662,82 +893,191 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
             console.log(`Resizing clip ${action.id}: ${dir} edge, start=${params.start.toFixed(3)}s, end=${params.end.toFixed(3)}s, duration=${(params.end - params.start).toFixed(3)}s`)
             return true
         },
-        [isSnapping, duration, clips],
+        [isSnapping, duration, clips, getSourceDuration],
     )
 
     const addTrack = useCallback(
-        (type: "video" | "audio" | "text" | "effect") => {
-            const trackNumber = tracks.filter((t) => t.type === type).length + 1
-            const newTrack: Track = {
-                id: `${type}-${trackNumber}`,
-                name: `${type.charAt(0).toUpperCase() + type.slice(1)} Track ${trackNumber}`,
-                type,
-                muted: false,
-                solo: false,
-                locked: false,
-                visible: true,
-                height: type === "video" ? 80 : type === "audio" ? 60 : type === "text" ? 50 : 70,
-                color: type === "video" ? "#3b82f6" : type === "audio" ? "#10b981" : type === "text" ? "#f59e0b" : "#8b5cf6",
-            }
-            setTracks((prev) => [...prev, newTrack])
+        (type: TrackType) => {
+            onTracksChange?.([...tracks, createTrack(type, tracks)], "Add track")
         },
-        [tracks],
+        [tracks, onTracksChange],
     )
 
     const deleteTrack = useCallback(
         (trackId: string) => {
-            setTracks((prev) => prev.filter((t) => t.id !== trackId))
-            // Move clips from deleted track to first available track
-            const clipsToMove = clips.filter((c) => c.trackId === trackId)
-            clipsToMove.forEach((clip) => {
-                const firstTrack = tracks.find((t) => t.type === clip.type && t.id !== trackId)
-                if (firstTrack) {
-                    onUpdateClip(clip.id, { trackId: firstTrack.id })
-                }
+            runAsHistoryStep("Delete track", () => {
+                onTracksChange?.(tracks.filter((t) => t.id !== trackId), "Delete track")
+                // Move clips from deleted track to first available track
+                const clipsToMove = clips.filter((c) => c.trackId === trackId)
+                clipsToMove.forEach((clip) => {
+                    const firstTrack = tracks.find((t) => t.type === clip.type && t.id !== trackId)
+                    if (firstTrack) {
+                        onUpdateClip(clip.id, { trackId: firstTrack.id })
+                    }
+                })
             })
         },
-        [tracks, clips, onUpdateClip],
+        [tracks, clips, onUpdateClip, onTracksChange, runAsHistoryStep],
     )
 
     const moveTrack = useCallback((trackId: string, direction: "up" | "down") => {
-        setTracks((prev) => {
-            const newTracks = [...prev]
-            const index = newTracks.findIndex((t) => t.id === trackId)
-            if (index === -1) return prev
-
-            const newIndex = direction === "up" ? index - 1 : index + 1
-            if (newIndex < 0 || newIndex >= newTracks.length) return prev
-
-            // Swap tracks
-            const temp = newTracks[index]
-            newTracks[index] = newTracks[newIndex]
-            newTracks[newIndex] = temp
-            return newTracks
-        })
-    }, [])
+        const newTracks = [...tracks]
+        const index = newTracks.findIndex((t) => t.id === trackId)
+        if (index === -1) return
+
+        const newIndex = direction === "up" ? index - 1 : index + 1
+        if (newIndex < 0 || newIndex >= newTracks.length) return
+
+        // Swap tracks
+        const temp = newTracks[index]
+        newTracks[index] = newTracks[newIndex]
+        newTracks[newIndex] = temp
+        onTracksChange?.(newTracks, "Move track")
+    }, [tracks, onTracksChange])
 
     const toggleTrackMute = useCallback((trackId: string) => {
-        setTracks((prev) => prev.map((track) => (track.id === trackId ? { ...track, muted: !track.muted } : track)))
-    }, [])
+        const track = tracks.find((t) => t.id === trackId)
+        onTracksChange?.(
+            tracks.map((t) => (t.id === trackId ? { ...t, muted: !t.muted } : t)),
+            track?.muted ? "Unmute track" : "Mute track",
+        )
+    }, [tracks, onTracksChange])
 
     const toggleTrackSolo = useCallback((trackId: string) => {
-        setTracks((prev) =>
-            prev.map(
-                (track) => (track.id === trackId ? { ...track, solo: !track.solo } : { ...track, solo: false }), // Only one track can be solo at a time
-            ),
-        )
-    }, [])
+        const track = tracks.find((t) => t.id === trackId)
+        onTracksChange?.(toggleSolo(tracks, trackId), track?.solo ? "Unsolo track" : "Solo track")
+    }, [tracks, onTracksChange])
 
     const toggleTrackLock = useCallback((trackId: string) => {
-        setTracks((prev) => prev.map((track) => (track.id === trackId ? { ...track, locked: !track.locked } : track)))
-    }, [])
+        const track = tracks.find((t) => t.id === trackId)
+        onTracksChange?.(
+            tracks.map((t) => (t.id === trackId ? { ...t, locked: !t.locked } : t)),
+            track?.locked ? "Unlock track" : "Lock track",
+        )
+    }, [tracks, onTracksChange])
 
     const toggleTrackVisible = useCallback((trackId: string) => {
-        setTracks((prev) => prev.map((track) => (track.id === trackId ? { ...track, visible: !track.visible } : track)))
-    }, [])
+        const track = tracks.find((t) => t.id === trackId)
+        onTracksChange?.(
+            tracks.map((t) => (t.id === trackId ? { ...t, visible: !t.visible } : t)),
+            track?.visible ? "Hide track" : "Show track",
+        )
+    }, [tracks, onTracksChange])
 
     const getActionRender = useCallback(
         (action: TimelineAction, row: TimelineRow) => {
+            if (row.id === CAPTIONS_ROW_ID) {
+                const caption = captions.find((c) => c.id === action.id)
+                if (!caption) return null
+                return (
+                    <div
+                        className="h-full flex items-center px-2 overflow-hidden rounded-md group"
+                        style={{
+                            backgroundColor: `${CAPTIONS_COLOR}cc`,
+                            border: "1px solid rgba(255,255,255,0.15)",
+                            minWidth: "20px",
+                            cursor: action.movable ? "grab" : "pointer",
+                        }}
+                        title={caption.text}
+                    >
+                        <span className="text-[11px] text-white truncate drop-shadow-sm">{caption.text}</span>
+                    </div>
+                )
+            }
+
+            if (row.id === CUTS_ROW_ID) {
+                const cut = proposedCuts.find((c) => c.id === action.id)
+                if (!cut) return null
+                const label = cut.reason === "filler" ? `“${cut.text}”` : "Pause"
+                return (
+                    <div
+                        className="h-full flex items-center justify-center overflow-hidden rounded-sm"
+                        style={{
+                            background: `repeating-linear-gradient(45deg, ${CUTS_COLOR}99 0 4px, ${CUTS_COLOR}55 4px 8px)`,
+                            border: `1px solid ${CUTS_COLOR}`,
+                            cursor: "pointer",
+                        }}
+                        title={`${label} • ${(cut.end - cut.start).toFixed(2)}s will be cut`}
+                    >
+                        <Scissors className="h-3 w-3 text-white/80 shrink-0" />
+                    </div>
+                )
+            }
+
+            if (row.id === TRANSITIONS_ROW_ID) {
+                const placed = transitions.find((t) => t.transition.id === action.id)
+                if (!placed) return null
+                return (
+                    <div
+                        className="h-full flex items-center justify-center gap-1 px-1 overflow-hidden rounded-md group"
+                        style={{
+                            background: `linear-gradient(to right, ${TRANSITIONS_COLOR}55, ${TRANSITIONS_COLOR}cc, ${TRANSITIONS_COLOR}55)`,
+                            border: `1px solid ${TRANSITIONS_COLOR}`,
+                            minWidth: "20px",
+                            cursor: "pointer",
+                        }}
+                        title={`${placed.preset.name} • ${(placed.end - placed.start).toFixed(2)}s`}
+                    >
+                        <span className="text-[11px] shrink-0">{placed.preset.icon}</span>
+                        <span className="text-[11px] text-white truncate drop-shadow-sm">{placed.preset.name}</span>
+                        {onRemoveTransition && (
+                            <button
+                                className="hidden group-hover:flex shrink-0 items-center justify-center h-4 w-4 rounded-sm text-white/80 hover:text-white hover:bg-black/30"
+                                onClick={(e) => {
+                                    e.stopPropagation()
+                                    onRemoveTransition(placed.transition.id)
+                                }}
+                                title="Remove transition"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </button>
+                        )}
+                    </div>
+                )
+            }
+
+            if (row.id === OVERLAYS_ROW_ID) {
+                const overlay = overlays.find((o) => o.id === action.id)
+                if (!overlay) return null
+                return (
+                    <div
+                        className={`h-full flex items-center gap-1 px-2 overflow-hidden rounded-md ${overlay.id === selectedOverlay ? "ring-2 ring-white/80" : ""}`}
+                        style={{
+                            backgroundColor: `${OVERLAYS_COLOR}cc`,
+                            border: "1px solid rgba(255,255,255,0.15)",
+                            minWidth: "20px",
+                            cursor: "grab",
+                        }}
+                        title={overlay.content}
+                    >
+                        {overlay.type === "text"
+                            ? <Type className="h-3 w-3 text-white shrink-0" />
+                            : <ImageIcon className="h-3 w-3 text-white shrink-0" />}
+                        <span className="text-[11px] text-white truncate drop-shadow-sm">{overlay.content}</span>
+                    </div>
+                )
+            }
+
+            if (row.id === ZOOMS_ROW_ID) {
+                const zoomSegment = zoomSegments.find((z) => z.id === action.id)
+                if (!zoomSegment) return null
+                return (
+                    <div
+                        className={`h-full flex items-center gap-1 px-2 overflow-hidden rounded-md ${zoomSegment.id === selectedZoomSegment ? "ring-2 ring-white/80" : ""}`}
+                        style={{
+                            backgroundColor: `${ZOOMS_COLOR}cc`,
+                            border: "1px solid rgba(255,255,255,0.15)",
+                            minWidth: "20px",
+                            cursor: "grab",
+                        }}
+                        title={`Zoom ${zoomSegment.scale.toFixed(1)}x`}
+                    >
+                        <ZoomIn className="h-3 w-3 text-white shrink-0" />
+                        <span className="text-[11px] text-white truncate drop-shadow-sm">{zoomSegment.scale.toFixed(1)}x</span>
+                    </div>
+                )
+            }
+
             const clip = clips.find((c) => c.id === action.id)
             const track = tracks.find((t) => t.id === row.id)
             if (!clip || !track) return null
@@ -745,6 +1085,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
             const isSelected = selectedClips.includes(action.id)
             const isHovered = hoveredClip === action.id
             const clipDuration = clip.endTime - clip.startTime
+            const thumbnail = clip.thumbnail ?? mediaAssets.find((asset) => asset.id === clip.sourceId)?.thumbnail
             const isClipResizing = isResizing && isSelected
 
             return (
@@ -766,9 +1107,9 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                     onMouseLeave={() => setHoveredClip(null)}
                 >
                     {/* Thumbnail for video clips */}
-                    {clip.thumbnail && clip.type === "video" && (
+                    {thumbnail && clip.type === "video" && (
                         <div className="w-8 h-6 mr-2 rounded-sm overflow-hidden flex-shrink-0 border border-white/20 shadow-sm">
-                            <img src={clip.thumbnail || "/placeholder.svg"} alt={clip.name} className="w-full h-full object-cover" />
+                            <img src={thumbnail} alt={clip.name} className="w-full h-full object-cover" />
                         </div>
                     )}
 
@@ -806,8 +1147,9 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                     {/* Clip Name */}
                     <span className="text-xs text-white font-medium truncate flex-1 drop-shadow-sm">{clip.name}</span>
 
-                    {/* Duration Badge */}
+                    {/* Duration Badge (shows the source in-point while slipping) */}
                     <div className="absolute top-1 right-1 bg-black/70 text-white text-[10px] px-1.5 py-0.5 rounded backdrop-blur-sm font-mono">
+                        {tool === "slip" && clip.sourceId && `${formatTime(getClipSourceIn(clip))} ▸ `}
                         {formatTime(clipDuration)}
                     </div>
 
@@ -866,7 +1208,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 </div>
             )
         },
-        [clips, tracks, selectedClips, hoveredClip, isDragging],
+        [clips, tracks, selectedClips, hoveredClip, isDragging, tool, mediaAssets, captions, proposedCuts, transitions, onRemoveTransition, overlays, selectedOverlay, zoomSegments, selectedZoomSegment],
     )
 
     const getRowRender = useCallback(
@@ -1065,8 +1407,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                         if (e.shiftKey) {
                             rippleDelete()
                         } else {
-                            selectedClips.forEach((clipId) => onDeleteClip(clipId))
-                            setSelectedClips([])
+                            deleteSelectedClips()
                         }
                     }
                     break
@@ -1103,6 +1444,10 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                     e.preventDefault()
                     setTool("slip")
                     break
+                case "u":
+                    e.preventDefault()
+                    setTool("slide")
+                    break
                 case "h":
                     e.preventDefault()
                     setTool("hand")
@@ -1126,7 +1471,9 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                 case "d":
                     if ((e.ctrlKey || e.metaKey) && selectedClips.length > 0) {
                         e.preventDefault()
-                        selectedClips.forEach((clipId) => onDuplicateClip(clipId))
+                        runAsHistoryStep("Duplicate clips", () => {
+                            selectedClips.forEach((clipId) => onDuplicateClip(clipId))
+                        })
                     }
                     break
                 case "a":
@@ -1188,6 +1535,8 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
         onDuplicateClip,
         onPlayPause,
         rippleDelete,
+        deleteSelectedClips,
+        runAsHistoryStep,
         splitClipAtPlayhead,
         copySelectedClips,
         pasteClips,
@@ -1359,6 +1708,23 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                                     </TooltipContent>
                                 </Tooltip>
 
+                                <Tooltip>
+                                    <TooltipTrigger asChild>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className={`h-7 w-7 p-0 ${tool === "slide" ? "bg-blue-600 text-white" : "text-gray-400 hover:text-white"}`}
+                                            onClick={() => setTool("slide")}
+                                        >
+                                            <MoveHorizontal className="h-4 w-4" />
+                                        </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent side="bottom">
+                                        <p className="font-medium">Slide Tool</p>
+                                        <p className="text-xs text-gray-400">Press U • Move clip between its neighbours</p>
+                                    </TooltipContent>
+                                </Tooltip>
+
                                 <Tooltip>
                                     <TooltipTrigger asChild>
                                         <Button
@@ -1548,6 +1914,18 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                     })}
                 </div>
 
+                {duration > 0 && proposedCuts.map((cut) => (
+                    <div
+                        key={cut.id}
+                        className="absolute top-0 bottom-0 z-30 pointer-events-none"
+                        style={{
+                            left: `${(cut.start / duration) * 100}%`,
+                            width: `${((cut.end - cut.start) / duration) * 100}%`,
+                            backgroundColor: `${CUTS_COLOR}55`,
+                        }}
+                    />
+                ))}
+
                 {markers.map((marker) => {
                     const position = (marker.time / duration) * 100
                     return (
@@ -1714,8 +2092,7 @@ const MultiTrackTimeline = memo(function MultiTrackTimeline({
                             <button
                                 className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2"
                                 onClick={() => {
-                                    selectedClips.forEach((clipId) => onDeleteClip(clipId))
-                                    setSelectedClips([])
+                                    deleteSelectedClips()
                                     setContextMenu(null)
                                 }}
                             >
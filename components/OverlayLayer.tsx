@@ -0,0 +1,79 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Overlay, drawOverlays, loadOverlayImages } from '@/lib/videoEditor/overlays'
+import { TimelineComposition, sourceToTimelineTime } from '@/lib/videoEditor/timelineComposition'
+
+interface OverlayLayerProps {
+    overlays: Overlay[]
+    currentTime: number
+    videoRef: React.RefObject<HTMLVideoElement | null>
+    // The edit the preview plays back
+    composition: TimelineComposition
+}
+
+// Draws the text and image overlays over the preview with the exporter's
+// renderer. The store only updates the time while paused, so during playback
+// this follows the player's video to animate the overlays frame by frame.
+export default function OverlayLayer({ overlays, currentTime, videoRef, composition }: OverlayLayerProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const [size, setSize] = useState({ width: 0, height: 0 })
+    const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map())
+    const currentTimeRef = useRef(currentTime)
+    currentTimeRef.current = currentTime
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        if (!canvas) return
+
+        const observer = new ResizeObserver(([entry]) => {
+            const ratio = window.devicePixelRatio || 1
+            setSize({
+                width: Math.round(entry.contentRect.width * ratio),
+                height: Math.round(entry.contentRect.height * ratio)
+            })
+        })
+        observer.observe(canvas)
+        return () => observer.disconnect()
+    }, [])
+
+    useEffect(() => {
+        let cancelled = false
+        loadOverlayImages(overlays).then(result => {
+            if (!cancelled) setImages(result)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [overlays])
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        if (!canvas || !ctx || size.width === 0 || size.height === 0) return
+
+        canvas.width = size.width
+        canvas.height = size.height
+        let frameId = 0
+        let drawnTime: number | null = null
+
+        const draw = () => {
+            frameId = requestAnimationFrame(draw)
+
+            const video = videoRef.current
+            const time = video && !video.paused
+                ? sourceToTimelineTime(composition, video.currentTime) ?? currentTimeRef.current
+                : currentTimeRef.current
+            if (time === drawnTime) return
+
+            drawnTime = time
+            ctx.clearRect(0, 0, size.width, size.height)
+            drawOverlays(ctx, overlays, images, time, size.width, size.height)
+        }
+
+        frameId = requestAnimationFrame(draw)
+        return () => cancelAnimationFrame(frameId)
+    }, [overlays, images, size, videoRef, composition])
+
+    return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-10" />
+}
@@ -0,0 +1,286 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Image as ImageIcon, Plus, Trash2, Type } from 'lucide-react'
+import {
+    MIN_OVERLAY_DURATION,
+    OVERLAY_ANIMATIONS,
+    Overlay,
+    OverlayAnimation
+} from '@/lib/videoEditor/overlays'
+
+interface OverlaysPanelProps {
+    overlays: Overlay[]
+    selectedOverlay: string | null
+    formatTime: (seconds: number) => string
+    // New overlays start at the playhead
+    onAddOverlay: (type: Overlay['type'], content: string) => void
+    onUpdateOverlay: (id: string, updates: Partial<Overlay>) => void
+    onRemoveOverlay: (id: string) => void
+    onSelectOverlay: (id: string | null) => void
+    onSeek: (time: number) => void
+}
+
+const selectClassName = 'mt-1 w-full h-7 px-2 text-xs rounded-md bg-gray-700 text-white border border-gray-600'
+
+export default function OverlaysPanel({
+    overlays,
+    selectedOverlay,
+    formatTime,
+    onAddOverlay,
+    onUpdateOverlay,
+    onRemoveOverlay,
+    onSelectOverlay,
+    onSeek
+}: OverlaysPanelProps) {
+    const [newType, setNewType] = useState<Overlay['type']>('text')
+    const [newContent, setNewContent] = useState('')
+
+    const selected = overlays.find(overlay => overlay.id === selectedOverlay)
+
+    const handleAdd = () => {
+        if (!newContent.trim()) return
+        onAddOverlay(newType, newContent.trim())
+        setNewContent('')
+    }
+
+    const update = (updates: Partial<Overlay>) => {
+        if (selected) onUpdateOverlay(selected.id, updates)
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Add */}
+            <div className="bg-gray-700 rounded-lg p-3 space-y-3">
+                <div className="flex gap-1">
+                    <Button
+                        size="sm"
+                        variant={newType === 'text' ? 'default' : 'outline'}
+                        onClick={() => setNewType('text')}
+                        className="text-xs px-2 py-1 h-7"
+                    >
+                        <Type className="h-3 w-3 mr-1" />
+                        Text
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={newType === 'image' ? 'default' : 'outline'}
+                        onClick={() => setNewType('image')}
+                        className="text-xs px-2 py-1 h-7"
+                    >
+                        <ImageIcon className="h-3 w-3 mr-1" />
+                        Image
+                    </Button>
+                </div>
+                <div className="flex gap-1">
+                    <Input
+                        value={newContent}
+                        onChange={(e) => setNewContent(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                        placeholder={newType === 'text' ? 'Enter text...' : 'Image URL...'}
+                        className="h-7 text-xs"
+                    />
+                    <Button onClick={handleAdd} size="sm" className="text-xs px-2 h-7" disabled={!newContent.trim()}>
+                        <Plus className="h-3 w-3" />
+                    </Button>
+                </div>
+                <p className="text-[10px] text-gray-400">Added at the playhead. Drag it on the video to place it.</p>
+            </div>
+
+            {/* List */}
+            {overlays.length > 0 && (
+                <div className="space-y-1">
+                    {overlays.map(overlay => (
+                        <div
+                            key={overlay.id}
+                            onClick={() => {
+                                onSelectOverlay(overlay.id)
+                                onSeek(overlay.startTime)
+                            }}
+                            className={`flex items-center justify-between gap-2 p-2 rounded text-xs cursor-pointer ${
+                                overlay.id === selectedOverlay ? 'bg-sky-900/60 ring-1 ring-sky-500' : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            {overlay.type === 'text'
+                                ? <Type className="h-3 w-3 flex-shrink-0" />
+                                : <ImageIcon className="h-3 w-3 flex-shrink-0" />}
+                            <span className="flex-1 truncate">{overlay.content}</span>
+                            <span className="text-gray-400 flex-shrink-0">
+                                {formatTime(overlay.startTime)} - {formatTime(overlay.endTime)}
+                            </span>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation()
+                                    onRemoveOverlay(overlay.id)
+                                }}
+                                className="text-gray-400 hover:text-red-400"
+                                title="Delete overlay"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Selected overlay */}
+            {selected && (
+                <div className="space-y-3 border-t border-gray-700 pt-3">
+                    {selected.type === 'text' && (
+                        <div>
+                            <Label className="text-xs">Text</Label>
+                            <Input
+                                value={selected.content}
+                                onChange={(e) => update({ content: e.target.value })}
+                                className="mt-1 h-7 text-xs"
+                            />
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Start (s)</Label>
+                            <Input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                value={Number(selected.startTime.toFixed(2))}
+                                onChange={(e) => {
+                                    const startTime = Math.max(0, Number(e.target.value) || 0)
+                                    update({ startTime: Math.min(startTime, selected.endTime - MIN_OVERLAY_DURATION) })
+                                }}
+                                className="mt-1 h-7 text-xs"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">End (s)</Label>
+                            <Input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                value={Number(selected.endTime.toFixed(2))}
+                                onChange={(e) => {
+                                    const endTime = Number(e.target.value) || 0
+                                    update({ endTime: Math.max(endTime, selected.startTime + MIN_OVERLAY_DURATION) })
+                                }}
+                                className="mt-1 h-7 text-xs"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-xs">Opacity: {Math.round(selected.opacity * 100)}%</Label>
+                        <Slider
+                            value={[Math.round(selected.opacity * 100)]}
+                            onValueChange={(value) => update({ opacity: value[0] / 100 })}
+                            max={100}
+                            step={5}
+                            className="mt-2"
+                        />
+                    </div>
+
+                    <div>
+                        <Label className="text-xs">Rotation: {selected.rotation}°</Label>
+                        <Slider
+                            value={[selected.rotation]}
+                            onValueChange={(value) => update({ rotation: value[0] })}
+                            min={-180}
+                            max={180}
+                            step={1}
+                            className="mt-2"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Entry</Label>
+                            <select
+                                value={selected.animationIn}
+                                onChange={(e) => update({ animationIn: e.target.value as OverlayAnimation })}
+                                className={selectClassName}
+                            >
+                                {OVERLAY_ANIMATIONS.map(animation => (
+                                    <option key={animation.id} value={animation.id}>{animation.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <Label className="text-xs">Exit</Label>
+                            <select
+                                value={selected.animationOut}
+                                onChange={(e) => update({ animationOut: e.target.value as OverlayAnimation })}
+                                className={selectClassName}
+                            >
+                                {OVERLAY_ANIMATIONS.map(animation => (
+                                    <option key={animation.id} value={animation.id}>{animation.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-xs">Animation length: {selected.animationDuration.toFixed(1)}s</Label>
+                        <Slider
+                            value={[selected.animationDuration]}
+                            onValueChange={(value) => update({ animationDuration: value[0] })}
+                            min={0.1}
+                            max={2}
+                            step={0.1}
+                            className="mt-2"
+                        />
+                    </div>
+
+                    {selected.type === 'text' && (
+                        <>
+                            <div>
+                                <Label className="text-xs">Font size: {selected.fontSize}px</Label>
+                                <Slider
+                                    value={[selected.fontSize]}
+                                    onValueChange={(value) => update({ fontSize: value[0] })}
+                                    min={16}
+                                    max={200}
+                                    step={2}
+                                    className="mt-2"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <Label className="text-xs">Text color</Label>
+                                    <input
+                                        type="color"
+                                        value={selected.textColor}
+                                        onChange={(e) => update({ textColor: e.target.value })}
+                                        className="mt-1 w-full h-7 rounded cursor-pointer bg-transparent"
+                                    />
+                                </div>
+                                <div>
+                                    <Label className="text-xs">Background</Label>
+                                    <div className="flex gap-1 mt-1">
+                                        <input
+                                            type="color"
+                                            value={selected.backgroundColor ?? '#000000'}
+                                            onChange={(e) => update({ backgroundColor: e.target.value })}
+                                            className="flex-1 h-7 rounded cursor-pointer bg-transparent"
+                                        />
+                                        <Button
+                                            size="sm"
+                                            variant={selected.backgroundColor ? 'outline' : 'default'}
+                                            onClick={() => update({ backgroundColor: undefined })}
+                                            className="text-xs px-2 h-7"
+                                        >
+                                            None
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useRef } from 'react'
+import { Button } from './ui/button'
+import { FileUp, Film, RotateCcw, Trash2, X } from 'lucide-react'
+import { ProjectSummary } from '@/lib/videoEditor/projectStorage'
+import { SNIP_FILE_EXTENSION } from '@/lib/videoEditor/projectBundle'
+
+interface RecentProjectsProps {
+    projects: ProjectSummary[]
+    // Project that was still open in the editor when the tab went away
+    recoverableProject?: ProjectSummary | null
+    onOpenProject: (projectId: string) => void
+    onDeleteProject: (projectId: string) => void
+    onDismissRecovery: () => void
+    onImportProject: (file: File) => void
+}
+
+const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = Math.floor(seconds % 60)
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+    new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+
+export default function RecentProjects({
+    projects,
+    recoverableProject,
+    onOpenProject,
+    onDeleteProject,
+    onDismissRecovery,
+    onImportProject
+}: RecentProjectsProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (file) onImportProject(file)
+    }
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4">
+            {recoverableProject && (
+                <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950/40">
+                    <div>
+                        <p className="font-medium text-amber-900 dark:text-amber-200">
+                            Your last editing session was interrupted
+                        </p>
+                        <p className="text-sm text-amber-800 dark:text-amber-300">
+                            &quot;{recoverableProject.name}&quot; was saved at {formatUpdatedAt(recoverableProject.updatedAt)}.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Button size="sm" onClick={() => onOpenProject(recoverableProject.id)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restore
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={onDismissRecovery} title="Dismiss">
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent projects</h2>
+                    <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                        <FileUp className="h-4 w-4 mr-1" />
+                        Open project file
+                    </Button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={SNIP_FILE_EXTENSION}
+                        className="hidden"
+                        onChange={handleFileSelected}
+                    />
+                </div>
+                {projects.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Projects you edit are saved in this browser and show up here.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                        {projects.map(project => (
+                            <div
+                                key={project.id}
+                                className="group relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden hover:border-blue-500 transition-colors"
+                            >
+                                <button
+                                    className="w-full text-left"
+                                    onClick={() => onOpenProject(project.id)}
+                                    title="Open project"
+                                >
+                                    <div className="aspect-video bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+                                        {project.thumbnail ? (
+                                            <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+                                        ) : (
+                                            <Film className="h-8 w-8 text-gray-400" />
+                                        )}
+                                    </div>
+                                    <div className="p-2">
+                                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{project.name}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {formatDuration(project.duration)} · {formatUpdatedAt(project.updatedAt)}
+                                        </p>
+                                    </div>
+                                </button>
+                                <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <Button
+                                        size="sm"
+                                        variant="destructive"
+                                        className="h-7 w-7 p-0"
+                                        onClick={() => onDeleteProject(project.id)}
+                                        title="Delete project"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -14,7 +14,6 @@ import {
     Link,
     Wand2,
     Type,
-    Image as ImageIcon,
     Palette,
     Crop,
     Settings,
@@ -23,7 +22,11 @@ import {
     Webcam,
     Layout,
     Sparkles,
-    Zap
+    Zap,
+    History,
+    Captions,
+    FileText,
+    ZoomIn
 } from 'lucide-react'
 import ClipManager from './ClipManager'
 import TemplatesPanel from './TemplatesPanel'
@@ -31,13 +34,33 @@ import EnhancementPanel from './EnhancementPanel'
 import EnhancementPreview from './EnhancementPreview'
 import EnhancementProgress from './EnhancementProgress'
 import EnhancementErrorDisplay from './EnhancementErrorDisplay'
+import HistoryPanel from './HistoryPanel'
+import CaptionsPanel from './CaptionsPanel'
+import TranscriptEditor from './TranscriptEditor'
+import OverlaysPanel from './OverlaysPanel'
+import CursorPanel from './CursorPanel'
+import ZoomPanel, { ZoomSource } from './ZoomPanel'
+import AudioPanel from './AudioPanel'
+import SilenceRemovalPanel from './SilenceRemovalPanel'
 import { ColorGradingPreset } from '@/lib/templates/colorGradingPresets'
 import { AspectRatioTemplate } from '@/lib/templates/aspectRatioTemplates'
 import { BrandKit } from '@/lib/templates/brandKit'
+import { BrandOverlaySettings } from '@/lib/videoEditor/brandOverlay'
+import { Overlay } from '@/lib/videoEditor/overlays'
+import { CursorSettings, CursorTrack } from '@/lib/videoEditor/cursorTracking'
+import { AutoZoomOptions, ZoomSegment } from '@/lib/videoEditor/autoZoom'
+import { AudioMixSettings } from '@/lib/videoEditor/audioMixing'
+import { Track } from '@/lib/videoEditor/timelineTracks'
 import { TransitionPreset } from '@/lib/templates/transitionPresets'
 import type { EnhancementConfig, EnhancementSettings, EnhancementMetrics } from '@/lib/videoEnhancement'
 import { getDefaultPreset } from '@/lib/videoEnhancement'
 import { Clip } from '@/hooks/useClips'
+import type { EditorHistory } from '@/lib/videoEditor/editorHistory'
+import type { EditorSnapshot } from '@/stores/videoEditorStore'
+import { MediaAsset } from '@/lib/videoEditor/mediaAssets'
+import { Caption, CaptionStyle, TimelineCaption } from '@/lib/videoEditor/captions'
+import { TimelineWord } from '@/lib/videoEditor/transcriptEditing'
+import { DEFAULT_SILENCE_REMOVAL_OPTIONS, ProposedCut, SilenceRemovalOptions } from '@/lib/videoEditor/silenceRemoval'
 
 interface PexelsPhoto {
     id: number
@@ -74,19 +97,33 @@ interface Annotation {
 }
 
 interface RightSidebarProps {
-    overlays: Array<{
-        id: string
-        type: 'text' | 'image'
-        content: string
-        x: number
-        y: number
-        width: number
-        height: number
-        startTime: number
-        endTime: number
-    }>
-    onAddOverlay: (overlay: any) => void
+    overlays: Overlay[]
+    selectedOverlay: string | null
+    onAddOverlay: (type: Overlay['type'], content: string) => void
+    onUpdateOverlay: (id: string, updates: Partial<Overlay>) => void
     onRemoveOverlay: (id: string) => void
+    onSelectOverlay: (id: string | null) => void
+    cursorTrack: CursorTrack | null
+    cursorSettings: CursorSettings
+    onCursorTrackChange: (track: CursorTrack | null) => void
+    onCursorSettingsChange: (settings: Partial<CursorSettings>) => void
+    zoomSegments: ZoomSegment[]
+    selectedZoomSegment: string | null
+    autoZoomOptions: AutoZoomOptions
+    isAnalyzingZooms: boolean
+    onAutoZoomOptionsChange: (options: Partial<AutoZoomOptions>) => void
+    onGenerateZooms: (source: ZoomSource) => void
+    onAddZoomSegment: () => void
+    onUpdateZoomSegment: (id: string, updates: Partial<ZoomSegment>) => void
+    onRemoveZoomSegment: (id: string) => void
+    onClearZoomSegments: () => void
+    onSelectZoomSegment: (id: string | null) => void
+    tracks: Track[]
+    audioMix: AudioMixSettings
+    onImportMusic: (file: File) => void
+    onUpdateTrack: (trackId: string, updates: Partial<Track>) => void
+    onSoloTrack: (trackId: string) => void
+    onAudioMixChange: (settings: Partial<AudioMixSettings>) => void
     currentTime: number
     duration: number
     formatTime: (seconds: number) => string
@@ -106,6 +143,7 @@ interface RightSidebarProps {
     onAddClip: (clip: Clip) => void
     onUpdateClip: (clipId: string, updates: Partial<Clip>) => void
     onRemoveClip: (clipId: string) => void
+    onRegisterMediaAsset?: (asset: MediaAsset) => void
     webcamOverlayPosition: { x: number, y: number }
     setWebcamOverlayPosition: (position: { x: number, y: number }) => void
     webcamOverlaySize: { width: number, height: number }
@@ -137,16 +175,65 @@ interface RightSidebarProps {
     currentColorPreset?: string
     currentAspectRatio?: string
     currentBrandKit?: string
+    brandOverlay?: BrandOverlaySettings
+    onBrandOverlayChange?: (settings: Partial<BrandOverlaySettings>) => void
     enhancementConfig?: EnhancementConfig
     onEnhancementConfigChange?: (config: EnhancementConfig) => void
     enhancementSettings?: EnhancementSettings
     onEnhancementSettingsChange?: (settings: EnhancementSettings) => void
+    history?: EditorHistory<EditorSnapshot>
+    onUndo?: () => void
+    onRedo?: () => void
+    onJumpToHistory?: (index: number) => void
+    captions?: Caption[]
+    timelineCaptions?: TimelineCaption[]
+    captionStyle?: CaptionStyle
+    brandFontFamily?: string
+    isTranscribing?: boolean
+    onGenerateCaptions?: () => void
+    onUpdateCaption?: (id: string, updates: Partial<Caption>) => void
+    onRemoveCaption?: (id: string) => void
+    onCaptionStyleChange?: (style: Partial<CaptionStyle>) => void
+    timelineWords?: TimelineWord[]
+    onDeleteWords?: (fromIndex: number, toIndex: number) => void
+    silenceRemovalOptions?: SilenceRemovalOptions
+    proposedCuts?: ProposedCut[] | null
+    isAnalyzingSilences?: boolean
+    onSilenceRemovalOptionsChange?: (options: Partial<SilenceRemovalOptions>) => void
+    onFindSilences?: () => void
+    onApplySilenceCuts?: () => void
+    onDismissSilenceCuts?: () => void
+    onSeek?: (time: number) => void
 }
 
 const RightSidebar = memo(function RightSidebar({
     overlays,
+    selectedOverlay,
     onAddOverlay,
+    onUpdateOverlay,
     onRemoveOverlay,
+    onSelectOverlay,
+    cursorTrack,
+    cursorSettings,
+    onCursorTrackChange,
+    onCursorSettingsChange,
+    zoomSegments,
+    selectedZoomSegment,
+    autoZoomOptions,
+    isAnalyzingZooms,
+    onAutoZoomOptionsChange,
+    onGenerateZooms,
+    onAddZoomSegment,
+    onUpdateZoomSegment,
+    onRemoveZoomSegment,
+    onClearZoomSegments,
+    onSelectZoomSegment,
+    tracks,
+    audioMix,
+    onImportMusic,
+    onUpdateTrack,
+    onSoloTrack,
+    onAudioMixChange,
     currentTime,
     duration,
     formatTime,
@@ -156,6 +243,7 @@ const RightSidebar = memo(function RightSidebar({
     onAddClip,
     onUpdateClip,
     onRemoveClip,
+    onRegisterMediaAsset,
     webcamOverlayPosition,
     setWebcamOverlayPosition,
     webcamOverlaySize,
@@ -181,28 +269,41 @@ const RightSidebar = memo(function RightSidebar({
     currentColorPreset,
     currentAspectRatio,
     currentBrandKit,
+    brandOverlay,
+    onBrandOverlayChange,
     enhancementConfig,
     onEnhancementConfigChange,
     enhancementSettings,
-    onEnhancementSettingsChange
+    onEnhancementSettingsChange,
+    history,
+    onUndo = () => { },
+    onRedo = () => { },
+    onJumpToHistory = () => { },
+    captions = [],
+    timelineCaptions = [],
+    captionStyle,
+    brandFontFamily,
+    isTranscribing = false,
+    onGenerateCaptions = () => { },
+    onUpdateCaption = () => { },
+    onRemoveCaption = () => { },
+    onCaptionStyleChange = () => { },
+    timelineWords = [],
+    onDeleteWords = () => { },
+    silenceRemovalOptions = DEFAULT_SILENCE_REMOVAL_OPTIONS,
+    proposedCuts = null,
+    isAnalyzingSilences = false,
+    onSilenceRemovalOptionsChange = () => { },
+    onFindSilences = () => { },
+    onApplySilenceCuts = () => { },
+    onDismissSilenceCuts = () => { },
+    onSeek = () => { }
 }: RightSidebarProps) {
     const [activeTab, setActiveTab] = useState('background')
-    const [showAddOverlay, setShowAddOverlay] = useState(false)
     const [selectedBackgroundTab, setSelectedBackgroundTab] = useState<'wallpaper' | 'gradient' | 'color' | 'image'>(backgroundSettings.type)
     const [pexelsPhotos, setPexelsPhotos] = useState<PexelsPhoto[]>([])
     const [isLoadingPhotos, setIsLoadingPhotos] = useState(false)
     const [photosError, setPhotosError] = useState<string | null>(null)
-    const [newOverlay, setNewOverlay] = useState({
-        type: 'text' as 'text' | 'image',
-        content: '',
-        x: 50,
-        y: 50,
-        width: 200,
-        height: 50,
-        startTime: 0,
-        endTime: 5
-    })
-
     // Enhancement processing state (config and settings are now props)
     const [isEnhancementProcessing, setIsEnhancementProcessing] = useState(false)
     const [enhancementProgress, setEnhancementProgress] = useState(0)
@@ -278,35 +379,19 @@ const RightSidebar = memo(function RightSidebar({
         { id: 'background', icon: Square, label: 'Background' },
         { id: 'layout', icon: Layout, label: 'Layout' },
         { id: 'cursor', icon: MousePointer, label: 'Cursor' },
+        { id: 'zoom', icon: ZoomIn, label: 'Zoom' },
         { id: 'video', icon: Video, label: 'Video' },
         { id: 'webcam', icon: Webcam, label: 'Webcam' },
         { id: 'chat', icon: MessageCircle, label: 'Chat' },
+        { id: 'captions', icon: Captions, label: 'Captions' },
+        { id: 'transcript', icon: FileText, label: 'Transcript' },
         { id: 'audio', icon: Volume2, label: 'Audio' },
         { id: 'link', icon: Link, label: 'Link' },
         { id: 'magic', icon: Wand2, label: 'Magic' },
-        { id: 'draw', icon: Type, label: 'Draw' }
+        { id: 'draw', icon: Type, label: 'Draw' },
+        { id: 'history', icon: History, label: 'History' }
     ]
 
-    const handleAddOverlay = () => {
-        if (newOverlay.content) {
-            onAddOverlay({
-                id: Date.now().toString(),
-                ...newOverlay
-            })
-            setNewOverlay({
-                type: 'text',
-                content: '',
-                x: 50,
-                y: 50,
-                width: 200,
-                height: 50,
-                startTime: 0,
-                endTime: 5
-            })
-            setShowAddOverlay(false)
-        }
-    }
-
     // Enhancement handlers
     const handleEnhancementConfigChange = (config: EnhancementConfig) => {
         onEnhancementConfigChange?.(config)
@@ -742,110 +827,17 @@ const RightSidebar = memo(function RightSidebar({
 
     const renderOverlayTab = () => (
         <div className="space-y-4">
-            <div className="flex items-center justify-between">
-                <h3 className="font-medium text-sm">Overlays</h3>
-                <Button
-                    onClick={() => setShowAddOverlay(!showAddOverlay)}
-                    size="sm"
-                    variant="outline"
-                    className="text-xs px-2 py-1 h-7"
-                >
-                    Add
-                </Button>
-            </div>
-
-            {showAddOverlay && (
-                <div className="bg-gray-700 rounded-lg p-3 space-y-3">
-                    <div>
-                        <Label className="text-xs">Type</Label>
-                        <div className="flex gap-1 mt-1">
-                            <Button
-                                size="sm"
-                                variant={newOverlay.type === 'text' ? 'default' : 'outline'}
-                                onClick={() => setNewOverlay(prev => ({ ...prev, type: 'text' }))}
-                                className="text-xs px-2 py-1 h-7"
-                            >
-                                <Type className="h-3 w-3 mr-1" />
-                                Text
-                            </Button>
-                            <Button
-                                size="sm"
-                                variant={newOverlay.type === 'image' ? 'default' : 'outline'}
-                                onClick={() => setNewOverlay(prev => ({ ...prev, type: 'image' }))}
-                                className="text-xs px-2 py-1 h-7"
-                            >
-                                <ImageIcon className="h-3 w-3 mr-1" />
-                                Image
-                            </Button>
-                        </div>
-                    </div>
-
-                    <div>
-                        <Label className="text-xs">Content</Label>
-                        <Input
-                            value={newOverlay.content}
-                            onChange={(e) => setNewOverlay(prev => ({ ...prev, content: e.target.value }))}
-                            placeholder={newOverlay.type === 'text' ? 'Enter text...' : 'Image URL...'}
-                            className="h-7 text-xs"
-                        />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-2">
-                        <div>
-                            <Label className="text-xs">Start (s)</Label>
-                            <Input
-                                type="number"
-                                value={newOverlay.startTime}
-                                onChange={(e) => setNewOverlay(prev => ({ ...prev, startTime: Number(e.target.value) }))}
-                                className="h-7 text-xs"
-                            />
-                        </div>
-                        <div>
-                            <Label className="text-xs">End (s)</Label>
-                            <Input
-                                type="number"
-                                value={newOverlay.endTime}
-                                onChange={(e) => setNewOverlay(prev => ({ ...prev, endTime: Number(e.target.value) }))}
-                                className="h-7 text-xs"
-                            />
-                        </div>
-                    </div>
-
-                    <div className="flex gap-1">
-                        <Button onClick={handleAddOverlay} size="sm" className="text-xs px-2 py-1 h-7">
-                            Add
-                        </Button>
-                        <Button
-                            onClick={() => setShowAddOverlay(false)}
-                            size="sm"
-                            variant="outline"
-                            className="text-xs px-2 py-1 h-7"
-                        >
-                            Cancel
-                        </Button>
-                    </div>
-                </div>
-            )}
-
-            {overlays.length > 0 && (
-                <div className="space-y-2">
-                    {overlays.map(overlay => (
-                        <div key={overlay.id} className="flex items-center justify-between p-2 bg-gray-700 rounded text-xs">
-                            <span className="truncate">
-                                {overlay.type}: {overlay.content} ({formatTime(overlay.startTime)} - {formatTime(overlay.endTime)})
-                            </span>
-                            <Button
-                                onClick={() => onRemoveOverlay(overlay.id)}
-                                size="sm"
-                                variant="destructive"
-                                className="h-5 w-5 p-0"
-                            >
-                                ×
-                            </Button>
-                        </div>
-                    ))}
-                </div>
-            )}
+            <h3 className="font-medium text-sm">Overlays</h3>
+            <OverlaysPanel
+                overlays={overlays}
+                selectedOverlay={selectedOverlay}
+                formatTime={formatTime}
+                onAddOverlay={onAddOverlay}
+                onUpdateOverlay={onUpdateOverlay}
+                onRemoveOverlay={onRemoveOverlay}
+                onSelectOverlay={onSelectOverlay}
+                onSeek={onSeek}
+            />
         </div>
     )
 
@@ -1708,6 +1700,8 @@ const RightSidebar = memo(function RightSidebar({
                         currentColorPreset={currentColorPreset}
                         currentAspectRatio={currentAspectRatio}
                         currentBrandKit={currentBrandKit}
+                        brandOverlay={brandOverlay}
+                        onBrandOverlayChange={onBrandOverlayChange}
                     />
                 )
             case 'enhancements':
@@ -1719,6 +1713,7 @@ const RightSidebar = memo(function RightSidebar({
                         onAddClip={onAddClip}
                         onUpdateClip={onUpdateClip}
                         onRemoveClip={onRemoveClip}
+                        onRegisterMediaAsset={onRegisterMediaAsset}
                     />
                 )
             case 'background':
@@ -1726,21 +1721,110 @@ const RightSidebar = memo(function RightSidebar({
             case 'layout':
                 return renderLayoutTab()
             case 'cursor':
-                return <div className="text-sm text-gray-400">Cursor settings coming soon...</div>
+                return (
+                    <CursorPanel
+                        cursorTrack={cursorTrack}
+                        cursorSettings={cursorSettings}
+                        onCursorTrackChange={onCursorTrackChange}
+                        onCursorSettingsChange={onCursorSettingsChange}
+                    />
+                )
+            case 'zoom':
+                return (
+                    <ZoomPanel
+                        zoomSegments={zoomSegments}
+                        selectedZoomSegment={selectedZoomSegment}
+                        options={autoZoomOptions}
+                        hasCursorClicks={!!cursorTrack && cursorTrack.clicks.length > 0}
+                        isAnalyzing={isAnalyzingZooms}
+                        formatTime={formatTime}
+                        onOptionsChange={onAutoZoomOptionsChange}
+                        onGenerate={onGenerateZooms}
+                        onAddZoomSegment={onAddZoomSegment}
+                        onUpdateZoomSegment={onUpdateZoomSegment}
+                        onRemoveZoomSegment={onRemoveZoomSegment}
+                        onClearZoomSegments={onClearZoomSegments}
+                        onSelectZoomSegment={onSelectZoomSegment}
+                        onSeek={onSeek}
+                    />
+                )
             case 'video':
                 return renderVideoTab()
             case 'webcam':
                 return renderWebcamTab()
             case 'chat':
                 return renderOverlayTab()
+            case 'captions':
+                return captionStyle ? (
+                    <CaptionsPanel
+                        captions={captions}
+                        timelineCaptions={timelineCaptions}
+                        captionStyle={captionStyle}
+                        brandFontFamily={brandFontFamily}
+                        currentTime={currentTime}
+                        formatTime={formatTime}
+                        isTranscribing={isTranscribing}
+                        onGenerateCaptions={onGenerateCaptions}
+                        onUpdateCaption={onUpdateCaption}
+                        onRemoveCaption={onRemoveCaption}
+                        onCaptionStyleChange={onCaptionStyleChange}
+                        onSeek={onSeek}
+                    />
+                ) : null
+            case 'transcript':
+                return (
+                    <TranscriptEditor
+                        words={timelineWords}
+                        hasTranscript={captions.length > 0}
+                        currentTime={currentTime}
+                        isTranscribing={isTranscribing}
+                        onGenerateTranscript={onGenerateCaptions}
+                        onSeek={onSeek}
+                        onDeleteWords={onDeleteWords}
+                    />
+                )
             case 'audio':
-                return <div className="text-sm text-gray-400">Audio settings coming soon...</div>
+                return (
+                    <AudioPanel
+                        clips={clips}
+                        tracks={tracks}
+                        audioMix={audioMix}
+                        formatTime={formatTime}
+                        onImportMusic={onImportMusic}
+                        onUpdateClip={onUpdateClip}
+                        onUpdateTrack={onUpdateTrack}
+                        onSoloTrack={onSoloTrack}
+                        onAudioMixChange={onAudioMixChange}
+                    />
+                )
             case 'link':
                 return <div className="text-sm text-gray-400">Link settings coming soon...</div>
             case 'magic':
-                return <div className="text-sm text-gray-400">Magic settings coming soon...</div>
+                return (
+                    <SilenceRemovalPanel
+                        options={silenceRemovalOptions}
+                        proposedCuts={proposedCuts}
+                        hasTranscript={captions.length > 0}
+                        isAnalyzing={isAnalyzingSilences}
+                        formatTime={formatTime}
+                        onOptionsChange={onSilenceRemovalOptionsChange}
+                        onAnalyze={onFindSilences}
+                        onApply={onApplySilenceCuts}
+                        onDismiss={onDismissSilenceCuts}
+                        onSeek={onSeek}
+                    />
+                )
             case 'draw':
                 return renderDrawTab()
+            case 'history':
+                return history ? (
+                    <HistoryPanel
+                        history={history}
+                        onUndo={onUndo}
+                        onRedo={onRedo}
+                        onJumpToHistory={onJumpToHistory}
+                    />
+                ) : null
             default:
                 return renderBackgroundTab()
         }
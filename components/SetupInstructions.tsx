@@ -12,8 +12,10 @@ export default function SetupInstructions() {
 NEXT_PUBLIC_SUPABASE_URL=your_supabase_url_here
 NEXT_PUBLIC_SUPABASE_ANON_KEY=your_supabase_anon_key_here
 
-# Google Gemini Configuration
-NEXT_PUBLIC_GEMINI_API_KEY=your_gemini_api_key_here
+# Transcription (server-side; set one key, or TRANSCRIPTION_PROVIDER=local)
+GEMINI_API_KEY=your_gemini_api_key_here
+# OPENAI_API_KEY=your_openai_api_key_here
+# TRANSCRIPTION_PROVIDER=gemini
 
 # App Configuration
 NEXT_PUBLIC_APP_URL=http://localhost:3000`
@@ -26,7 +28,7 @@ NEXT_PUBLIC_APP_URL=http://localhost:3000`
         <div className="max-w-4xl mx-auto space-y-6">
             <Alert>
                 <AlertDescription>
-                    <strong>Setup Required:</strong> This app requires Supabase and Google Gemini configuration to work properly.
+                    <strong>Setup Required:</strong> This app requires Supabase configuration, plus a transcription provider such as Google Gemini for captions and transcripts.
                 </AlertDescription>
             </Alert>
 
@@ -60,7 +62,8 @@ NEXT_PUBLIC_APP_URL=http://localhost:3000`
                         <ol className="list-decimal list-inside space-y-2 text-sm">
                             <li>Go to <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Google AI Studio</a></li>
                             <li>Create an API key for Gemini</li>
-                            <li>Add it to your environment variables as <code className="bg-gray-100 px-1 rounded">NEXT_PUBLIC_GEMINI_API_KEY</code></li>
+                            <li>Add it to your environment variables as <code className="bg-gray-100 px-1 rounded">GEMINI_API_KEY</code></li>
+                            <li>Or use OpenAI Whisper with <code className="bg-gray-100 px-1 rounded">OPENAI_API_KEY</code>; keys stay on the server</li>
                         </ol>
                     </CardContent>
                 </Card>
@@ -80,8 +83,10 @@ NEXT_PUBLIC_APP_URL=http://localhost:3000`
 NEXT_PUBLIC_SUPABASE_URL=your_supabase_url_here
 NEXT_PUBLIC_SUPABASE_ANON_KEY=your_supabase_anon_key_here
 
-# Google Gemini Configuration
-NEXT_PUBLIC_GEMINI_API_KEY=your_gemini_api_key_here
+# Transcription (server-side; set one key, or TRANSCRIPTION_PROVIDER=local)
+GEMINI_API_KEY=your_gemini_api_key_here
+# OPENAI_API_KEY=your_openai_api_key_here
+# TRANSCRIPTION_PROVIDER=gemini
 
 # App Configuration
 NEXT_PUBLIC_APP_URL=http://localhost:3000`}</pre>
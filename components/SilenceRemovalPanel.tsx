@@ -0,0 +1,134 @@
+'use client'
+
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Loader2, Scissors, VolumeX, X } from 'lucide-react'
+import { ProposedCut, SilenceRemovalOptions } from '@/lib/videoEditor/silenceRemoval'
+
+interface SilenceRemovalPanelProps {
+    options: SilenceRemovalOptions
+    // Null until the recording has been analyzed
+    proposedCuts: ProposedCut[] | null
+    hasTranscript: boolean
+    isAnalyzing: boolean
+    formatTime: (seconds: number) => string
+    onOptionsChange: (options: Partial<SilenceRemovalOptions>) => void
+    onAnalyze: () => void
+    onApply: () => void
+    onDismiss: () => void
+    onSeek: (time: number) => void
+}
+
+export default function SilenceRemovalPanel({
+    options,
+    proposedCuts,
+    hasTranscript,
+    isAnalyzing,
+    formatTime,
+    onOptionsChange,
+    onAnalyze,
+    onApply,
+    onDismiss,
+    onSeek
+}: SilenceRemovalPanelProps) {
+    const silenceCount = proposedCuts?.filter(cut => cut.reason === 'silence').length ?? 0
+    const fillerCount = proposedCuts?.filter(cut => cut.reason === 'filler').length ?? 0
+    const totalCut = proposedCuts?.reduce((total, cut) => total + cut.end - cut.start, 0) ?? 0
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <VolumeX className="h-4 w-4" />
+                <h3 className="font-medium text-sm">Remove silences</h3>
+            </div>
+
+            <div>
+                <Label className="text-xs text-gray-400">Shortest pause to cut</Label>
+                <div className="space-y-1 mt-1">
+                    <Slider
+                        value={[options.minSilence]}
+                        onValueChange={(value) => onOptionsChange({ minSilence: value[0] })}
+                        min={0.3}
+                        max={3}
+                        step={0.05}
+                        className="w-full"
+                    />
+                    <div className="text-xs text-gray-400 text-center">{options.minSilence.toFixed(2)}s</div>
+                </div>
+            </div>
+
+            <div>
+                <Label className="text-xs text-gray-400">Pause kept around speech</Label>
+                <div className="space-y-1 mt-1">
+                    <Slider
+                        value={[options.padding]}
+                        onValueChange={(value) => onOptionsChange({ padding: value[0] })}
+                        max={0.5}
+                        step={0.05}
+                        className="w-full"
+                    />
+                    <div className="text-xs text-gray-400 text-center">{options.padding.toFixed(2)}s</div>
+                </div>
+            </div>
+
+            <label className={`flex items-center gap-2 text-xs ${hasTranscript ? 'text-gray-400' : 'text-gray-600'}`}>
+                <input
+                    type="checkbox"
+                    checked={options.removeFillers && hasTranscript}
+                    disabled={!hasTranscript}
+                    onChange={(e) => onOptionsChange({ removeFillers: e.target.checked })}
+                />
+                Also cut filler words (&quot;um&quot;, &quot;uh&quot;){!hasTranscript && ' — needs a transcript'}
+            </label>
+
+            {proposedCuts === null ? (
+                <Button size="sm" className="w-full h-7 text-xs" onClick={onAnalyze} disabled={isAnalyzing}>
+                    {isAnalyzing ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                        <VolumeX className="h-3 w-3 mr-1" />
+                    )}
+                    {isAnalyzing ? 'Listening for pauses...' : 'Find pauses'}
+                </Button>
+            ) : (
+                <div className="space-y-2">
+                    <p className="text-xs text-gray-400">
+                        {proposedCuts.length === 0
+                            ? 'Nothing to cut with these settings.'
+                            : `${silenceCount} pause${silenceCount === 1 ? '' : 's'} and ${fillerCount} filler word${fillerCount === 1 ? '' : 's'}, ${totalCut.toFixed(1)}s in total. They are marked in red on the timeline.`}
+                    </p>
+                    <div className="flex gap-2">
+                        <Button
+                            size="sm"
+                            className="flex-1 h-7 text-xs"
+                            onClick={onApply}
+                            disabled={proposedCuts.length === 0}
+                        >
+                            <Scissors className="h-3 w-3 mr-1" />
+                            Cut {proposedCuts.length}
+                        </Button>
+                        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onDismiss}>
+                            <X className="h-3 w-3 mr-1" />
+                            Dismiss
+                        </Button>
+                    </div>
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                        {proposedCuts.map(cut => (
+                            <button
+                                key={cut.id}
+                                onClick={() => onSeek(cut.start)}
+                                className="w-full flex items-center justify-between px-2 py-1 text-xs rounded-md bg-gray-800/50 text-gray-300 hover:bg-gray-700"
+                            >
+                                <span>{cut.reason === 'filler' ? `"${cut.text}"` : 'Pause'}</span>
+                                <span className="text-gray-500">
+                                    {formatTime(cut.start)} · {(cut.end - cut.start).toFixed(2)}s
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
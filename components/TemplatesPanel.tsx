@@ -1,20 +1,37 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import {
   Palette,
   Crop,
   Sparkles,
   Zap,
-  Film
+  Film,
+  Pencil,
+  Download,
+  Upload,
+  Trash2
 } from 'lucide-react'
 import { colorGradingPresets, ColorGradingPreset } from '@/lib/templates/colorGradingPresets'
 import { aspectRatioTemplates, AspectRatioTemplate } from '@/lib/templates/aspectRatioTemplates'
-import { defaultBrandKits, BrandKit } from '@/lib/templates/brandKit'
+import { defaultBrandKits, BrandKit, BrandLogo, getBrandKitById } from '@/lib/templates/brandKit'
+import { BrandMarkOverride, BrandOverlaySettings } from '@/lib/videoEditor/brandOverlay'
 import { transitionPresets, TransitionPreset } from '@/lib/templates/transitionPresets'
+import {
+  BrandKitFileError,
+  createBrandKitFile,
+  getBrandKitFileName,
+  isCustomBrandKit,
+  parseBrandKitFile
+} from '@/lib/videoEditor/brandKitStorage'
+import { downloadBlob } from '@/lib/videoExporter'
+import { useBrandKitStore } from '@/stores/brandKitStore'
+import BrandKitEditor from '@/components/BrandKitEditor'
 
 interface TemplatesPanelProps {
   onApplyColorGrading?: (preset: ColorGradingPreset) => void
@@ -24,6 +41,57 @@ interface TemplatesPanelProps {
   currentColorPreset?: string
   currentAspectRatio?: string
   currentBrandKit?: string
+  brandOverlay?: BrandOverlaySettings
+  onBrandOverlayChange?: (settings: Partial<BrandOverlaySettings>) => void
+}
+
+const BRAND_MARK_POSITIONS: { value: BrandLogo['position']; label: string }[] = [
+  { value: 'top-left', label: 'Top Left' },
+  { value: 'top-right', label: 'Top Right' },
+  { value: 'center', label: 'Center' },
+  { value: 'bottom-left', label: 'Bottom Left' },
+  { value: 'bottom-right', label: 'Bottom Right' }
+]
+
+// Stable, so the brand kit editor doesn't reset while it is open
+const NO_IMAGES: Record<string, Blob> = {}
+
+interface BrandMarkControlsProps {
+  title: string
+  position: BrandLogo['position']
+  opacity: number
+  onChange: (override: BrandMarkOverride) => void
+}
+
+function BrandMarkControls({ title, position, opacity, onChange }: BrandMarkControlsProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-gray-400">{title}</Label>
+      <div className="grid grid-cols-3 gap-1">
+        {BRAND_MARK_POSITIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ position: option.value })}
+            className={`px-2 py-1.5 text-xs rounded-md transition-all duration-200 ${
+              position === option.value
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-700 text-gray-400 hover:text-white hover:bg-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <Slider
+        value={[Math.round(opacity * 100)]}
+        onValueChange={(value) => onChange({ opacity: value[0] / 100 })}
+        max={100}
+        step={5}
+        className="w-full"
+      />
+      <div className="text-xs text-gray-400 text-center">{Math.round(opacity * 100)}% opacity</div>
+    </div>
+  )
 }
 
 export default function TemplatesPanel({
@@ -33,7 +101,9 @@ export default function TemplatesPanel({
   onApplyTransition,
   currentColorPreset,
   currentAspectRatio,
-  currentBrandKit
+  currentBrandKit,
+  brandOverlay,
+  onBrandOverlayChange
 }: TemplatesPanelProps) {
   const [selectedTab, setSelectedTab] = useState('color-grading')
   const [colorCategory, setColorCategory] = useState<'all' | 'cinematic' | 'corporate' | 'social' | 'creative' | 'vintage'>('all')
@@ -43,6 +113,68 @@ export default function TemplatesPanel({
     ? colorGradingPresets
     : colorGradingPresets.filter(p => p.category === colorCategory)
 
+  const { customKits, images: customKitImages, loadKits, saveKit, deleteKit } = useBrandKitStore()
+  // undefined while the editor is closed, null while it creates a new kit
+  const [editingKit, setEditingKit] = useState<BrandKit | null | undefined>(undefined)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    loadKits()
+  }, [loadKits])
+
+  const activeBrandKit = currentBrandKit ? getBrandKitById(currentBrandKit, customKits) : undefined
+  const activeLogo = activeBrandKit?.logos[0]
+  const activeWatermark = activeBrandKit?.watermarks[0]
+
+  const handleSaveKit = async (kit: BrandKit, images: Record<string, Blob>) => {
+    try {
+      await saveKit(kit, images)
+      toast.success(`Saved brand kit "${kit.name}"`)
+    } catch (error) {
+      console.error('Failed to save brand kit:', error)
+      toast.error('Failed to save brand kit')
+      throw error
+    }
+  }
+
+  const handleExportKit = async (kit: BrandKit) => {
+    try {
+      downloadBlob(await createBrandKitFile(kit, customKitImages[kit.id] ?? {}), getBrandKitFileName(kit))
+    } catch (error) {
+      console.error('Failed to export brand kit:', error)
+      toast.error('Failed to export brand kit')
+    }
+  }
+
+  const handleImportKit = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const { kit, images } = parseBrandKitFile(await file.text())
+      await saveKit(kit, images)
+      toast.success(`Imported brand kit "${kit.name}"`)
+    } catch (error) {
+      if (error instanceof BrandKitFileError) {
+        toast.error(error.message)
+      } else {
+        console.error('Failed to import brand kit:', error)
+        toast.error('Failed to import brand kit')
+      }
+    }
+  }
+
+  const handleDeleteKit = async (kit: BrandKit) => {
+    if (!confirm(`Delete brand kit "${kit.name}"?`)) return
+    try {
+      await deleteKit(kit.id)
+    } catch (error) {
+      console.error('Failed to delete brand kit:', error)
+      toast.error('Failed to delete brand kit')
+    }
+  }
+
   const filteredAspectTemplates = aspectCategory === 'all'
     ? aspectRatioTemplates
     : aspectRatioTemplates.filter(t => t.category === aspectCategory)
@@ -198,7 +330,7 @@ export default function TemplatesPanel({
         {/* Brand Kit Tab */}
         <TabsContent value="brand-kit" className="space-y-3 mt-3">
           <div className="space-y-2">
-            {defaultBrandKits.map((brandKit) => (
+            {[...defaultBrandKits, ...customKits].map((brandKit) => (
               <div
                 key={brandKit.id}
                 onClick={() => onApplyBrandKit?.(brandKit)}
@@ -211,9 +343,36 @@ export default function TemplatesPanel({
                 <div className="p-3 bg-gray-800">
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="text-sm font-semibold">{brandKit.name}</h4>
-                    {currentBrandKit === brandKit.id && (
-                      <Zap className="h-4 w-4 text-purple-400" />
-                    )}
+                    <div className="flex items-center gap-1">
+                      {isCustomBrandKit(brandKit) && (
+                        <>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setEditingKit(brandKit) }}
+                            className="p-1 text-gray-400 hover:text-white"
+                            title="Edit brand kit"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleExportKit(brandKit) }}
+                            className="p-1 text-gray-400 hover:text-white"
+                            title="Export brand kit"
+                          >
+                            <Download className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleDeleteKit(brandKit) }}
+                            className="p-1 text-gray-400 hover:text-red-400"
+                            title="Delete brand kit"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        </>
+                      )}
+                      {currentBrandKit === brandKit.id && (
+                        <Zap className="h-4 w-4 text-purple-400" />
+                      )}
+                    </div>
                   </div>
                   <p className="text-xs text-gray-400 mb-3">{brandKit.description}</p>
                   
@@ -238,18 +397,73 @@ export default function TemplatesPanel({
             ))}
           </div>
 
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full"
-            onClick={() => {
-              // TODO: Open custom brand kit creator
-              alert('Custom brand kit creator coming soon!')
-            }}
-          >
-            <Sparkles className="h-4 w-4 mr-2" />
-            Create Custom Brand Kit
-          </Button>
+          {/* Where this project shows the kit's logo and watermark */}
+          {brandOverlay && onBrandOverlayChange && (activeLogo || activeWatermark) && (
+            <div className="space-y-3 rounded-lg border border-gray-600 bg-gray-800 p-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold">Logo & Watermark</h4>
+                <Button
+                  size="sm"
+                  variant={brandOverlay.visible ? 'default' : 'outline'}
+                  onClick={() => onBrandOverlayChange({ visible: !brandOverlay.visible })}
+                  className="text-xs h-7"
+                >
+                  {brandOverlay.visible ? 'Shown' : 'Hidden'}
+                </Button>
+              </div>
+              {brandOverlay.visible && activeLogo && (
+                <BrandMarkControls
+                  title="Logo"
+                  position={brandOverlay.logo.position ?? activeLogo.position}
+                  opacity={brandOverlay.logo.opacity ?? activeLogo.opacity}
+                  onChange={(override) => onBrandOverlayChange({ logo: { ...brandOverlay.logo, ...override } })}
+                />
+              )}
+              {brandOverlay.visible && activeWatermark && (
+                <BrandMarkControls
+                  title="Watermark"
+                  position={brandOverlay.watermark.position ?? activeWatermark.position}
+                  opacity={brandOverlay.watermark.opacity ?? activeWatermark.opacity}
+                  onChange={(override) => onBrandOverlayChange({ watermark: { ...brandOverlay.watermark, ...override } })}
+                />
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => setEditingKit(null)}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Create Custom Brand Kit
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              title="Import a shared brand kit"
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImportKit}
+            />
+          </div>
+
+          <BrandKitEditor
+            open={editingKit !== undefined}
+            kit={editingKit ?? null}
+            images={editingKit ? customKitImages[editingKit.id] ?? NO_IMAGES : NO_IMAGES}
+            onClose={() => setEditingKit(undefined)}
+            onSave={handleSaveKit}
+          />
         </TabsContent>
 
         {/* Transitions Tab */}
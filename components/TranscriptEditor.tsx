@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { FileText, Loader2, Scissors, Wand2 } from 'lucide-react'
+import { TimelineWord } from '@/lib/videoEditor/transcriptEditing'
+
+interface TranscriptEditorProps {
+    // Transcript words in timeline order
+    words: TimelineWord[]
+    hasTranscript: boolean
+    currentTime: number
+    isTranscribing: boolean
+    onGenerateTranscript: () => void
+    onSeek: (time: number) => void
+    // Cut the words between two indexes (inclusive) out of the video
+    onDeleteWords: (fromIndex: number, toIndex: number) => void
+}
+
+interface WordSelection {
+    anchor: number
+    focus: number
+}
+
+// Read the transcript and strike words to cut them from the video. Click a
+// word to jump to it, drag or shift-click to select, then press Delete.
+export default function TranscriptEditor({
+    words,
+    hasTranscript,
+    currentTime,
+    isTranscribing,
+    onGenerateTranscript,
+    onSeek,
+    onDeleteWords
+}: TranscriptEditorProps) {
+    const [selection, setSelection] = useState<WordSelection | null>(null)
+    const [isSelecting, setIsSelecting] = useState(false)
+
+    // Indexes shift whenever the timeline changes, so an old selection would point at other words
+    useEffect(() => {
+        setSelection(null)
+    }, [words])
+
+    useEffect(() => {
+        if (!isSelecting) return
+        const handleMouseUp = () => setIsSelecting(false)
+        window.addEventListener('mouseup', handleMouseUp)
+        return () => window.removeEventListener('mouseup', handleMouseUp)
+    }, [isSelecting])
+
+    const selectedFrom = selection ? Math.min(selection.anchor, selection.focus) : -1
+    const selectedTo = selection ? Math.max(selection.anchor, selection.focus) : -1
+    const selectedCount = selection ? selectedTo - selectedFrom + 1 : 0
+
+    const deleteSelection = () => {
+        if (!selection) return
+        onDeleteWords(selectedFrom, selectedTo)
+        setSelection(null)
+    }
+
+    const handleWordMouseDown = (e: React.MouseEvent, index: number) => {
+        e.preventDefault()
+        if (e.shiftKey && selection) {
+            setSelection({ ...selection, focus: index })
+            return
+        }
+        setSelection({ anchor: index, focus: index })
+        setIsSelecting(true)
+        onSeek(words[index].start)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault()
+            e.stopPropagation()
+            deleteSelection()
+        } else if (e.key === 'Escape') {
+            setSelection(null)
+        }
+    }
+
+    if (!hasTranscript) {
+        return (
+            <div className="text-center py-6 text-gray-400 space-y-3">
+                <FileText className="h-8 w-8 mx-auto opacity-50" />
+                <p className="text-xs">Transcribe the recording to edit the video by editing its text</p>
+                <Button size="sm" className="h-7 text-xs" onClick={onGenerateTranscript} disabled={isTranscribing}>
+                    {isTranscribing ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                        <Wand2 className="h-3 w-3 mr-1" />
+                    )}
+                    Transcribe
+                </Button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-400">
+                    {selectedCount > 0
+                        ? `${selectedCount} word${selectedCount === 1 ? '' : 's'} selected`
+                        : 'Select words and press Delete to cut them'}
+                </p>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={deleteSelection}
+                    disabled={selectedCount === 0}
+                >
+                    <Scissors className="h-3 w-3 mr-1" />
+                    Cut
+                </Button>
+            </div>
+
+            {words.length === 0 ? (
+                <p className="text-xs text-gray-500 text-center py-4">Every spoken word has been cut from the timeline</p>
+            ) : (
+                <div
+                    tabIndex={0}
+                    onKeyDown={handleKeyDown}
+                    className="text-sm leading-7 select-none outline-none rounded-md p-2 bg-gray-800/50 focus:ring-1 focus:ring-purple-500"
+                >
+                    {words.map((word, index) => {
+                        const isSelected = index >= selectedFrom && index <= selectedTo
+                        const isCurrent = currentTime >= word.start && currentTime < word.end
+                        // Mark where one clip ends and the next begins
+                        const startsClip = index > 0 && words[index - 1].clipId !== word.clipId
+                        return (
+                            <span key={word.id}>
+                                {startsClip && <span className="text-purple-400 mx-1" title="Cut">|</span>}
+                                <span
+                                    onMouseDown={(e) => handleWordMouseDown(e, index)}
+                                    onMouseEnter={() => {
+                                        if (isSelecting && selection) setSelection({ ...selection, focus: index })
+                                    }}
+                                    className={`cursor-text rounded px-0.5 ${isSelected
+                                        ? 'bg-purple-600 text-white'
+                                        : isCurrent
+                                            ? 'bg-purple-500/20 text-white'
+                                            : 'text-gray-300 hover:bg-gray-700'
+                                        }`}
+                                >
+                                    {word.text}
+                                </span>{' '}
+                            </span>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
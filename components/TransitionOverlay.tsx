@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { PlacedTransition, getTransitionFrameAtSourceTime } from '@/lib/videoEditor/clipTransitions'
+import { TransitionRenderer, createTransitionRenderer } from '@/lib/videoEditor/transitionRenderer'
+
+interface TransitionOverlayProps {
+    videoUrl: string
+    videoRef: React.RefObject<HTMLVideoElement | null>
+    transitions: PlacedTransition[]
+    borderRadius: number
+}
+
+// Transitions are blended on the CPU, so the preview works at a reduced size
+const MAX_PREVIEW_WIDTH = 960
+// How far the hidden video may drift from the other side of the transition
+const PLAYING_DRIFT = 0.25
+const PAUSED_DRIFT = 1 / 30
+
+// Plays the other side of a transition in a hidden video and draws the blend
+// of both over the player with the exporter's renderer. The store only updates
+// the time while paused, so this follows the player's video frame by frame.
+export default function TransitionOverlay({ videoUrl, videoRef, transitions, borderRadius }: TransitionOverlayProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const otherVideoRef = useRef<HTMLVideoElement>(null)
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const ctx = canvas?.getContext('2d')
+        const otherVideo = otherVideoRef.current
+        if (!canvas || !ctx || !otherVideo || transitions.length === 0) return
+
+        let renderer: TransitionRenderer | null = null
+        let frameId = 0
+
+        const hide = () => {
+            canvas.style.visibility = 'hidden'
+            if (!otherVideo.paused) otherVideo.pause()
+        }
+
+        const draw = () => {
+            frameId = requestAnimationFrame(draw)
+
+            const video = videoRef.current
+            const frame = video && video.videoWidth > 0
+                ? getTransitionFrameAtSourceTime(transitions, video.currentTime)
+                : null
+            if (!video || !frame) {
+                hide()
+                return
+            }
+
+            const otherTime = frame.isPastCut ? frame.fromSourceTime : frame.toSourceTime
+            if (Math.abs(otherVideo.currentTime - otherTime) > (video.paused ? PAUSED_DRIFT : PLAYING_DRIFT)) {
+                otherVideo.currentTime = otherTime
+            }
+            if (video.paused && !otherVideo.paused) otherVideo.pause()
+            if (!video.paused && otherVideo.paused) otherVideo.play().catch(() => { })
+            if (otherVideo.readyState < 2) return
+
+            const width = Math.min(MAX_PREVIEW_WIDTH, video.videoWidth)
+            const height = Math.round(width * video.videoHeight / video.videoWidth)
+            if (!renderer || renderer.width !== width || renderer.height !== height) {
+                renderer = createTransitionRenderer(width, height)
+                canvas.width = width
+                canvas.height = height
+            }
+
+            const [from, to] = frame.isPastCut ? [otherVideo, video] : [video, otherVideo]
+            ctx.drawImage(renderer.render(from, to, frame.placed.preset, frame.progress), 0, 0)
+            canvas.style.visibility = 'visible'
+        }
+
+        frameId = requestAnimationFrame(draw)
+        return () => {
+            cancelAnimationFrame(frameId)
+            hide()
+        }
+    }, [videoRef, transitions])
+
+    if (transitions.length === 0) return null
+
+    return (
+        <>
+            <video ref={otherVideoRef} src={videoUrl} muted playsInline preload="auto" className="hidden" />
+            <canvas
+                ref={canvasRef}
+                className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+                style={{ borderRadius: `${borderRadius}px`, visibility: 'hidden' }}
+            />
+        </>
+    )
+}
@@ -1,11 +1,24 @@
 'use client'
 
-import { useState, useMemo, useCallback } from 'react'
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
 import VideoPlayer from './VideoPlayer'
 import WebcamOverlay from './WebcamOverlay'
 import VideoAnnotation from './VideoAnnotation'
+import TransitionOverlay from './TransitionOverlay'
+import OverlayLayer from './OverlayLayer'
+import CursorLayer from './CursorLayer'
+import ZoomViewport from './ZoomViewport'
 import { Annotation } from './VideoAnnotation'
 import { WebcamOverlayPosition, WebcamOverlaySize, WebcamSettings } from '@/hooks/useWebcamOverlay'
+import { getAnnotationBounds } from '@/lib/videoEditor/annotationRenderer'
+import { PlacedTransition } from '@/lib/videoEditor/clipTransitions'
+import { Overlay, getOverlayBounds, isOverlayVisible } from '@/lib/videoEditor/overlays'
+import { TimelineComposition } from '@/lib/videoEditor/timelineComposition'
+import { CursorSettings, CursorTrack, hasCursorData } from '@/lib/videoEditor/cursorTracking'
+import { ZoomSegment } from '@/lib/videoEditor/autoZoom'
+
+// Extra grab area around thin annotations such as lines, in CSS pixels
+const ANNOTATION_HIT_PADDING = 6
 
 interface VideoContainerProps {
     videoUrl: string
@@ -27,16 +40,29 @@ interface VideoContainerProps {
     annotationColor: string
     annotationStrokeWidth: number
     annotationFontSize: number
+    transitions: PlacedTransition[]
+    overlays: Overlay[]
+    selectedOverlay: string | null
+    composition: TimelineComposition
+    // Whether the segment under the playhead plays imported video instead of the recording
+    isShowingImportedVideo: boolean
+    cursorTrack: CursorTrack | null
+    cursorSettings: CursorSettings
+    zoomSegments: ZoomSegment[]
     onForceReady: () => void
     onWebcamMouseDown: (e: React.MouseEvent<HTMLDivElement>) => void
     onWebcamResizeMouseDown: (e: React.MouseEvent<HTMLDivElement>) => void
     onAddAnnotation: (annotation: Annotation) => void
-    onUpdateAnnotation: (id: string, updates: Partial<Annotation>) => void
     onRemoveAnnotation: (id: string) => void
     onAnnotationMouseDown: (e: React.MouseEvent<HTMLDivElement>, annotationId: string) => void
     onAnnotationResize: (e: React.MouseEvent<HTMLDivElement>, annotationId: string) => void
+    onOverlayMouseDown: (e: React.MouseEvent<HTMLDivElement>, overlayId: string) => void
+    onOverlayResize: (e: React.MouseEvent<HTMLDivElement>, overlayId: string) => void
+    onOverlayRotate: (e: React.MouseEvent<HTMLDivElement>, overlayId: string) => void
+    onRemoveOverlay: (id: string) => void
     videoRef: React.RefObject<HTMLVideoElement | null>
     webcamVideoRef: React.RefObject<HTMLVideoElement | null>
+    mediaVideoRef: React.RefObject<HTMLVideoElement | null>
 }
 
 export default function VideoContainer({
@@ -56,16 +82,28 @@ export default function VideoContainer({
     annotationColor,
     annotationStrokeWidth,
     annotationFontSize,
+    transitions,
+    overlays,
+    selectedOverlay,
+    composition,
+    isShowingImportedVideo,
+    cursorTrack,
+    cursorSettings,
+    zoomSegments,
     onForceReady,
     onWebcamMouseDown,
     onWebcamResizeMouseDown,
     onAddAnnotation,
-    onUpdateAnnotation,
     onRemoveAnnotation,
     onAnnotationMouseDown,
     onAnnotationResize,
+    onOverlayMouseDown,
+    onOverlayResize,
+    onOverlayRotate,
+    onRemoveOverlay,
     videoRef,
-    webcamVideoRef
+    webcamVideoRef,
+    mediaVideoRef
 }: VideoContainerProps) {
     const [isDragging, setIsDragging] = useState(false)
 
@@ -76,16 +114,28 @@ export default function VideoContainer({
         )
     }, [annotations, currentTime])
 
-    // Memoize video dimensions to prevent re-renders
-    const videoDimensions = useMemo(() => {
-        if (videoRef.current) {
-            return {
-                width: videoRef.current.videoWidth || 1920,
-                height: videoRef.current.videoHeight || 1080
-            }
-        }
-        return { width: 1920, height: 1080 }
-    }, [videoRef.current?.videoWidth, videoRef.current?.videoHeight])
+    const visibleOverlays = useMemo(
+        () => overlays.filter(overlay => isOverlayVisible(overlay, currentTime)),
+        [overlays, currentTime]
+    )
+
+    // Annotation hit boxes are laid out in CSS pixels of the whole frame
+    const containerRef = useRef<HTMLDivElement>(null)
+    const [frameSize, setFrameSize] = useState({ width: 0, height: 0 })
+    const [measureContext, setMeasureContext] = useState<CanvasRenderingContext2D | null>(null)
+
+    useEffect(() => {
+        setMeasureContext(document.createElement('canvas').getContext('2d'))
+
+        const container = containerRef.current
+        if (!container) return
+
+        const observer = new ResizeObserver(() => {
+            setFrameSize({ width: container.clientWidth, height: container.clientHeight })
+        })
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [])
 
     // Memoize mouse event handlers to prevent re-renders
     const handleMouseEnter = useCallback(() => {
@@ -103,275 +153,165 @@ export default function VideoContainer({
 
     return (
         <div
+            ref={containerRef}
+            data-annotation-frame
             className="w-full h-full relative"
             style={containerStyle}
         >
-            <VideoPlayer
-                ref={videoRef}
-                videoUrl={videoUrl}
-                isVideoReady={isVideoReady}
-                forceReady={forceReady}
-                aspectRatio={aspectRatio}
+            <ZoomViewport
+                zoomSegments={zoomSegments}
+                currentTime={currentTime}
+                videoRef={videoRef}
+                composition={composition}
                 borderRadius={backgroundSettings.borderRadius}
-                onForceReady={onForceReady}
-                onMouseEnter={handleMouseEnter}
-                onMouseLeave={handleMouseLeave}
-            />
+            >
+                <VideoPlayer
+                    ref={videoRef}
+                    videoUrl={videoUrl}
+                    isVideoReady={isVideoReady}
+                    forceReady={forceReady}
+                    aspectRatio={aspectRatio}
+                    borderRadius={backgroundSettings.borderRadius}
+                    onForceReady={onForceReady}
+                    onMouseEnter={handleMouseEnter}
+                    onMouseLeave={handleMouseLeave}
+                />
 
-            <WebcamOverlay
-                ref={webcamVideoRef}
-                webcamVideoUrl={webcamVideoUrl}
-                webcamOverlayPosition={webcamOverlayPosition}
-                webcamOverlaySize={webcamOverlaySize}
-                webcamSettings={webcamSettings}
-                onMouseDown={onWebcamMouseDown}
-                onResizeMouseDown={onWebcamResizeMouseDown}
-                videoRef={videoRef}
-            />
+                <TransitionOverlay
+                    videoUrl={videoUrl}
+                    videoRef={videoRef}
+                    transitions={transitions}
+                    borderRadius={backgroundSettings.borderRadius}
+                />
 
-            {/* Video Annotation Layer */}
-            {videoRef.current && (
-                <VideoAnnotation
+                {hasCursorData(cursorTrack) && cursorSettings.visible && (
+                    <CursorLayer track={cursorTrack} settings={cursorSettings} videoRef={videoRef} />
+                )}
+
+                {/* Imported video covers the recording, its transitions and its cursor */}
+                <video
+                    ref={mediaVideoRef}
+                    playsInline
+                    preload="auto"
+                    className={`absolute inset-0 w-full h-full object-cover bg-black ${isShowingImportedVideo ? '' : 'hidden'}`}
+                    style={{ borderRadius: `${backgroundSettings.borderRadius}px` }}
+                />
+            </ZoomViewport>
+
+            {/* The webcam was recorded with the screen, so it sits out imported video */}
+            <div className={isShowingImportedVideo ? 'invisible' : undefined}>
+                <WebcamOverlay
+                    ref={webcamVideoRef}
+                    webcamVideoUrl={webcamVideoUrl}
+                    webcamOverlayPosition={webcamOverlayPosition}
+                    webcamOverlaySize={webcamOverlaySize}
+                    webcamSettings={webcamSettings}
+                    onMouseDown={onWebcamMouseDown}
+                    onResizeMouseDown={onWebcamResizeMouseDown}
                     videoRef={videoRef}
+                />
+            </div>
+
+            {overlays.length > 0 && (
+                <OverlayLayer
+                    overlays={overlays}
                     currentTime={currentTime}
-                    annotations={annotations}
-                    onAddAnnotation={onAddAnnotation}
-                    onUpdateAnnotation={onUpdateAnnotation}
-                    onRemoveAnnotation={onRemoveAnnotation}
-                    selectedTool={selectedAnnotationTool}
-                    toolColor={annotationColor}
-                    strokeWidth={annotationStrokeWidth}
-                    fontSize={annotationFontSize}
-                    containerWidth={videoDimensions.width}
-                    containerHeight={videoDimensions.height}
+                    videoRef={videoRef}
+                    composition={composition}
                 />
             )}
 
-            {/* Annotations Rendering */}
-            {visibleAnnotations.map(annotation => {
-                const isSelected = selectedAnnotation === annotation.id
+            {/* Overlay hit boxes for selecting, moving, resizing and rotating */}
+            {frameSize.width > 0 && visibleOverlays.map(overlay => {
+                const isSelected = selectedOverlay === overlay.id
+                const bounds = getOverlayBounds(overlay, frameSize.width, frameSize.height)
 
-                // Text annotation
-                if (annotation.type === 'text') {
-                    return (
-                        <div
-                            key={annotation.id}
-                            className={`absolute cursor-move transition-all duration-200 group ${isSelected ? 'ring-2 ring-purple-500 scale-105 z-30' : 'hover:scale-105 z-20'
-                                }`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: annotation.width ? `${annotation.width}px` : 'auto',
-                                minWidth: '100px'
-                            }}
-                            onMouseDown={(e) => onAnnotationMouseDown(e, annotation.id)}
-                        >
-                            <div
-                                className="px-3 py-2 rounded-lg backdrop-blur-sm border-2 shadow-lg"
-                                style={{
-                                    color: annotation.color,
-                                    fontSize: `${annotation.fontSize || 24}px`,
-                                    fontWeight: annotation.fontWeight || 'bold',
-                                    backgroundColor: annotation.backgroundColor || 'rgba(0, 0, 0, 0.5)',
-                                    borderColor: isSelected ? annotation.color : 'transparent'
-                                }}
-                            >
-                                {annotation.content}
-                            </div>
-                            {isSelected && (
-                                <>
-                                    <div
-                                        className="absolute bottom-0 right-0 w-4 h-4 bg-purple-500 rounded-full cursor-se-resize"
-                                        onMouseDown={(e) => onAnnotationResize(e, annotation.id)}
-                                    />
-                                    <button
-                                        className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
-                                        onClick={() => onRemoveAnnotation(annotation.id)}
-                                    >
-                                        ×
-                                    </button>
-                                </>
-                            )}
-                        </div>
-                    )
-                }
-
-                // Arrow annotation
-                if (annotation.type === 'arrow') {
-                    return (
-                        <svg
-                            key={annotation.id}
-                            className={`absolute pointer-events-none ${isSelected ? 'z-30' : 'z-20'}`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: '100px',
-                                height: '100px'
-                            }}
-                        >
-                            <defs>
-                                <marker
-                                    id={`arrowhead-${annotation.id}`}
-                                    markerWidth="10"
-                                    markerHeight="10"
-                                    refX="9"
-                                    refY="3"
-                                    orient="auto"
+                return (
+                    <div
+                        key={overlay.id}
+                        className={`absolute cursor-move ${isSelected ? 'ring-2 ring-sky-500 z-30' : 'hover:ring-1 hover:ring-sky-400/50 z-20'}`}
+                        style={{
+                            left: bounds.x,
+                            top: bounds.y,
+                            width: bounds.width,
+                            height: bounds.height,
+                            transform: `rotate(${overlay.rotation}deg)`
+                        }}
+                        onMouseDown={(e) => onOverlayMouseDown(e, overlay.id)}
+                    >
+                        {isSelected && (
+                            <>
+                                <div
+                                    className="absolute -top-6 left-1/2 -ml-2 w-4 h-4 bg-sky-500 rounded-full cursor-grab"
+                                    title="Rotate"
+                                    onMouseDown={(e) => onOverlayRotate(e, overlay.id)}
+                                />
+                                <div
+                                    className="absolute -bottom-2 -right-2 w-4 h-4 bg-sky-500 rounded-full cursor-se-resize"
+                                    onMouseDown={(e) => onOverlayResize(e, overlay.id)}
+                                />
+                                <button
+                                    className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    onClick={() => onRemoveOverlay(overlay.id)}
                                 >
-                                    <polygon
-                                        points="0 0, 10 3, 0 6"
-                                        fill={annotation.color}
-                                    />
-                                </marker>
-                            </defs>
-                            <line
-                                x1="10"
-                                y1="10"
-                                x2="90"
-                                y2="90"
-                                stroke={annotation.color}
-                                strokeWidth={annotation.strokeWidth || 3}
-                                markerEnd={`url(#arrowhead-${annotation.id})`}
-                            />
-                        </svg>
-                    )
-                }
-
-                // Rectangle annotation
-                if (annotation.type === 'rectangle') {
-                    return (
-                        <div
-                            key={annotation.id}
-                            className={`absolute cursor-move transition-all duration-200 group ${isSelected ? 'ring-2 ring-purple-500 scale-105 z-30' : 'hover:scale-105 z-20'
-                                }`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: `${annotation.width || 200}px`,
-                                height: `${annotation.height || 100}px`,
-                                border: `${annotation.strokeWidth || 3}px solid ${annotation.color}`,
-                                borderRadius: '8px',
-                                backgroundColor: 'transparent'
-                            }}
-                            onMouseDown={(e) => onAnnotationMouseDown(e, annotation.id)}
-                        >
-                            {isSelected && (
-                                <>
-                                    <div
-                                        className="absolute bottom-0 right-0 w-4 h-4 bg-purple-500 rounded-full cursor-se-resize"
-                                        onMouseDown={(e) => onAnnotationResize(e, annotation.id)}
-                                    />
-                                    <button
-                                        className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
-                                        onClick={() => onRemoveAnnotation(annotation.id)}
-                                    >
-                                        ×
-                                    </button>
-                                </>
-                            )}
-                        </div>
-                    )
-                }
+                                    ×
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )
+            })}
 
-                // Circle annotation
-                if (annotation.type === 'circle') {
-                    const size = Math.min(annotation.width || 150, annotation.height || 150)
-                    return (
-                        <div
-                            key={annotation.id}
-                            className={`absolute cursor-move transition-all duration-200 group ${isSelected ? 'ring-2 ring-purple-500 scale-105 z-30' : 'hover:scale-105 z-20'
-                                }`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: `${size}px`,
-                                height: `${size}px`,
-                                border: `${annotation.strokeWidth || 3}px solid ${annotation.color}`,
-                                borderRadius: '50%',
-                                backgroundColor: 'transparent'
-                            }}
-                            onMouseDown={(e) => onAnnotationMouseDown(e, annotation.id)}
-                        >
-                            {isSelected && (
-                                <>
-                                    <div
-                                        className="absolute bottom-0 right-0 w-4 h-4 bg-purple-500 rounded-full cursor-se-resize"
-                                        onMouseDown={(e) => onAnnotationResize(e, annotation.id)}
-                                    />
-                                    <button
-                                        className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
-                                        onClick={() => onRemoveAnnotation(annotation.id)}
-                                    >
-                                        ×
-                                    </button>
-                                </>
-                            )}
-                        </div>
-                    )
-                }
+            {/* Video Annotation Layer */}
+            <VideoAnnotation
+                currentTime={currentTime}
+                annotations={annotations}
+                selectedAnnotation={selectedAnnotation}
+                onAddAnnotation={onAddAnnotation}
+                selectedTool={selectedAnnotationTool}
+                toolColor={annotationColor}
+                strokeWidth={annotationStrokeWidth}
+                fontSize={annotationFontSize}
+            />
 
-                // Line annotation
-                if (annotation.type === 'line') {
-                    return (
-                        <svg
-                            key={annotation.id}
-                            className={`absolute pointer-events-none ${isSelected ? 'z-30' : 'z-20'}`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: '150px',
-                                height: '5px'
-                            }}
-                        >
-                            <line
-                                x1="0"
-                                y1="2"
-                                x2="150"
-                                y2="2"
-                                stroke={annotation.color}
-                                strokeWidth={annotation.strokeWidth || 3}
-                            />
-                        </svg>
-                    )
-                }
+            {/* Annotation hit boxes for selecting, moving and resizing */}
+            {measureContext && frameSize.width > 0 && visibleAnnotations.map(annotation => {
+                const isSelected = selectedAnnotation === annotation.id
+                const bounds = getAnnotationBounds(measureContext, annotation, frameSize.width, frameSize.height)
+                const isResizable = annotation.type !== 'arrow' && annotation.type !== 'line' && annotation.type !== 'freehand'
 
-                // Highlight annotation
-                if (annotation.type === 'highlight') {
-                    return (
-                        <div
-                            key={annotation.id}
-                            className={`absolute cursor-move transition-all duration-200 group ${isSelected ? 'ring-2 ring-purple-500 scale-105 z-30' : 'hover:scale-105 z-20'
-                                }`}
-                            style={{
-                                left: `${annotation.x}%`,
-                                top: `${annotation.y}%`,
-                                width: `${annotation.width || 200}px`,
-                                height: `${annotation.height || 100}px`,
-                                backgroundColor: annotation.backgroundColor || `${annotation.color}40`,
-                                borderRadius: '8px',
-                                border: `2px solid ${annotation.color}`
-                            }}
-                            onMouseDown={(e) => onAnnotationMouseDown(e, annotation.id)}
-                        >
-                            {isSelected && (
-                                <>
+                return (
+                    <div
+                        key={annotation.id}
+                        className={`absolute cursor-move rounded-lg ${isSelected ? 'ring-2 ring-purple-500 z-30' : 'hover:ring-1 hover:ring-purple-400/50 z-20'}`}
+                        style={{
+                            left: bounds.x - ANNOTATION_HIT_PADDING,
+                            top: bounds.y - ANNOTATION_HIT_PADDING,
+                            width: bounds.width + ANNOTATION_HIT_PADDING * 2,
+                            height: bounds.height + ANNOTATION_HIT_PADDING * 2
+                        }}
+                        onMouseDown={(e) => onAnnotationMouseDown(e, annotation.id)}
+                    >
+                        {isSelected && (
+                            <>
+                                {isResizable && (
                                     <div
                                         className="absolute bottom-0 right-0 w-4 h-4 bg-purple-500 rounded-full cursor-se-resize"
                                         onMouseDown={(e) => onAnnotationResize(e, annotation.id)}
                                     />
-                                    <button
-                                        className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
-                                        onClick={() => onRemoveAnnotation(annotation.id)}
-                                    >
-                                        ×
-                                    </button>
-                                </>
-                            )}
-                        </div>
-                    )
-                }
-
-                return null
+                                )}
+                                <button
+                                    className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full text-xs bg-red-500 text-white hover:bg-red-600"
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    onClick={() => onRemoveAnnotation(annotation.id)}
+                                >
+                                    ×
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )
             })}
         </div>
     )
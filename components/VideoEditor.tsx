@@ -1,24 +1,81 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
+import { toast } from 'sonner'
 import MultiTrackTimeline from './MultiTrackTimeline'
 import RightSidebar from './RightSidebar'
-import ExportDialog, { ExportOptions } from './ExportDialog'
+import { ZoomSource } from './ZoomPanel'
+import ExportDialog, { CaptionFileFormat, ExportOptions } from './ExportDialog'
 import VideoContainer from './VideoContainer'
+import AudioMixPlayback from './AudioMixPlayback'
+import ExportJobsPanel from './ExportJobsPanel'
+import CaptionOverlay from './CaptionOverlay'
+import BrandOverlay from './BrandOverlay'
 import VideoEditorToolbar from './VideoEditorToolbar'
-import { exportVideo as processVideoExport, downloadBlob } from '@/lib/videoExporter'
-import { EnhancementConfig, EnhancementSettings, getDefaultPreset } from '@/lib/videoEnhancement'
+import { downloadBlob } from '@/lib/videoExporter'
+import { EnhancementConfig, EnhancementSettings, SilenceRange, getDefaultPreset } from '@/lib/videoEnhancement'
 import { useVideoEditorStore } from '@/hooks/useVideoEditorStore'
+import { takeSnapshot, useVideoEditorStore as useEditorStore } from '@/stores/videoEditorStore'
+import { useBrandKitStore } from '@/stores/brandKitStore'
+import { useExportQueueStore } from '@/stores/exportQueueStore'
+import { ExportRequest, getPublishTarget } from '@/lib/exportJobs'
+import { useProjectAutosave } from '@/hooks/useProjectAutosave'
 import { Clip } from '@/hooks/useClips'
 import { createTemplateHandlers } from '@/lib/videoEditor/templateHandlers'
+import { buildComposition, createSourceComposition, isRecordingSegment } from '@/lib/videoEditor/timelineComposition'
+import {
+    TimelineCaption,
+    createCaptionsFromTranscript,
+    formatSrt,
+    formatWebVtt,
+    getCaptionAtTime,
+    getCaptionSourceRange,
+    mapCaptionsToTimeline,
+    resolveCaptionFontFamily
+} from '@/lib/videoEditor/captions'
+import { TranscriptionError, transcribeVideo } from '@/lib/transcription'
+import { getWordSelectionRanges, mapWordsToTimeline } from '@/lib/videoEditor/transcriptEditing'
+import { getRangesDuration } from '@/lib/videoEditor/rippleEdit'
+import { createClipTransition, findNearestBoundary, placeTransitions } from '@/lib/videoEditor/clipTransitions'
+import { TransitionPreset } from '@/lib/templates/transitionPresets'
+import { AspectRatioTemplate } from '@/lib/templates/aspectRatioTemplates'
+import {
+    DEFAULT_SILENCE_REMOVAL_OPTIONS,
+    SilenceRemovalOptions,
+    detectRecordingSilences,
+    planSilenceCuts
+} from '@/lib/videoEditor/silenceRemoval'
+import { getBrandKitById } from '@/lib/templates/brandKit'
+import { getBrandMarks } from '@/lib/videoEditor/brandOverlay'
+import { Overlay, createOverlay } from '@/lib/videoEditor/overlays'
+import { hasCursorData } from '@/lib/videoEditor/cursorTracking'
+import { createMediaAssetFromFile } from '@/lib/videoEditor/mediaAssets'
+import { ReframeMode } from '@/lib/videoEditor/reframing'
+import { createTrack, toggleSolo } from '@/lib/videoEditor/timelineTracks'
+import {
+    ActivityPoint,
+    AutoZoomOptions,
+    DEFAULT_AUTO_ZOOM_OPTIONS,
+    DEFAULT_ZOOM_DURATION,
+    createZoomSegment,
+    detectMotionActivity,
+    generateZoomSegments,
+    getCursorActivity
+} from '@/lib/videoEditor/autoZoom'
 import { getBackgroundStyle, getShadowStyle, getDefaultBackgroundSettings, BackgroundSettings } from '@/lib/videoEditor/backgroundUtils'
 import { VIDEO_EDITOR_CONSTANTS, VIDEO_EDITOR_STYLES } from '@/lib/videoEditor/constants'
+import { ProjectSession, captureVideoThumbnail } from '@/lib/videoEditor/projectStorage'
+import { SNIP_FILE_EXTENSION, createProjectBundle, getProjectBundleFileName, toSafeFileName } from '@/lib/videoEditor/projectBundle'
 
 interface VideoEditorProps {
     videoUrl: string
     webcamUrl?: string
     onSave: (editedVideoBlob: Blob) => void
     onCancel: () => void
+    // Project the edit is autosaved to
+    project?: ProjectSession
+    // Replace the open project with a .snip file
+    onImportProject?: (file: File) => void
 }
 
 interface TrimRange {
@@ -26,33 +83,34 @@ interface TrimRange {
     end: number
 }
 
-interface Overlay {
-    id: string
-    type: 'text' | 'image'
-    content: string
-    x: number
-    y: number
-    width: number
-    height: number
-    startTime: number
-    endTime: number
-}
-
-export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: VideoEditorProps) {
+export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel, project, onImportProject }: VideoEditorProps) {
     // Local state for UI-specific things
     const [trimRange, setTrimRange] = useState<TrimRange>({ start: 0, end: 0 })
-    const [overlays, setOverlays] = useState<Overlay[]>([])
     const [hoveredOverlay, setHoveredOverlay] = useState<string | null>(null)
+    const [isTranscribing, setIsTranscribing] = useState(false)
+    // Pauses found in the recording; null until it has been analyzed
+    const [recordingSilences, setRecordingSilences] = useState<SilenceRange[] | null>(null)
+    const [isAnalyzingSilences, setIsAnalyzingSilences] = useState(false)
+    const [silenceRemovalOptions, setSilenceRemovalOptions] = useState<SilenceRemovalOptions>(DEFAULT_SILENCE_REMOVAL_OPTIONS)
+    const [isAnalyzingZooms, setIsAnalyzingZooms] = useState(false)
+    const [autoZoomOptions, setAutoZoomOptions] = useState<AutoZoomOptions>(DEFAULT_AUTO_ZOOM_OPTIONS)
+
+    // Pauses belong to the recording they were found in
+    useEffect(() => {
+        setRecordingSilences(null)
+    }, [videoUrl])
 
     // Zustand store - single source of truth
     const {
         // Refs
         videoRef,
         webcamVideoRef,
+        mediaVideoRef,
 
         // Video player state
         isPlaying,
         currentTime,
+        activeMediaId,
         duration,
         isVideoReady,
         forceReady,
@@ -70,9 +128,14 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         updateClip,
         deleteClip,
         duplicateClip,
+        rippleDelete,
         addRecordedVideoClip,
         addWebcamClip,
 
+        // Media assets
+        mediaAssets,
+        registerMediaAsset,
+
         // Webcam overlay
         webcamVideoUrl,
         webcamOverlayPosition,
@@ -119,19 +182,95 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         currentColorPreset,
         currentAspectRatio,
         currentBrandKit,
+        brandOverlay,
         colorGradingFilters,
         setCurrentColorPreset,
         setCurrentAspectRatio,
         setCurrentBrandKit,
+        setBrandOverlay,
         setColorGradingFilters,
 
         // Enhancement state
         enhancementConfig,
         enhancementSettings,
         setEnhancementConfig,
-        setEnhancementSettings
+        setEnhancementSettings,
+
+        // Captions
+        captions,
+        captionStyle,
+        setCaptions,
+        updateCaption,
+        removeCaption,
+        setCaptionStyle,
+
+        // Transitions
+        transitions,
+        addTransition,
+        updateTransition,
+        removeTransition,
+
+        // Overlays
+        overlays,
+        selectedOverlay,
+        addOverlay,
+        updateOverlay,
+        removeOverlay,
+        setSelectedOverlay,
+        handleOverlayMouseDown,
+        handleOverlayResize,
+        handleOverlayRotate,
+
+        // Cursor
+        cursorTrack,
+        cursorSettings,
+        setCursorTrack,
+        setCursorSettings,
+
+        // Zooms
+        zoomSegments,
+        selectedZoomSegment,
+        setZoomSegments,
+        addZoomSegment,
+        updateZoomSegment,
+        removeZoomSegment,
+        setSelectedZoomSegment,
+
+        // Tracks and audio
+        tracks,
+        audioMix,
+        setTracks,
+        updateTrack,
+        setAudioMix,
+
+        // History
+        history,
+        undo,
+        redo,
+        jumpToHistory,
+        beginHistoryTransaction,
+        endHistoryTransaction
     } = useVideoEditorStore()
 
+    const getProjectThumbnail = useCallback(
+        () => videoRef.current ? captureVideoThumbnail(videoRef.current) : undefined,
+        [videoRef]
+    )
+
+    const { status: saveStatus, flushSave } = useProjectAutosave({ project, getThumbnail: getProjectThumbnail })
+    const projectFileInputRef = useRef<HTMLInputElement>(null)
+
+    // Transitions go on the cut closest to the playhead
+    const addTransitionAtPlayhead = (preset: TransitionPreset) => {
+        const boundary = findNearestBoundary(buildComposition(clips), currentTime)
+        if (!boundary) {
+            toast.error('Split the video into clips before adding a transition')
+            return
+        }
+        addTransition(createClipTransition(preset, boundary))
+        toast.success(`Added ${preset.name} at ${formatTime(boundary.time)}`)
+    }
+
     // Template handlers
     const templateHandlers = createTemplateHandlers(
         setCurrentColorPreset,
@@ -139,7 +278,8 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         setCurrentAspectRatio,
         setAspectRatio,
         setCurrentBrandKit,
-        setBackgroundSettings
+        setBackgroundSettings,
+        addTransitionAtPlayhead
     )
 
     // Memoized style calculations to prevent re-renders
@@ -159,6 +299,58 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         ...getShadowStyle(backgroundSettings)
     }), [aspectRatio, backgroundSettings])
 
+    // Length of the edited sequence, which is what the export will contain
+    const exportDuration = useMemo(() => {
+        const composition = buildComposition(clips)
+        return composition.segments.length > 0 ? composition.duration : duration
+    }, [clips, duration])
+
+    // Captions and the transcript follow the edit; without one the preview plays the whole recording
+    const previewComposition = useMemo(() => {
+        const composition = buildComposition(clips)
+        return composition.segments.length > 0 ? composition : createSourceComposition(duration)
+    }, [clips, duration])
+
+    const timelineCaptions = useMemo(
+        () => mapCaptionsToTimeline(captions, previewComposition),
+        [captions, previewComposition]
+    )
+
+    const timelineWords = useMemo(
+        () => mapWordsToTimeline(captions, previewComposition),
+        [captions, previewComposition]
+    )
+
+    // Recomputed as the edit changes, so cuts already made drop out of the preview
+    const proposedCuts = useMemo(() => recordingSilences
+        ? planSilenceCuts(recordingSilences, captions, previewComposition, silenceRemovalOptions)
+        : null,
+    [recordingSilences, captions, previewComposition, silenceRemovalOptions])
+
+    const placedTransitions = useMemo(
+        () => placeTransitions(transitions, buildComposition(clips)),
+        [transitions, clips]
+    )
+
+    // The preview blends the recording with a copy of itself, so it only shows
+    // transitions between two clips of the recording
+    const previewTransitions = useMemo(
+        () => placedTransitions.filter(p => isRecordingSegment(p.boundary.from) && isRecordingSegment(p.boundary.to)),
+        [placedTransitions]
+    )
+
+    const customBrandKits = useBrandKitStore(s => s.customKits)
+    const loadBrandKits = useBrandKitStore(s => s.loadKits)
+    const enqueueExport = useExportQueueStore(s => s.enqueueExport)
+    useEffect(() => {
+        loadBrandKits()
+    }, [loadBrandKits])
+
+    const brandKit = currentBrandKit ? getBrandKitById(currentBrandKit, customBrandKits) : undefined
+    const captionFontFamily = resolveCaptionFontFamily(captionStyle, brandKit)
+    const brandMarks = useMemo(() => getBrandMarks(brandKit, brandOverlay), [brandKit, brandOverlay])
+    const activeCaption = captionStyle.enabled ? getCaptionAtTime(timelineCaptions, currentTime) : null
+
     const backgroundLayerStyle = useMemo(() => ({
         ...getBackgroundStyle(backgroundSettings),
         borderRadius: `${backgroundSettings.borderRadius}px`
@@ -190,8 +382,11 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         }
     }, [webcamUrl, setWebcamVideoUrl])
 
-    // Load enhancement configuration from localStorage on mount
+    // Load enhancement configuration from localStorage on mount.
+    // Projects that were saved before keep their own configuration.
+    const isSavedProject = project?.createdAt !== undefined
     useEffect(() => {
+        if (isSavedProject) return
         try {
             const savedConfig = localStorage.getItem('videoEditor_enhancementConfig')
             if (savedConfig) {
@@ -207,7 +402,7 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         } catch (error) {
             console.warn('Failed to load enhancement configuration from localStorage:', error)
         }
-    }, [setEnhancementConfig, setEnhancementSettings])
+    }, [isSavedProject, setEnhancementConfig, setEnhancementSettings])
 
     // Add clips when video is ready
     useEffect(() => {
@@ -253,12 +448,8 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         }
     }
 
-    const addOverlay = (overlay: Overlay) => {
-        setOverlays(prev => [...prev, overlay])
-    }
-
-    const removeOverlay = (id: string) => {
-        setOverlays(prev => prev.filter(overlay => overlay.id !== id))
+    const handleAddOverlay = (type: Overlay['type'], content: string) => {
+        addOverlay(createOverlay(type, content, currentTime))
     }
 
     // Wrapper functions for annotation handlers
@@ -302,79 +493,237 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
         handleAnnotationResize(e, annotationId)
     }
 
-    const handleExportClick = () => {
-        setShowExportDialog(true)
+    const handleGenerateCaptions = async () => {
+        setIsTranscribing(true)
+        try {
+            const videoBlob = await (await fetch(videoUrl)).blob()
+            const segments = await transcribeVideo(videoBlob, { duration })
+            if (segments.length === 0) {
+                toast.info('No speech was found in the recording')
+                return
+            }
+            setCaptions(createCaptionsFromTranscript(segments))
+            toast.success(`Generated ${segments.length} captions`)
+        } catch (error) {
+            console.error('Caption generation error:', error)
+            toast.error(error instanceof TranscriptionError && error.status === 503
+                ? error.message
+                : 'Failed to generate captions')
+        } finally {
+            setIsTranscribing(false)
+        }
     }
 
-    const handleExport = async (options: ExportOptions, onProgressUpdate: (progress: number) => void) => {
-        setProcessing(true)
+    const handleRetimeCaption = (caption: TimelineCaption, start: number, end: number) => {
+        const range = getCaptionSourceRange(previewComposition, caption, start, end)
+        if (range) updateCaption(caption.captionId, range)
+    }
+
+    const handleResizeTransition = (id: string, transitionDuration: number) => {
+        updateTransition(id, { duration: transitionDuration })
+    }
+
+    // Striking words from the transcript cuts their stretch of video out of every track
+    const handleDeleteWords = (fromIndex: number, toIndex: number) => {
+        const ranges = getWordSelectionRanges(timelineWords, fromIndex, toIndex)
+        if (ranges.length === 0) return
+        const count = Math.abs(toIndex - fromIndex) + 1
+        rippleDelete(ranges, count === 1 ? 'Delete word' : 'Delete words')
+        seekTo(ranges[0].start)
+    }
+
+    const handleFindSilences = async () => {
+        setIsAnalyzingSilences(true)
         try {
-            console.log('Starting export with options:', options)
-
-            const exportedBlob = await processVideoExport({
-                videoUrl,
-                webcamUrl: webcamVideoUrl || undefined,
-                options,
-                videoDuration: duration,
-                webcamSettings: {
-                    visible: webcamSettings.visible && options.includeWebcam,
-                    position: webcamOverlayPosition,
-                    size: webcamOverlaySize,
-                    shape: webcamSettings.shape,
-                    borderWidth: webcamSettings.borderWidth,
-                    borderColor: webcamSettings.borderColor
-                },
-                backgroundSettings: {
-                    type: backgroundSettings.type,
-                    padding: backgroundSettings.padding,
-                    borderRadius: backgroundSettings.borderRadius,
-                    backgroundColor: backgroundSettings.backgroundColor,
-                    gradientColors: backgroundSettings.gradientColors,
-                    wallpaperIndex: backgroundSettings.wallpaperIndex,
-                    wallpaperUrl: backgroundSettings.wallpaperUrl,
-                    blurAmount: backgroundSettings.blurAmount
-                },
-                enhancementConfig,
-                enhancementSettings,
-                onProgress: (progress) => {
-                    console.log('Export progress:', Math.round(progress * 100) + '%')
-                    onProgressUpdate(progress)
-                }
+            const recording = await (await fetch(videoUrl)).blob()
+            setRecordingSilences(await detectRecordingSilences(recording))
+        } catch (error) {
+            console.error('Silence detection error:', error)
+            toast.error('Failed to analyze the recording')
+        } finally {
+            setIsAnalyzingSilences(false)
+        }
+    }
+
+    const handleGenerateZooms = async (source: ZoomSource) => {
+        let activity: ActivityPoint[]
+        if (source === 'cursor') {
+            if (!cursorTrack) return
+            activity = getCursorActivity(cursorTrack)
+        } else {
+            setIsAnalyzingZooms(true)
+            try {
+                const recording = await (await fetch(videoUrl)).blob()
+                activity = await detectMotionActivity(recording)
+            } catch (error) {
+                console.error('Motion detection error:', error)
+                toast.error('Failed to analyze the recording')
+                return
+            } finally {
+                setIsAnalyzingZooms(false)
+            }
+        }
+
+        const segments = generateZoomSegments(activity, previewComposition, autoZoomOptions)
+        if (segments.length === 0) {
+            toast.info(source === 'cursor' ? 'No clicks in the edit to zoom in on' : 'No motion was found to zoom in on')
+            return
+        }
+        setZoomSegments(segments)
+        toast.success(`Added ${segments.length} zoom${segments.length === 1 ? '' : 's'}`)
+    }
+
+    const handleAddZoomSegment = () => {
+        addZoomSegment(createZoomSegment(currentTime, Math.min(duration, currentTime + DEFAULT_ZOOM_DURATION), undefined, autoZoomOptions))
+    }
+
+    // Music goes on the first audio track, which is added when there is none
+    const handleImportMusic = async (file: File) => {
+        const asset = await createMediaAssetFromFile(file)
+        if (!asset || asset.type !== 'audio') {
+            toast.error(`${file.name} is not an audio file`)
+            return
+        }
+
+        // Fall back to a minute when the browser cannot read the length
+        const length = asset.duration || 60
+        const existingTrack = tracks.find(track => track.type === 'audio')
+        const track = existingTrack ?? createTrack('audio', tracks)
+
+        beginHistoryTransaction('Add music')
+        try {
+            registerMediaAsset(asset)
+            if (!existingTrack) setTracks([...tracks, track], 'Add track')
+            addClip({
+                id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                type: 'audio',
+                name: file.name,
+                startTime: currentTime,
+                endTime: currentTime + length,
+                sourceId: asset.id,
+                sourceIn: 0,
+                sourceOut: length,
+                trackId: track.id,
+                color: track.color
             })
+        } finally {
+            endHistoryTransaction()
+        }
+    }
 
-            console.log('Export complete, blob size:', exportedBlob.size)
-            console.log('Export blob type:', exportedBlob.type)
+    const handleSoloTrack = (trackId: string) => {
+        const soloed = tracks.find(track => track.id === trackId)?.solo
+        setTracks(toggleSolo(tracks, trackId), soloed ? 'Unsolo track' : 'Solo track')
+    }
 
-            // Generate filename with timestamp and resolution
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
+    const handleApplySilenceCuts = () => {
+        if (!proposedCuts || proposedCuts.length === 0) return
+        rippleDelete(proposedCuts, 'Remove silences')
+        toast.success(`Cut ${getRangesDuration(proposedCuts).toFixed(1)}s of pauses and filler words`)
+        setRecordingSilences(null)
+    }
 
-            // Determine actual format from blob type
-            let fileExtension = 'webm'
-            if (exportedBlob.type.includes('mp4')) {
-                fileExtension = 'mp4'
-            } else if (options.format === 'mp4') {
-                console.warn('⚠️ MP4 was requested but got WebM - conversion may have failed')
-            }
+    const handleDownloadCaptions = (format: CaptionFileFormat) => {
+        const content = format === 'srt' ? formatSrt(timelineCaptions) : formatWebVtt(timelineCaptions)
+        const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt'
+        downloadBlob(new Blob([content], { type }), `${toSafeFileName(project?.name ?? '', 'captions')}.${format}`)
+    }
 
-            const filename = `video-${options.resolution}-${timestamp}.${fileExtension}`
-            console.log('Downloading as:', filename)
+    const handleExportClick = () => {
+        setShowExportDialog(true)
+    }
 
-            // Download the file
-            downloadBlob(exportedBlob, filename)
+    // What an export renders, taken from the editor as it is now so later edits
+    // do not change exports waiting in the queue
+    const getExportRequest = (options: ExportOptions): ExportRequest => ({
+        videoUrl,
+        webcamUrl: webcamVideoUrl || undefined,
+        options,
+        videoDuration: duration,
+        clips,
+        mediaAssets,
+        webcamSettings: {
+            visible: webcamSettings.visible && options.includeWebcam,
+            position: webcamOverlayPosition,
+            size: webcamOverlaySize,
+            shape: webcamSettings.shape,
+            borderWidth: webcamSettings.borderWidth,
+            borderColor: webcamSettings.borderColor
+        },
+        backgroundSettings: {
+            type: backgroundSettings.type,
+            padding: backgroundSettings.padding,
+            borderRadius: backgroundSettings.borderRadius,
+            backgroundColor: backgroundSettings.backgroundColor,
+            gradientColors: backgroundSettings.gradientColors,
+            wallpaperIndex: backgroundSettings.wallpaperIndex,
+            wallpaperUrl: backgroundSettings.wallpaperUrl,
+            blurAmount: backgroundSettings.blurAmount
+        },
+        enhancementConfig,
+        enhancementSettings,
+        annotations,
+        overlays,
+        cursor: hasCursorData(cursorTrack) && cursorSettings.visible
+            ? { track: cursorTrack, settings: cursorSettings }
+            : undefined,
+        zoomSegments,
+        audio: { tracks, settings: audioMix },
+        colorGrading: colorGradingFilters,
+        transitions,
+        brandMarks: options.includeBranding ? brandMarks : [],
+        captions: options.burnCaptions && captionStyle.enabled
+            ? { captions, style: captionStyle, fontFamily: captionFontFamily }
+            : undefined
+    })
 
-            // Also call onSave for backward compatibility
-            onSave(exportedBlob)
+    // Exports render in the background and show in the export jobs panel, so editing can go on meanwhile
+    const handleExport = (options: ExportOptions) => {
+        enqueueExport(getExportRequest(options))
+        toast.success('Export added to the queue')
+    }
+
+    const handlePublishPack = (options: ExportOptions, templates: AspectRatioTemplate[], reframe: ReframeMode) => {
+        const request = getExportRequest(options)
+        templates.forEach(template => enqueueExport({ ...request, target: getPublishTarget(template, reframe) }))
+        toast.success(`${templates.length} platform export${templates.length === 1 ? '' : 's'} added to the queue`)
+    }
 
-            setShowExportDialog(false)
+    const handleExportProject = async () => {
+        setProcessing(true)
+        try {
+            const state = useEditorStore.getState()
+            const media: Record<string, Blob> = {}
+            for (const asset of state.mediaAssets) {
+                media[asset.id] = await (await fetch(asset.url)).blob()
+            }
+
+            const name = project?.name ?? 'Video Recording'
+            const bundle = await createProjectBundle(
+                { name, createdAt: project?.createdAt },
+                takeSnapshot(state),
+                state.mediaAssets,
+                media,
+                exportDuration
+            )
+            downloadBlob(bundle, getProjectBundleFileName(name))
         } catch (error) {
-            console.error('Video export error:', error)
-            alert('Failed to export video. Please try again.')
-            throw error
+            console.error('Project export error:', error)
+            toast.error('Failed to save the project file')
         } finally {
             setProcessing(false)
         }
     }
 
+    const handleProjectFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file || !onImportProject) return
+        // The current project is saved before the store is handed the new one
+        await flushSave()
+        onImportProject(file)
+    }
+
     const handleCrop = () => {
         // Placeholder for crop functionality
         console.log('Crop functionality coming soon')
@@ -408,11 +757,21 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                     }
                     break
             }
+
+            // Shift turns the key into 'Z' on most layouts
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === VIDEO_EDITOR_CONSTANTS.KEYBOARD_SHORTCUTS.UNDO) {
+                e.preventDefault()
+                if (e.shiftKey) {
+                    redo()
+                } else {
+                    undo()
+                }
+            }
         }
 
         document.addEventListener('keydown', handleKeyDown)
         return () => document.removeEventListener('keydown', handleKeyDown)
-    }, [togglePlayPause, rewind, fastForward, onCancel, handleExportClick])
+    }, [togglePlayPause, rewind, fastForward, onCancel, handleExportClick, undo, redo])
 
     return (
         <div className={VIDEO_EDITOR_STYLES.MAIN_CONTAINER}>
@@ -421,9 +780,16 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                 isOpen={showExportDialog}
                 onClose={() => setShowExportDialog(false)}
                 onExport={handleExport}
-                duration={duration}
+                onPublishPack={handlePublishPack}
+                duration={exportDuration}
+                hasCaptions={timelineCaptions.length > 0}
+                hasBranding={brandMarks.length > 0}
+                onDownloadCaptions={handleDownloadCaptions}
             />
 
+            {/* Background exports */}
+            <ExportJobsPanel onUseExport={onSave} />
+
             {/* Top Toolbar */}
             <VideoEditorToolbar
                 currentTime={currentTime}
@@ -436,6 +802,21 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                 onExportClick={handleExportClick}
                 onForceReady={forceVideoReady}
                 formatTime={formatTime}
+                onUndo={undo}
+                onRedo={redo}
+                undoLabel={history.index > 0 ? history.entries[history.index].label : undefined}
+                redoLabel={history.entries[history.index + 1]?.label}
+                projectName={project?.name}
+                saveStatus={saveStatus}
+                onExportProject={handleExportProject}
+                onImportProject={onImportProject ? () => projectFileInputRef.current?.click() : undefined}
+            />
+            <input
+                ref={projectFileInputRef}
+                type="file"
+                accept={SNIP_FILE_EXTENSION}
+                className="hidden"
+                onChange={handleProjectFileSelected}
             />
 
             {/* Main Content Area */}
@@ -477,17 +858,49 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                             annotationColor={annotationColor}
                             annotationStrokeWidth={annotationStrokeWidth}
                             annotationFontSize={annotationFontSize}
+                            transitions={previewTransitions}
+                            overlays={overlays}
+                            selectedOverlay={selectedOverlay}
+                            composition={previewComposition}
+                            isShowingImportedVideo={activeMediaId !== null}
+                            cursorTrack={cursorTrack}
+                            cursorSettings={cursorSettings}
+                            zoomSegments={zoomSegments}
                             onForceReady={forceVideoReady}
                             onWebcamMouseDown={handleWebcamMouseDown}
                             onWebcamResizeMouseDown={handleWebcamResizeMouseDown}
                             onAddAnnotation={handleAddAnnotation}
-                            onUpdateAnnotation={handleUpdateAnnotation}
                             onRemoveAnnotation={handleRemoveAnnotation}
                             onAnnotationMouseDown={handleAnnotationMouseDownWrapper}
                             onAnnotationResize={handleAnnotationResizeWrapper}
+                            onOverlayMouseDown={handleOverlayMouseDown}
+                            onOverlayResize={handleOverlayResize}
+                            onOverlayRotate={handleOverlayRotate}
+                            onRemoveOverlay={removeOverlay}
                             videoRef={videoRef}
                             webcamVideoRef={webcamVideoRef}
+                            mediaVideoRef={mediaVideoRef}
                         />
+
+                        <AudioMixPlayback
+                            clips={clips}
+                            tracks={tracks}
+                            mediaAssets={mediaAssets}
+                            composition={previewComposition}
+                            videoRef={videoRef}
+                            mediaVideoRef={mediaVideoRef}
+                            currentTime={currentTime}
+                        />
+
+                        {brandMarks.length > 0 && <BrandOverlay marks={brandMarks} />}
+
+                        {activeCaption && (
+                            <CaptionOverlay
+                                text={activeCaption.text}
+                                style={captionStyle}
+                                fontFamily={captionFontFamily}
+                            />
+                        )}
                     </div>
                 </div>
 
@@ -495,8 +908,32 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                 <div className={VIDEO_EDITOR_STYLES.SIDEBAR}>
                     <RightSidebar
                         overlays={overlays}
-                        onAddOverlay={addOverlay}
+                        selectedOverlay={selectedOverlay}
+                        onAddOverlay={handleAddOverlay}
+                        onUpdateOverlay={updateOverlay}
                         onRemoveOverlay={removeOverlay}
+                        onSelectOverlay={setSelectedOverlay}
+                        cursorTrack={cursorTrack}
+                        cursorSettings={cursorSettings}
+                        onCursorTrackChange={setCursorTrack}
+                        onCursorSettingsChange={setCursorSettings}
+                        zoomSegments={zoomSegments}
+                        selectedZoomSegment={selectedZoomSegment}
+                        autoZoomOptions={autoZoomOptions}
+                        isAnalyzingZooms={isAnalyzingZooms}
+                        onAutoZoomOptionsChange={(options) => setAutoZoomOptions(prev => ({ ...prev, ...options }))}
+                        onGenerateZooms={handleGenerateZooms}
+                        onAddZoomSegment={handleAddZoomSegment}
+                        onUpdateZoomSegment={updateZoomSegment}
+                        onRemoveZoomSegment={removeZoomSegment}
+                        onClearZoomSegments={() => setZoomSegments([])}
+                        onSelectZoomSegment={setSelectedZoomSegment}
+                        tracks={tracks}
+                        audioMix={audioMix}
+                        onImportMusic={handleImportMusic}
+                        onUpdateTrack={updateTrack}
+                        onSoloTrack={handleSoloTrack}
+                        onAudioMixChange={setAudioMix}
                         currentTime={currentTime}
                         duration={duration}
                         formatTime={formatTime}
@@ -530,11 +967,37 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                         currentColorPreset={currentColorPreset}
                         currentAspectRatio={currentAspectRatio}
                         currentBrandKit={currentBrandKit}
+                        brandOverlay={brandOverlay}
+                        onBrandOverlayChange={setBrandOverlay}
                         enhancementConfig={enhancementConfig}
                         onEnhancementConfigChange={handleEnhancementConfigChange}
                         enhancementSettings={enhancementSettings}
                         onEnhancementSettingsChange={handleEnhancementSettingsChange}
+                        history={history}
+                        onUndo={undo}
+                        onRedo={redo}
+                        onJumpToHistory={jumpToHistory}
                         onRemoveClip={deleteClip}
+                        onRegisterMediaAsset={registerMediaAsset}
+                        captions={captions}
+                        timelineCaptions={timelineCaptions}
+                        captionStyle={captionStyle}
+                        brandFontFamily={brandKit ? resolveCaptionFontFamily({ ...captionStyle, useBrandFont: true }, brandKit) : undefined}
+                        isTranscribing={isTranscribing}
+                        onGenerateCaptions={handleGenerateCaptions}
+                        onUpdateCaption={updateCaption}
+                        onRemoveCaption={removeCaption}
+                        onCaptionStyleChange={setCaptionStyle}
+                        timelineWords={timelineWords}
+                        onDeleteWords={handleDeleteWords}
+                        silenceRemovalOptions={silenceRemovalOptions}
+                        proposedCuts={proposedCuts}
+                        isAnalyzingSilences={isAnalyzingSilences}
+                        onSilenceRemovalOptionsChange={(options) => setSilenceRemovalOptions(prev => ({ ...prev, ...options }))}
+                        onFindSilences={handleFindSilences}
+                        onApplySilenceCuts={handleApplySilenceCuts}
+                        onDismissSilenceCuts={() => setRecordingSilences(null)}
+                        onSeek={seekTo}
                     />
                 </div>
             </div>
@@ -554,10 +1017,29 @@ export default function VideoEditor({ videoUrl, webcamUrl, onSave, onCancel }: V
                     onCrop={handleCrop}
                     onAspectRatioChange={setAspectRatio}
                     clips={clips}
+                    mediaAssets={mediaAssets}
                     onUpdateClip={updateClip}
                     onDeleteClip={deleteClip}
                     onDuplicateClip={duplicateClip}
                     onAddClip={addClip}
+                    onBeginHistoryTransaction={beginHistoryTransaction}
+                    onEndHistoryTransaction={endHistoryTransaction}
+                    captions={timelineCaptions}
+                    onRetimeCaption={handleRetimeCaption}
+                    proposedCuts={proposedCuts ?? undefined}
+                    transitions={placedTransitions}
+                    onResizeTransition={handleResizeTransition}
+                    onRemoveTransition={removeTransition}
+                    overlays={overlays}
+                    selectedOverlay={selectedOverlay}
+                    onSelectOverlay={setSelectedOverlay}
+                    onRetimeOverlay={(id, startTime, endTime) => updateOverlay(id, { startTime, endTime })}
+                    zoomSegments={zoomSegments}
+                    selectedZoomSegment={selectedZoomSegment}
+                    onSelectZoomSegment={setSelectedZoomSegment}
+                    onRetimeZoomSegment={(id, startTime, endTime) => updateZoomSegment(id, { startTime, endTime })}
+                    tracks={tracks}
+                    onTracksChange={setTracks}
                 />
             </div>
         </div>
@@ -12,9 +12,14 @@ import {
     Moon,
     Grid3X3,
     Clock,
-    Loader2
+    Loader2,
+    Cloud,
+    CloudOff,
+    FileDown,
+    FileUp
 } from 'lucide-react'
 import { aspectRatioTemplates } from '@/lib/templates/aspectRatioTemplates'
+import type { ProjectSaveStatus } from '@/hooks/useProjectAutosave'
 
 interface VideoEditorToolbarProps {
     currentTime: number
@@ -27,6 +32,21 @@ interface VideoEditorToolbarProps {
     onExportClick: () => void
     onForceReady: () => void
     formatTime: (seconds: number) => string
+    onUndo: () => void
+    onRedo: () => void
+    undoLabel?: string
+    redoLabel?: string
+    projectName?: string
+    saveStatus?: ProjectSaveStatus
+    onExportProject?: () => void
+    onImportProject?: () => void
+}
+
+const SAVE_STATUS_LABELS: Record<ProjectSaveStatus, string> = {
+    idle: '',
+    saving: 'Saving...',
+    saved: 'Saved',
+    error: 'Not saved'
 }
 
 export default function VideoEditorToolbar({
@@ -39,7 +59,15 @@ export default function VideoEditorToolbar({
     onAspectRatioChange,
     onExportClick,
     onForceReady,
-    formatTime
+    formatTime,
+    onUndo,
+    onRedo,
+    undoLabel,
+    redoLabel,
+    projectName,
+    saveStatus = 'idle',
+    onExportProject,
+    onImportProject
 }: VideoEditorToolbarProps) {
     return (
         <div className="bg-gray-800/95 backdrop-blur-sm border-b border-gray-700 px-3 py-2 shadow-lg">
@@ -64,8 +92,16 @@ export default function VideoEditorToolbar({
 
                 {/* Center - Project Name */}
                 <div className="flex items-center gap-1">
-                    <span className="text-white font-medium text-sm">Video Recording</span>
-                    <span className="text-gray-400 text-sm">.screenstudio</span>
+                    <span className="text-white font-medium text-sm">{projectName || 'Video Recording'}</span>
+                    {saveStatus !== 'idle' && (
+                        <span
+                            className={`flex items-center gap-1 text-xs mr-2 ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}
+                            title={saveStatus === 'error' ? 'Changes could not be saved in this browser' : 'Changes are saved in this browser'}
+                        >
+                            {saveStatus === 'error' ? <CloudOff className="h-3 w-3" /> : <Cloud className="h-3 w-3" />}
+                            {SAVE_STATUS_LABELS[saveStatus]}
+                        </span>
+                    )}
                     {/* Video Info Overlay - Top Left */}
                     <div className="flex gap-2 z-20">
                         <div className="bg-black/60 backdrop-blur-md text-white text-xs px-2.5 py-1.5 rounded-lg border border-white/10 shadow-lg">
@@ -102,13 +138,51 @@ export default function VideoEditorToolbar({
 
                 {/* Right Section */}
                 <div className="flex items-center gap-1">
-                    <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white h-7 w-7 p-0">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-white h-7 w-7 p-0 disabled:opacity-40"
+                        onClick={onUndo}
+                        disabled={!undoLabel}
+                        title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                    >
                         <Undo2 className="h-3 w-3" />
                     </Button>
-                    <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white h-7 w-7 p-0">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:text-white h-7 w-7 p-0 disabled:opacity-40"
+                        onClick={onRedo}
+                        disabled={!redoLabel}
+                        title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                    >
                         <Redo2 className="h-3 w-3" />
                     </Button>
                     <div className="h-4 w-px bg-gray-600" />
+                    {onImportProject && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-gray-400 hover:text-white h-7 w-7 p-0"
+                            onClick={onImportProject}
+                            title="Open project file (.snip)"
+                        >
+                            <FileUp className="h-3 w-3" />
+                        </Button>
+                    )}
+                    {onExportProject && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-gray-400 hover:text-white h-7 w-7 p-0"
+                            onClick={onExportProject}
+                            disabled={isProcessing}
+                            title="Save project file (.snip)"
+                        >
+                            <FileDown className="h-3 w-3" />
+                        </Button>
+                    )}
+                    <div className="h-4 w-px bg-gray-600" />
                     <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white h-7 w-7 p-0">
                         {isDarkMode ? <Sun className="h-3 w-3" /> : <Moon className="h-3 w-3" />}
                     </Button>
@@ -3,11 +3,12 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Video, Square, Play, Pause, Upload, Mic, Camera, Monitor, Settings, ChevronDown } from 'lucide-react'
+import { Video, Square, Play, Pause, Upload, Mic, Camera, Monitor, Settings, ChevronDown, MousePointer } from 'lucide-react'
 import { toast } from 'sonner'
+import { CursorRecorder, CursorTrack, recordCursor } from '@/lib/videoEditor/cursorTracking'
 
 interface VideoRecorderProps {
-    onVideoRecorded: (videoBlob: Blob, webcamBlob?: Blob) => void
+    onVideoRecorded: (videoBlob: Blob, webcamBlob?: Blob, cursorTrack?: CursorTrack) => void
     onUpload: (videoBlob: Blob) => Promise<void>
     onStartRecording?: () => void
     isUploading?: boolean
@@ -19,6 +20,21 @@ interface MediaDeviceInfo {
     kind: string
 }
 
+// The Capture Handle API is not in the DOM typings yet. A page sets a handle,
+// and a capture of that page reads it back from its video track
+type CaptureHandleMediaDevices = MediaDevices & {
+    setCaptureHandleConfig?: (config: { handle: string; permittedOrigins: string[] }) => void
+}
+type CaptureHandleTrack = MediaStreamTrack & {
+    getCaptureHandle?: () => { handle: string } | null
+}
+
+// Identifies this tab to a capture of it, as only its own pointer can be followed
+const CAPTURE_HANDLE = `snipai-${Math.random().toString(36).substr(2, 9)}`
+
+const isCaptureOfThisTab = (track: MediaStreamTrack | undefined) =>
+    (track as CaptureHandleTrack | undefined)?.getCaptureHandle?.()?.handle === CAPTURE_HANDLE
+
 export default function VideoRecorder({
     onVideoRecorded,
     onUpload,
@@ -41,7 +57,8 @@ export default function VideoRecorder({
         microphone: '',
         camera: '',
         includeMicrophone: true,
-        includeWebcam: true
+        includeWebcam: true,
+        includeCursor: false
     })
 
     const mediaRecorderRef = useRef<MediaRecorder | null>(null)
@@ -53,12 +70,25 @@ export default function VideoRecorder({
     const webcamChunksRef = useRef<Blob[]>([])
     const timerRef = useRef<NodeJS.Timeout | null>(null)
     const animationIdRef = useRef<number | null>(null)
+    const cursorRecorderRef = useRef<CursorRecorder | null>(null)
 
     // Enumerate devices on mount
     useEffect(() => {
         enumerateDevices()
     }, [])
 
+    // Let a recording of this tab recognise it; browsers without the API never track the cursor
+    useEffect(() => {
+        try {
+            (navigator.mediaDevices as CaptureHandleMediaDevices | undefined)?.setCaptureHandleConfig?.({
+                handle: CAPTURE_HANDLE,
+                permittedOrigins: [window.location.origin]
+            })
+        } catch (error) {
+            console.warn('Could not set the capture handle:', error)
+        }
+    }, [])
+
     // Cleanup effect
     useEffect(() => {
         return () => {
@@ -75,6 +105,7 @@ export default function VideoRecorder({
             if (webcamStreamRef.current) {
                 webcamStreamRef.current.getTracks().forEach(track => track.stop())
             }
+            cursorRecorderRef.current?.stop()
         }
     }, [])
 
@@ -193,11 +224,35 @@ export default function VideoRecorder({
 
             // Request screen stream (without system audio for now, we'll add microphone separately)
             const screenStream = await navigator.mediaDevices.getDisplayMedia({
-                video: { width: { ideal: 1920 }, height: { ideal: 1080 } },
-                audio: false // We'll add microphone audio separately
-            })
+                video: {
+                    width: { ideal: 1920 },
+                    height: { ideal: 1080 }
+                },
+                audio: false, // We'll add microphone audio separately
+                // The pointer can only be followed over this page, so offer this tab first
+                preferCurrentTab: selectedDevices.includeCursor
+            } as DisplayMediaStreamOptions)
             console.log('Screen stream obtained:', screenStream)
 
+            const screenTrack = screenStream.getVideoTracks()[0]
+            let trackCursor = selectedDevices.includeCursor && isCaptureOfThisTab(screenTrack)
+            if (trackCursor) {
+                // The editor draws the tracked cursor, so the real one has to be left out of
+                // the video. Browsers may ignore the constraint, so trust only what the track reports
+                try {
+                    await screenTrack.applyConstraints({ cursor: 'never' } as MediaTrackConstraints)
+                } catch (error) {
+                    console.warn('Could not hide the cursor in the recording:', error)
+                }
+                const settings = screenTrack.getSettings() as MediaTrackSettings & { cursor?: string }
+                if (settings.cursor !== 'never') {
+                    toast.warning('The cursor could not be left out of this recording, so it is recorded as it is')
+                    trackCursor = false
+                }
+            } else if (selectedDevices.includeCursor) {
+                toast.warning('Cursor tracking only works when recording this tab, so the cursor is recorded as it is')
+            }
+
             // Add microphone audio if enabled
             if (selectedDevices.includeMicrophone && selectedDevices.microphone) {
                 try {
@@ -299,10 +354,13 @@ export default function VideoRecorder({
                     console.log('Webcam blob size:', webcamBlob.size, 'bytes')
                 }
 
+                const cursorTrack = cursorRecorderRef.current?.stop()
+                cursorRecorderRef.current = null
+
                 if (screenBlob.size > 0) {
                     const videoUrl = URL.createObjectURL(screenBlob)
                     setRecordedVideo(videoUrl)
-                    onVideoRecorded(screenBlob, webcamBlob)
+                    onVideoRecorded(screenBlob, webcamBlob, cursorTrack)
                     console.log('Recording completed successfully!')
                     toast.success('Recording completed successfully!')
                 } else {
@@ -321,6 +379,7 @@ export default function VideoRecorder({
             if (webcamRecorder) {
                 webcamRecorder.start(100)
             }
+            cursorRecorderRef.current = trackCursor ? recordCursor(window) : null
 
             setIsRecording(true)
             setRecordingTime(0)
@@ -386,11 +445,13 @@ export default function VideoRecorder({
         if (mediaRecorderRef.current && isRecording) {
             if (isPaused) {
                 mediaRecorderRef.current.resume()
+                cursorRecorderRef.current?.resume()
                 timerRef.current = setInterval(() => {
                     setRecordingTime(prev => prev + 1)
                 }, 1000)
             } else {
                 mediaRecorderRef.current.pause()
+                cursorRecorderRef.current?.pause()
                 if (timerRef.current) {
                     clearInterval(timerRef.current)
                     timerRef.current = null
@@ -784,6 +845,35 @@ export default function VideoRecorder({
                                     )}
                                 </div>
 
+                                {/* Cursor Tracking */}
+                                <div className="space-y-4 p-5 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700">
+                                    <div className="flex items-center justify-between">
+                                        <label className="flex items-center gap-3 font-semibold text-base">
+                                            <div className="w-9 h-9 bg-gradient-to-br from-orange-500 to-amber-600 rounded-lg flex items-center justify-center shadow-md">
+                                                <MousePointer className="h-4 w-4 text-white" />
+                                            </div>
+                                            Cursor Tracking
+                                        </label>
+                                        <label className="relative inline-flex items-center cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedDevices.includeCursor}
+                                                onChange={(e) => setSelectedDevices(prev => ({
+                                                    ...prev,
+                                                    includeCursor: e.target.checked
+                                                }))}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-11 h-6 bg-gray-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-orange-300 dark:peer-focus:ring-orange-800 rounded-full peer dark:bg-gray-600 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-orange-600"></div>
+                                        </label>
+                                    </div>
+                                    {selectedDevices.includeCursor && (
+                                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                                            Records pointer movement and clicks so the editor can resize, smooth and highlight the cursor. Choose this tab when asked what to record.
+                                        </p>
+                                    )}
+                                </div>
+
                                 {/* Recording Summary */}
                                 <div className="bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800/50 dark:to-gray-900/50 rounded-xl p-5 border-2 border-gray-200 dark:border-gray-700 shadow-sm">
                                     <div className="flex items-center gap-2 mb-4">
@@ -820,6 +910,13 @@ export default function VideoRecorder({
                                                 </span>
                                             </div>
                                         )}
+                                        {selectedDevices.includeCursor && (
+                                            <div className="flex items-center gap-3 p-2.5 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                                                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse shadow-lg shadow-green-500/50"></div>
+                                                <MousePointer className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                                                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Cursor tracking</span>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
 
@@ -0,0 +1,287 @@
+'use client'
+
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Activity, Loader2, MousePointerClick, Plus, Trash2, ZoomIn } from 'lucide-react'
+import {
+    AutoZoomOptions,
+    MAX_ZOOM_SCALE,
+    MIN_ZOOM_DURATION,
+    MIN_ZOOM_SCALE,
+    ZOOM_EASINGS,
+    ZoomEasing,
+    ZoomSegment
+} from '@/lib/videoEditor/autoZoom'
+
+export type ZoomSource = 'cursor' | 'motion'
+
+interface ZoomPanelProps {
+    zoomSegments: ZoomSegment[]
+    selectedZoomSegment: string | null
+    options: AutoZoomOptions
+    // Clicks can only be followed when the recording has a cursor track
+    hasCursorClicks: boolean
+    isAnalyzing: boolean
+    formatTime: (seconds: number) => string
+    onOptionsChange: (options: Partial<AutoZoomOptions>) => void
+    // Replaces the zooms with ones found in the recording
+    onGenerate: (source: ZoomSource) => void
+    // New zooms start at the playhead
+    onAddZoomSegment: () => void
+    onUpdateZoomSegment: (id: string, updates: Partial<ZoomSegment>) => void
+    onRemoveZoomSegment: (id: string) => void
+    onClearZoomSegments: () => void
+    onSelectZoomSegment: (id: string | null) => void
+    onSeek: (time: number) => void
+}
+
+const selectClassName = 'mt-1 w-full h-7 px-2 text-xs rounded-md bg-gray-700 text-white border border-gray-600'
+
+export default function ZoomPanel({
+    zoomSegments,
+    selectedZoomSegment,
+    options,
+    hasCursorClicks,
+    isAnalyzing,
+    formatTime,
+    onOptionsChange,
+    onGenerate,
+    onAddZoomSegment,
+    onUpdateZoomSegment,
+    onRemoveZoomSegment,
+    onClearZoomSegments,
+    onSelectZoomSegment,
+    onSeek
+}: ZoomPanelProps) {
+    const selected = zoomSegments.find(segment => segment.id === selectedZoomSegment)
+
+    const update = (updates: Partial<ZoomSegment>) => {
+        if (selected) onUpdateZoomSegment(selected.id, updates)
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Generate */}
+            <div className="bg-gray-700 rounded-lg p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                    <ZoomIn className="h-4 w-4" />
+                    <h3 className="font-medium text-sm">Auto zoom</h3>
+                </div>
+
+                <div>
+                    <Label className="text-xs text-gray-400">Zoom: {options.scale.toFixed(1)}x</Label>
+                    <Slider
+                        value={[options.scale]}
+                        onValueChange={(value) => onOptionsChange({ scale: value[0] })}
+                        min={MIN_ZOOM_SCALE}
+                        max={MAX_ZOOM_SCALE}
+                        step={0.1}
+                        className="mt-2"
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <Label className="text-xs text-gray-400">Easing</Label>
+                        <select
+                            value={options.easing}
+                            onChange={(e) => onOptionsChange({ easing: e.target.value as ZoomEasing })}
+                            className={selectClassName}
+                        >
+                            {ZOOM_EASINGS.map(easing => (
+                                <option key={easing.id} value={easing.id}>{easing.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <Label className="text-xs text-gray-400">Transition: {options.transitionDuration.toFixed(1)}s</Label>
+                        <Slider
+                            value={[options.transitionDuration]}
+                            onValueChange={(value) => onOptionsChange({ transitionDuration: value[0] })}
+                            min={0.1}
+                            max={2}
+                            step={0.1}
+                            className="mt-3"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex gap-1">
+                    <Button
+                        size="sm"
+                        onClick={() => onGenerate('cursor')}
+                        disabled={isAnalyzing || !hasCursorClicks}
+                        className="flex-1 text-xs h-7"
+                        title={hasCursorClicks ? 'Zoom in where you clicked' : 'Needs a cursor track with clicks'}
+                    >
+                        <MousePointerClick className="h-3 w-3 mr-1" />
+                        From clicks
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onGenerate('motion')}
+                        disabled={isAnalyzing}
+                        className="flex-1 text-xs h-7"
+                        title="Zoom in where the screen changes"
+                    >
+                        {isAnalyzing ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                            <Activity className="h-3 w-3 mr-1" />
+                        )}
+                        {isAnalyzing ? 'Looking...' : 'From motion'}
+                    </Button>
+                </div>
+                <p className="text-[10px] text-gray-400">Generating replaces the zooms below.</p>
+            </div>
+
+            {/* List */}
+            <div className="space-y-1">
+                <div className="flex gap-1">
+                    <Button size="sm" variant="outline" onClick={onAddZoomSegment} className="flex-1 text-xs h-7">
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add zoom at playhead
+                    </Button>
+                    {zoomSegments.length > 0 && (
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={onClearZoomSegments}
+                            className="text-xs h-7 hover:text-red-400"
+                        >
+                            Clear
+                        </Button>
+                    )}
+                </div>
+                {zoomSegments.map(segment => (
+                    <div
+                        key={segment.id}
+                        onClick={() => {
+                            onSelectZoomSegment(segment.id)
+                            onSeek(segment.startTime)
+                        }}
+                        className={`flex items-center justify-between gap-2 p-2 rounded text-xs cursor-pointer ${
+                            segment.id === selectedZoomSegment ? 'bg-sky-900/60 ring-1 ring-sky-500' : 'bg-gray-700 hover:bg-gray-600'
+                        }`}
+                    >
+                        <ZoomIn className="h-3 w-3 flex-shrink-0" />
+                        <span className="flex-1">{segment.scale.toFixed(1)}x</span>
+                        <span className="text-gray-400 flex-shrink-0">
+                            {formatTime(segment.startTime)} - {formatTime(segment.endTime)}
+                        </span>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onRemoveZoomSegment(segment.id)
+                            }}
+                            className="text-gray-400 hover:text-red-400"
+                            title="Delete zoom"
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {/* Selected zoom */}
+            {selected && (
+                <div className="space-y-3 border-t border-gray-700 pt-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Start (s)</Label>
+                            <Input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                value={Number(selected.startTime.toFixed(2))}
+                                onChange={(e) => {
+                                    const startTime = Math.max(0, Number(e.target.value) || 0)
+                                    update({ startTime: Math.min(startTime, selected.endTime - MIN_ZOOM_DURATION) })
+                                }}
+                                className="mt-1 h-7 text-xs"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">End (s)</Label>
+                            <Input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                value={Number(selected.endTime.toFixed(2))}
+                                onChange={(e) => {
+                                    const endTime = Number(e.target.value) || 0
+                                    update({ endTime: Math.max(endTime, selected.startTime + MIN_ZOOM_DURATION) })
+                                }}
+                                className="mt-1 h-7 text-xs"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-xs">Zoom: {selected.scale.toFixed(1)}x</Label>
+                        <Slider
+                            value={[selected.scale]}
+                            onValueChange={(value) => update({ scale: value[0] })}
+                            min={MIN_ZOOM_SCALE}
+                            max={MAX_ZOOM_SCALE}
+                            step={0.1}
+                            className="mt-2"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Focus X: {Math.round(selected.x * 100)}%</Label>
+                            <Slider
+                                value={[Math.round(selected.x * 100)]}
+                                onValueChange={(value) => update({ x: value[0] / 100 })}
+                                max={100}
+                                step={1}
+                                className="mt-2"
+                            />
+                        </div>
+                        <div>
+                            <Label className="text-xs">Focus Y: {Math.round(selected.y * 100)}%</Label>
+                            <Slider
+                                value={[Math.round(selected.y * 100)]}
+                                onValueChange={(value) => update({ y: value[0] / 100 })}
+                                max={100}
+                                step={1}
+                                className="mt-2"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Label className="text-xs">Easing</Label>
+                            <select
+                                value={selected.easing}
+                                onChange={(e) => update({ easing: e.target.value as ZoomEasing })}
+                                className={selectClassName}
+                            >
+                                {ZOOM_EASINGS.map(easing => (
+                                    <option key={easing.id} value={easing.id}>{easing.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <Label className="text-xs">Transition: {selected.transitionDuration.toFixed(1)}s</Label>
+                            <Slider
+                                value={[selected.transitionDuration]}
+                                onValueChange={(value) => update({ transitionDuration: value[0] })}
+                                min={0.1}
+                                max={2}
+                                step={0.1}
+                                className="mt-3"
+                            />
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
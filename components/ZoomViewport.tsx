@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { ZoomSegment, getZoomAtTime, getZoomedFrame } from '@/lib/videoEditor/autoZoom'
+import { TimelineComposition, sourceToTimelineTime } from '@/lib/videoEditor/timelineComposition'
+
+interface ZoomViewportProps {
+    zoomSegments: ZoomSegment[]
+    currentTime: number
+    videoRef: React.RefObject<HTMLVideoElement | null>
+    // The edit the preview plays back
+    composition: TimelineComposition
+    borderRadius: number
+    children: React.ReactNode
+}
+
+const UNIT_FRAME = { x: 0, y: 0, width: 1, height: 1 }
+
+// Magnifies the player the way the exporter does. The store only updates the
+// time while paused, so during playback this follows the player's video and
+// moves the content with a transform instead of re-rendering every frame.
+export default function ZoomViewport({
+    zoomSegments,
+    currentTime,
+    videoRef,
+    composition,
+    borderRadius,
+    children
+}: ZoomViewportProps) {
+    const contentRef = useRef<HTMLDivElement>(null)
+    const currentTimeRef = useRef(currentTime)
+    currentTimeRef.current = currentTime
+
+    useEffect(() => {
+        const content = contentRef.current
+        if (!content) return
+
+        if (zoomSegments.length === 0) {
+            content.style.transform = ''
+            return
+        }
+
+        let frameId = 0
+        let appliedTransform: string | null = null
+
+        const update = () => {
+            frameId = requestAnimationFrame(update)
+
+            const video = videoRef.current
+            const time = video && !video.paused
+                ? sourceToTimelineTime(composition, video.currentTime) ?? currentTimeRef.current
+                : currentTimeRef.current
+            const frame = getZoomedFrame(UNIT_FRAME, getZoomAtTime(zoomSegments, time))
+            const transform = frame.width === 1
+                ? ''
+                : `translate(${frame.x * 100}%, ${frame.y * 100}%) scale(${frame.width})`
+            if (transform === appliedTransform) return
+
+            appliedTransform = transform
+            content.style.transform = transform
+        }
+
+        frameId = requestAnimationFrame(update)
+        return () => cancelAnimationFrame(frameId)
+    }, [zoomSegments, videoRef, composition])
+
+    return (
+        <div className="w-full h-full relative overflow-hidden" style={{ borderRadius: `${borderRadius}px` }}>
+            <div ref={contentRef} className="w-full h-full relative origin-top-left">
+                {children}
+            </div>
+        </div>
+    )
+}
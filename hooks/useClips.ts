@@ -6,11 +6,21 @@ export interface Clip {
     name: string
     startTime: number
     endTime: number
+    // Media asset (see the store's mediaAssets registry) this clip plays
+    sourceId?: string
+    // Offsets into the source media where playback of this clip starts and stops
+    sourceIn?: number
+    sourceOut?: number
     trackId: string
     thumbnail?: string
     waveform?: number[]
     color: string
     muted?: boolean
+    // Gain on the clip's sound; 1 leaves it unchanged
+    gain?: number
+    // Seconds the clip's sound takes to fade in at its start and out at its end
+    fadeIn?: number
+    fadeOut?: number
     locked?: boolean
     selected?: boolean
 }
@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { FFmpegState, checkFFmpegCore, getFFmpegState, subscribeFFmpegState } from '@/lib/ffmpegLoader'
+
+// The FFmpeg loader's state, checked once when first shown so the UI can say
+// whether MP4 export will work before the user starts one
+export const useFFmpegStatus = (): FFmpegState => {
+    const state = useSyncExternalStore(subscribeFFmpegState, getFFmpegState, getFFmpegState)
+
+    useEffect(() => {
+        if (getFFmpegState().status === 'unknown') checkFFmpegCore()
+    }, [])
+
+    return state
+}
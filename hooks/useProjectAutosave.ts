@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { VideoEditorState, takeSnapshot, useVideoEditorStore } from '@/stores/videoEditorStore'
+import { buildComposition } from '@/lib/videoEditor/timelineComposition'
+import {
+    AUTOSAVE_DELAY_MS,
+    ProjectSession,
+    createProjectRecord,
+    markProjectActive,
+    saveProject
+} from '@/lib/videoEditor/projectStorage'
+
+export type ProjectSaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+interface UseProjectAutosaveProps {
+    project?: ProjectSession
+    // Called on every save; returning undefined keeps the previous thumbnail
+    getThumbnail?: () => string | undefined
+}
+
+// Saves the open project to IndexedDB shortly after every edit
+export const useProjectAutosave = ({ project, getThumbnail }: UseProjectAutosaveProps) => {
+    const [status, setStatus] = useState<ProjectSaveStatus>('idle')
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+
+    const getThumbnailRef = useRef(getThumbnail)
+    const createdAtRef = useRef(project?.createdAt)
+    const thumbnailRef = useRef(project?.thumbnail)
+    const storedMediaRef = useRef<Record<string, string>>({ ...project?.storedMedia })
+    // Saves run one after another so media is never written twice
+    const queueRef = useRef<Promise<void>>(Promise.resolve())
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+    useEffect(() => {
+        getThumbnailRef.current = getThumbnail
+    }, [getThumbnail])
+
+    const runSave = useCallback(async (state: VideoEditorState) => {
+        if (!project) return
+        // Nothing worth keeping until the recording is on the timeline
+        if (state.clips.length === 0) return
+
+        setStatus('saving')
+        try {
+            const media: Record<string, Blob> = {}
+            const fetchedUrls: Record<string, string> = {}
+            for (const asset of state.mediaAssets) {
+                if (storedMediaRef.current[asset.id] === asset.url) continue
+                media[asset.id] = await (await fetch(asset.url)).blob()
+                fetchedUrls[asset.id] = asset.url
+            }
+
+            thumbnailRef.current = getThumbnailRef.current?.() ?? thumbnailRef.current
+            const record = createProjectRecord(
+                { id: project.id, name: project.name, createdAt: createdAtRef.current, thumbnail: thumbnailRef.current },
+                takeSnapshot(state),
+                state.mediaAssets,
+                buildComposition(state.clips).duration
+            )
+
+            await saveProject(record, media)
+
+            createdAtRef.current = record.createdAt
+            storedMediaRef.current = { ...storedMediaRef.current, ...fetchedUrls }
+            setLastSavedAt(record.updatedAt)
+            setStatus('saved')
+        } catch (error) {
+            console.error('Failed to save project:', error)
+            setStatus('error')
+        }
+    }, [project])
+
+    const saveNow = useCallback(() => {
+        // Taken now: by the time a queued save runs the store may hold another project
+        const state = useVideoEditorStore.getState()
+        queueRef.current = queueRef.current.then(() => runSave(state))
+        return queueRef.current
+    }, [runSave])
+
+    // Save a pending change right away, e.g. before the store is given another project
+    const flushSave = useCallback(() => {
+        if (!timeoutRef.current) return queueRef.current
+        clearTimeout(timeoutRef.current)
+        timeoutRef.current = null
+        return saveNow()
+    }, [saveNow])
+
+    useEffect(() => {
+        if (!project) return
+
+        markProjectActive(project.id)
+
+        const scheduleSave = () => {
+            if (timeoutRef.current) clearTimeout(timeoutRef.current)
+            timeoutRef.current = setTimeout(() => {
+                timeoutRef.current = null
+                saveNow()
+            }, AUTOSAVE_DELAY_MS)
+        }
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') flushSave()
+        }
+
+        // Every undoable edit moves the history; media changes are saved too
+        const unsubscribeHistory = useVideoEditorStore.subscribe(state => state.history, scheduleSave)
+        const unsubscribeMedia = useVideoEditorStore.subscribe(state => state.mediaAssets, scheduleSave)
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+        scheduleSave()
+
+        return () => {
+            unsubscribeHistory()
+            unsubscribeMedia()
+            document.removeEventListener('visibilitychange', handleVisibilityChange)
+            flushSave()
+        }
+    }, [project, saveNow, flushSave])
+
+    return { status, lastSavedAt, saveNow, flushSave }
+}
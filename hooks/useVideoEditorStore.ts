@@ -1,11 +1,33 @@
-import { useRef, useCallback, useEffect } from 'react'
-import { useVideoEditorStore } from '@/stores/videoEditorStore'
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react'
+import { useVideoEditorStore as useEditorStore } from '@/stores/videoEditorStore'
+import {
+    CompositionSegment,
+    buildComposition,
+    getPlaybackPosition,
+    getSegmentSourceId,
+    isRecordingSegment
+} from '@/lib/videoEditor/timelineComposition'
+import { canRedo, canUndo } from '@/lib/videoEditor/editorHistory'
+import { offsetAnnotation } from '@/lib/videoEditor/annotationRenderer'
+import { MIN_OVERLAY_SIZE, moveOverlay } from '@/lib/videoEditor/overlays'
+
+// Slack before a segment's out-point at which playback moves to the next segment
+const SEGMENT_END_EPSILON = 0.05
+// Smallest annotation box a resize can leave, as a percentage of the frame
+const MIN_ANNOTATION_SIZE = 2
+
+// Annotations are positioned relative to the frame that contains them
+const getAnnotationFrameRect = (element: HTMLElement) =>
+    element.closest('[data-annotation-frame]')?.getBoundingClientRect()
+    ?? { width: window.innerWidth, height: window.innerHeight }
 
 // Custom hook that provides the same interface as the original hooks
 // but uses Zustand store to prevent re-renders
 export const useVideoEditorStore = () => {
     const videoRef = useRef<HTMLVideoElement>(null)
     const webcamVideoRef = useRef<HTMLVideoElement>(null)
+    // Plays the clips of imported video, over the recording
+    const mediaVideoRef = useRef<HTMLVideoElement>(null)
     const currentTimeRef = useRef(0)
     const lastUpdateTimeRef = useRef(0)
 
@@ -13,6 +35,7 @@ export const useVideoEditorStore = () => {
     const {
         videoPlayer,
         clips,
+        mediaAssets,
         webcamOverlay,
         annotations,
         isProcessing,
@@ -23,17 +46,32 @@ export const useVideoEditorStore = () => {
         currentColorPreset,
         currentAspectRatio,
         currentBrandKit,
+        brandOverlay,
         colorGradingFilters,
         enhancementConfig,
         enhancementSettings,
+        captions,
+        captionStyle,
+        transitions,
+        overlays,
+        selectedOverlay,
+        cursorTrack,
+        cursorSettings,
+        zoomSegments,
+        selectedZoomSegment,
+        tracks,
+        audioMix,
         setVideoPlayer,
         setClips,
         addClip,
         updateClip,
         deleteClip,
         duplicateClip,
+        rippleDelete,
         addRecordedVideoClip,
         addWebcamClip,
+        registerMediaAsset,
+        updateMediaAsset,
         setWebcamOverlay,
         setWebcamVideoUrl,
         setWebcamOverlayPosition,
@@ -56,40 +94,134 @@ export const useVideoEditorStore = () => {
         setCurrentColorPreset,
         setCurrentAspectRatio,
         setCurrentBrandKit,
+        setBrandOverlay,
         setColorGradingFilters,
         setEnhancementConfig,
-        setEnhancementSettings
-    } = useVideoEditorStore()
+        setEnhancementSettings,
+        setCaptions,
+        updateCaption,
+        removeCaption,
+        setCaptionStyle,
+        addTransition,
+        updateTransition,
+        removeTransition,
+        addOverlay,
+        updateOverlay,
+        removeOverlay,
+        setSelectedOverlay,
+        setCursorTrack,
+        setCursorSettings,
+        setZoomSegments,
+        addZoomSegment,
+        updateZoomSegment,
+        removeZoomSegment,
+        setSelectedZoomSegment,
+        setTracks,
+        updateTrack,
+        setAudioMix,
+        history,
+        undo,
+        redo,
+        jumpToHistory,
+        beginHistoryTransaction,
+        endHistoryTransaction
+    } = useEditorStore()
+
+    // The edit the preview plays back; null until the timeline has video clips
+    const composition = useMemo(() => {
+        const built = buildComposition(clips)
+        return built.segments.length > 0 ? built : null
+    }, [clips])
+    // Read through a ref so the video listeners are not re-attached on every edit
+    const compositionRef = useRef(composition)
+    compositionRef.current = composition
+    const activeSegmentRef = useRef<CompositionSegment | null>(null)
+    const mediaAssetsRef = useRef(mediaAssets)
+    mediaAssetsRef.current = mediaAssets
+
+    // The imported video the preview is showing instead of the recording, if any
+    const [activeMediaId, setActiveMediaId] = useState<string | null>(null)
+
+    // The video playing the segment under the playhead
+    const getSourceVideo = useCallback(() => {
+        const segment = activeSegmentRef.current
+        return segment && !isRecordingSegment(segment) ? mediaVideoRef.current : videoRef.current
+    }, [])
+
+    // Position the source videos for a timeline time. Playback carries on in
+    // whichever video the new position is in.
+    const cueSources = useCallback((time: number) => {
+        const video = videoRef.current
+        const mediaVideo = mediaVideoRef.current
+        const webcamVideo = webcamVideoRef.current
+        if (!video) return
+
+        const wasPlaying = getSourceVideo()?.paused === false
+        let sourceTime = time
+        if (compositionRef.current) {
+            const position = getPlaybackPosition(compositionRef.current, time)
+            activeSegmentRef.current = position?.segment ?? null
+            sourceTime = position?.sourceTime ?? time
+        }
+
+        const segment = activeSegmentRef.current
+        const mediaId = segment && !isRecordingSegment(segment) ? getSegmentSourceId(segment) : null
+        const mediaUrl = mediaAssetsRef.current.find(asset => asset.id === mediaId)?.url
+        setActiveMediaId(mediaId)
+
+        if (mediaId) {
+            video.pause()
+            webcamVideo?.pause()
+            if (mediaVideo && mediaUrl) {
+                if (mediaVideo.src !== mediaUrl) mediaVideo.src = mediaUrl
+                mediaVideo.currentTime = sourceTime
+                if (wasPlaying) mediaVideo.play().catch(() => { })
+            }
+            return
+        }
+
+        mediaVideo?.pause()
+        video.currentTime = sourceTime
+        if (webcamVideo) webcamVideo.currentTime = sourceTime
+        if (wasPlaying && video.paused) {
+            video.play().catch(() => { })
+            webcamVideo?.play().catch(() => { })
+        }
+    }, [getSourceVideo])
 
     // Video player actions
     const togglePlayPause = useCallback(() => {
-        const video = videoRef.current
         const webcamVideo = webcamVideoRef.current
-
-        if (video) {
-            if (video.paused) {
-                video.play()
-                if (webcamVideo) webcamVideo.play()
+        let source = getSourceVideo()
+
+        if (source) {
+            if (source.paused) {
+                if (compositionRef.current && !activeSegmentRef.current) {
+                    cueSources(currentTimeRef.current)
+                    source = getSourceVideo() ?? source
+                }
+                source.play()
+                if (webcamVideo && source === videoRef.current) webcamVideo.play()
                 setVideoPlayer({ isPlaying: true })
             } else {
-                video.pause()
+                source.pause()
                 if (webcamVideo) webcamVideo.pause()
-                setVideoPlayer({ isPlaying: false, currentTime: video.currentTime })
+                setVideoPlayer({ isPlaying: false, currentTime: currentTimeRef.current })
             }
         }
-    }, [setVideoPlayer])
+    }, [getSourceVideo, cueSources, setVideoPlayer])
 
     const seekTo = useCallback((time: number) => {
         const video = videoRef.current
-        const webcamVideo = webcamVideoRef.current
+        // Imported clips can run past the end of the recording
+        const duration = Math.max(videoPlayer.duration, compositionRef.current?.duration ?? 0)
 
-        if (video && isFinite(time) && time >= 0 && time <= videoPlayer.duration && videoPlayer.isVideoReady) {
-            video.currentTime = time
-            if (webcamVideo) webcamVideo.currentTime = time
+        if (video && isFinite(time) && time >= 0 && time <= duration && videoPlayer.isVideoReady) {
+            cueSources(time)
             currentTimeRef.current = time
             setVideoPlayer({ currentTime: time })
         }
-    }, [videoPlayer.duration, videoPlayer.isVideoReady, setVideoPlayer])
+    }, [videoPlayer.duration, videoPlayer.isVideoReady, cueSources, setVideoPlayer])
 
     const rewind = useCallback(() => {
         seekTo(Math.max(0, videoPlayer.currentTime - 5))
@@ -112,17 +244,51 @@ export const useVideoEditorStore = () => {
     }, [setVideoPlayer])
 
     const handleTimeUpdate = useCallback(() => {
-        const video = videoRef.current
+        const video = getSourceVideo()
         if (video) {
-            const newTime = video.currentTime
+            let newTime = video.currentTime
+            const composition = compositionRef.current
+            const segment = activeSegmentRef.current
+
+            // Translate source time back to the timeline and hop over cuts
+            if (composition && segment) {
+                if (video.currentTime >= segment.sourceOut - SEGMENT_END_EPSILON) {
+                    const index = composition.segments.findIndex(s => s.clipId === segment.clipId)
+                    const next = composition.segments[index + 1]
+                    if (next) {
+                        cueSources(next.timelineStart)
+                        newTime = next.timelineStart
+                    } else {
+                        video.pause()
+                        webcamVideoRef.current?.pause()
+                        newTime = segment.timelineEnd
+                        setVideoPlayer({ isPlaying: false, currentTime: newTime })
+                    }
+                } else {
+                    newTime = segment.timelineStart + (video.currentTime - segment.sourceIn)
+                }
+            }
+
             currentTimeRef.current = newTime
 
-            // Only update state when paused to prevent re-renders during playback
-            if (!videoPlayer.isPlaying) {
+            // Only update state when paused to prevent re-renders during playback.
+            // The layers over the player follow the recording by themselves, so
+            // while imported video plays they need the time from the store
+            if (!videoPlayer.isPlaying || video !== videoRef.current) {
                 setVideoPlayer({ currentTime: newTime })
             }
         }
-    }, [videoPlayer.isPlaying, setVideoPlayer])
+    }, [getSourceVideo, cueSources, videoPlayer.isPlaying, setVideoPlayer])
+
+    // Re-cue after edits so the preview shows the footage now under the playhead
+    useEffect(() => {
+        const isPaused = getSourceVideo()?.paused ?? true
+        activeSegmentRef.current = null
+        const video = videoRef.current
+        if (composition && video && isPaused) {
+            cueSources(currentTimeRef.current)
+        }
+    }, [composition, getSourceVideo, cueSources])
 
     const handleCanPlay = useCallback(() => {
         const video = videoRef.current
@@ -162,11 +328,13 @@ export const useVideoEditorStore = () => {
         const handleMouseUp = () => {
             document.removeEventListener('mousemove', handleMouseMove)
             document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
         }
 
+        beginHistoryTransaction('Move webcam')
         document.addEventListener('mousemove', handleMouseMove)
         document.addEventListener('mouseup', handleMouseUp)
-    }, [webcamOverlay.webcamOverlayPosition, setWebcamOverlayPosition])
+    }, [webcamOverlay.webcamOverlayPosition, setWebcamOverlayPosition, beginHistoryTransaction, endHistoryTransaction])
 
     const handleWebcamResizeMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
         e.preventDefault()
@@ -190,11 +358,13 @@ export const useVideoEditorStore = () => {
         const handleMouseUp = () => {
             document.removeEventListener('mousemove', handleMouseMove)
             document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
         }
 
+        beginHistoryTransaction('Resize webcam')
         document.addEventListener('mousemove', handleMouseMove)
         document.addEventListener('mouseup', handleMouseUp)
-    }, [webcamOverlay.webcamOverlaySize, setWebcamOverlaySize])
+    }, [webcamOverlay.webcamOverlaySize, setWebcamOverlaySize, beginHistoryTransaction, endHistoryTransaction])
 
     // Annotation actions
     const handleAnnotationMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>, annotationId: string) => {
@@ -205,60 +375,162 @@ export const useVideoEditorStore = () => {
         const annotation = annotations.annotations.find(a => a.id === annotationId)
         if (!annotation) return
 
+        const frame = getAnnotationFrameRect(e.currentTarget)
         const startX = e.clientX
         const startY = e.clientY
-        const startLeft = annotation.x
-        const startTop = annotation.y
 
         const handleMouseMove = (e: MouseEvent) => {
-            const deltaX = ((e.clientX - startX) / window.innerWidth) * 100
-            const deltaY = ((e.clientY - startY) / window.innerHeight) * 100
+            const deltaX = ((e.clientX - startX) / frame.width) * 100
+            const deltaY = ((e.clientY - startY) / frame.height) * 100
 
-            updateAnnotation(annotationId, {
-                x: Math.max(0, Math.min(100, startLeft + deltaX)),
-                y: Math.max(0, Math.min(100, startTop + deltaY))
-            })
+            updateAnnotation(annotationId, offsetAnnotation(annotation, deltaX, deltaY))
         }
 
         const handleMouseUp = () => {
             document.removeEventListener('mousemove', handleMouseMove)
             document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
         }
 
+        beginHistoryTransaction('Move annotation')
         document.addEventListener('mousemove', handleMouseMove)
         document.addEventListener('mouseup', handleMouseUp)
-    }, [annotations.annotations, setSelectedAnnotation, updateAnnotation])
+    }, [annotations.annotations, setSelectedAnnotation, updateAnnotation, beginHistoryTransaction, endHistoryTransaction])
 
     const handleAnnotationResize = useCallback((e: React.MouseEvent<HTMLDivElement>, annotationId: string) => {
         e.preventDefault()
         e.stopPropagation()
 
         const annotation = annotations.annotations.find(a => a.id === annotationId)
-        if (!annotation || !annotation.width || !annotation.height) return
+        if (!annotation) return
 
+        const frame = getAnnotationFrameRect(e.currentTarget)
         const startX = e.clientX
         const startY = e.clientY
-        const startWidth = annotation.width
-        const startHeight = annotation.height
+        // Text has no box until it is first resized, so start from its hit box
+        const box = e.currentTarget.parentElement?.getBoundingClientRect()
+        const startWidth = annotation.width ?? (box ? (box.width / frame.width) * 100 : MIN_ANNOTATION_SIZE)
+        const startHeight = annotation.height ?? (box ? (box.height / frame.height) * 100 : MIN_ANNOTATION_SIZE)
+        // Shapes drawn up or left have a negative size; flip them so the handle drags the bottom right corner
+        const start = {
+            x: Math.min(annotation.x, annotation.x + startWidth),
+            y: Math.min(annotation.y, annotation.y + startHeight)
+        }
 
         const handleMouseMove = (e: MouseEvent) => {
-            const deltaX = e.clientX - startX
-            const deltaY = e.clientY - startY
+            const deltaX = ((e.clientX - startX) / frame.width) * 100
+            const deltaY = ((e.clientY - startY) / frame.height) * 100
 
             updateAnnotation(annotationId, {
-                width: Math.max(50, startWidth + deltaX),
-                height: Math.max(30, startHeight + deltaY)
+                ...start,
+                width: Math.max(MIN_ANNOTATION_SIZE, Math.abs(startWidth) + deltaX),
+                height: Math.max(MIN_ANNOTATION_SIZE, Math.abs(startHeight) + deltaY)
+            })
+        }
+
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove)
+            document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
+        }
+
+        beginHistoryTransaction('Resize annotation')
+        document.addEventListener('mousemove', handleMouseMove)
+        document.addEventListener('mouseup', handleMouseUp)
+    }, [annotations.annotations, updateAnnotation, beginHistoryTransaction, endHistoryTransaction])
+
+    // Overlay actions; overlays share the annotations' frame
+    const handleOverlayMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>, overlayId: string) => {
+        e.preventDefault()
+        e.stopPropagation()
+        setSelectedOverlay(overlayId)
+
+        const overlay = overlays.find(o => o.id === overlayId)
+        if (!overlay) return
+
+        const frame = getAnnotationFrameRect(e.currentTarget)
+        const startX = e.clientX
+        const startY = e.clientY
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const deltaX = ((e.clientX - startX) / frame.width) * 100
+            const deltaY = ((e.clientY - startY) / frame.height) * 100
+
+            updateOverlay(overlayId, moveOverlay(overlay, deltaX, deltaY))
+        }
+
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove)
+            document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
+        }
+
+        beginHistoryTransaction('Move overlay')
+        document.addEventListener('mousemove', handleMouseMove)
+        document.addEventListener('mouseup', handleMouseUp)
+    }, [overlays, setSelectedOverlay, updateOverlay, beginHistoryTransaction, endHistoryTransaction])
+
+    const handleOverlayResize = useCallback((e: React.MouseEvent<HTMLDivElement>, overlayId: string) => {
+        e.preventDefault()
+        e.stopPropagation()
+
+        const overlay = overlays.find(o => o.id === overlayId)
+        if (!overlay) return
+
+        const frame = getAnnotationFrameRect(e.currentTarget)
+        const startX = e.clientX
+        const startY = e.clientY
+        // Drag in the overlay's own axes so rotated overlays grow along their sides
+        const angle = (overlay.rotation * Math.PI) / 180
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const dx = e.clientX - startX
+            const dy = e.clientY - startY
+            const deltaWidth = ((dx * Math.cos(angle) + dy * Math.sin(angle)) / frame.width) * 100
+            const deltaHeight = ((dy * Math.cos(angle) - dx * Math.sin(angle)) / frame.height) * 100
+
+            updateOverlay(overlayId, {
+                width: Math.max(MIN_OVERLAY_SIZE, overlay.width + deltaWidth),
+                height: Math.max(MIN_OVERLAY_SIZE, overlay.height + deltaHeight)
             })
         }
 
         const handleMouseUp = () => {
             document.removeEventListener('mousemove', handleMouseMove)
             document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
+        }
+
+        beginHistoryTransaction('Resize overlay')
+        document.addEventListener('mousemove', handleMouseMove)
+        document.addEventListener('mouseup', handleMouseUp)
+    }, [overlays, updateOverlay, beginHistoryTransaction, endHistoryTransaction])
+
+    const handleOverlayRotate = useCallback((e: React.MouseEvent<HTMLDivElement>, overlayId: string) => {
+        e.preventDefault()
+        e.stopPropagation()
+
+        const box = e.currentTarget.parentElement?.getBoundingClientRect()
+        if (!box) return
+        const centerX = box.left + box.width / 2
+        const centerY = box.top + box.height / 2
+
+        const handleMouseMove = (e: MouseEvent) => {
+            // The handle sits above the center, so straight up is no rotation
+            const degrees = (Math.atan2(e.clientY - centerY, e.clientX - centerX) * 180) / Math.PI + 90
+            updateOverlay(overlayId, { rotation: Math.round(((degrees + 540) % 360) - 180) })
+        }
+
+        const handleMouseUp = () => {
+            document.removeEventListener('mousemove', handleMouseMove)
+            document.removeEventListener('mouseup', handleMouseUp)
+            endHistoryTransaction()
         }
 
+        beginHistoryTransaction('Rotate overlay')
         document.addEventListener('mousemove', handleMouseMove)
         document.addEventListener('mouseup', handleMouseUp)
-    }, [annotations.annotations, updateAnnotation])
+    }, [updateOverlay, beginHistoryTransaction, endHistoryTransaction])
 
     // Setup video event listeners
     useEffect(() => {
@@ -287,14 +559,25 @@ export const useVideoEditorStore = () => {
         }
     }, [handleLoadStart, handleLoadedMetadata, handleTimeUpdate, handleCanPlay, handleError])
 
+    // Imported video moves the playhead the same way while it plays
+    useEffect(() => {
+        const mediaVideo = mediaVideoRef.current
+        if (!mediaVideo) return
+
+        mediaVideo.addEventListener('timeupdate', handleTimeUpdate)
+        return () => mediaVideo.removeEventListener('timeupdate', handleTimeUpdate)
+    }, [handleTimeUpdate])
+
     return {
         // Refs
         videoRef,
         webcamVideoRef,
+        mediaVideoRef,
 
         // Video player state
         isPlaying: videoPlayer.isPlaying,
         currentTime: videoPlayer.currentTime,
+        activeMediaId,
         duration: videoPlayer.duration,
         isVideoReady: videoPlayer.isVideoReady,
         forceReady: videoPlayer.forceReady,
@@ -312,9 +595,15 @@ export const useVideoEditorStore = () => {
         updateClip,
         deleteClip,
         duplicateClip,
+        rippleDelete,
         addRecordedVideoClip,
         addWebcamClip,
 
+        // Media assets
+        mediaAssets,
+        registerMediaAsset,
+        updateMediaAsset,
+
         // Webcam overlay
         webcamVideoUrl: webcamOverlay.webcamVideoUrl,
         webcamOverlayPosition: webcamOverlay.webcamOverlayPosition,
@@ -361,16 +650,75 @@ export const useVideoEditorStore = () => {
         currentColorPreset,
         currentAspectRatio,
         currentBrandKit,
+        brandOverlay,
         colorGradingFilters,
         setCurrentColorPreset,
         setCurrentAspectRatio,
         setCurrentBrandKit,
+        setBrandOverlay,
         setColorGradingFilters,
 
         // Enhancement state
         enhancementConfig,
         enhancementSettings,
         setEnhancementConfig,
-        setEnhancementSettings
+        setEnhancementSettings,
+
+        // Captions
+        captions,
+        captionStyle,
+        setCaptions,
+        updateCaption,
+        removeCaption,
+        setCaptionStyle,
+
+        // Transitions
+        transitions,
+        addTransition,
+        updateTransition,
+        removeTransition,
+
+        // Overlays
+        overlays,
+        selectedOverlay,
+        addOverlay,
+        updateOverlay,
+        removeOverlay,
+        setSelectedOverlay,
+        handleOverlayMouseDown,
+        handleOverlayResize,
+        handleOverlayRotate,
+
+        // Cursor
+        cursorTrack,
+        cursorSettings,
+        setCursorTrack,
+        setCursorSettings,
+
+        // Zooms
+        zoomSegments,
+        selectedZoomSegment,
+        setZoomSegments,
+        addZoomSegment,
+        updateZoomSegment,
+        removeZoomSegment,
+        setSelectedZoomSegment,
+
+        // Tracks and audio
+        tracks,
+        audioMix,
+        setTracks,
+        updateTrack,
+        setAudioMix,
+
+        // History
+        history,
+        canUndo: canUndo(history),
+        canRedo: canRedo(history),
+        undo,
+        redo,
+        jumpToHistory,
+        beginHistoryTransaction,
+        endHistoryTransaction
     }
 }
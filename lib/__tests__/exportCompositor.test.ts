@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import type { Annotation } from '@/components/VideoAnnotation'
+import { ExportScene, createFrameCompositor } from '../exportCompositor'
+
+const arrow: Annotation = {
+    id: 'arrow',
+    type: 'arrow',
+    x: 50,
+    y: 50,
+    endX: 100,
+    endY: 100,
+    color: '#ff0000',
+    startTime: 0,
+    endTime: 5
+}
+
+const createScene = (overrides: Partial<ExportScene> = {}): ExportScene => ({
+    width: 1080,
+    height: 1920,
+    annotations: [arrow],
+    overlays: [],
+    zoomSegments: [],
+    colorGrading: null,
+    ...overrides
+})
+
+// jsdom has no canvas, so record where the compositor draws lines, following its translations
+const createRecordingContext = () => {
+    const points: { name: string; x: number; y: number }[] = []
+    const offsets = [{ x: 0, y: 0 }]
+    const offset = () => offsets[offsets.length - 1]
+    const ctx = new Proxy({} as Record<string | symbol, unknown>, {
+        get: (target, name) => {
+            if (name in target) return target[name]
+            switch (name) {
+                case 'save':
+                    return () => offsets.push({ ...offset() })
+                case 'restore':
+                    return () => offsets.pop()
+                case 'translate':
+                    return (x: number, y: number) => {
+                        offset().x += x
+                        offset().y += y
+                    }
+                case 'moveTo':
+                case 'lineTo':
+                    return (x: number, y: number) => points.push({ name, x: x + offset().x, y: y + offset().y })
+                default:
+                    return () => { }
+            }
+        },
+        set: (target, name, value) => {
+            target[name] = value
+            return true
+        }
+    })
+    return { ctx: ctx as unknown as CanvasRenderingContext2D, points }
+}
+
+const drawFrame = (scene: ExportScene) => {
+    const { ctx, points } = createRecordingContext()
+    const compositor = createFrameCompositor(scene, { overlays: new Map(), brandMarks: [] })
+    compositor.draw(ctx, 1, { recording: null, sourceTime: 1, transition: null, webcam: null })
+    compositor.dispose()
+    return points
+}
+
+describe('exportCompositor', () => {
+    it('should place annotations on the whole frame when the recording is not reframed', () => {
+        const [start, end] = drawFrame(createScene())
+
+        expect(start).toEqual({ name: 'moveTo', x: 540, y: 960 })
+        expect(end).toEqual({ name: 'lineTo', x: 1080, y: 1920 })
+    })
+
+    it('should keep annotations on the UI they were drawn over when the recording is fitted into another shape', () => {
+        const [start, end] = drawFrame(createScene({
+            reframe: { mode: 'fit', sourceWidth: 1920, sourceHeight: 1080 }
+        }))
+
+        // The 16:9 recording is 607.5px tall in the middle of the 9:16 frame
+        expect(start.x).toBeCloseTo(540)
+        expect(start.y).toBeCloseTo(960)
+        expect(end.x).toBeCloseTo(1080)
+        expect(end.y).toBeCloseTo(960 + 607.5 / 2)
+    })
+
+    it('should move annotations with a smart crop', () => {
+        const [start, end] = drawFrame(createScene({
+            reframe: { mode: 'smart-crop', sourceWidth: 1920, sourceHeight: 1080 }
+        }))
+
+        // Cropped around the middle, the recording is 3413px wide with its middle in the frame's
+        const recordingWidth = 1920 * (1920 / 1080)
+        expect(start.x).toBeCloseTo(540)
+        expect(start.y).toBeCloseTo(960)
+        expect(end.x).toBeCloseTo(540 + recordingWidth / 2)
+        expect(end.y).toBeCloseTo(1920)
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { ExportJob, ExportRequest, createExportJob, getExportFileName, getNextExportJob, getPublishTarget } from '../exportJobs'
+import { aspectRatioTemplates } from '../templates/aspectRatioTemplates'
+import type { ExportOptions } from '@/components/ExportDialog'
+
+const createRequest = (options: Partial<ExportOptions> = {}): ExportRequest => ({
+    videoUrl: 'blob:recording',
+    options: {
+        resolution: '1080p',
+        format: 'mp4',
+        quality: 'high',
+        fps: 30,
+        includeWebcam: true,
+        includeAudio: true,
+        burnCaptions: false,
+        includeBranding: false,
+        ...options
+    }
+})
+
+const createJob = (id: string, status: ExportJob['status']): ExportJob => ({
+    ...createExportJob(createRequest(), id, 0),
+    status
+})
+
+describe('exportJobs', () => {
+    it('should queue a new job named after its resolution and format', () => {
+        const job = createExportJob(createRequest({ resolution: '720p', format: 'webm' }), 'export-1', 0)
+
+        expect(job).toMatchObject({ id: 'export-1', name: '720p WEBM', status: 'queued', stage: null, progress: 0, output: null })
+    })
+
+    it('should run queued jobs in the order they were queued', () => {
+        const jobs = [createJob('a', 'done'), createJob('b', 'cancelled'), createJob('c', 'queued'), createJob('d', 'queued')]
+
+        expect(getNextExportJob(jobs)?.id).toBe('c')
+    })
+
+    it('should not start a job while another is running', () => {
+        const jobs = [createJob('a', 'queued'), createJob('b', 'running')]
+
+        expect(getNextExportJob(jobs)).toBeNull()
+        expect(getNextExportJob([createJob('a', 'failed')])).toBeNull()
+    })
+
+    it('should name the file after what was actually rendered', () => {
+        const job = createExportJob(createRequest({ format: 'mp4' }), 'export-1', Date.UTC(2024, 0, 2, 3, 4, 5))
+
+        expect(getExportFileName(job, new Blob([], { type: 'video/mp4' }))).toBe('video-1080p-2024-01-02T03-04-05.mp4')
+        expect(getExportFileName(job, new Blob([], { type: 'video/webm' }))).toBe('video-1080p-2024-01-02T03-04-05.webm')
+    })
+
+    it('should render a publish pack export at the template size and within its limits', () => {
+        const template = aspectRatioTemplates.find(t => t.id === 'tiktok-vertical')!
+        const job = createExportJob({ ...createRequest(), target: getPublishTarget(template, 'smart-crop') }, 'export-1', Date.UTC(2024, 0, 2, 3, 4, 5))
+
+        expect(job.request.target).toMatchObject({ width: 1080, height: 1920, reframe: 'smart-crop', maxDuration: 600 })
+        expect(job.name).toBe('TikTok Vertical MP4')
+        expect(getExportFileName(job, new Blob([], { type: 'video/mp4' }))).toBe('video-tiktok-vertical-2024-01-02T03-04-05.mp4')
+    })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { checkFFmpegCore, getFFmpegCoreFiles, getFFmpegState } from '../ffmpegLoader'
+
+describe('ffmpegLoader', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('should serve the core from the app, with a thread worker for the multi-threaded build', () => {
+        expect(getFFmpegCoreFiles(false)).toEqual({
+            coreURL: '/ffmpeg/st/ffmpeg-core.js',
+            wasmURL: '/ffmpeg/st/ffmpeg-core.wasm'
+        })
+        expect(getFFmpegCoreFiles(true).workerURL).toBe('/ffmpeg/mt/ffmpeg-core.worker.js')
+    })
+
+    it('should report the core unavailable when its files are not served', async () => {
+        vi.stubGlobal('Worker', class { })
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => ({ ok: !url.endsWith('.wasm') })))
+
+        expect(await checkFFmpegCore()).toBe(false)
+        expect(getFFmpegState()).toMatchObject({ status: 'unavailable', multiThreaded: false })
+        expect(getFFmpegState().error).toContain('/ffmpeg/st/ffmpeg-core.wasm')
+    })
+
+    it('should report the core available when its files are served', async () => {
+        vi.stubGlobal('Worker', class { })
+        vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true })))
+
+        expect(await checkFFmpegCore()).toBe(true)
+        expect(getFFmpegState()).toEqual({ status: 'available', multiThreaded: false, error: null })
+    })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ExportCancelledError, getWebCodecsConfig, renderWithWebCodecs } from '../webCodecsExport'
+
+const audio = { sampleRate: 44100, numberOfChannels: 2 } as AudioBuffer
+
+// Encoders that support only the codecs given
+const stubEncoders = (videoCodecs: string[], audioCodecs: string[]) => {
+    vi.stubGlobal('VideoFrame', class { })
+    vi.stubGlobal('AudioData', class { })
+    vi.stubGlobal('VideoEncoder', {
+        isConfigSupported: async (config: VideoEncoderConfig) => ({ supported: videoCodecs.includes(config.codec), config })
+    })
+    vi.stubGlobal('AudioEncoder', {
+        isConfigSupported: async (config: AudioEncoderConfig) => ({ supported: audioCodecs.includes(config.codec), config })
+    })
+}
+
+describe('webCodecsExport', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('should fall back when the browser has no WebCodecs', async () => {
+        expect(await getWebCodecsConfig('mp4', 1920, 1080, 30, 8e6, null)).toBeNull()
+    })
+
+    it('should pick the best supported codec for the container and size', async () => {
+        stubEncoders(['avc1.4d0028', 'avc1.4d0033', 'vp8'], ['mp4a.40.2', 'opus'])
+
+        const mp4 = await getWebCodecsConfig('mp4', 1920, 1080, 30, 8e6, audio)
+        expect(mp4?.video).toMatchObject({ codec: 'avc1.4d0028', width: 1920, height: 1080, framerate: 30 })
+        expect(mp4?.audio).toMatchObject({ codec: 'mp4a.40.2', sampleRate: 44100, numberOfChannels: 2 })
+
+        expect((await getWebCodecsConfig('mp4', 3840, 2160, 30, 8e6, null))?.video.codec).toBe('avc1.4d0033')
+
+        const webm = await getWebCodecsConfig('webm', 1280, 720, 60, 5e6, audio)
+        expect(webm?.video.codec).toBe('vp8')
+        expect(webm?.audio).toMatchObject({ codec: 'opus', sampleRate: 48000 })
+    })
+
+    it('should not render silently when the sound cannot be encoded', async () => {
+        stubEncoders(['avc1.640028'], [])
+
+        expect(await getWebCodecsConfig('mp4', 1280, 720, 30, 5e6, audio)).toBeNull()
+        expect(await getWebCodecsConfig('mp4', 1280, 720, 30, 5e6, null)).not.toBeNull()
+    })
+
+    it('should refuse odd frame sizes', async () => {
+        stubEncoders(['avc1.640028'], [])
+
+        expect(await getWebCodecsConfig('mp4', 853, 480, 30, 5e6, null)).toBeNull()
+    })
+
+    it('should stop at the next frame once the export is cancelled', async () => {
+        const keyFrames: boolean[] = []
+        vi.stubGlobal('VideoFrame', class { close() { } })
+        vi.stubGlobal('VideoEncoder', class {
+            state = 'configured'
+            encodeQueueSize = 0
+            configure() { }
+            encode(_frame: unknown, options: { keyFrame: boolean }) { keyFrames.push(options.keyFrame) }
+            async flush() { }
+            close() { this.state = 'closed' }
+        })
+
+        const controller = new AbortController()
+        const render = renderWithWebCodecs({
+            config: { container: 'webm', video: { codec: 'vp8', width: 2, height: 2 }, audio: null },
+            canvas: {} as OffscreenCanvas,
+            duration: 1,
+            fps: 10,
+            audio: null,
+            signal: controller.signal,
+            drawFrame: (_time, index) => {
+                if (index === 2) controller.abort()
+            }
+        })
+
+        await expect(render).rejects.toBeInstanceOf(ExportCancelledError)
+        expect(keyFrames).toEqual([true, false, false])
+    })
+})
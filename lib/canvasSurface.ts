@@ -0,0 +1,12 @@
+// Canvases for drawing off screen. The export worker has no DOM, so an
+// OffscreenCanvas stands in there; the 2D and WebGL APIs used on these are the
+// same on both, so callers keep working with the DOM canvas type
+export const createCanvas = (width: number = 300, height: number = 150): HTMLCanvasElement => {
+    if (typeof document !== 'undefined') {
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        return canvas
+    }
+    return new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement
+}
@@ -0,0 +1,347 @@
+import type { Annotation } from '@/components/VideoAnnotation'
+import { Caption, CaptionStyle, TimelineCaption, drawCaption, getCaptionAtTime } from './videoEditor/captions'
+import { drawAnnotations } from './videoEditor/annotationRenderer'
+import { Overlay, drawOverlays } from './videoEditor/overlays'
+import { CursorSettings, CursorTrack, drawCursor } from './videoEditor/cursorTracking'
+import { ZoomSegment, getZoomAtTime, getZoomedFrame } from './videoEditor/autoZoom'
+import { ColorGradingFilters, createColorGrader, hasColorGrading } from './templates/applyColorGrading'
+import type { TransitionFrame } from './videoEditor/clipTransitions'
+import { TransitionRenderer, createTransitionRenderer } from './videoEditor/transitionRenderer'
+import { LoadedBrandMark, drawBrandMarks } from './videoEditor/brandOverlay'
+import {
+    BLUR_FILL_RADIUS,
+    ReframeMode,
+    getCoverRect,
+    getCursorFocus,
+    getFitRect,
+    getReframeFocus
+} from './videoEditor/reframing'
+import type { BrandImage } from './templates/brandKit'
+
+// Draws the frames of an export. The page uses it when recording in real time
+// and the export worker when rendering offline, so both show the same thing
+
+export interface ExportBackground {
+    type: 'wallpaper' | 'gradient' | 'color' | 'image'
+    padding: number
+    borderRadius: number
+    backgroundColor?: string
+    gradientColors?: string[]
+    wallpaperIndex?: number
+    wallpaperUrl?: string
+    blurAmount?: number
+}
+
+export interface ExportWebcam {
+    visible: boolean
+    position: { x: number; y: number }
+    size: { width: number; height: number }
+    shape: 'rectangle' | 'square' | 'circle'
+    borderWidth: number
+    borderColor: string
+}
+
+// Captions to burn into the video
+export interface CaptionBurnIn {
+    captions: Caption[]
+    style: CaptionStyle
+    fontFamily: string
+}
+
+// Everything an export draws besides its sources. It is plain data, so it
+// can be posted to the export worker as it is
+export interface ExportScene {
+    width: number
+    height: number
+    background?: ExportBackground
+    webcam?: ExportWebcam
+    captions?: Omit<CaptionBurnIn, 'captions'> & { captions: TimelineCaption[] }
+    annotations: Annotation[] // In timeline time
+    overlays: Overlay[] // In timeline time
+    cursor?: { track: CursorTrack; settings: CursorSettings } // Timed against the recording
+    zoomSegments: ZoomSegment[] // In timeline time
+    colorGrading: ColorGradingFilters | null
+    // How the recording fits a frame of another shape; without it, the recording is stretched to the frame
+    reframe?: { mode: ReframeMode; sourceWidth: number; sourceHeight: number }
+}
+
+// Images the scene draws, loaded before the first frame
+export interface SceneImages {
+    overlays: Map<string, BrandImage>
+    brandMarks: LoadedBrandMark[]
+}
+
+// The sources as they are at a frame's time
+export interface FrameSources {
+    recording: CanvasImageSource | null // The main track's frame; missing in gaps on the timeline
+    sourceTime: number | null // Where the recording is, which the cursor is timed against; null on imported video
+    transition: { frame: TransitionFrame; source: CanvasImageSource } | null // The other side of the cut
+    webcam: CanvasImageSource | null
+}
+
+export interface FrameCompositor {
+    draw: (ctx: CanvasRenderingContext2D, time: number, sources: FrameSources) => void
+    dispose: () => void
+}
+
+export const createFrameCompositor = (scene: ExportScene, images: SceneImages): FrameCompositor => {
+    const { width, height } = scene
+
+    // The recording sits inside the background padding
+    const paddingPx = (width * (scene.background?.padding || 0)) / 100
+    const recordingFrame = { x: paddingPx, y: paddingPx, width: width - paddingPx * 2, height: height - paddingPx * 2 }
+
+    // Reframed, the recording keeps its shape: fitted inside that area, or
+    // covering it and cropped, with the crop following the action
+    const source = scene.reframe ? { width: scene.reframe.sourceWidth, height: scene.reframe.sourceHeight } : null
+    const fittedFrame = source && scene.reframe?.mode !== 'smart-crop' ? getFitRect(source, recordingFrame) : null
+    const getContentFrame = (time: number, sourceTime: number | null) => {
+        if (!source) return recordingFrame
+        if (fittedFrame) return fittedFrame
+        const cursor = scene.cursor && sourceTime !== null ? getCursorFocus(scene.cursor.track, sourceTime) : null
+        return getCoverRect(source, recordingFrame, getReframeFocus(getZoomAtTime(scene.zoomSegments, time), cursor))
+    }
+    // Only a fitted recording leaves part of the area uncovered
+    const visibleFrame = fittedFrame ?? recordingFrame
+
+    const contentSize = source ? getCoverRect(source, recordingFrame) : recordingFrame
+    const recordingWidth = Math.max(1, Math.round((fittedFrame ?? contentSize).width))
+    const recordingHeight = Math.max(1, Math.round((fittedFrame ?? contentSize).height))
+
+    // Grade only the recording, so backgrounds, the webcam and overlays keep their colors
+    const grading = hasColorGrading(scene.colorGrading)
+        ? { filters: scene.colorGrading, grader: createColorGrader(recordingWidth, recordingHeight) }
+        : null
+
+    // Only made once a transition is drawn
+    let transitionRenderer: TransitionRenderer | null = null
+
+    return {
+        draw: (ctx, time, { recording, sourceTime, transition, webcam }) => {
+            ctx.clearRect(0, 0, width, height)
+            const contentFrame = getContentFrame(time, sourceTime)
+
+            if (scene.background) {
+                drawBackground(ctx, width, height, scene.background)
+            }
+
+            // Gaps on the timeline stay empty. Zooms magnify the recording and its
+            // cursor without leaving the recording's area
+            if (recording) {
+                const zoomedFrame = getZoomedFrame(contentFrame, getZoomAtTime(scene.zoomSegments, time))
+                let frame = recording
+                if (transition) {
+                    transitionRenderer ??= createTransitionRenderer(recordingWidth, recordingHeight)
+                    frame = transitionRenderer.render(
+                        transition.frame.isPastCut ? transition.source : recording,
+                        transition.frame.isPastCut ? recording : transition.source,
+                        transition.frame.placed.preset,
+                        transition.frame.progress
+                    )
+                }
+                if (grading) {
+                    frame = grading.grader.grade(frame, grading.filters)
+                }
+
+                ctx.save()
+                ctx.beginPath()
+                ctx.rect(recordingFrame.x, recordingFrame.y, recordingFrame.width, recordingFrame.height)
+                ctx.clip()
+                if (source && scene.reframe?.mode === 'blur-fill') {
+                    drawBlurFill(ctx, frame, getCoverRect(source, recordingFrame), Math.max(width, height) * BLUR_FILL_RADIUS)
+                }
+                ctx.beginPath()
+                ctx.rect(visibleFrame.x, visibleFrame.y, visibleFrame.width, visibleFrame.height)
+                ctx.clip()
+                ctx.drawImage(frame, zoomedFrame.x, zoomedFrame.y, zoomedFrame.width, zoomedFrame.height)
+
+                // The cursor belongs to the recording, so it is drawn on it and under the webcam
+                if (scene.cursor && sourceTime !== null) {
+                    drawCursor(ctx, scene.cursor.track, scene.cursor.settings, sourceTime, zoomedFrame)
+                }
+                ctx.restore()
+            }
+
+            if (recording && webcam && scene.webcam?.visible) {
+                drawWebcamOverlay(ctx, webcam, scene.webcam, width, height)
+            }
+
+            // Overlays and annotations were placed over the recording, so a reframed
+            // recording takes them along. Otherwise they span the whole frame
+            const placement = source ? contentFrame : { x: 0, y: 0, width, height }
+            ctx.save()
+            ctx.translate(placement.x, placement.y)
+            drawOverlays(ctx, scene.overlays, images.overlays, time, placement.width, placement.height)
+            drawAnnotations(ctx, scene.annotations, time, placement.width, placement.height)
+            ctx.restore()
+            drawBrandMarks(ctx, images.brandMarks, width, height)
+
+            // Captions go on top of the video, webcam, overlays, annotations and branding
+            const caption = scene.captions ? getCaptionAtTime(scene.captions.captions, time) : null
+            if (caption && scene.captions) {
+                drawCaption(ctx, caption.text, scene.captions.style, scene.captions.fontFamily, width, height)
+            }
+        },
+        dispose: () => {
+            grading?.grader.dispose()
+        }
+    }
+}
+
+// A blurred, dimmed copy of the recording filling the area behind it. Where the
+// canvas cannot filter, the copy is only dimmed
+function drawBlurFill(
+    ctx: CanvasRenderingContext2D,
+    frame: CanvasImageSource,
+    cover: { x: number; y: number; width: number; height: number },
+    radius: number
+) {
+    ctx.save()
+    ctx.filter = `blur(${Math.round(radius)}px)`
+    // Drawn past the edges so the blur does not fade them out
+    ctx.drawImage(frame, cover.x - radius, cover.y - radius, cover.width + radius * 2, cover.height + radius * 2)
+    ctx.filter = 'none'
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)'
+    ctx.fillRect(cover.x, cover.y, cover.width, cover.height)
+    ctx.restore()
+}
+
+function drawBackground(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    settings: ExportBackground
+) {
+    const { type, backgroundColor, gradientColors, wallpaperIndex = 0, wallpaperUrl } = settings
+
+    switch (type) {
+        case 'wallpaper':
+            if (wallpaperUrl) {
+                // For wallpaper with URL, we'd need to load the image first
+                // For now, fall back to gradient
+                const gradient = ctx.createLinearGradient(0, 0, width, height)
+                gradient.addColorStop(0, `hsl(${wallpaperIndex * 24}, 70%, 60%)`)
+                gradient.addColorStop(0.5, `hsl(${wallpaperIndex * 24 + 120}, 70%, 60%)`)
+                gradient.addColorStop(1, `hsl(${wallpaperIndex * 24 + 240}, 70%, 60%)`)
+                ctx.fillStyle = gradient
+                ctx.fillRect(0, 0, width, height)
+            } else {
+                // Generate gradient based on wallpaper index
+                const gradient = ctx.createLinearGradient(0, 0, width, height)
+                gradient.addColorStop(0, `hsl(${wallpaperIndex * 24}, 70%, 60%)`)
+                gradient.addColorStop(0.5, `hsl(${wallpaperIndex * 24 + 120}, 70%, 60%)`)
+                gradient.addColorStop(1, `hsl(${wallpaperIndex * 24 + 240}, 70%, 60%)`)
+                ctx.fillStyle = gradient
+                ctx.fillRect(0, 0, width, height)
+            }
+            break
+        case 'color':
+            ctx.fillStyle = backgroundColor || '#000000'
+            ctx.fillRect(0, 0, width, height)
+            break
+        case 'gradient':
+            const gradient = ctx.createLinearGradient(0, 0, width, height)
+            gradient.addColorStop(0, gradientColors?.[0] || '#ff6b6b')
+            gradient.addColorStop(1, gradientColors?.[1] || '#4ecdc4')
+            ctx.fillStyle = gradient
+            ctx.fillRect(0, 0, width, height)
+            break
+        case 'image':
+            // For custom images, fall back to gradient
+            const imgGradient = ctx.createLinearGradient(0, 0, width, height)
+            imgGradient.addColorStop(0, '#667eea')
+            imgGradient.addColorStop(1, '#764ba2')
+            ctx.fillStyle = imgGradient
+            ctx.fillRect(0, 0, width, height)
+            break
+        default:
+            ctx.fillStyle = '#000000'
+            ctx.fillRect(0, 0, width, height)
+    }
+}
+
+function drawWebcamOverlay(
+    ctx: CanvasRenderingContext2D,
+    webcam: CanvasImageSource,
+    settings: ExportWebcam,
+    canvasWidth: number,
+    canvasHeight: number
+) {
+    const { position, size, shape, borderWidth, borderColor } = settings
+
+    // Calculate position as percentage of canvas
+    const x = (canvasWidth * position.x) / 100
+    const y = (canvasHeight * position.y) / 100
+    const width = size.width
+    const height = size.height
+
+    ctx.save()
+
+    // Create clipping path based on shape
+    if (shape === 'circle') {
+        const radius = Math.min(width, height) / 2
+        ctx.beginPath()
+        ctx.arc(x + radius, y + radius, radius, 0, Math.PI * 2)
+        ctx.clip()
+    } else if (shape === 'square') {
+        const size = Math.min(width, height)
+        ctx.beginPath()
+        ctx.rect(x, y, size, size)
+        ctx.clip()
+    } else {
+        // Rectangle with rounded corners
+        ctx.beginPath()
+        roundRect(ctx, x, y, width, height, 12)
+        ctx.clip()
+    }
+
+    // Draw webcam video
+    ctx.drawImage(webcam, x, y, width, height)
+
+    ctx.restore()
+
+    // Draw border
+    if (borderWidth > 0) {
+        ctx.strokeStyle = borderColor || '#3b82f6'
+        ctx.lineWidth = borderWidth
+
+        if (shape === 'circle') {
+            const radius = Math.min(width, height) / 2
+            ctx.beginPath()
+            ctx.arc(x + radius, y + radius, radius, 0, Math.PI * 2)
+            ctx.stroke()
+        } else if (shape === 'square') {
+            const size = Math.min(width, height)
+            ctx.strokeRect(x, y, size, size)
+        } else {
+            ctx.beginPath()
+            roundRect(ctx, x, y, width, height, 12)
+            ctx.stroke()
+        }
+    }
+}
+
+// Helper function for rounded rectangles (fallback for browsers without roundRect)
+function roundRect(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number
+) {
+    if (typeof ctx.roundRect === 'function') {
+        ctx.roundRect(x, y, width, height, radius)
+    } else {
+        // Fallback implementation
+        ctx.moveTo(x + radius, y)
+        ctx.lineTo(x + width - radius, y)
+        ctx.quadraticCurveTo(x + width, y, x + width, y + radius)
+        ctx.lineTo(x + width, y + height - radius)
+        ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height)
+        ctx.lineTo(x + radius, y + height)
+        ctx.quadraticCurveTo(x, y + height, x, y + height - radius)
+        ctx.lineTo(x, y + radius)
+        ctx.quadraticCurveTo(x, y, x + radius, y)
+    }
+}
@@ -0,0 +1,80 @@
+import type { ExportOptions } from '@/components/ExportDialog'
+import type { ExportStage, ExportTarget, VideoExportParams } from './videoExporter'
+import type { AspectRatioTemplate } from './templates/aspectRatioTemplates'
+import type { ReframeMode } from './videoEditor/reframing'
+
+// Exports waiting in the export queue, which renders them one at a time
+
+// Everything an export renders, taken from the editor when it is queued so
+// later edits do not change it
+export type ExportRequest = Omit<VideoExportParams, 'onProgress' | 'signal'>
+
+export type ExportJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export interface ExportJob {
+    id: string
+    name: string // What is exported, e.g. "1080p MP4"
+    request: ExportRequest
+    status: ExportJobStatus
+    stage: ExportStage | null // Only while running
+    progress: number // 0-1
+    error: string | null
+    output: { blob: Blob; fileName: string } | null
+    createdAt: number
+}
+
+export const EXPORT_STAGE_LABELS: Record<ExportStage, string> = {
+    loading: 'Loading video files',
+    enhancing: 'Enhancing video',
+    'mixing-audio': 'Mixing audio',
+    rendering: 'Rendering frames',
+    converting: 'Converting to MP4',
+    finalizing: 'Finalizing export'
+}
+
+const RESOLUTION_NAMES: Record<ExportOptions['resolution'], string> = {
+    '4k': '4K',
+    '1080p': '1080p',
+    '720p': '720p',
+    '480p': '480p',
+    'original': 'Original size'
+}
+
+export const createExportJobId = () => `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+export const createExportJob = (request: ExportRequest, id: string = createExportJobId(), createdAt: number = Date.now()): ExportJob => ({
+    id,
+    name: `${request.target?.name ?? RESOLUTION_NAMES[request.options.resolution]} ${request.options.format.toUpperCase()}`,
+    request,
+    status: 'queued',
+    stage: null,
+    progress: 0,
+    error: null,
+    output: null,
+    createdAt
+})
+
+export const isExportJobActive = (job: ExportJob): boolean => job.status === 'queued' || job.status === 'running'
+
+// Jobs run one at a time, in the order they were queued
+export const getNextExportJob = (jobs: ExportJob[]): ExportJob | null =>
+    jobs.some(job => job.status === 'running') ? null : jobs.find(job => job.status === 'queued') ?? null
+
+// The extension follows what was rendered: MP4 exports fall back to WebM when
+// they cannot be converted
+export const getExportFileName = (job: ExportJob, blob: Blob): string => {
+    const timestamp = new Date(job.createdAt).toISOString().replace(/[:.]/g, '-').slice(0, -5)
+    const extension = blob.type.includes('mp4') ? 'mp4' : 'webm'
+    return `video-${job.request.target?.id ?? job.request.options.resolution}-${timestamp}.${extension}`
+}
+
+// What a publish pack renders for one platform template
+export const getPublishTarget = (template: AspectRatioTemplate, reframe: ReframeMode): ExportTarget => ({
+    id: template.id,
+    name: template.name,
+    width: template.width,
+    height: template.height,
+    reframe,
+    maxDuration: template.limits?.maxDuration,
+    maxVideoBitrate: template.limits?.maxVideoBitrate
+})
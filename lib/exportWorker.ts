@@ -0,0 +1,141 @@
+import { createFrameCompositor } from './exportCompositor'
+import { ExportCancelledError, renderWithWebCodecs } from './webCodecsExport'
+import { EnhancementPipeline } from './videoEnhancement/EnhancementPipeline'
+import {
+    ExportWorkerFrame,
+    ExportWorkerRequest,
+    ExportWorkerResponse,
+    ExportWorkerStart,
+    getFrameBitmaps
+} from './exportWorkerProtocol'
+
+// Draws, enhances and encodes an export on an OffscreenCanvas, off the
+// editor's thread. One worker renders one export; see exportWorkerProtocol.ts
+
+const post = (message: ExportWorkerResponse) => self.postMessage(message)
+
+const controller = new AbortController()
+const frames = new Map<number, ExportWorkerFrame>()
+let frameWaiter: { index: number; resolve: (frame: ExportWorkerFrame | null) => void } | null = null
+
+// Resolves once the page has sent the frame, or with null when the export is cancelled
+const takeFrame = (index: number): Promise<ExportWorkerFrame | null> => {
+    const frame = frames.get(index)
+    if (frame) {
+        frames.delete(index)
+        return Promise.resolve(frame)
+    }
+    if (controller.signal.aborted) return Promise.resolve(null)
+    return new Promise(resolve => {
+        frameWaiter = { index, resolve }
+    })
+}
+
+const receiveFrame = (index: number, frame: ExportWorkerFrame) => {
+    if (frameWaiter?.index === index) {
+        const { resolve } = frameWaiter
+        frameWaiter = null
+        resolve(frame)
+    } else {
+        frames.set(index, frame)
+    }
+}
+
+const cancel = () => {
+    controller.abort()
+    frameWaiter?.resolve(null)
+    frameWaiter = null
+    frames.forEach(frame => getFrameBitmaps(frame).forEach(bitmap => bitmap.close()))
+    frames.clear()
+}
+
+// Enhancement is optional: the export goes on without it if the pipeline cannot start here
+const createPipeline = async ({ config, settings }: NonNullable<ExportWorkerStart['enhancement']>) => {
+    try {
+        const pipeline = new EnhancementPipeline(config, settings)
+        await pipeline.initialize()
+        return pipeline
+    } catch (error) {
+        console.warn('Frame enhancement is not available in the export worker, rendering without it:', error)
+        return null
+    }
+}
+
+const render = async ({ config, scene, overlayImages, brandMarks, audio, duration, fps, enhancement }: ExportWorkerStart) => {
+    const canvas = new OffscreenCanvas(scene.width, scene.height)
+    const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D
+    const compositor = createFrameCompositor(scene, { overlays: new Map(overlayImages), brandMarks })
+    const pipeline = enhancement ? await createPipeline(enhancement) : null
+
+    // The pipeline draws into one canvas, so an enhanced frame is copied out
+    // into a bitmap of its own and the one the page sent is closed
+    const enhance = async (image: ImageBitmap | null, time: number, index: number) => {
+        if (!image || !pipeline) return image
+        const enhanced = pipeline.enhanceImage(image, image.width, image.height, time, index)
+        if (enhanced === image) return image
+        image.close()
+        return createImageBitmap(enhanced)
+    }
+
+    let framesDone = 0
+    try {
+        const blob = await renderWithWebCodecs({
+            config,
+            canvas,
+            duration,
+            fps,
+            audio,
+            signal: controller.signal,
+            drawFrame: async (time, index) => {
+                const frame = await takeFrame(index)
+                if (!frame) throw new ExportCancelledError()
+
+                const recording = await enhance(frame.recording, time, index)
+                const transitionSource = frame.transition ? await enhance(frame.transition.source, time, index) : null
+                try {
+                    compositor.draw(ctx, time, {
+                        recording,
+                        sourceTime: frame.sourceTime,
+                        transition: frame.transition && transitionSource
+                            ? { frame: frame.transition.frame, source: transitionSource }
+                            : null,
+                        webcam: frame.webcam
+                    })
+                } finally {
+                    recording?.close()
+                    transitionSource?.close()
+                    frame.webcam?.close()
+                }
+            },
+            onProgress: (progress) => post({ type: 'progress', framesDone: ++framesDone, progress })
+        })
+        post({ type: 'done', blob })
+    } catch (error) {
+        if (error instanceof ExportCancelledError) {
+            post({ type: 'cancelled' })
+        } else {
+            console.error('Export worker error:', error)
+            post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+        }
+    } finally {
+        compositor.dispose()
+        pipeline?.dispose()
+        overlayImages.forEach(([, image]) => image.close())
+        brandMarks.forEach(({ image }) => image.close())
+    }
+}
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+    const request = event.data
+    switch (request.type) {
+        case 'start':
+            render(request)
+            break
+        case 'frame':
+            receiveFrame(request.index, request.frame)
+            break
+        case 'cancel':
+            cancel()
+            break
+    }
+}
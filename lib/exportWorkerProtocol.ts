@@ -0,0 +1,53 @@
+import type { ExportScene } from './exportCompositor'
+import type { EncodableAudio, WebCodecsConfig } from './webCodecsExport'
+import type { EnhancementConfig, EnhancementSettings } from './videoEnhancement'
+import type { BrandMark } from './templates/brandKit'
+import type { TransitionFrame } from './videoEditor/clipTransitions'
+
+// Messages between the page and the export worker. The page seeks the videos,
+// which only it can decode, and sends each frame's sources as bitmaps; the
+// worker draws, enhances and encodes them without blocking the editor
+
+// Frames the page may send ahead of the worker, so seeking overlaps drawing
+// without holding much of the video in memory
+export const EXPORT_FRAME_WINDOW = 4
+
+// The sources at one frame of the export. Bitmaps are transferred, not copied
+export interface ExportWorkerFrame {
+    recording: ImageBitmap | null
+    sourceTime: number | null
+    transition: { frame: TransitionFrame; source: ImageBitmap } | null
+    webcam: ImageBitmap | null
+}
+
+export interface ExportWorkerStart {
+    type: 'start'
+    config: WebCodecsConfig
+    scene: ExportScene
+    overlayImages: [string, ImageBitmap][]
+    brandMarks: { mark: BrandMark; image: ImageBitmap }[]
+    audio: EncodableAudio | null
+    duration: number
+    fps: number
+    // Enhances the recording's frames as they are drawn
+    enhancement: { config: EnhancementConfig; settings: EnhancementSettings } | null
+}
+
+export type ExportWorkerRequest =
+    | ExportWorkerStart
+    | { type: 'frame'; index: number; frame: ExportWorkerFrame }
+    | { type: 'cancel' }
+
+export type ExportWorkerResponse =
+    // Sent after every frame; it also tells the page there is room for another
+    | { type: 'progress'; framesDone: number; progress: number }
+    | { type: 'done'; blob: Blob }
+    | { type: 'cancelled' }
+    | { type: 'error'; message: string }
+
+// Every bitmap in a frame, to transfer it with the message and close it once drawn
+export const getFrameBitmaps = (frame: ExportWorkerFrame): ImageBitmap[] => [
+    ...(frame.recording ? [frame.recording] : []),
+    ...(frame.transition ? [frame.transition.source] : []),
+    ...(frame.webcam ? [frame.webcam] : [])
+]
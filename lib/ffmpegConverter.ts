@@ -1,66 +1,10 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg'
-import { fetchFile, toBlobURL } from '@ffmpeg/util'
-
-let ffmpegInstance: FFmpeg | null = null
-let isLoading = false
-let isLoaded = false
-
-export async function loadFFmpeg(onProgress?: (progress: number) => void): Promise<FFmpeg> {
-    if (ffmpegInstance && isLoaded) {
-        return ffmpegInstance
-    }
-
-    if (isLoading) {
-        // Wait for the current loading to complete
-        while (isLoading) {
-            await new Promise(resolve => setTimeout(resolve, 100))
-        }
-        if (ffmpegInstance && isLoaded) {
-            return ffmpegInstance
-        }
-    }
-
-    isLoading = true
-
-    try {
-        ffmpegInstance = new FFmpeg()
-
-        // Set up logging
-        ffmpegInstance.on('log', ({ message }) => {
-            console.log('[FFmpeg]', message)
-        })
-
-        // Set up progress tracking
-        ffmpegInstance.on('progress', ({ progress, time }) => {
-            console.log(`[FFmpeg] Progress: ${(progress * 100).toFixed(2)}% (time: ${time}ms)`)
-            onProgress?.(progress)
-        })
-
-        // Load FFmpeg core from CDN
-        const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd'
-        
-        await ffmpegInstance.load({
-            coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-            wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        })
-
-        isLoaded = true
-        console.log('[FFmpeg] Loaded successfully')
-        
-        return ffmpegInstance
-    } catch (error) {
-        console.error('[FFmpeg] Failed to load:', error)
-        ffmpegInstance = null
-        isLoaded = false
-        throw error
-    } finally {
-        isLoading = false
-    }
-}
+import { fetchFile } from '@ffmpeg/util'
+import { checkFFmpegCore, loadFFmpeg } from './ffmpegLoader'
 
 export async function convertWebMToMP4(
     webmBlob: Blob,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    maxVideoBitrate?: number // Bits per second the video may peak at, e.g. a platform's limit
 ): Promise<Blob> {
     try {
         console.log('[FFmpeg] Starting WebM to MP4 conversion')
@@ -68,10 +12,7 @@ export async function convertWebMToMP4(
 
         // Load FFmpeg
         onProgress?.(0.1) // 10% - Loading FFmpeg
-        const ffmpeg = await loadFFmpeg((loadProgress) => {
-            // Map FFmpeg loading to 10-20% of overall progress
-            onProgress?.(0.1 + loadProgress * 0.1)
-        })
+        const ffmpeg = await loadFFmpeg()
 
         onProgress?.(0.2) // 20% - FFmpeg loaded
 
@@ -80,18 +21,31 @@ export async function convertWebMToMP4(
         await ffmpeg.writeFile('input.webm', await fetchFile(webmBlob))
         onProgress?.(0.25) // 25% - Input written
 
-        // Convert WebM to MP4
+        // Convert WebM to MP4 (25% to 90%)
         console.log('[FFmpeg] Starting conversion')
-        await ffmpeg.exec([
-            '-i', 'input.webm',
-            '-c:v', 'libx264',      // H.264 video codec
-            '-preset', 'fast',       // Encoding speed
-            '-crf', '23',            // Quality (lower = better, 18-28 is good range)
-            '-c:a', 'aac',           // AAC audio codec
-            '-b:a', '128k',          // Audio bitrate
-            '-movflags', '+faststart', // Enable streaming
-            'output.mp4'
-        ])
+        const handleProgress = ({ progress }: { progress: number }) => {
+            onProgress?.(0.25 + Math.min(Math.max(progress, 0), 1) * 0.65)
+        }
+        ffmpeg.on('progress', handleProgress)
+        try {
+            await ffmpeg.exec([
+                '-i', 'input.webm',
+                '-map', '0:v:0',         // The rendered frames
+                '-map', '0:a:0?',        // and their sound, when the export has any
+                '-c:v', 'libx264',      // H.264 video codec
+                '-preset', 'fast',       // Encoding speed
+                '-crf', '23',            // Quality (lower = better, 18-28 is good range)
+                ...(maxVideoBitrate
+                    ? ['-maxrate', `${Math.round(maxVideoBitrate)}`, '-bufsize', `${Math.round(maxVideoBitrate * 2)}`]
+                    : []),
+                '-c:a', 'aac',           // AAC audio codec
+                '-b:a', '128k',          // Audio bitrate
+                '-movflags', '+faststart', // Enable streaming
+                'output.mp4'
+            ])
+        } finally {
+            ffmpeg.off('progress', handleProgress)
+        }
 
         onProgress?.(0.9) // 90% - Conversion complete
 
@@ -121,43 +75,12 @@ export async function convertWebMToMP4(
     }
 }
 
+// Whether MP4 conversion can run here: the browser can run FFmpeg and the app serves its core
 export async function isFFmpegSupported(): Promise<boolean> {
     try {
-        // Check if SharedArrayBuffer is available (required for FFmpeg)
-        if (typeof SharedArrayBuffer === 'undefined') {
-            console.error('[FFmpeg] ❌ SharedArrayBuffer not available')
-            console.error('[FFmpeg] This usually means the required HTTP headers are not set')
-            console.error('[FFmpeg] Required headers:')
-            console.error('[FFmpeg]   - Cross-Origin-Opener-Policy: same-origin')
-            console.error('[FFmpeg]   - Cross-Origin-Embedder-Policy: require-corp')
-            return false
-        }
-
-        // Check if we're in a secure context (required for some features)
-        if (typeof window !== 'undefined' && !window.isSecureContext) {
-            console.warn('[FFmpeg] ⚠️ Not in secure context (HTTPS required)')
-            return false
-        }
-
-        console.log('[FFmpeg] ✅ Environment check passed')
-        console.log('[FFmpeg] SharedArrayBuffer:', typeof SharedArrayBuffer)
-        console.log('[FFmpeg] Secure context:', typeof window !== 'undefined' ? window.isSecureContext : 'N/A')
-        
-        return true
+        return await checkFFmpegCore()
     } catch (error) {
         console.error('[FFmpeg] Support check failed:', error)
         return false
     }
 }
-
-export function getFFmpegStatus(): {
-    isLoaded: boolean
-    isLoading: boolean
-    isSupported: boolean
-} {
-    return {
-        isLoaded,
-        isLoading,
-        isSupported: typeof SharedArrayBuffer !== 'undefined'
-    }
-}
@@ -0,0 +1,151 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg'
+import { toBlobURL } from '@ffmpeg/util'
+
+// The core is copied from @ffmpeg/core and @ffmpeg/core-mt into public/ffmpeg
+// on install (see scripts/copy-ffmpeg-core.mjs), so it is served by the app itself
+export const FFMPEG_CORE_PATH = '/ffmpeg'
+
+export type FFmpegStatus =
+    | 'unknown' // Not checked yet
+    | 'available' // The core files are there; it loads on first use
+    | 'loading'
+    | 'ready'
+    | 'unavailable'
+
+export interface FFmpegState {
+    status: FFmpegStatus
+    // Whether the multi-threaded core is used; it needs a cross-origin isolated page
+    multiThreaded: boolean
+    // Why FFmpeg cannot be used, when it is unavailable
+    error: string | null
+}
+
+export interface FFmpegCoreFiles {
+    coreURL: string
+    wasmURL: string
+    // The multi-threaded core runs its threads from this script
+    workerURL?: string
+}
+
+let state: FFmpegState = { status: 'unknown', multiThreaded: false, error: null }
+const listeners = new Set<() => void>()
+
+let instance: FFmpeg | null = null
+let loading: Promise<FFmpeg> | null = null
+
+const setState = (updates: Partial<FFmpegState>) => {
+    state = { ...state, ...updates }
+    listeners.forEach(listener => listener())
+}
+
+export const getFFmpegState = (): FFmpegState => state
+
+// Be told whenever the loader's state changes; returns the unsubscribe function
+export const subscribeFFmpegState = (listener: () => void): (() => void) => {
+    listeners.add(listener)
+    return () => {
+        listeners.delete(listener)
+    }
+}
+
+// The COOP/COEP headers in middleware.ts make the page isolated, which threads need
+export const canUseMultiThreadedCore = (): boolean =>
+    typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated && typeof SharedArrayBuffer !== 'undefined'
+
+export const getFFmpegCoreFiles = (multiThreaded: boolean): FFmpegCoreFiles => {
+    const base = `${FFMPEG_CORE_PATH}/${multiThreaded ? 'mt' : 'st'}`
+    return {
+        coreURL: `${base}/ffmpeg-core.js`,
+        wasmURL: `${base}/ffmpeg-core.wasm`,
+        ...(multiThreaded ? { workerURL: `${base}/ffmpeg-core.worker.js` } : {})
+    }
+}
+
+// The single-threaded core only needs WebAssembly and workers
+export const isFFmpegEnvironmentSupported = (): boolean =>
+    typeof WebAssembly !== 'undefined' && typeof Worker !== 'undefined'
+
+/**
+ * Check that the core this page would load is being served, without loading
+ * it. Resolves to whether FFmpeg can be used.
+ */
+export async function checkFFmpegCore(): Promise<boolean> {
+    if (state.status === 'loading' || state.status === 'ready') return true
+
+    if (!isFFmpegEnvironmentSupported()) {
+        setState({ status: 'unavailable', error: 'This browser cannot run FFmpeg' })
+        return false
+    }
+
+    const multiThreaded = canUseMultiThreadedCore()
+    const files = Object.values(getFFmpegCoreFiles(multiThreaded))
+    try {
+        const responses = await Promise.all(files.map(url => fetch(url, { method: 'HEAD' })))
+        const missing = files.filter((_, index) => !responses[index].ok)
+        if (missing.length > 0) {
+            setState({ status: 'unavailable', multiThreaded, error: `FFmpeg core files are missing: ${missing.join(', ')}` })
+            return false
+        }
+    } catch (error) {
+        setState({ status: 'unavailable', multiThreaded, error: `FFmpeg core could not be reached: ${error}` })
+        return false
+    }
+
+    setState({ status: 'available', multiThreaded, error: null })
+    return true
+}
+
+const loadCore = async (multiThreaded: boolean): Promise<FFmpeg> => {
+    const files = getFFmpegCoreFiles(multiThreaded)
+    const ffmpeg = new FFmpeg()
+
+    ffmpeg.on('log', ({ message }) => {
+        console.log('[FFmpeg]', message)
+    })
+
+    await ffmpeg.load({
+        coreURL: await toBlobURL(files.coreURL, 'text/javascript'),
+        wasmURL: await toBlobURL(files.wasmURL, 'application/wasm'),
+        ...(files.workerURL ? { workerURL: await toBlobURL(files.workerURL, 'text/javascript') } : {})
+    })
+
+    return ffmpeg
+}
+
+/**
+ * The shared FFmpeg instance, loaded on first use. The multi-threaded core is
+ * used when the page is cross-origin isolated, falling back to the
+ * single-threaded one if it fails to start.
+ */
+export async function loadFFmpeg(): Promise<FFmpeg> {
+    if (instance) return instance
+    if (loading) return loading
+
+    const multiThreaded = canUseMultiThreadedCore()
+    setState({ status: 'loading', multiThreaded, error: null })
+
+    loading = (async () => {
+        try {
+            try {
+                instance = await loadCore(multiThreaded)
+            } catch (error) {
+                if (!multiThreaded) throw error
+                console.warn('[FFmpeg] Multi-threaded core failed to load, using the single-threaded one:', error)
+                setState({ multiThreaded: false })
+                instance = await loadCore(false)
+            }
+
+            setState({ status: 'ready', error: null })
+            console.log('[FFmpeg] Loaded', state.multiThreaded ? 'multi-threaded core' : 'single-threaded core')
+            return instance
+        } catch (error) {
+            console.error('[FFmpeg] Failed to load:', error)
+            setState({ status: 'unavailable', error: `FFmpeg failed to load: ${error}` })
+            throw error
+        } finally {
+            loading = null
+        }
+    })()
+
+    return loading
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  ColorGradingFilters,
+  applyColorGradingToCanvas,
+  createColorGrader,
+  getHueRotationMatrix,
+  hasColorGrading
+} from '../applyColorGrading'
+
+const filters: ColorGradingFilters = {
+  brightness: 10,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  highlights: 0,
+  shadows: 0,
+  vibrance: 0,
+  hue: 0,
+  sharpness: 0,
+  vignette: 0,
+  grain: 0
+}
+
+class FakeImageBitmap {
+  width = 4
+  height = 4
+}
+
+/**
+ * jsdom has no WebGL, so record what the grader uploads and draws with. Like
+ * a browser, the fake only honours UNPACK_FLIP_Y_WEBGL for non-ImageBitmap sources
+ */
+const createRecordingWebGL = () => {
+  const attributes = ['a_position', 'a_texCoord']
+  const buffers = new Map<object, Float32Array>()
+  const attributeData = new Map<number, Float32Array>()
+  let boundBuffer: object | null = null
+  let flipY = false
+  const uploads: { flipped: boolean }[] = []
+
+  const gl = new Proxy({} as Record<string | symbol, unknown>, {
+    get: (_target, name) => {
+      switch (name) {
+        case 'UNPACK_FLIP_Y_WEBGL':
+          return 0x9240
+        case 'createBuffer':
+          return () => ({})
+        case 'bindBuffer':
+          return (_type: number, buffer: object) => { boundBuffer = buffer }
+        case 'bufferData':
+          return (_type: number, data: Float32Array) => { buffers.set(boundBuffer!, data) }
+        case 'getAttribLocation':
+          return (_program: unknown, attribute: string) => attributes.indexOf(attribute)
+        case 'vertexAttribPointer':
+          return (location: number) => { attributeData.set(location, buffers.get(boundBuffer!)!) }
+        case 'pixelStorei':
+          return (param: number, value: boolean) => { if (param === 0x9240) flipY = value }
+        case 'texImage2D':
+          return (...args: unknown[]) => {
+            uploads.push({ flipped: flipY && !(args[args.length - 1] instanceof ImageBitmap) })
+          }
+        case 'getShaderParameter':
+        case 'getProgramParameter':
+          return () => true
+        default:
+          return () => ({})
+      }
+    }
+  })
+
+  // The fraction down the source image that ends up at the top of the canvas
+  const getSourceRowAtTop = () => {
+    const positions = attributeData.get(0)!
+    const texCoords = attributeData.get(1)!
+    const topVertex = [0, 1, 2, 3].find(vertex => positions[vertex * 2 + 1] === 1)!
+    const textureRow = texCoords[topVertex * 2 + 1]
+    return uploads[uploads.length - 1].flipped ? 1 - textureRow : textureRow
+  }
+
+  return { gl, getSourceRowAtTop }
+}
+
+describe('createColorGrader', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  const createGrader = () => {
+    const { gl, getSourceRowAtTop } = createRecordingWebGL()
+    vi.stubGlobal('ImageBitmap', FakeImageBitmap)
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      ((type: string) => type === 'webgl' ? gl : null) as unknown as HTMLCanvasElement['getContext']
+    )
+    return { grader: createColorGrader(4, 4), getSourceRowAtTop }
+  }
+
+  it('should keep frames the worker sends as ImageBitmaps the right way up', () => {
+    const { grader, getSourceRowAtTop } = createGrader()
+
+    grader.grade(new FakeImageBitmap() as unknown as ImageBitmap, filters)
+
+    expect(grader.isGpu).toBe(true)
+    expect(getSourceRowAtTop()).toBe(0)
+  })
+
+  it('should draw canvases the same way up as ImageBitmaps', () => {
+    const { grader, getSourceRowAtTop } = createGrader()
+
+    grader.grade(document.createElement('canvas'), filters)
+
+    expect(getSourceRowAtTop()).toBe(0)
+  })
+})
+
+describe('hue rotation', () => {
+  const neutral: ColorGradingFilters = { ...filters, brightness: 0 }
+
+  // Grade a single pixel on the CPU path
+  const gradePixel = (pixel: number[], hue: number) => {
+    const imageData = { data: new Uint8ClampedArray([...pixel, 255]) }
+    const ctx = {
+      getImageData: () => imageData,
+      putImageData: () => {}
+    } as unknown as CanvasRenderingContext2D
+    applyColorGradingToCanvas(ctx, { ...neutral, hue }, 1, 1)
+    return Array.from(imageData.data.slice(0, 3))
+  }
+
+  it('should count a hue shift as grading', () => {
+    expect(hasColorGrading(neutral)).toBe(false)
+    expect(hasColorGrading({ ...neutral, hue: -10 })).toBe(true)
+  })
+
+  it('should leave colors alone without a rotation and keep grays gray', () => {
+    getHueRotationMatrix(0).forEach((value, index) => expect(value).toBeCloseTo(index % 4 === 0 ? 1 : 0))
+    expect(gradePixel([128, 128, 128], 90)).toEqual([128, 128, 128])
+  })
+
+  it('should turn red towards cyan at half a turn', () => {
+    const [r, g, b] = gradePixel([200, 0, 0], 180)
+
+    expect(r).toBeLessThan(g)
+    expect(r).toBeLessThan(b)
+  })
+})
@@ -2,6 +2,8 @@
  * Tests for Professional Templates & Presets
  */
 
+import { describe, test, expect } from 'vitest'
+
 import { 
   colorGradingPresets, 
   getPresetsByCategory,
@@ -12,19 +14,27 @@ import {
   aspectRatioTemplates,
   getTemplateByRatio,
   getTemplatesByCategory,
-  getTemplatesByPlatform 
+  getTemplatesByPlatform,
+  getPublishTemplates
 } from '../aspectRatioTemplates'
 
 import { 
   defaultBrandKits,
   getBrandKitById,
-  createCustomBrandKit 
+  createCustomBrandKit,
+  getBrandMarkRect
 } from '../brandKit'
 
+import {
+  hasColorGrading,
+  type ColorGradingFilters
+} from '../applyColorGrading'
+
 import { 
   transitionPresets,
   getTransitionsByType,
-  getTransitionById 
+  getTransitionById,
+  easeTransitionProgress
 } from '../transitionPresets'
 
 describe('Color Grading Presets', () => {
@@ -66,6 +76,20 @@ describe('Color Grading Presets', () => {
   })
 })
 
+describe('Color Grading Export', () => {
+  const neutral: ColorGradingFilters = {
+    brightness: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0, highlights: 0,
+    shadows: 0, vibrance: 0, hue: 0, sharpness: 0, vignette: 0, grain: 0
+  }
+
+  test('should only grade when a filter changes the picture', () => {
+    expect(hasColorGrading(null)).toBe(false)
+    expect(hasColorGrading(neutral)).toBe(false)
+    expect(hasColorGrading({ ...neutral, vignette: 20 })).toBe(true)
+    expect(hasColorGrading(getPresetById('cinematic-teal-orange')?.filters)).toBe(true)
+  })
+})
+
 describe('Aspect Ratio Templates', () => {
   test('should have all required templates', () => {
     expect(aspectRatioTemplates.length).toBeGreaterThan(0)
@@ -109,6 +133,16 @@ describe('Aspect Ratio Templates', () => {
     })
   })
 
+  test('should only publish to templates with upload limits', () => {
+    const publishTemplates = getPublishTemplates()
+    expect(publishTemplates.map(t => t.id)).toContain('tiktok-vertical')
+    publishTemplates.forEach(t => {
+      expect(t.limits?.maxDuration).toBeGreaterThan(0)
+      expect(t.limits?.maxVideoBitrate).toBeGreaterThan(0)
+    })
+    expect(publishTemplates.some(t => t.category === 'cinematic')).toBe(false)
+  })
+
   test('should have unique ids', () => {
     const ids = aspectRatioTemplates.map(t => t.id)
     const uniqueIds = new Set(ids)
@@ -156,6 +190,16 @@ describe('Brand Kits', () => {
     expect(customKit.id).toContain('custom-')
   })
 
+  test('should place brand marks in the corners of any frame size', () => {
+    const mark = { url: 'logo.png', position: 'bottom-right' as const, size: 10, opacity: 1, padding: 20 }
+
+    // A 2:1 image at 10% of a 1920px frame is 192x96, 20px in from the edges
+    expect(getBrandMarkRect(mark, 200, 100, 1920, 1080)).toEqual({ x: 1708, y: 964, width: 192, height: 96 })
+    // Padding scales with the frame, so the mark lands in the same spot at 720p
+    expect(getBrandMarkRect(mark, 200, 100, 1280, 720)).toEqual({ x: 1280 - 128 - 40 / 3, y: 720 - 64 - 40 / 3, width: 128, height: 64 })
+    expect(getBrandMarkRect({ ...mark, position: 'center' }, 200, 100, 1920, 1080)).toEqual({ x: 864, y: 492, width: 192, height: 96 })
+  })
+
   test('should have default settings', () => {
     defaultBrandKits.forEach(kit => {
       expect(kit.defaultSettings).toBeDefined()
@@ -187,6 +231,16 @@ describe('Transition Presets', () => {
     expect(transition?.type).toBe('dissolve')
   })
 
+  test('should ease progress from start to end', () => {
+    (['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const).forEach(easing => {
+      expect(easeTransitionProgress(0, easing)).toBe(0)
+      expect(easeTransitionProgress(1, easing)).toBe(1)
+    })
+    expect(easeTransitionProgress(0.5, 'ease-in')).toBeLessThan(0.5)
+    expect(easeTransitionProgress(0.5, 'ease-out')).toBeGreaterThan(0.5)
+    expect(easeTransitionProgress(1.5, 'linear')).toBe(1)
+  })
+
   test('should have valid durations', () => {
     transitionPresets.forEach(transition => {
       expect(transition.duration).toBeGreaterThan(0)
@@ -3,6 +3,13 @@
  */
 
 import { ColorGradingPreset } from './colorGradingPresets'
+import {
+  COLOR_GRADING_FRAGMENT_SHADER,
+  STANDARD_VERTEX_SHADER,
+  createShaderProgram,
+  setupQuadGeometry
+} from '../videoEnhancement/utils/shaderUtils'
+import { createCanvas } from '../canvasSurface'
 
 export interface ColorGradingFilters {
   brightness: number
@@ -19,6 +26,21 @@ export interface ColorGradingFilters {
   grain: number
 }
 
+/**
+ * The matrix CSS hue-rotate() multiplies colors by, row by row, so exports
+ * match the preview. It keeps luminance and leaves grays unchanged
+ */
+export const getHueRotationMatrix = (degrees: number): number[] => {
+  const angle = (degrees * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+  ]
+}
+
 /**
  * Apply color grading to a canvas context
  */
@@ -40,6 +62,7 @@ export const applyColorGradingToCanvas = (
   const highlightsAdjust = filters.highlights / 100
   const shadowsAdjust = filters.shadows / 100
   const vibranceMultiplier = 1 + (filters.vibrance / 100)
+  const hueMatrix = filters.hue !== 0 ? getHueRotationMatrix(filters.hue) : null
 
   for (let i = 0; i < data.length; i += 4) {
     let r = data[i]
@@ -98,6 +121,14 @@ export const applyColorGradingToCanvas = (
     g = gray + (g - gray) * vibranceFactor
     b = gray + (b - gray) * vibranceFactor
 
+    // Apply hue rotation
+    if (hueMatrix) {
+      const [red, green, blue] = [r, g, b]
+      r = hueMatrix[0] * red + hueMatrix[1] * green + hueMatrix[2] * blue
+      g = hueMatrix[3] * red + hueMatrix[4] * green + hueMatrix[5] * blue
+      b = hueMatrix[6] * red + hueMatrix[7] * green + hueMatrix[8] * blue
+    }
+
     // Clamp values
     data[i] = Math.max(0, Math.min(255, r))
     data[i + 1] = Math.max(0, Math.min(255, g))
@@ -157,6 +188,113 @@ const applyGrain = (data: Uint8ClampedArray, intensity: number): void => {
   }
 }
 
+/**
+ * Whether the filters change the picture at all
+ */
+export const hasColorGrading = (filters: ColorGradingFilters | null | undefined): filters is ColorGradingFilters =>
+  !!filters && (
+    filters.brightness !== 0 ||
+    filters.contrast !== 0 ||
+    filters.saturation !== 0 ||
+    filters.temperature !== 0 ||
+    filters.tint !== 0 ||
+    filters.highlights !== 0 ||
+    filters.shadows !== 0 ||
+    filters.vibrance !== 0 ||
+    filters.hue !== 0 ||
+    filters.vignette > 0 ||
+    filters.grain > 0
+  )
+
+/**
+ * Grades frames at a fixed size, returning a canvas to draw in their place
+ */
+export interface ColorGrader {
+  readonly isGpu: boolean
+  grade: (source: CanvasImageSource, filters: ColorGradingFilters) => HTMLCanvasElement
+  dispose: () => void
+}
+
+const createGpuColorGrader = (width: number, height: number): ColorGrader | null => {
+  const canvas = createCanvas(width, height)
+  const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, premultipliedAlpha: false })
+  if (!gl) return null
+
+  // Programs belong to this context, so they are not put in the shared shader cache
+  const program = createShaderProgram(gl, STANDARD_VERTEX_SHADER, COLOR_GRADING_FRAGMENT_SHADER)
+  const texture = gl.createTexture()
+  if (!program || !texture) return null
+
+  gl.useProgram(program)
+  // Frames are uploaded as they are, top row first, and the quad draws that row
+  // at the top: video frames, canvases and the worker's ImageBitmaps all agree
+  setupQuadGeometry(gl, program, true)
+  gl.viewport(0, 0, width, height)
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+
+  const setUniform = (name: string, value: number) => {
+    gl.uniform1f(gl.getUniformLocation(program, name), value)
+  }
+  gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), width, height)
+
+  return {
+    isGpu: true,
+    grade: (source, filters) => {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source as TexImageSource)
+      setUniform('u_brightness', filters.brightness / 100)
+      setUniform('u_contrast', filters.contrast / 100)
+      setUniform('u_saturation', filters.saturation / 100)
+      setUniform('u_temperature', filters.temperature / 100)
+      setUniform('u_tint', filters.tint / 100)
+      setUniform('u_highlights', filters.highlights / 100)
+      setUniform('u_shadows', filters.shadows / 100)
+      setUniform('u_vibrance', filters.vibrance / 100)
+      setUniform('u_hue', (filters.hue * Math.PI) / 180)
+      setUniform('u_vignette', Math.max(0, filters.vignette) / 100)
+      setUniform('u_grain', Math.max(0, filters.grain) / 100)
+      setUniform('u_seed', Math.random())
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+      return canvas
+    },
+    dispose: () => {
+      gl.deleteTexture(texture)
+      gl.deleteProgram(program)
+    }
+  }
+}
+
+const createCpuColorGrader = (width: number, height: number): ColorGrader => {
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+
+  return {
+    isGpu: false,
+    grade: (source, filters) => {
+      ctx.clearRect(0, 0, width, height)
+      ctx.drawImage(source, 0, 0, width, height)
+      applyColorGradingToCanvas(ctx, filters, width, height)
+      return canvas
+    },
+    dispose: () => {}
+  }
+}
+
+/**
+ * Create a grader for frames of the given size. Uses WebGL when the browser
+ * supports it and falls back to applyColorGradingToCanvas otherwise
+ */
+export const createColorGrader = (width: number, height: number): ColorGrader => {
+  const gpuGrader = createGpuColorGrader(width, height)
+  if (gpuGrader) return gpuGrader
+
+  console.warn('WebGL unavailable, color grading on the CPU')
+  return createCpuColorGrader(width, height)
+}
+
 /**
  * Create a CSS filter string from color grading filters
  * (for real-time preview without canvas processing)
@@ -13,6 +13,13 @@ export interface AspectRatioTemplate {
   icon: string
   platforms: string[]
   category: 'social' | 'professional' | 'cinematic'
+  // Upload limits of the platform, for templates you can publish to
+  limits?: PlatformLimits
+}
+
+export interface PlatformLimits {
+  maxDuration?: number // Seconds
+  maxVideoBitrate?: number // Bits per second
 }
 
 export const aspectRatioTemplates: AspectRatioTemplate[] = [
@@ -26,7 +33,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Perfect for Instagram feed posts',
     icon: '⬜',
     platforms: ['Instagram', 'Facebook'],
-    category: 'social'
+    category: 'social',
+    limits: { maxDuration: 60, maxVideoBitrate: 3500000 }
   },
   {
     id: 'instagram-story',
@@ -37,7 +45,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Vertical format for Stories and Reels',
     icon: '📱',
     platforms: ['Instagram', 'TikTok', 'Snapchat'],
-    category: 'social'
+    category: 'social',
+    limits: { maxDuration: 90, maxVideoBitrate: 3500000 }
   },
   {
     id: 'youtube-standard',
@@ -48,7 +57,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Standard widescreen format',
     icon: '🎬',
     platforms: ['YouTube', 'Vimeo', 'LinkedIn'],
-    category: 'professional'
+    category: 'professional',
+    limits: { maxDuration: 15 * 60, maxVideoBitrate: 8000000 }
   },
   {
     id: 'tiktok-vertical',
@@ -59,7 +69,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Optimized for TikTok videos',
     icon: '🎵',
     platforms: ['TikTok', 'YouTube Shorts'],
-    category: 'social'
+    category: 'social',
+    limits: { maxDuration: 10 * 60, maxVideoBitrate: 6000000 }
   },
   {
     id: 'twitter-landscape',
@@ -70,7 +81,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Landscape format for Twitter/X',
     icon: '🐦',
     platforms: ['Twitter/X', 'LinkedIn'],
-    category: 'social'
+    category: 'social',
+    limits: { maxDuration: 140, maxVideoBitrate: 5000000 }
   },
   {
     id: 'linkedin-video',
@@ -81,7 +93,8 @@ export const aspectRatioTemplates: AspectRatioTemplate[] = [
     description: 'Professional video format',
     icon: '💼',
     platforms: ['LinkedIn', 'Corporate'],
-    category: 'professional'
+    category: 'professional',
+    limits: { maxDuration: 10 * 60, maxVideoBitrate: 5000000 }
   },
   
   // Professional Templates
@@ -163,6 +176,11 @@ export const getTemplatesByCategory = (category: AspectRatioTemplate['category']
   return aspectRatioTemplates.filter(t => t.category === category)
 }
 
+// Templates with upload limits, which a publish pack can render to
+export const getPublishTemplates = (): AspectRatioTemplate[] => {
+  return aspectRatioTemplates.filter(t => t.limits)
+}
+
 export const getTemplatesByPlatform = (platform: string): AspectRatioTemplate[] => {
   return aspectRatioTemplates.filter(t => 
     t.platforms.some(p => p.toLowerCase().includes(platform.toLowerCase()))
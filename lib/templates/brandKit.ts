@@ -35,7 +35,7 @@ export interface BrandWatermark {
   position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
   size: number // percentage of video width
   opacity: number // 0 to 1
-  padding: number // pixels from edge
+  padding: number // pixels from edge on a 1080p frame
 }
 
 export interface BrandKit {
@@ -148,6 +148,108 @@ export const applyBrandColors = (
   }
 }
 
+// A logo or watermark as it gets drawn on a frame
+export interface BrandMark {
+  url: string
+  position: BrandLogo['position']
+  size: number // percentage of frame width
+  opacity: number // 0 to 1
+  padding: number // pixels from edge on a 1080p frame
+}
+
+export const LOGO_SIZES: Record<BrandLogo['size'], number> = {
+  small: 8,
+  medium: 12,
+  large: 18
+}
+
+const LOGO_PADDING = 24
+// Paddings are authored for a frame this tall
+const REFERENCE_FRAME_HEIGHT = 1080
+
+export const logoToBrandMark = (logo: BrandLogo): BrandMark => ({
+  url: logo.url,
+  position: logo.position,
+  size: LOGO_SIZES[logo.size],
+  opacity: logo.opacity,
+  padding: LOGO_PADDING
+})
+
+export const watermarkToBrandMark = (watermark: BrandWatermark): BrandMark => ({
+  url: watermark.url,
+  position: watermark.position,
+  size: watermark.size,
+  opacity: watermark.opacity,
+  padding: watermark.padding
+})
+
+/**
+ * Where a brand mark sits on a frame, keeping the image's aspect ratio
+ */
+export const getBrandMarkRect = (
+  mark: BrandMark,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number
+): { x: number; y: number; width: number; height: number } => {
+  const width = (frameWidth * mark.size) / 100
+  const height = imageWidth > 0 ? (imageHeight / imageWidth) * width : 0
+  const padding = mark.padding * (frameHeight / REFERENCE_FRAME_HEIGHT)
+
+  const left = padding
+  const right = frameWidth - width - padding
+  const top = padding
+  const bottom = frameHeight - height - padding
+
+  switch (mark.position) {
+    case 'top-right':
+      return { x: right, y: top, width, height }
+    case 'bottom-left':
+      return { x: left, y: bottom, width, height }
+    case 'bottom-right':
+      return { x: right, y: bottom, width, height }
+    case 'center':
+      return { x: (frameWidth - width) / 2, y: (frameHeight - height) / 2, width, height }
+    default:
+      return { x: left, y: top, width, height }
+  }
+}
+
+// Images are loaded as elements on the page; the export worker is sent bitmaps of them
+export type BrandImage = HTMLImageElement | ImageBitmap
+
+/**
+ * Draw a loaded brand mark image onto a frame
+ */
+export const drawBrandMark = (
+  ctx: CanvasRenderingContext2D,
+  image: BrandImage,
+  mark: BrandMark,
+  frameWidth: number,
+  frameHeight: number
+): void => {
+  const [imageWidth, imageHeight] = 'naturalWidth' in image
+    ? [image.naturalWidth, image.naturalHeight]
+    : [image.width, image.height]
+  const rect = getBrandMarkRect(mark, imageWidth, imageHeight, frameWidth, frameHeight)
+  ctx.save()
+  ctx.globalAlpha = mark.opacity
+  ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height)
+  ctx.restore()
+}
+
+export const loadBrandMarkImage = (url: string): Promise<HTMLImageElement> => {
+  const img = new Image()
+  img.crossOrigin = 'anonymous'
+
+  return new Promise((resolve, reject) => {
+    img.onload = () => resolve(img)
+    img.onerror = reject
+    img.src = url
+  })
+}
+
 /**
  * Apply brand watermark to canvas
  */
@@ -157,41 +259,8 @@ export const applyWatermark = async (
   canvasWidth: number,
   canvasHeight: number
 ): Promise<void> => {
-  const img = new Image()
-  img.crossOrigin = 'anonymous'
-  
-  return new Promise((resolve, reject) => {
-    img.onload = () => {
-      const watermarkWidth = (canvasWidth * watermark.size) / 100
-      const watermarkHeight = (img.height / img.width) * watermarkWidth
-      
-      let x = watermark.padding
-      let y = watermark.padding
-      
-      switch (watermark.position) {
-        case 'top-right':
-          x = canvasWidth - watermarkWidth - watermark.padding
-          break
-        case 'bottom-left':
-          y = canvasHeight - watermarkHeight - watermark.padding
-          break
-        case 'bottom-right':
-          x = canvasWidth - watermarkWidth - watermark.padding
-          y = canvasHeight - watermarkHeight - watermark.padding
-          break
-      }
-      
-      ctx.save()
-      ctx.globalAlpha = watermark.opacity
-      ctx.drawImage(img, x, y, watermarkWidth, watermarkHeight)
-      ctx.restore()
-      
-      resolve()
-    }
-    
-    img.onerror = reject
-    img.src = watermark.url
-  })
+  const img = await loadBrandMarkImage(watermark.url)
+  drawBrandMark(ctx, img, watermarkToBrandMark(watermark), canvasWidth, canvasHeight)
 }
 
 /**
@@ -245,8 +314,8 @@ export const generateBrandedThumbnail = (
   return canvas.toDataURL('image/png')
 }
 
-export const getBrandKitById = (id: string): BrandKit | undefined => {
-  return defaultBrandKits.find(kit => kit.id === id)
+export const getBrandKitById = (id: string, customKits: BrandKit[] = []): BrandKit | undefined => {
+  return defaultBrandKits.find(kit => kit.id === id) ?? customKits.find(kit => kit.id === id)
 }
 
 export const createCustomBrandKit = (
@@ -18,7 +18,9 @@ export {
   getTemplateByRatio,
   getTemplatesByCategory as getAspectTemplatesByCategory,
   getTemplatesByPlatform,
-  type AspectRatioTemplate
+  getPublishTemplates,
+  type AspectRatioTemplate,
+  type PlatformLimits
 } from './aspectRatioTemplates'
 
 // Brand Kit
@@ -29,11 +31,19 @@ export {
   applyBrandColors,
   applyWatermark,
   generateBrandedThumbnail,
+  getBrandMarkRect,
+  drawBrandMark,
+  loadBrandMarkImage,
+  logoToBrandMark,
+  watermarkToBrandMark,
+  LOGO_SIZES,
   type BrandKit,
   type BrandColor,
   type BrandFont,
   type BrandLogo,
-  type BrandWatermark
+  type BrandWatermark,
+  type BrandMark,
+  type BrandImage
 } from './brandKit'
 
 // Transitions
@@ -49,6 +59,9 @@ export {
 export {
   applyColorGradingToCanvas,
   createCSSFilterString,
+  createColorGrader,
+  hasColorGrading,
+  type ColorGrader,
   type ColorGradingFilters
 } from './applyColorGrading'
 
@@ -3,6 +3,8 @@
  * Pre-built transitions for video editing
  */
 
+import { createCanvas } from '../canvasSurface'
+
 export interface TransitionPreset {
   id: string
   name: string
@@ -187,6 +189,39 @@ export const getTransitionById = (id: string): TransitionPreset | undefined => {
   return transitionPresets.find(t => t.id === id)
 }
 
+/**
+ * Map linear transition progress through a preset's easing curve
+ */
+export const easeTransitionProgress = (progress: number, easing: TransitionPreset['easing']): number => {
+  const t = Math.max(0, Math.min(1, progress))
+
+  switch (easing) {
+    case 'ease-in':
+      return t * t
+    case 'ease-out':
+      return t * (2 - t)
+    case 'ease-in-out':
+      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+    default:
+      return t
+  }
+}
+
+// putImageData ignores alpha, filters and clipping, so frames that need them
+// are copied onto scratch canvases and drawn from there
+const scratchCanvases: HTMLCanvasElement[] = []
+
+const getFrameCanvas = (frame: ImageData, slot: number): HTMLCanvasElement => {
+  const canvas = scratchCanvases[slot] ?? createCanvas()
+  scratchCanvases[slot] = canvas
+  if (canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas.width = frame.width
+    canvas.height = frame.height
+  }
+  canvas.getContext('2d')!.putImageData(frame, 0, 0)
+  return canvas
+}
+
 /**
  * Apply transition effect between two frames
  */
@@ -202,6 +237,12 @@ export const applyTransition = (
 
   switch (transition.type) {
     case 'fade':
+      if (transition.parameters?.color) {
+        applyFadeThroughColorTransition(ctx, fromFrame, toFrame, progress, transition.parameters.color)
+      } else {
+        applyFadeTransition(ctx, fromFrame, toFrame, progress)
+      }
+      break
     case 'dissolve':
       applyFadeTransition(ctx, fromFrame, toFrame, progress)
       break
@@ -215,7 +256,7 @@ export const applyTransition = (
       applyBlurTransition(ctx, fromFrame, toFrame, progress, transition.parameters?.maxBlur || 20)
       break
     case 'wipe':
-      applyWipeTransition(ctx, fromFrame, toFrame, progress, transition.parameters?.direction || 'left')
+      applyWipeTransition(ctx, fromFrame, toFrame, progress, transition.parameters?.shape || transition.parameters?.direction || 'left')
       break
   }
 }
@@ -240,6 +281,22 @@ function applyFadeTransition(
   ctx.putImageData(result, 0, 0)
 }
 
+// Fade the first clip out to a color, then fade the second clip in from it
+function applyFadeThroughColorTransition(
+  ctx: CanvasRenderingContext2D,
+  fromFrame: ImageData,
+  toFrame: ImageData,
+  progress: number,
+  color: string
+): void {
+  ctx.putImageData(progress < 0.5 ? fromFrame : toFrame, 0, 0)
+  ctx.save()
+  ctx.globalAlpha = progress < 0.5 ? progress * 2 : (1 - progress) * 2
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, fromFrame.width, fromFrame.height)
+  ctx.restore()
+}
+
 function applySlideTransition(
   ctx: CanvasRenderingContext2D,
   fromFrame: ImageData,
@@ -296,9 +353,7 @@ function applyZoomTransition(
   const fromX = (width - fromWidth) / 2
   const fromY = (height - fromHeight) / 2
 
-  const tempCanvas = document.createElement('canvas')
-  tempCanvas.width = width
-  tempCanvas.height = height
+  const tempCanvas = createCanvas(width, height)
   const tempCtx = tempCanvas.getContext('2d')!
   tempCtx.putImageData(fromFrame, 0, 0)
 
@@ -330,21 +385,14 @@ function applyBlurTransition(
   const width = fromFrame.width
   const height = fromFrame.height
 
-  // Simple blur simulation using opacity blend
+  // Blur the first clip out, then blur the second clip in
   const blurProgress = progress < 0.5 ? progress * 2 : (1 - progress) * 2
-  const opacity = 1 - blurProgress * 0.5
 
   ctx.clearRect(0, 0, width, height)
-
-  if (progress < 0.5) {
-    ctx.globalAlpha = opacity
-    ctx.putImageData(fromFrame, 0, 0)
-  } else {
-    ctx.globalAlpha = opacity
-    ctx.putImageData(toFrame, 0, 0)
-  }
-
-  ctx.globalAlpha = 1
+  ctx.save()
+  ctx.filter = `blur(${maxBlur * blurProgress}px)`
+  ctx.drawImage(getFrameCanvas(progress < 0.5 ? fromFrame : toFrame, 0), 0, 0)
+  ctx.restore()
 }
 
 function applyWipeTransition(
@@ -360,23 +408,30 @@ function applyWipeTransition(
   ctx.putImageData(fromFrame, 0, 0)
 
   ctx.save()
+  ctx.beginPath()
 
   switch (direction) {
+    case 'circle': {
+      // Grow from the center until the corners are covered
+      const radius = Math.sqrt(width * width + height * height) / 2 * progress
+      ctx.arc(width / 2, height / 2, radius, 0, 2 * Math.PI)
+      break
+    }
     case 'left':
-      ctx.rect(0, 0, width * progress, height)
+      ctx.rect(width * (1 - progress), 0, width * progress, height)
       break
     case 'right':
-      ctx.rect(width * (1 - progress), 0, width * progress, height)
+      ctx.rect(0, 0, width * progress, height)
       break
     case 'up':
-      ctx.rect(0, 0, width, height * progress)
+      ctx.rect(0, height * (1 - progress), width, height * progress)
       break
     case 'down':
-      ctx.rect(0, height * (1 - progress), width, height * progress)
+      ctx.rect(0, 0, width, height * progress)
       break
   }
 
   ctx.clip()
-  ctx.putImageData(toFrame, 0, 0)
+  ctx.drawImage(getFrameCanvas(toFrame, 0), 0, 0)
   ctx.restore()
 }
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { LocalProvider } from '../providers/LocalProvider'
+import { createTranscriptionProvider, requireTranscriptionProvider } from '../server'
+import { TranscriptionError } from '../types'
+
+describe('transcription providers', () => {
+    describe('createTranscriptionProvider', () => {
+        it('should use the provider named in the environment', () => {
+            expect(createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'local', GEMINI_API_KEY: 'key' })?.name).toBe('local')
+            expect(createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'OpenAI', OPENAI_API_KEY: 'key' })?.name).toBe('openai')
+        })
+
+        it('should fall back to the first provider with a key', () => {
+            expect(createTranscriptionProvider({ GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o' })?.name).toBe('gemini')
+            expect(createTranscriptionProvider({ OPENAI_API_KEY: 'o' })?.name).toBe('openai')
+            expect(createTranscriptionProvider({ NEXT_PUBLIC_GEMINI_API_KEY: 'g' })?.name).toBe('gemini')
+            expect(createTranscriptionProvider({})).toBeNull()
+        })
+
+        it('should report misconfiguration as unavailable', () => {
+            expect(() => createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'openai' })).toThrow('OPENAI_API_KEY is not set')
+            expect(() => createTranscriptionProvider({ TRANSCRIPTION_PROVIDER: 'carrier-pigeon' })).toThrow(TranscriptionError)
+
+            try {
+                requireTranscriptionProvider({})
+            } catch (error) {
+                expect((error as TranscriptionError).status).toBe(503)
+            }
+            expect.assertions(3)
+        })
+    })
+
+    describe('LocalProvider', () => {
+        const media = new Blob([new Uint8Array([1, 2, 3])], { type: 'video/webm' })
+
+        it('should return the same timed segments for the same duration', async () => {
+            const provider = new LocalProvider()
+            const first = await provider.transcribe(media, { duration: 7 })
+
+            expect(await provider.transcribe(media, { duration: 7 })).toEqual(first)
+            expect(first.map(s => [s.start, s.end])).toEqual([[0, 3], [3, 6], [6, 7]])
+            first.forEach(segment => {
+                expect(segment.words?.map(w => w.text).join(' ')).toBe(segment.text)
+                expect(segment.words?.[0].start).toBe(segment.start)
+                expect(segment.words?.at(-1)?.end).toBeCloseTo(segment.end)
+            })
+        })
+
+        it('should summarize without a network', async () => {
+            const provider = new LocalProvider()
+
+            expect(await provider.summarize('one two three')).toContain('3-word transcript')
+            expect(await provider.summarize('')).toBe('Nothing was said in this video.')
+        })
+    })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { attachWordsToSegments, parseTranscriptSegments, segmentsToText } from '../segments'
+
+describe('transcript segments', () => {
+    describe('parseTranscriptSegments', () => {
+        it('should read segments wrapped in a code fence and sort them', () => {
+            const response = '```json\n[{"start": 2, "end": 3, "text": " second "}, {"start": "0.5", "end": 1.5, "text": "first"}]\n```'
+
+            expect(parseTranscriptSegments(response)).toEqual([
+                { start: 0.5, end: 1.5, text: 'first' },
+                { start: 2, end: 3, text: 'second' }
+            ])
+        })
+
+        it('should drop malformed segments and words', () => {
+            const response = JSON.stringify({
+                segments: [
+                    { start: 3, end: 2, text: 'backwards' },
+                    { start: 0, end: 1, text: '   ' },
+                    { start: 0, end: 2, text: 'hi there', words: [{ text: 'hi', start: 0, end: 1 }, { text: 'there' }] }
+                ]
+            })
+
+            expect(parseTranscriptSegments(response)).toEqual([
+                { start: 0, end: 2, text: 'hi there', words: [{ text: 'hi', start: 0, end: 1 }] }
+            ])
+        })
+    })
+
+    it('should attach words to the segment they start in', () => {
+        const segments = [{ start: 0, end: 1, text: 'one' }, { start: 1, end: 2, text: 'two three' }]
+        const words = [
+            { text: 'one', start: 0.1, end: 0.9 },
+            { text: 'two', start: 1, end: 1.5 },
+            { text: 'three', start: 2, end: 2.2 }
+        ]
+
+        const attached = attachWordsToSegments(segments, words)
+
+        expect(attached[0].words?.map(w => w.text)).toEqual(['one'])
+        expect(attached[1].words?.map(w => w.text)).toEqual(['two', 'three'])
+    })
+
+    it('should join segment text', () => {
+        expect(segmentsToText([{ start: 0, end: 1, text: 'Hello' }, { start: 1, end: 2, text: 'world' }])).toBe('Hello world')
+    })
+})
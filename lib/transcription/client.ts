@@ -0,0 +1,48 @@
+import { TranscribeOptions, TranscriptSegment, TranscriptionError, TranscriptionProviderName } from './types'
+
+// Browser side of transcription. The provider and its API key live on the
+// server; these helpers only talk to the API routes.
+
+const readError = async (response: Response, fallback: string) => {
+    try {
+        const data = await response.json()
+        return new TranscriptionError(typeof data?.error === 'string' ? data.error : fallback, response.status)
+    } catch {
+        return new TranscriptionError(fallback, response.status)
+    }
+}
+
+export async function transcribeVideo(videoBlob: Blob, options: TranscribeOptions = {}): Promise<TranscriptSegment[]> {
+    const body = new FormData()
+    body.append('file', videoBlob, 'recording.webm')
+    if (options.duration !== undefined && isFinite(options.duration)) {
+        body.append('duration', options.duration.toString())
+    }
+
+    const response = await fetch('/api/transcribe', { method: 'POST', body })
+    if (!response.ok) throw await readError(response, 'Failed to transcribe video')
+
+    const data = await response.json()
+    return data.segments as TranscriptSegment[]
+}
+
+export async function generateSummary(transcript: string): Promise<string> {
+    const response = await fetch('/api/summarize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transcript })
+    })
+    if (!response.ok) throw await readError(response, 'Failed to generate summary')
+
+    const data = await response.json()
+    return data.summary as string
+}
+
+// Name of the provider the server will use, or null when none is configured
+export async function getTranscriptionProvider(): Promise<TranscriptionProviderName | null> {
+    const response = await fetch('/api/transcribe')
+    if (!response.ok) return null
+
+    const data = await response.json()
+    return data.provider ?? null
+}
@@ -0,0 +1,5 @@
+// Client-safe entry point. Providers are imported from './server' by API
+// routes only, so SDKs and keys stay out of the browser bundle.
+export * from './types'
+export * from './segments'
+export * from './client'
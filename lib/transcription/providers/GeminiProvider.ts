@@ -0,0 +1,40 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { parseTranscriptSegments } from '../segments'
+import { TranscriptSegment, TranscriptionProvider } from '../types'
+import { SEGMENTS_PROMPT, buildSummaryPrompt } from './prompts'
+
+export const GEMINI_MODEL = 'gemini-1.5-flash'
+
+export class GeminiProvider implements TranscriptionProvider {
+    readonly name = 'gemini'
+    private genAI: GoogleGenerativeAI
+
+    constructor(apiKey: string, private model: string = GEMINI_MODEL) {
+        this.genAI = new GoogleGenerativeAI(apiKey)
+    }
+
+    async transcribe(media: Blob): Promise<TranscriptSegment[]> {
+        const model = this.genAI.getGenerativeModel({
+            model: this.model,
+            generationConfig: { responseMimeType: 'application/json' }
+        })
+
+        const result = await model.generateContent([
+            SEGMENTS_PROMPT,
+            {
+                inlineData: {
+                    data: Buffer.from(await media.arrayBuffer()).toString('base64'),
+                    mimeType: media.type.split(';')[0] || 'video/webm'
+                }
+            }
+        ])
+
+        return parseTranscriptSegments(result.response.text())
+    }
+
+    async summarize(transcript: string): Promise<string> {
+        const model = this.genAI.getGenerativeModel({ model: this.model })
+        const result = await model.generateContent(buildSummaryPrompt(transcript))
+        return result.response.text()
+    }
+}
@@ -0,0 +1,53 @@
+import { TranscribeOptions, TranscriptSegment, TranscriptionProvider } from '../types'
+
+// Used when the caller does not say how long the media is
+export const LOCAL_DEFAULT_DURATION = 30
+
+const PHRASES = [
+    'This is a placeholder caption',
+    'Generated without a speech service',
+    'Set a transcription provider for real captions',
+    'Timings follow the length of the recording'
+]
+
+/**
+ * Offline provider for tests and development without API keys. It ignores
+ * the audio and returns the same evenly spaced phrases for the same duration.
+ */
+export class LocalProvider implements TranscriptionProvider {
+    readonly name = 'local'
+
+    constructor(private segmentLength: number = 3) {}
+
+    async transcribe(_media: Blob, options: TranscribeOptions = {}): Promise<TranscriptSegment[]> {
+        const duration = options.duration && options.duration > 0 ? options.duration : LOCAL_DEFAULT_DURATION
+        const segments: TranscriptSegment[] = []
+
+        for (let start = 0, index = 0; start < duration; start += this.segmentLength, index++) {
+            const end = Math.min(duration, start + this.segmentLength)
+            const text = PHRASES[index % PHRASES.length]
+            const wordTexts = text.split(' ')
+            const wordLength = (end - start) / wordTexts.length
+
+            segments.push({
+                start,
+                end,
+                text,
+                words: wordTexts.map((word, i) => ({
+                    text: word,
+                    start: start + i * wordLength,
+                    end: start + (i + 1) * wordLength
+                }))
+            })
+        }
+
+        return segments
+    }
+
+    async summarize(transcript: string): Promise<string> {
+        const words = transcript.split(/\s+/).filter(Boolean)
+        return words.length === 0
+            ? 'Nothing was said in this video.'
+            : `A ${words.length}-word transcript beginning "${words.slice(0, 8).join(' ')}".`
+    }
+}
@@ -0,0 +1,50 @@
+import OpenAI, { toFile } from 'openai'
+import { attachWordsToSegments } from '../segments'
+import { TranscriptSegment, TranscriptionProvider } from '../types'
+import { buildSummaryPrompt } from './prompts'
+
+export const OPENAI_TRANSCRIPTION_MODEL = 'whisper-1'
+export const OPENAI_SUMMARY_MODEL = 'gpt-4o-mini'
+
+export class OpenAIProvider implements TranscriptionProvider {
+    readonly name = 'openai'
+    private openAI: OpenAI | null = null
+
+    constructor(
+        private apiKey: string,
+        private transcriptionModel: string = OPENAI_TRANSCRIPTION_MODEL,
+        private summaryModel: string = OPENAI_SUMMARY_MODEL
+    ) {}
+
+    // Created on first use so selecting the provider stays cheap
+    private get client() {
+        this.openAI ??= new OpenAI({ apiKey: this.apiKey })
+        return this.openAI
+    }
+
+    async transcribe(media: Blob): Promise<TranscriptSegment[]> {
+        // Whisper picks the decoder from the file extension
+        const extension = media.type.includes('mp4') ? 'mp4' : 'webm'
+        const result = await this.client.audio.transcriptions.create({
+            file: await toFile(media, `recording.${extension}`),
+            model: this.transcriptionModel,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['segment', 'word']
+        })
+
+        const segments = (result.segments ?? [])
+            .map(segment => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+            .filter(segment => segment.text.length > 0 && segment.end > segment.start)
+        const words = (result.words ?? []).map(word => ({ text: word.word.trim(), start: word.start, end: word.end }))
+
+        return attachWordsToSegments(segments, words)
+    }
+
+    async summarize(transcript: string): Promise<string> {
+        const completion = await this.client.chat.completions.create({
+            model: this.summaryModel,
+            messages: [{ role: 'user', content: buildSummaryPrompt(transcript) }]
+        })
+        return completion.choices[0]?.message.content ?? ''
+    }
+}
@@ -0,0 +1,9 @@
+export const SEGMENTS_PROMPT = `Transcribe the audio from this video as timed caption segments. Split the speech into short phrases of at most 8 words or 5 seconds each.
+Return only a JSON array. Each item must have "start" and "end" (seconds from the start of the video, as numbers), "text" (the phrase) and "words" (an array of { "text", "start", "end" } for every word in the phrase).
+Return an empty array if nothing is spoken.`
+
+export const buildSummaryPrompt = (transcript: string) =>
+    `Please create a concise summary of this video transcript. Highlight the key points and main topics discussed. Keep it brief but informative.
+
+Transcript:
+${transcript}`
@@ -0,0 +1,58 @@
+import { TranscriptSegment, TranscriptWord } from './types'
+
+const toSeconds = (value: unknown): number | null => {
+    const seconds = typeof value === 'string' ? parseFloat(value) : value
+    return typeof seconds === 'number' && isFinite(seconds) && seconds >= 0 ? seconds : null
+}
+
+/**
+ * Read timed segments from a model response. Malformed items are dropped and
+ * the rest are sorted, so a partly usable answer still yields captions.
+ */
+export function parseTranscriptSegments(response: string): TranscriptSegment[] {
+    // Models sometimes wrap JSON in a Markdown code fence despite being asked not to
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+    const data = JSON.parse(json)
+    const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.segments) ? data.segments : []
+
+    return items
+        .map((item): TranscriptSegment | null => {
+            if (!item || typeof item !== 'object') return null
+            const { start, end, text, words } = item as Record<string, unknown>
+            const startTime = toSeconds(start)
+            const endTime = toSeconds(end)
+            if (startTime === null || endTime === null || endTime <= startTime) return null
+            if (typeof text !== 'string' || !text.trim()) return null
+
+            const segment: TranscriptSegment = { start: startTime, end: endTime, text: text.trim() }
+            if (Array.isArray(words)) {
+                segment.words = words
+                    .map((word): TranscriptWord | null => {
+                        const wordStart = toSeconds(word?.start)
+                        const wordEnd = toSeconds(word?.end)
+                        if (wordStart === null || wordEnd === null || typeof word?.text !== 'string') return null
+                        return { text: word.text.trim(), start: wordStart, end: Math.max(wordStart, wordEnd) }
+                    })
+                    .filter((word): word is TranscriptWord => word !== null && word.text.length > 0)
+            }
+            return segment
+        })
+        .filter((segment): segment is TranscriptSegment => segment !== null)
+        .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Give each segment the words that start inside it. Used for providers that
+ * report words and phrases as separate lists.
+ */
+export const attachWordsToSegments = (segments: TranscriptSegment[], words: TranscriptWord[]): TranscriptSegment[] =>
+    segments.map((segment, index) => {
+        const isLast = index === segments.length - 1
+        const segmentWords = words.filter(word =>
+            word.start >= segment.start && (word.start < segment.end || (isLast && word.start <= segment.end))
+        )
+        return segmentWords.length > 0 ? { ...segment, words: segmentWords } : segment
+    })
+
+export const segmentsToText = (segments: TranscriptSegment[]): string =>
+    segments.map(segment => segment.text).join(' ')
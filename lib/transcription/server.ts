@@ -0,0 +1,52 @@
+import { GeminiProvider } from './providers/GeminiProvider'
+import { LocalProvider } from './providers/LocalProvider'
+import { OpenAIProvider } from './providers/OpenAIProvider'
+import { TranscriptionError, TranscriptionProvider } from './types'
+
+type Env = Record<string, string | undefined>
+
+// Setups from before the key moved to the server still have the public name
+const getGeminiKey = (env: Env) => env.GEMINI_API_KEY || env.NEXT_PUBLIC_GEMINI_API_KEY
+
+/**
+ * Pick the transcription provider from the environment. TRANSCRIPTION_PROVIDER
+ * names one explicitly; otherwise the first provider with an API key is used.
+ * Returns null when nothing is configured. Server-only: reads secret keys.
+ */
+export function createTranscriptionProvider(env: Env = process.env): TranscriptionProvider | null {
+    const requested = env.TRANSCRIPTION_PROVIDER?.trim().toLowerCase()
+    const geminiKey = getGeminiKey(env)
+    const openAIKey = env.OPENAI_API_KEY
+
+    switch (requested) {
+        case 'gemini':
+            if (!geminiKey) throw new TranscriptionError('GEMINI_API_KEY is not set', 503)
+            return new GeminiProvider(geminiKey)
+        case 'openai':
+            if (!openAIKey) throw new TranscriptionError('OPENAI_API_KEY is not set', 503)
+            return new OpenAIProvider(openAIKey)
+        case 'local':
+            return new LocalProvider()
+        case undefined:
+        case '':
+            break
+        default:
+            throw new TranscriptionError(`Unknown transcription provider "${env.TRANSCRIPTION_PROVIDER}"`, 503)
+    }
+
+    if (geminiKey) return new GeminiProvider(geminiKey)
+    if (openAIKey) return new OpenAIProvider(openAIKey)
+    return null
+}
+
+/**
+ * Like createTranscriptionProvider, but fails with a 503 when no provider is
+ * configured, for API routes that cannot do anything without one.
+ */
+export function requireTranscriptionProvider(env: Env = process.env): TranscriptionProvider {
+    const provider = createTranscriptionProvider(env)
+    if (!provider) {
+        throw new TranscriptionError('Transcription is not configured. Set GEMINI_API_KEY, OPENAI_API_KEY or TRANSCRIPTION_PROVIDER=local.', 503)
+    }
+    return provider
+}
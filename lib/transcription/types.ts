@@ -0,0 +1,41 @@
+export interface TranscriptWord {
+    text: string
+    start: number
+    end: number
+}
+
+// A spoken phrase, timed in seconds from the start of the recording
+export interface TranscriptSegment {
+    start: number
+    end: number
+    text: string
+    words?: TranscriptWord[]
+}
+
+export type TranscriptionProviderName = 'gemini' | 'openai' | 'local'
+
+export interface TranscribeOptions {
+    // Length of the media in seconds, when the caller knows it
+    duration?: number
+}
+
+/**
+ * A speech-to-text backend. Providers run on the server so their API keys
+ * never reach the browser; the editor talks to them through /api/transcribe.
+ */
+export interface TranscriptionProvider {
+    readonly name: TranscriptionProviderName
+    transcribe(media: Blob, options?: TranscribeOptions): Promise<TranscriptSegment[]>
+    summarize(transcript: string): Promise<string>
+}
+
+export class TranscriptionError extends Error {
+    // HTTP status the API routes answer with
+    public status: number
+
+    constructor(message: string, status: number = 500) {
+        super(message)
+        this.name = 'TranscriptionError'
+        this.status = status
+    }
+}
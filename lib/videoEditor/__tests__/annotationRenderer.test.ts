@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import type { Annotation } from '@/components/VideoAnnotation'
+import {
+    drawAnnotation,
+    drawAnnotations,
+    getAnnotationBounds,
+    isAnnotationVisible,
+    offsetAnnotation
+} from '../annotationRenderer'
+
+const makeAnnotation = (overrides: Partial<Annotation>): Annotation => ({
+    id: 'a',
+    type: 'rectangle',
+    x: 10,
+    y: 20,
+    width: 30,
+    height: 40,
+    color: '#ff0000',
+    strokeWidth: 4,
+    startTime: 1,
+    endTime: 3,
+    ...overrides
+})
+
+// jsdom has no canvas, so record the calls the renderer makes instead
+const createRecordingContext = () => {
+    const calls: { name: string, args: unknown[], lineWidth: number }[] = []
+    const state = { lineWidth: 1, font: '10px sans-serif' }
+    const record = (name: string) => (...args: unknown[]) => {
+        calls.push({ name, args, lineWidth: state.lineWidth })
+    }
+    const ctx = {
+        get lineWidth() { return state.lineWidth },
+        set lineWidth(value: number) { state.lineWidth = value },
+        get font() { return state.font },
+        set font(value: string) { state.font = value },
+        strokeStyle: '',
+        fillStyle: '',
+        lineCap: 'butt',
+        lineJoin: 'miter',
+        shadowColor: '',
+        shadowBlur: 0,
+        textBaseline: 'alphabetic',
+        save: record('save'),
+        restore: record('restore'),
+        beginPath: record('beginPath'),
+        closePath: record('closePath'),
+        moveTo: record('moveTo'),
+        lineTo: record('lineTo'),
+        arcTo: record('arcTo'),
+        ellipse: record('ellipse'),
+        stroke: record('stroke'),
+        fill: record('fill'),
+        fillText: record('fillText'),
+        // Every character is as wide as a tenth of the font size
+        measureText: (text: string) => ({ width: text.length * parseFloat(state.font.split(' ')[1]) / 10 })
+    }
+    return { ctx: ctx as unknown as CanvasRenderingContext2D, calls }
+}
+
+describe('annotationRenderer', () => {
+    it('should show annotations only during their time range', () => {
+        const annotation = makeAnnotation({})
+
+        expect(isAnnotationVisible(annotation, 0.5)).toBe(false)
+        expect(isAnnotationVisible(annotation, 1)).toBe(true)
+        expect(isAnnotationVisible(annotation, 3)).toBe(true)
+        expect(isAnnotationVisible(annotation, 3.1)).toBe(false)
+    })
+
+    it('should place shapes at the same spot on any frame size', () => {
+        const { ctx } = createRecordingContext()
+        const annotation = makeAnnotation({})
+
+        expect(getAnnotationBounds(ctx, annotation, 1920, 1080)).toEqual({ x: 192, y: 216, width: 576, height: 432 })
+        expect(getAnnotationBounds(ctx, annotation, 1280, 720)).toEqual({ x: 128, y: 144, width: 384, height: 288 })
+    })
+
+    it('should normalize shapes drawn up and to the left', () => {
+        const { ctx } = createRecordingContext()
+        const annotation = makeAnnotation({ x: 50, y: 50, width: -20, height: -10 })
+
+        expect(getAnnotationBounds(ctx, annotation, 100, 100)).toEqual({ x: 30, y: 40, width: 20, height: 10 })
+    })
+
+    it('should scale stroke widths with the frame height', () => {
+        const full = createRecordingContext()
+        const half = createRecordingContext()
+        const annotation = makeAnnotation({ type: 'line', endX: 50, endY: 50 })
+
+        drawAnnotation(full.ctx, annotation, 1920, 1080)
+        drawAnnotation(half.ctx, annotation, 960, 540)
+
+        expect(full.calls.find(call => call.name === 'stroke')?.lineWidth).toBe(4)
+        expect(half.calls.find(call => call.name === 'stroke')?.lineWidth).toBe(2)
+        expect(half.calls.find(call => call.name === 'lineTo')?.args).toEqual([480, 270])
+    })
+
+    it('should wrap text to the annotation width', () => {
+        const { ctx, calls } = createRecordingContext()
+        // At 1080p a 20px font makes every character 2px wide
+        const annotation = makeAnnotation({ type: 'text', content: 'one two three', fontSize: 20, width: 10 })
+
+        drawAnnotation(ctx, annotation, 100, 1080)
+
+        expect(calls.filter(call => call.name === 'fillText').map(call => call.args[0])).toEqual(['one', 'two', 'three'])
+    })
+
+    it('should draw only the annotations showing at a time', () => {
+        const { ctx, calls } = createRecordingContext()
+        const annotations = [
+            makeAnnotation({ id: 'early', type: 'circle', startTime: 0, endTime: 1 }),
+            makeAnnotation({ id: 'late', type: 'circle', startTime: 2, endTime: 4 })
+        ]
+
+        drawAnnotations(ctx, annotations, 3, 100, 100)
+
+        expect(calls.filter(call => call.name === 'ellipse')).toHaveLength(1)
+    })
+
+    it('should move every point of an annotation', () => {
+        const annotation = makeAnnotation({ type: 'freehand', endX: 40, endY: 50, points: [{ x: 10, y: 20 }, { x: 15, y: 25 }] })
+
+        expect(offsetAnnotation(annotation, 5, -5)).toEqual({
+            x: 15,
+            y: 15,
+            endX: 45,
+            endY: 45,
+            points: [{ x: 15, y: 15 }, { x: 20, y: 20 }]
+        })
+    })
+})
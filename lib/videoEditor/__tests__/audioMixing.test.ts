@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { getClipGainEnvelope, getDuckingEnvelope, getGainAtTime, getSpeechRanges } from '../audioMixing'
+import { TimelineComposition } from '../timelineComposition'
+import { DEFAULT_TRACKS, createTrack, getTrackGain, toggleSolo } from '../timelineTracks'
+import { makeAudioClip } from './fixtures'
+
+describe('audioMixing', () => {
+    it('should ramp a clip in and out over its fades', () => {
+        const envelope = getClipGainEnvelope(makeAudioClip({ gain: 0.5, fadeIn: 2, fadeOut: 4 }))
+
+        expect(getGainAtTime(envelope, 10)).toBe(0)
+        expect(getGainAtTime(envelope, 11)).toBe(0.25)
+        expect(getGainAtTime(envelope, 14)).toBe(0.5)
+        expect(getGainAtTime(envelope, 18)).toBe(0.25)
+        expect(getGainAtTime(envelope, 20)).toBe(0)
+    })
+
+    it('should keep fades to half the clip and silence muted clips', () => {
+        const envelope = getClipGainEnvelope(makeAudioClip({ endTime: 14, fadeIn: 5, fadeOut: 5 }))
+
+        expect(envelope.map(point => point.time)).toEqual([10, 12, 12, 14])
+        expect(getGainAtTime(getClipGainEnvelope(makeAudioClip({ muted: true, gain: 2 })), 15)).toBe(0)
+        expect(getGainAtTime([], 15)).toBe(1)
+    })
+
+    it('should place the speech between pauses on the timeline', () => {
+        const composition: TimelineComposition = {
+            segments: [
+                { clipId: 'a', timelineStart: 0, timelineEnd: 10, sourceIn: 10, sourceOut: 20 },
+                { clipId: 'b', timelineStart: 10, timelineEnd: 15, sourceIn: 0, sourceOut: 5, sourceId: 'asset-1' }
+            ],
+            duration: 15
+        }
+
+        const speech = getSpeechRanges([{ start: 12, end: 14 }, { start: 18, end: 25 }], composition)
+
+        expect(speech).toEqual([{ start: 0, end: 2 }, { start: 4, end: 8 }])
+    })
+
+    it('should duck the music under speech and hold it down through short pauses', () => {
+        const envelope = getDuckingEnvelope([{ start: 2, end: 4 }, { start: 4.5, end: 6 }, { start: 10, end: 12 }], 0.2)
+
+        expect(envelope).toHaveLength(8)
+        expect(getGainAtTime(envelope, 1)).toBe(1)
+        expect(getGainAtTime(envelope, 4.2)).toBe(0.2)
+        expect(getGainAtTime(envelope, 8)).toBe(1)
+        expect(getGainAtTime(envelope, 11)).toBe(0.2)
+    })
+
+    describe('track gain', () => {
+        it('should silence muted tracks and every track but the soloed one', () => {
+            const tracks = DEFAULT_TRACKS.map(track => track.id === 'audio-1' ? { ...track, volume: 0.5 } : track)
+
+            expect(getTrackGain('audio-1', tracks)).toBe(0.5)
+            expect(getTrackGain('audio-1', tracks.map(track => ({ ...track, muted: true })))).toBe(0)
+
+            const soloed = toggleSolo(tracks, 'video-1')
+            expect(getTrackGain('video-1', soloed)).toBe(1)
+            expect(getTrackGain('audio-1', soloed)).toBe(0)
+            expect(toggleSolo(soloed, 'audio-1').filter(track => track.solo).map(track => track.id)).toEqual(['audio-1'])
+        })
+
+        it('should number new tracks after the ones already there', () => {
+            expect(createTrack('audio', DEFAULT_TRACKS)).toMatchObject({ id: 'audio-2', name: 'Audio Track 2', type: 'audio' })
+        })
+    })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+    DEFAULT_AUTO_ZOOM_OPTIONS,
+    ZoomSegment,
+    generateZoomSegments,
+    getMotionActivity,
+    getZoomAtTime,
+    getZoomedFrame
+} from '../autoZoom'
+import { TimelineComposition, createSourceComposition } from '../timelineComposition'
+
+const createSegment = (overrides: Partial<ZoomSegment>): ZoomSegment => ({
+    id: 'zoom',
+    startTime: 0,
+    endTime: 4,
+    scale: 2,
+    x: 0.25,
+    y: 0.75,
+    easing: 'linear',
+    transitionDuration: 1,
+    ...overrides
+})
+
+// A gray frame with a white square whose top left corner is at x, y
+const createFrame = (squareX: number, squareY: number, size: number = 64): ImageData => {
+    const data = new Uint8ClampedArray(size * size * 4).fill(128)
+    for (let y = squareY; y < squareY + 8; y++) {
+        for (let x = squareX; x < squareX + 8; x++) {
+            const index = (y * size + x) * 4
+            data[index] = data[index + 1] = data[index + 2] = 255
+        }
+    }
+    return { width: size, height: size, data, colorSpace: 'srgb' } as ImageData
+}
+
+describe('autoZoom', () => {
+    it('should group nearby activity into one zoom around it', () => {
+        const segments = generateZoomSegments([
+            { time: 2, x: 0.2, y: 0.2 },
+            { time: 3, x: 0.3, y: 0.2 },
+            { time: 10, x: 0.8, y: 0.8 }
+        ], createSourceComposition(20))
+
+        expect(segments).toHaveLength(2)
+        expect(segments[0]).toMatchObject({ startTime: 1.6, endTime: 4.5, scale: DEFAULT_AUTO_ZOOM_OPTIONS.scale, y: 0.2 })
+        expect(segments[0].x).toBeCloseTo(0.25)
+        expect(segments[1]).toMatchObject({ startTime: 9.6, endTime: 11.6, x: 0.8, y: 0.8 })
+    })
+
+    it('should split activity that is far apart on screen and never overlap zooms', () => {
+        const segments = generateZoomSegments([
+            { time: 2, x: 0.1, y: 0.1 },
+            { time: 2.5, x: 0.9, y: 0.9 }
+        ], createSourceComposition(20))
+
+        expect(segments).toHaveLength(2)
+        expect(segments[1].startTime).toBe(segments[0].endTime)
+    })
+
+    it('should place activity on the timeline and drop what the edit cut out', () => {
+        const composition: TimelineComposition = {
+            segments: [{ clipId: 'a', timelineStart: 0, timelineEnd: 5, sourceIn: 10, sourceOut: 15 }],
+            duration: 5
+        }
+
+        const segments = generateZoomSegments([
+            { time: 2, x: 0.5, y: 0.5 },
+            { time: 11, x: 0.5, y: 0.5 }
+        ], composition)
+
+        expect(segments).toHaveLength(1)
+        expect(segments[0].startTime).toBeCloseTo(0.6)
+        expect(segments[0].endTime).toBeCloseTo(2.6)
+    })
+
+    it('should ease in and out of a zoom', () => {
+        const segments = [createSegment({})]
+
+        expect(getZoomAtTime(segments, 5)).toEqual({ scale: 1, x: 0.5, y: 0.5 })
+        expect(getZoomAtTime(segments, 0.5)).toEqual({ scale: 1.5, x: 0.375, y: 0.625 })
+        expect(getZoomAtTime(segments, 2)).toEqual({ scale: 2, x: 0.25, y: 0.75 })
+        expect(getZoomAtTime(segments, 3.5)).toEqual({ scale: 1.5, x: 0.375, y: 0.625 })
+    })
+
+    it('should pan between zooms that follow each other', () => {
+        const segments = [
+            createSegment({ id: 'b', startTime: 4, endTime: 8, x: 0.75, y: 0.25 }),
+            createSegment({ id: 'a' })
+        ]
+
+        expect(getZoomAtTime(segments, 3.9)).toEqual({ scale: 2, x: 0.25, y: 0.75 })
+        expect(getZoomAtTime(segments, 4.5)).toEqual({ scale: 2, x: 0.5, y: 0.5 })
+    })
+
+    it('should magnify the frame around the spot without showing its edges', () => {
+        const frame = { x: 100, y: 50, width: 800, height: 400 }
+
+        expect(getZoomedFrame(frame, { scale: 1, x: 0.9, y: 0.9 })).toEqual(frame)
+        expect(getZoomedFrame(frame, { scale: 2, x: 0.5, y: 0.5 })).toEqual({ x: -300, y: -150, width: 1600, height: 800 })
+        expect(getZoomedFrame(frame, { scale: 2, x: 0, y: 1 })).toEqual({ x: 100, y: -350, width: 1600, height: 800 })
+    })
+
+    it('should find where motion happened between frames', () => {
+        const point = getMotionActivity(createFrame(40, 8), createFrame(44, 8), 3)!
+
+        expect(point.time).toBe(3)
+        expect(point.x).toBeGreaterThan(0.5)
+        expect(point.y).toBeLessThan(0.5)
+        expect(getMotionActivity(createFrame(40, 8), createFrame(40, 8), 3)).toBeNull()
+    })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { BrandKit, getBrandKitById } from '@/lib/templates/brandKit'
+import {
+    BrandKitFileError,
+    createBrandKitFile,
+    getBrandKitFileName,
+    parseBrandKitFile,
+    pickBrandKitImages
+} from '../brandKitStorage'
+import { useNodeBlob } from './fixtures'
+
+const kit: BrandKit = {
+    ...getBrandKitById('tech-startup')!,
+    id: 'custom-1',
+    name: 'Acme Brand',
+    logos: [
+        { id: 'logo', name: 'logo.png', url: 'blob:logo', type: 'full', position: 'top-left', size: 'medium', opacity: 1 }
+    ],
+    watermarks: [
+        { id: 'mark', name: 'mark.png', url: 'blob:mark', position: 'bottom-right', size: 10, opacity: 0.5, padding: 24 }
+    ]
+}
+
+const makeImages = () => ({
+    logo: new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }),
+    mark: new Blob([new Uint8Array([4, 5])], { type: 'image/webp' })
+})
+
+const readBytes = async (blob: Blob) => Array.from(new Uint8Array(await blob.arrayBuffer()))
+
+describe('brandKitStorage', () => {
+    useNodeBlob()
+
+    it('should round-trip a kit and its images through a brand kit file', async () => {
+        const file = await createBrandKitFile(kit, makeImages())
+        const { kit: imported, images: importedImages } = parseBrandKitFile(await file.text())
+
+        expect(imported.id).not.toBe(kit.id)
+        expect(imported.id.startsWith('custom-')).toBe(true)
+        expect(imported.name).toBe('Acme Brand')
+        expect(imported.colors).toEqual(kit.colors)
+        expect(imported.logos[0]).toEqual({ ...kit.logos[0], url: '' })
+        expect(imported.watermarks[0]).toEqual({ ...kit.watermarks[0], url: '' })
+        expect(importedImages.logo.type).toBe('image/png')
+        expect(await readBytes(importedImages.logo)).toEqual([1, 2, 3])
+        expect(await readBytes(importedImages.mark)).toEqual([4, 5])
+    })
+
+    it('should only keep images the kit still uses', () => {
+        const withoutWatermark = { ...kit, watermarks: [] }
+
+        expect(Object.keys(pickBrandKitImages(withoutWatermark, makeImages()))).toEqual(['logo'])
+    })
+
+    it('should reject files that are not valid brand kits', async () => {
+        const file = JSON.parse(await (await createBrandKitFile(kit, makeImages())).text())
+
+        expect(() => parseBrandKitFile('not json')).toThrow(BrandKitFileError)
+        expect(() => parseBrandKitFile(JSON.stringify({ format: 'snip-project' }))).toThrow('not a brand kit file')
+        expect(() => parseBrandKitFile(JSON.stringify({ ...file, version: 99 }))).toThrow('different version')
+        expect(() => parseBrandKitFile(JSON.stringify({ ...file, kit: { ...file.kit, colors: 'red' } })))
+            .toThrow(BrandKitFileError)
+    })
+
+    it('should name files after the kit', () => {
+        expect(getBrandKitFileName(kit)).toBe('Acme Brand.brandkit.json')
+    })
+})
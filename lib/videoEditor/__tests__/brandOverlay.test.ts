@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { BrandKit, LOGO_SIZES, getBrandKitById } from '@/lib/templates/brandKit'
+import { DEFAULT_BRAND_OVERLAY, getBrandMarks } from '../brandOverlay'
+
+const kit: BrandKit = {
+    ...getBrandKitById('tech-startup')!,
+    logos: [
+        { id: 'logo', name: 'Logo', url: 'logo.png', type: 'icon', position: 'top-left', size: 'medium', opacity: 1 },
+        { id: 'alt', name: 'Alt', url: 'alt.png', type: 'full', position: 'center', size: 'large', opacity: 1 }
+    ],
+    watermarks: [
+        { id: 'mark', name: 'Mark', url: 'mark.png', position: 'bottom-right', size: 5, opacity: 0.5, padding: 16 }
+    ]
+}
+
+describe('brandOverlay', () => {
+    it('should draw the first logo and watermark of the kit', () => {
+        const marks = getBrandMarks(kit, DEFAULT_BRAND_OVERLAY)
+
+        expect(marks).toEqual([
+            { url: 'logo.png', position: 'top-left', size: LOGO_SIZES.medium, opacity: 1, padding: 24 },
+            { url: 'mark.png', position: 'bottom-right', size: 5, opacity: 0.5, padding: 16 }
+        ])
+    })
+
+    it('should apply the project overrides on top of the kit', () => {
+        const marks = getBrandMarks(kit, {
+            ...DEFAULT_BRAND_OVERLAY,
+            logo: { position: 'bottom-left' },
+            watermark: { opacity: 0.2 }
+        })
+
+        expect(marks[0]).toMatchObject({ position: 'bottom-left', opacity: 1 })
+        expect(marks[1]).toMatchObject({ position: 'bottom-right', opacity: 0.2 })
+    })
+
+    it('should draw nothing when hidden or without a kit', () => {
+        expect(getBrandMarks(kit, { ...DEFAULT_BRAND_OVERLAY, visible: false })).toEqual([])
+        expect(getBrandMarks(undefined, DEFAULT_BRAND_OVERLAY)).toEqual([])
+        expect(getBrandMarks(getBrandKitById('corporate'), DEFAULT_BRAND_OVERLAY)).toEqual([])
+    })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { BrandKit, defaultBrandKits } from '@/lib/templates/brandKit'
+import { buildComposition, createSourceComposition } from '../timelineComposition'
+import {
+    Caption,
+    DEFAULT_CAPTION_STYLE,
+    TimelineCaption,
+    formatSrt,
+    formatWebVtt,
+    getCaptionAtTime,
+    getCaptionSourceRange,
+    mapCaptionsToTimeline,
+    resolveCaptionFontFamily,
+    wrapCaptionText
+} from '../captions'
+import { makeRecordingClip } from './fixtures'
+
+const makeCaption = (id: string, start: number, end: number, text: string = id): Caption => ({ id, start, end, text })
+
+const makeTimelineCaption = (start: number, end: number, text: string): TimelineCaption => ({
+    id: `${text}@clip`,
+    captionId: text,
+    clipId: 'clip',
+    start,
+    end,
+    text
+})
+
+describe('captions', () => {
+    describe('mapCaptionsToTimeline', () => {
+        it('should keep recording times when nothing was edited', () => {
+            const pieces = mapCaptionsToTimeline([makeCaption('a', 1, 2.5)], createSourceComposition(10))
+
+            expect(pieces).toHaveLength(1)
+            expect(pieces[0]).toMatchObject({ captionId: 'a', start: 1, end: 2.5 })
+        })
+
+        it('should follow clips that were cut and moved', () => {
+            // The first 4 seconds were cut, so the rest of the recording starts at 0
+            const composition = buildComposition([makeRecordingClip({ startTime: 0, endTime: 6, sourceIn: 4 })])
+
+            const pieces = mapCaptionsToTimeline([makeCaption('cut', 1, 3), makeCaption('kept', 5, 7)], composition)
+
+            expect(pieces.map(p => p.captionId)).toEqual(['kept'])
+            expect(pieces[0].start).toBeCloseTo(1)
+            expect(pieces[0].end).toBeCloseTo(3)
+        })
+
+        it('should split a caption that spans a cut', () => {
+            const composition = buildComposition([
+                makeRecordingClip({ id: 'left', startTime: 0, endTime: 2, sourceIn: 0 }),
+                makeRecordingClip({ id: 'right', startTime: 2, endTime: 5, sourceIn: 3 })
+            ])
+
+            const pieces = mapCaptionsToTimeline([makeCaption('a', 1, 4)], composition)
+
+            expect(pieces.map(p => [p.clipId, p.start, p.end])).toEqual([['left', 1, 2], ['right', 2, 3]])
+            expect(new Set(pieces.map(p => p.id)).size).toBe(2)
+        })
+
+        it('should ignore clips that play other media', () => {
+            const composition = buildComposition([makeRecordingClip({ sourceId: 'asset-import' })])
+
+            expect(mapCaptionsToTimeline([makeCaption('a', 1, 2)], composition)).toEqual([])
+        })
+    })
+
+    it('should find the caption shown at a time', () => {
+        const pieces = [makeTimelineCaption(0, 1, 'first'), makeTimelineCaption(1, 2, 'second')]
+
+        expect(getCaptionAtTime(pieces, 1)?.text).toBe('second')
+        expect(getCaptionAtTime(pieces, 2)).toBeNull()
+    })
+
+    it('should map a dragged caption back into its clip', () => {
+        const composition = buildComposition([makeRecordingClip({ startTime: 2, endTime: 6, sourceIn: 10 })])
+
+        expect(getCaptionSourceRange(composition, { clipId: 'clip' }, 3, 4)).toEqual({ start: 11, end: 12 })
+        expect(getCaptionSourceRange(composition, { clipId: 'clip' }, 5, 8)).toEqual({ start: 13, end: 14 })
+        expect(getCaptionSourceRange(composition, { clipId: 'missing' }, 3, 4)).toBeNull()
+    })
+
+    describe('sidecar files', () => {
+        const pieces = [
+            makeTimelineCaption(0.5, 2.25, 'Hello there'),
+            makeTimelineCaption(3661.001, 3662, 'An hour\n\nlater')
+        ]
+
+        it('should format SubRip cues', () => {
+            expect(formatSrt(pieces)).toBe(
+                '1\n00:00:00,500 --> 00:00:02,250\nHello there\n\n' +
+                '2\n01:01:01,001 --> 01:01:02,000\nAn hour\nlater\n'
+            )
+        })
+
+        it('should format WebVTT cues', () => {
+            expect(formatWebVtt(pieces)).toBe(
+                'WEBVTT\n\n' +
+                '00:00:00.500 --> 00:00:02.250\nHello there\n\n' +
+                '01:01:01.001 --> 01:01:02.000\nAn hour\nlater\n'
+            )
+        })
+    })
+
+    it('should wrap text at word boundaries', () => {
+        const measure = (text: string) => text.length
+
+        expect(wrapCaptionText('one two three four', 9, measure)).toEqual(['one two', 'three', 'four'])
+        expect(wrapCaptionText('extraordinarily long', 5, measure)).toEqual(['extraordinarily', 'long'])
+    })
+
+    it('should use the brand kit body font when asked to', () => {
+        const brandKit: BrandKit = defaultBrandKits[1]
+        const style = { ...DEFAULT_CAPTION_STYLE, fontFamily: 'Georgia' }
+
+        expect(resolveCaptionFontFamily(style, brandKit)).toBe('Georgia')
+        expect(resolveCaptionFontFamily({ ...style, useBrandFont: true }, brandKit)).toBe('Open Sans')
+        expect(resolveCaptionFontFamily({ ...style, useBrandFont: true })).toBe('Georgia')
+    })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { getTransitionById } from '@/lib/templates/transitionPresets'
+import { buildComposition } from '../timelineComposition'
+import {
+    ClipTransition,
+    createClipTransition,
+    findNearestBoundary,
+    getClipBoundaries,
+    getResizedTransitionDuration,
+    getTransitionFrame,
+    getTransitionFrameAtSourceTime,
+    placeTransitions
+} from '../clipTransitions'
+import { makeRecordingClip } from './fixtures'
+
+// Two seconds were cut out of the recording between the clips
+const composition = buildComposition([
+    makeRecordingClip({ id: 'a', startTime: 0, endTime: 4, sourceIn: 0, sourceOut: 4 }),
+    makeRecordingClip({ id: 'b', startTime: 4, endTime: 10, sourceIn: 6, sourceOut: 12 })
+])
+
+const makeTransition = (overrides: Partial<ClipTransition>): ClipTransition => ({
+    id: 't1',
+    presetId: 'crossfade',
+    fromClipId: 'a',
+    toClipId: 'b',
+    duration: 1,
+    ...overrides
+})
+
+describe('clipTransitions', () => {
+    it('should find cuts only where clips touch', () => {
+        const withGap = buildComposition([
+            makeRecordingClip({ id: 'a', startTime: 0, endTime: 4 }),
+            makeRecordingClip({ id: 'b', startTime: 5, endTime: 8 })
+        ])
+
+        expect(getClipBoundaries(composition).map(b => [b.time, b.from.clipId, b.to.clipId])).toEqual([[4, 'a', 'b']])
+        expect(getClipBoundaries(withGap)).toEqual([])
+        expect(findNearestBoundary(withGap, 4.5)).toBeNull()
+    })
+
+    it('should center transitions on their cut', () => {
+        const [placed] = placeTransitions([makeTransition({})], composition)
+
+        expect(placed.start).toBe(3.5)
+        expect(placed.end).toBe(4.5)
+        expect(placed.preset.id).toBe('crossfade')
+    })
+
+    it('should keep transitions within the shorter clip', () => {
+        const [placed] = placeTransitions([makeTransition({ duration: 20 })], composition)
+
+        expect(placed.end - placed.start).toBe(4)
+    })
+
+    it('should leave out transitions whose clips no longer meet', () => {
+        const transitions = [
+            makeTransition({ id: 'stale', fromClipId: 'gone' }),
+            makeTransition({ id: 'unknown', presetId: 'missing' })
+        ]
+
+        expect(placeTransitions(transitions, composition)).toEqual([])
+    })
+
+    it('should play both clips past their edit points with eased progress', () => {
+        const placed = placeTransitions([makeTransition({})], composition)
+
+        const before = getTransitionFrame(placed, 3.75)!
+        expect(before.progress).toBeCloseTo(0.125)
+        expect(before.fromSourceTime).toBeCloseTo(3.75)
+        expect(before.toSourceTime).toBeCloseTo(5.75)
+        expect(before.isPastCut).toBe(false)
+
+        const after = getTransitionFrame(placed, 4.25)!
+        expect(after.progress).toBeCloseTo(0.875)
+        expect(after.fromSourceTime).toBeCloseTo(4.25)
+        expect(after.toSourceTime).toBeCloseTo(6.25)
+        expect(after.isPastCut).toBe(true)
+
+        expect(getTransitionFrame(placed, 5)).toBeNull()
+    })
+
+    it('should find the transition frame from the playing source time', () => {
+        const placed = placeTransitions([makeTransition({})], composition)
+
+        expect(getTransitionFrameAtSourceTime(placed, 3.75)).toEqual(getTransitionFrame(placed, 3.75))
+        expect(getTransitionFrameAtSourceTime(placed, 6.25)).toEqual(getTransitionFrame(placed, 4.25))
+        expect(getTransitionFrameAtSourceTime(placed, 5)).toBeNull()
+    })
+
+    it('should resize both halves when one edge is dragged', () => {
+        const [placed] = placeTransitions([makeTransition({})], composition)
+
+        expect(getResizedTransitionDuration(placed, placed.start, 5)).toBe(2)
+        expect(getResizedTransitionDuration(placed, 3, placed.end)).toBe(2)
+        expect(getResizedTransitionDuration(placed, placed.start, 4)).toBe(0.1)
+    })
+
+    it('should create transitions at the preset length when the clips allow it', () => {
+        const preset = getTransitionById('crossfade')!
+        const short = buildComposition([
+            makeRecordingClip({ id: 'a', startTime: 0, endTime: 0.5 }),
+            makeRecordingClip({ id: 'b', startTime: 0.5, endTime: 3 })
+        ])
+
+        expect(createClipTransition(preset, getClipBoundaries(composition)[0])).toMatchObject({
+            presetId: 'crossfade',
+            fromClipId: 'a',
+            toClipId: 'b',
+            duration: 1
+        })
+        expect(createClipTransition(preset, getClipBoundaries(short)[0]).duration).toBe(0.5)
+    })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    CursorTrack,
+    CursorTrackFileError,
+    DEFAULT_CURSOR_SETTINGS,
+    drawCursor,
+    getActiveClicks,
+    getCursorOpacity,
+    getCursorPosition,
+    parseCursorTrackFile,
+    recordCursor
+} from '../cursorTracking'
+
+const track: CursorTrack = {
+    samples: [
+        { time: 1, x: 0, y: 0 },
+        { time: 2, x: 1, y: 0.5 },
+        { time: 3, x: 1, y: 0.5 }
+    ],
+    clicks: [{ time: 2, x: 1, y: 0.5 }]
+}
+
+const createMockContext = () => ({
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    scale: vi.fn(),
+    beginPath: vi.fn(),
+    closePath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    arc: vi.fn(),
+    fill: vi.fn(),
+    stroke: vi.fn(),
+    globalAlpha: 1,
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    lineJoin: ''
+})
+
+describe('cursorTracking', () => {
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should interpolate between samples and hide the cursor before it first moves', () => {
+        expect(getCursorPosition(track, 0.5)).toBeNull()
+        expect(getCursorPosition(track, 1.5)).toEqual({ x: 0.5, y: 0.25 })
+        expect(getCursorPosition(track, 10)).toEqual({ x: 1, y: 0.5 })
+    })
+
+    it('should smooth the path without moving a cursor that is still', () => {
+        const smoothed = getCursorPosition(track, 2, 1)!
+
+        expect(smoothed.x).toBeLessThan(1)
+        expect(smoothed.x).toBeGreaterThan(0.5)
+        expect(getCursorPosition(track, 2.8, 1)).toEqual({ x: 1, y: 0.5 })
+    })
+
+    it('should fade the cursor out once it has been idle', () => {
+        const settings = { ...DEFAULT_CURSOR_SETTINGS, hideWhenIdle: true, idleTimeout: 1 }
+
+        expect(getCursorOpacity(track, settings, 3.5)).toBe(1)
+        expect(getCursorOpacity(track, settings, 4.15)).toBeCloseTo(0.5)
+        expect(getCursorOpacity(track, settings, 5)).toBe(0)
+        expect(getCursorOpacity(track, { ...settings, hideWhenIdle: false }, 5)).toBe(1)
+    })
+
+    it('should show click ripples for a moment after each click', () => {
+        expect(getActiveClicks(track, 1.9)).toEqual([])
+        expect(getActiveClicks(track, 2.25)).toEqual([{ click: track.clicks[0], progress: 0.5 }])
+        expect(getActiveClicks(track, 2.5)).toEqual([])
+    })
+
+    it('should draw the pointer and ripples inside the recording frame', () => {
+        const ctx = createMockContext()
+        const frame = { x: 100, y: 50, width: 800, height: 1080 }
+
+        drawCursor(ctx as unknown as CanvasRenderingContext2D, track, { ...DEFAULT_CURSOR_SETTINGS, smoothing: 0 }, 2.1, frame)
+
+        expect(ctx.arc).toHaveBeenCalledTimes(1)
+        expect(ctx.arc.mock.calls[0].slice(0, 2)).toEqual([900, 590])
+        expect(ctx.translate).toHaveBeenCalledWith(900, 590)
+    })
+
+    it('should not draw a hidden cursor', () => {
+        const ctx = createMockContext()
+
+        drawCursor(ctx as unknown as CanvasRenderingContext2D, track, { ...DEFAULT_CURSOR_SETTINGS, visible: false }, 2.1, {
+            x: 0, y: 0, width: 100, height: 100
+        })
+
+        expect(ctx.save).not.toHaveBeenCalled()
+    })
+
+    it('should record pointer events relative to the window, leaving out pauses', () => {
+        vi.useFakeTimers()
+        const target = new EventTarget() as Window
+        Object.assign(target, { innerWidth: 200, innerHeight: 100 })
+        const pointer = (type: string, clientX: number, clientY: number) =>
+            target.dispatchEvent(Object.assign(new Event(type), { clientX, clientY }))
+
+        const recorder = recordCursor(target)
+        vi.advanceTimersByTime(1000)
+        pointer('pointermove', 50, 50)
+        recorder.pause()
+        vi.advanceTimersByTime(5000)
+        pointer('pointermove', 0, 0)
+        recorder.resume()
+        vi.advanceTimersByTime(1000)
+        pointer('pointerdown', 100, 25)
+        const recorded = recorder.stop()
+        pointer('pointermove', 10, 10)
+
+        expect(recorded.samples).toEqual([
+            { time: 1, x: 0.25, y: 0.5 },
+            { time: 2, x: 0.5, y: 0.25 }
+        ])
+        expect(recorded.clicks).toEqual([{ time: 2, x: 0.5, y: 0.25 }])
+    })
+
+    it('should read cursor track files and reject anything else', () => {
+        const file = { format: 'snip-cursor-track', version: 1, samples: [track.samples[1], track.samples[0]] }
+
+        expect(parseCursorTrackFile(JSON.stringify(file))).toEqual({
+            samples: [track.samples[0], track.samples[1]],
+            clicks: []
+        })
+        expect(() => parseCursorTrackFile('nope')).toThrow(CursorTrackFileError)
+        expect(() => parseCursorTrackFile(JSON.stringify({ ...file, version: 2 }))).toThrow('different version')
+        expect(() => parseCursorTrackFile(JSON.stringify({ ...file, samples: [{ time: 'a' }] })))
+            .toThrow(CursorTrackFileError)
+    })
+})
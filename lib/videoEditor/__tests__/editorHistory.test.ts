@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+    HISTORY_COALESCE_WINDOW_MS,
+    MAX_HISTORY_ENTRIES,
+    canRedo,
+    canUndo,
+    createHistory,
+    moveHistoryIndex,
+    pushHistoryEntry
+} from '../editorHistory'
+
+interface Doc {
+    clips: number[]
+    title: string
+}
+
+const initial: Doc = { clips: [], title: 'Untitled' }
+
+describe('editorHistory', () => {
+    it('should start with a single entry that cannot be undone', () => {
+        const history = createHistory(initial)
+
+        expect(history.entries).toHaveLength(1)
+        expect(canUndo(history)).toBe(false)
+        expect(canRedo(history)).toBe(false)
+    })
+
+    it('should record named steps', () => {
+        const history = pushHistoryEntry(createHistory(initial), 'Add clip', { ...initial, clips: [1] })
+
+        expect(history.index).toBe(1)
+        expect(history.entries[1].label).toBe('Add clip')
+        expect(canUndo(history)).toBe(true)
+    })
+
+    it('should skip steps that did not change anything', () => {
+        const history = createHistory(initial)
+
+        expect(pushHistoryEntry(history, 'Nothing', { ...initial })).toBe(history)
+    })
+
+    it('should drop the redo branch when a new step is recorded', () => {
+        let history = createHistory(initial)
+        history = pushHistoryEntry(history, 'Add clip', { ...initial, clips: [1] })
+        history = pushHistoryEntry(history, 'Rename', { ...initial, title: 'Demo' })
+        history = moveHistoryIndex(history, 1)
+
+        expect(canRedo(history)).toBe(true)
+
+        history = pushHistoryEntry(history, 'Delete clip', { ...initial, clips: [] })
+
+        expect(history.entries.map(e => e.label)).toEqual(['Open project', 'Add clip', 'Delete clip'])
+        expect(canRedo(history)).toBe(false)
+    })
+
+    it('should merge quick steps with the same coalesce key', () => {
+        let history = createHistory(initial)
+        history = pushHistoryEntry(history, 'Rename', { ...initial, title: 'A' }, { coalesceKey: 'title', now: 1000 })
+        history = pushHistoryEntry(history, 'Rename', { ...initial, title: 'AB' }, { coalesceKey: 'title', now: 1200 })
+
+        expect(history.entries).toHaveLength(2)
+        expect(history.entries[1].snapshot.title).toBe('AB')
+
+        history = pushHistoryEntry(history, 'Rename', { ...initial, title: 'ABC' }, {
+            coalesceKey: 'title',
+            now: 1200 + HISTORY_COALESCE_WINDOW_MS + 1
+        })
+
+        expect(history.entries).toHaveLength(3)
+    })
+
+    it('should not merge steps with different coalesce keys', () => {
+        let history = createHistory(initial)
+        history = pushHistoryEntry(history, 'Rename', { ...initial, title: 'A' }, { coalesceKey: 'title', now: 1000 })
+        history = pushHistoryEntry(history, 'Add clip', { ...initial, title: 'A', clips: [1] }, { coalesceKey: 'clips', now: 1100 })
+
+        expect(history.entries).toHaveLength(3)
+    })
+
+    it('should cap the number of entries', () => {
+        let history = createHistory(initial)
+        for (let i = 0; i < MAX_HISTORY_ENTRIES + 10; i++) {
+            history = pushHistoryEntry(history, `Step ${i}`, { ...initial, clips: [i] })
+        }
+
+        expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES)
+        expect(history.index).toBe(MAX_HISTORY_ENTRIES - 1)
+        expect(history.entries[history.index].label).toBe(`Step ${MAX_HISTORY_ENTRIES + 9}`)
+    })
+
+    it('should clamp jumps to the recorded range', () => {
+        const history = pushHistoryEntry(createHistory(initial), 'Add clip', { ...initial, clips: [1] })
+
+        expect(moveHistoryIndex(history, -5).index).toBe(0)
+        expect(moveHistoryIndex(history, 5).index).toBe(1)
+    })
+})
@@ -0,0 +1,48 @@
+import { beforeAll, afterAll } from 'vitest'
+import { Blob as NodeBlob } from 'node:buffer'
+import { Clip } from '@/hooks/useClips'
+import { SCREEN_RECORDING_ASSET_ID } from '../mediaAssets'
+
+// A video clip at the start of the main track with no source of its own, like
+// those saved before in-points were tracked: it plays the source at its timeline position
+export const makeClip = (overrides: Partial<Clip> = {}): Clip => ({
+    id: 'clip',
+    type: 'video',
+    name: 'Recorded Video',
+    startTime: 0,
+    endTime: 10,
+    trackId: 'video-1',
+    color: '#3b82f6',
+    ...overrides
+})
+
+// A clip playing the first ten seconds of the screen recording
+export const makeRecordingClip = (overrides: Partial<Clip> = {}): Clip => makeClip({
+    sourceId: SCREEN_RECORDING_ASSET_ID,
+    sourceIn: 0,
+    sourceOut: 10,
+    ...overrides
+})
+
+// A music clip on the first audio track
+export const makeAudioClip = (overrides: Partial<Clip> = {}): Clip => makeClip({
+    type: 'audio',
+    name: 'Music',
+    startTime: 10,
+    endTime: 20,
+    trackId: 'audio-1',
+    color: '#10b981',
+    ...overrides
+})
+
+// jsdom's Blob cannot be read back; Node's implements the full Blob API.
+// Call inside a describe block to swap it in for that block's tests
+export const useNodeBlob = () => {
+    const JsdomBlob = globalThis.Blob
+    beforeAll(() => {
+        globalThis.Blob = NodeBlob as unknown as typeof Blob
+    })
+    afterAll(() => {
+        globalThis.Blob = JsdomBlob
+    })
+}
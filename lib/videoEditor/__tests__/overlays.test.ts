@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    Overlay,
+    createOverlay,
+    drawOverlay,
+    getOverlayAnimationState,
+    isOverlayVisible,
+    moveOverlay
+} from '../overlays'
+
+const makeOverlay = (overrides: Partial<Overlay> = {}): Overlay => ({
+    ...createOverlay('text', 'Hello', 2, 4),
+    animationDuration: 1,
+    ...overrides
+})
+
+const createMockContext = () => ({
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    scale: vi.fn(),
+    fillRect: vi.fn(),
+    fillText: vi.fn(),
+    drawImage: vi.fn(),
+    measureText: vi.fn((text: string) => ({ width: text.length * 10 })),
+    globalAlpha: 1,
+    font: '',
+    fillStyle: '',
+    textAlign: '',
+    textBaseline: ''
+})
+
+describe('overlays', () => {
+    it('should create overlays centered in the frame at the given time', () => {
+        const overlay = createOverlay('image', 'https://example.com/logo.png', 3)
+
+        expect(overlay.id.startsWith('overlay-')).toBe(true)
+        expect(overlay.x + overlay.width / 2).toBe(50)
+        expect(overlay.y + overlay.height / 2).toBe(50)
+        expect(overlay.startTime).toBe(3)
+        expect(overlay.endTime).toBe(8)
+        expect(isOverlayVisible(overlay, 8)).toBe(true)
+        expect(isOverlayVisible(overlay, 8.1)).toBe(false)
+    })
+
+    it('should animate entries and exits and rest in between', () => {
+        const overlay = makeOverlay({ animationIn: 'slide-up', animationOut: 'zoom' })
+
+        const entering = getOverlayAnimationState(overlay, 2)
+        expect(entering.opacity).toBe(0)
+        expect(entering.offsetY).toBeGreaterThan(0)
+
+        expect(getOverlayAnimationState(overlay, 4)).toEqual({ opacity: 1, scale: 1, offsetX: 0, offsetY: 0 })
+
+        const exiting = getOverlayAnimationState(overlay, 6)
+        expect(exiting.opacity).toBe(0)
+        expect(exiting.scale).toBe(0.5)
+    })
+
+    it('should keep each animation to half of a short overlay', () => {
+        const overlay = makeOverlay({ endTime: 3, animationDuration: 2 })
+
+        expect(getOverlayAnimationState(overlay, 2.5).opacity).toBe(1)
+        expect(getOverlayAnimationState(overlay, 2.25).opacity).toBeGreaterThan(0)
+        expect(getOverlayAnimationState(overlay, 2.25).opacity).toBeLessThan(1)
+    })
+
+    it('should keep at least half of a dragged overlay on the frame', () => {
+        const overlay = makeOverlay({ x: 10, y: 10, width: 40, height: 20 })
+
+        expect(moveOverlay(overlay, 5, -5)).toEqual({ x: 15, y: 5 })
+        expect(moveOverlay(overlay, -100, 200)).toEqual({ x: -20, y: 90 })
+    })
+
+    it('should draw text at the center of its box, rotated', () => {
+        const ctx = createMockContext()
+        const overlay = makeOverlay({ x: 10, y: 20, width: 40, height: 10, rotation: 90, animationIn: 'none' })
+
+        drawOverlay(ctx as unknown as CanvasRenderingContext2D, overlay, undefined, 2, 1000, 1000)
+
+        expect(ctx.translate).toHaveBeenCalledWith(300, 250)
+        expect(ctx.rotate).toHaveBeenCalledWith(Math.PI / 2)
+        expect(ctx.fillText).toHaveBeenCalledWith('Hello', 0, 0)
+        expect(ctx.restore).toHaveBeenCalled()
+    })
+
+    it('should skip overlays that are hidden or still loading', () => {
+        const ctx = createMockContext()
+
+        drawOverlay(ctx as unknown as CanvasRenderingContext2D, makeOverlay(), undefined, 10, 1000, 1000)
+        drawOverlay(ctx as unknown as CanvasRenderingContext2D, makeOverlay({ type: 'image' }), undefined, 4, 1000, 1000)
+
+        expect(ctx.save).not.toHaveBeenCalled()
+    })
+})
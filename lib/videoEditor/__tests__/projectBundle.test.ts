@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { Clip } from '@/hooks/useClips'
+import { EditorSnapshot, takeSnapshot, useVideoEditorStore } from '@/stores/videoEditorStore'
+import { MediaAsset, SCREEN_RECORDING_ASSET_ID } from '../mediaAssets'
+import {
+    PROJECT_BUNDLE_VERSION,
+    ProjectBundleError,
+    createProjectBundle,
+    createProjectRecordFromBundle,
+    getProjectBundleFileName,
+    migrateManifest,
+    parseProjectManifest,
+    readProjectBundle
+} from '../projectBundle'
+import { createZipArchive } from '../zipArchive'
+import { makeRecordingClip, useNodeBlob } from './fixtures'
+
+const screenAsset: MediaAsset = {
+    id: SCREEN_RECORDING_ASSET_ID,
+    type: 'video',
+    name: 'Recorded Video',
+    url: 'blob:http://localhost/screen',
+    duration: 10,
+    origin: 'screen-recording'
+}
+
+const makeEditor = (clips: Clip[]): EditorSnapshot => ({
+    ...takeSnapshot(useVideoEditorStore.getState()),
+    clips
+})
+
+describe('projectBundle', () => {
+    useNodeBlob()
+
+    const createBundle = (editor: EditorSnapshot = makeEditor([makeRecordingClip({})])) => createProjectBundle(
+        { name: 'Demo', createdAt: 500 },
+        editor,
+        [screenAsset],
+        { [SCREEN_RECORDING_ASSET_ID]: new Blob([new Uint8Array([1, 2, 3])], { type: 'video/webm' }) },
+        10
+    )
+
+    it('should round-trip the editor state and media', async () => {
+        const editor = makeEditor([makeRecordingClip({ id: 'a', endTime: 4, sourceOut: 4 })])
+        const { manifest, media } = await readProjectBundle(await createBundle(editor))
+
+        expect(manifest.version).toBe(PROJECT_BUNDLE_VERSION)
+        expect(manifest.project).toEqual({ name: 'Demo', duration: 10, createdAt: 500 })
+        expect(manifest.editor.clips).toEqual(editor.clips)
+        expect(manifest.editor.enhancementSettings).toEqual(editor.enhancementSettings)
+        expect(manifest.media[0].file).toBe(`media/${SCREEN_RECORDING_ASSET_ID}.webm`)
+        expect(media[SCREEN_RECORDING_ASSET_ID].type).toBe('video/webm')
+        expect([...new Uint8Array(await media[SCREEN_RECORDING_ASSET_ID].arrayBuffer())]).toEqual([1, 2, 3])
+    })
+
+    it('should keep clip fields the schema does not know about', async () => {
+        const editor = makeEditor([{ ...makeRecordingClip({}), transitionIn: 'fade' } as Clip])
+        const { manifest } = await readProjectBundle(await createBundle(editor))
+
+        expect((manifest.editor.clips[0] as Clip & { transitionIn: string }).transitionIn).toBe('fade')
+    })
+
+    it('should turn a bundle into a local project without archive paths', async () => {
+        const { manifest } = await readProjectBundle(await createBundle())
+        const record = createProjectRecordFromBundle(manifest, 'project-2', 1000)
+
+        expect(record.id).toBe('project-2')
+        expect(record.createdAt).toBe(500)
+        expect(record.updatedAt).toBe(1000)
+        expect(record.mediaAssets[0]).not.toHaveProperty('file')
+    })
+
+    it('should reject bundles whose media is missing', async () => {
+        const bundle = await createBundle()
+        const { manifest } = await readProjectBundle(bundle)
+        const broken = await createZipArchive([{ name: 'project.json', data: JSON.stringify(manifest) }])
+
+        await expect(readProjectBundle(broken)).rejects.toThrow('missing from the project file')
+    })
+
+    it('should reject files that are not project bundles', async () => {
+        await expect(readProjectBundle(new Blob(['hello']))).rejects.toBeInstanceOf(ProjectBundleError)
+
+        const noManifest = await createZipArchive([{ name: 'readme.txt', data: 'hi' }])
+        await expect(readProjectBundle(noManifest)).rejects.toThrow('no manifest')
+    })
+
+    describe('parseProjectManifest', () => {
+        const validManifest = () => ({
+            format: 'snip',
+            version: PROJECT_BUNDLE_VERSION,
+            exportedAt: new Date(0).toISOString(),
+            project: { name: 'Demo', duration: 10 },
+            editor: makeEditor([makeRecordingClip({})]),
+            media: [{ ...screenAsset, url: undefined, file: `media/${SCREEN_RECORDING_ASSET_ID}.webm` }]
+        })
+
+        it('should accept a valid manifest', () => {
+            expect(parseProjectManifest(JSON.parse(JSON.stringify(validManifest()))).project.name).toBe('Demo')
+        })
+
+        it('should report invalid editor state', () => {
+            const manifest = validManifest()
+            manifest.editor.clips = [makeRecordingClip({ startTime: 5, endTime: 2 })]
+
+            expect(() => parseProjectManifest(manifest)).toThrow('Clip ends before it starts')
+        })
+
+        it('should report clips whose media is not in the bundle', () => {
+            const manifest = validManifest()
+            manifest.editor.clips = [makeRecordingClip({ sourceId: 'asset-missing' })]
+
+            expect(() => parseProjectManifest(manifest)).toThrow('uses media that is not in the bundle')
+        })
+
+        it('should open version 1 bundles, which had no captions', () => {
+            const manifest = validManifest()
+            const { captions, captionStyle, ...editor } = manifest.editor
+
+            const parsed = parseProjectManifest({ ...manifest, version: 1, editor })
+
+            expect(captions).toEqual([])
+            expect(parsed.editor.captions).toEqual([])
+            expect(parsed.editor.captionStyle).toEqual(captionStyle)
+        })
+
+        it('should give version 7 bundles the default tracks and audio mix', () => {
+            const manifest = validManifest()
+            const { tracks, audioMix, ...editor } = manifest.editor
+
+            const parsed = parseProjectManifest({ ...manifest, version: 7, editor })
+
+            expect(parsed.editor.tracks).toEqual(tracks)
+            expect(parsed.editor.audioMix).toEqual(audioMix)
+        })
+    })
+
+    describe('migrateManifest', () => {
+        it('should run migrations in order up to the target version', () => {
+            const migrated = migrateManifest(
+                { format: 'snip', version: 1, title: 'Old' },
+                {
+                    1: ({ title, ...manifest }) => ({ ...manifest, project: { name: title } }),
+                    2: (manifest) => ({ ...manifest, media: [] })
+                },
+                3
+            )
+
+            expect(migrated).toEqual({ format: 'snip', version: 3, project: { name: 'Old' }, media: [] })
+        })
+
+        it('should refuse bundles from a newer version', () => {
+            expect(() => migrateManifest({ format: 'snip', version: PROJECT_BUNDLE_VERSION + 1 }))
+                .toThrow('newer version')
+        })
+
+        it('should refuse versions without a migration path', () => {
+            expect(() => migrateManifest({ format: 'snip', version: 1 }, {}, 2)).toThrow('can no longer be opened')
+        })
+    })
+
+    it('should derive a safe file name from the project name', () => {
+        expect(getProjectBundleFileName('Demo: take 2/3')).toBe('Demo- take 2-3.snip')
+        expect(getProjectBundleFileName('')).toBe('project.snip')
+    })
+})
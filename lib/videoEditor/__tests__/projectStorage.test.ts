@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { Clip } from '@/hooks/useClips'
+import { EditorSnapshot, takeSnapshot, useVideoEditorStore } from '@/stores/videoEditorStore'
+import { MediaAsset, SCREEN_RECORDING_ASSET_ID } from '../mediaAssets'
+import { createProjectRecord, restoreProjectRecord, toProjectSummary } from '../projectStorage'
+import { makeClip } from './fixtures'
+
+const screenAsset: MediaAsset = {
+    id: SCREEN_RECORDING_ASSET_ID,
+    type: 'video',
+    name: 'Recorded Video',
+    url: 'blob:http://localhost/screen',
+    duration: 10,
+    origin: 'screen-recording'
+}
+
+const imageAsset: MediaAsset = {
+    id: 'asset-logo',
+    type: 'image',
+    name: 'logo.png',
+    url: 'blob:http://localhost/logo',
+    duration: 5,
+    origin: 'import',
+    mimeType: 'image/png',
+    thumbnail: 'blob:http://localhost/logo'
+}
+
+const makeEditor = (clips: Clip[]): EditorSnapshot => ({
+    ...takeSnapshot(useVideoEditorStore.getState()),
+    clips
+})
+
+describe('projectStorage', () => {
+    describe('createProjectRecord', () => {
+        it('should leave object URLs out of the saved assets', () => {
+            const record = createProjectRecord(
+                { id: 'project-1', name: 'Demo' },
+                makeEditor([]),
+                [screenAsset, imageAsset],
+                10,
+                1000
+            )
+
+            expect(record.mediaAssets).toHaveLength(2)
+            expect(record.mediaAssets.every(asset => !('url' in asset))).toBe(true)
+            expect(record.mediaAssets[1].thumbnail).toBeUndefined()
+            expect(record.mediaAssets[1].mimeType).toBe('image/png')
+        })
+
+        it('should keep the creation time of an existing project', () => {
+            const record = createProjectRecord({ id: 'project-1', name: 'Demo', createdAt: 500 }, makeEditor([]), [], 0, 1000)
+
+            expect(record.createdAt).toBe(500)
+            expect(record.updatedAt).toBe(1000)
+        })
+
+        it('should survive a structured clone like IndexedDB performs', () => {
+            const editor = makeEditor([makeClip({ sourceId: SCREEN_RECORDING_ASSET_ID })])
+            const record = createProjectRecord({ id: 'project-1', name: 'Demo' }, editor, [screenAsset], 10, 1000)
+
+            expect(structuredClone(record)).toEqual(record)
+        })
+    })
+
+    describe('restoreProjectRecord', () => {
+        it('should point assets at the URLs of their stored media', () => {
+            const record = createProjectRecord(
+                { id: 'project-1', name: 'Demo' },
+                makeEditor([makeClip({ sourceId: SCREEN_RECORDING_ASSET_ID })]),
+                [screenAsset, imageAsset],
+                10
+            )
+
+            const { editor, mediaAssets } = restoreProjectRecord(record, {
+                [SCREEN_RECORDING_ASSET_ID]: 'blob:http://localhost/screen-2',
+                'asset-logo': 'blob:http://localhost/logo-2'
+            })
+
+            expect(mediaAssets.map(asset => asset.url)).toEqual([
+                'blob:http://localhost/screen-2',
+                'blob:http://localhost/logo-2'
+            ])
+            expect(mediaAssets[1].thumbnail).toBe('blob:http://localhost/logo-2')
+            expect(editor.clips).toHaveLength(1)
+        })
+
+        it('should drop assets without stored media and the clips that use them', () => {
+            const record = createProjectRecord(
+                { id: 'project-1', name: 'Demo' },
+                makeEditor([
+                    makeClip({ id: 'screen', sourceId: SCREEN_RECORDING_ASSET_ID }),
+                    makeClip({ id: 'logo', type: 'image', sourceId: 'asset-logo' }),
+                    makeClip({ id: 'title', type: 'text' })
+                ]),
+                [screenAsset, imageAsset],
+                10
+            )
+
+            const { editor, mediaAssets } = restoreProjectRecord(record, {
+                [SCREEN_RECORDING_ASSET_ID]: 'blob:http://localhost/screen-2'
+            })
+
+            expect(mediaAssets.map(asset => asset.id)).toEqual([SCREEN_RECORDING_ASSET_ID])
+            expect(editor.clips.map(clip => clip.id)).toEqual(['screen', 'title'])
+        })
+    })
+
+    it('should summarize a project without its editor state', () => {
+        const record = createProjectRecord({ id: 'project-1', name: 'Demo', thumbnail: 'data:image/jpeg;base64,' }, makeEditor([]), [], 12, 1000)
+
+        expect(toProjectSummary(record)).toEqual({
+            id: 'project-1',
+            name: 'Demo',
+            createdAt: 1000,
+            updatedAt: 1000,
+            duration: 12,
+            thumbnail: 'data:image/jpeg;base64,'
+        })
+    })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getCoverRect, getCursorFocus, getFitRect, getReframeFocus } from '../reframing'
+
+const landscape = { width: 1920, height: 1080 }
+const portraitFrame = { x: 0, y: 0, width: 1080, height: 1920 }
+
+describe('reframing', () => {
+    it('should fit the whole recording inside the frame, centered', () => {
+        const rect = getFitRect(landscape, portraitFrame)
+
+        expect(rect.width).toBe(1080)
+        expect(rect.height).toBeCloseTo(607.5)
+        expect(rect.x).toBe(0)
+        expect(rect.y).toBeCloseTo((1920 - 607.5) / 2)
+    })
+
+    it('should cover the frame and bring the focus to its middle', () => {
+        const rect = getCoverRect(landscape, portraitFrame, { x: 0.5, y: 0.5 })
+
+        expect(rect.height).toBe(1920)
+        expect(rect.width).toBeCloseTo(3413.33, 1)
+        expect(rect.x + rect.width / 2).toBeCloseTo(540)
+    })
+
+    it('should not crop past the edges of the recording', () => {
+        const left = getCoverRect(landscape, portraitFrame, { x: 0, y: 0.5 })
+        const right = getCoverRect(landscape, portraitFrame, { x: 1, y: 0.5 })
+
+        expect(left.x).toBe(0)
+        expect(right.x + right.width).toBeCloseTo(1080)
+    })
+
+    it('should follow the cursor on average, not its every move', () => {
+        const track = {
+            samples: [{ time: 0, x: 0.2, y: 0.5 }, { time: 1, x: 0.2, y: 0.5 }, { time: 1.01, x: 0.8, y: 0.5 }, { time: 5, x: 0.8, y: 0.5 }],
+            clicks: []
+        }
+
+        const focus = getCursorFocus(track, 1)
+
+        expect(focus!.x).toBeGreaterThan(0.2)
+        expect(focus!.x).toBeLessThan(0.8)
+        expect(getCursorFocus({ samples: [], clicks: [] }, 1)).toBeNull()
+    })
+
+    it('should hand the focus from the cursor to a zoom as it punches in', () => {
+        const cursor = { x: 0.2, y: 0.2 }
+
+        expect(getReframeFocus({ scale: 1, x: 0.5, y: 0.5 }, cursor)).toEqual(cursor)
+        expect(getReframeFocus({ scale: 2, x: 0.8, y: 0.6 }, cursor)).toEqual({ x: 0.8, y: 0.6 })
+        expect(getReframeFocus({ scale: 1, x: 0.5, y: 0.5 }, null)).toEqual({ x: 0.5, y: 0.5 })
+    })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { Clip } from '@/hooks/useClips'
+import { normalizeRanges, rippleDeleteClips, rippleDeleteRanges, rippleDeleteTimedItems } from '../rippleEdit'
+import { makeRecordingClip } from './fixtures'
+
+const describeClips = (clips: Clip[]) => clips.map(c => [c.id, c.startTime, c.endTime, c.sourceIn])
+
+describe('rippleEdit', () => {
+    it('should merge overlapping ranges and drop empty ones', () => {
+        expect(normalizeRanges([{ start: 5, end: 6 }, { start: 1, end: 3 }, { start: 2, end: 4 }, { start: 7, end: 7 }]))
+            .toEqual([{ start: 1, end: 4 }, { start: 5, end: 6 }])
+    })
+
+    describe('rippleDeleteClips', () => {
+        it('should split a clip around a range in its middle', () => {
+            const result = rippleDeleteClips([makeRecordingClip({})], { start: 2, end: 5 }, 'x')
+
+            expect(describeClips(result)).toEqual([['clip', 0, 2, 0], ['clip-ripple-x', 2, 7, 5]])
+            expect(result[1].sourceOut).toBe(10)
+        })
+
+        it('should trim, remove and shift clips around the range', () => {
+            const clips = [
+                makeRecordingClip({ id: 'a', endTime: 3, sourceOut: 3 }),
+                makeRecordingClip({ id: 'b', startTime: 3, endTime: 4, sourceIn: 3, sourceOut: 4 }),
+                makeRecordingClip({ id: 'c', startTime: 4, endTime: 8, sourceIn: 4, sourceOut: 8 }),
+                makeRecordingClip({ id: 'd', startTime: 8, endTime: 9, sourceIn: 20, sourceOut: 21 })
+            ]
+
+            const result = rippleDeleteClips(clips, { start: 2, end: 5 })
+
+            expect(describeClips(result)).toEqual([['a', 0, 2, 0], ['c', 2, 5, 5], ['d', 5, 6, 20]])
+        })
+
+        it('should pin the source of legacy clips that move', () => {
+            const legacy = makeRecordingClip({ id: 'legacy', startTime: 6, endTime: 8, sourceId: undefined, sourceIn: undefined, sourceOut: undefined })
+
+            expect(describeClips(rippleDeleteClips([legacy], { start: 0, end: 1 }))).toEqual([['legacy', 5, 7, 6]])
+        })
+    })
+
+    it('should shorten items that span the range and drop those inside it', () => {
+        const items = [
+            { id: 'span', startTime: 1, endTime: 6 },
+            { id: 'inside', startTime: 2, endTime: 3 },
+            { id: 'after', startTime: 7, endTime: 8 }
+        ]
+
+        expect(rippleDeleteTimedItems(items, { start: 2, end: 4 })).toEqual([
+            { id: 'span', startTime: 1, endTime: 4 },
+            { id: 'after', startTime: 5, endTime: 6 }
+        ])
+    })
+
+    it('should measure every range on the original timeline', () => {
+        const { clips } = rippleDeleteRanges([makeRecordingClip({})], [], [{ start: 1, end: 2 }, { start: 5, end: 6 }], 'x')
+
+        expect(describeClips(clips)).toEqual([
+            ['clip', 0, 1, 0],
+            ['clip-ripple-x-1', 1, 4, 2],
+            ['clip-ripple-x-0', 4, 8, 6]
+        ])
+    })
+})
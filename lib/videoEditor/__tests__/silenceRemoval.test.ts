@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { Caption } from '../captions'
+import { rippleDeleteRanges } from '../rippleEdit'
+import { buildComposition, createSourceComposition } from '../timelineComposition'
+import { DEFAULT_SILENCE_REMOVAL_OPTIONS, findFillerWords, isFillerWord, planSilenceCuts } from '../silenceRemoval'
+import { makeRecordingClip } from './fixtures'
+
+const caption: Caption = {
+    id: 'c1',
+    start: 0,
+    end: 3,
+    text: 'Um, hello there',
+    words: [
+        { text: 'Um,', start: 0, end: 0.5 },
+        { text: 'hello', start: 1, end: 2 },
+        { text: 'there', start: 2, end: 3 }
+    ]
+}
+
+const options = { ...DEFAULT_SILENCE_REMOVAL_OPTIONS, minSilence: 1, padding: 0.25 }
+
+describe('silenceRemoval', () => {
+    it('should recognise filler words regardless of case and punctuation', () => {
+        expect(isFillerWord('Um,')).toBe(true)
+        expect(isFillerWord('uh...')).toBe(true)
+        expect(isFillerWord('umbrella')).toBe(false)
+        expect(findFillerWords([caption])).toEqual([{ start: 0, end: 0.5, text: 'Um,' }])
+    })
+
+    it('should pad long pauses and skip short ones', () => {
+        const silences = [{ start: 3, end: 3.5 }, { start: 4, end: 6 }]
+
+        const cuts = planSilenceCuts(silences, [], createSourceComposition(10), options)
+
+        expect(cuts).toEqual([{ id: 'silence-0', reason: 'silence', start: 4.25, end: 5.75 }])
+    })
+
+    it('should only cut fillers when asked to', () => {
+        const composition = createSourceComposition(10)
+
+        expect(planSilenceCuts([], [caption], composition, options).map(cut => cut.text)).toEqual(['Um,'])
+        expect(planSilenceCuts([], [caption], composition, { ...options, removeFillers: false })).toEqual([])
+    })
+
+    it('should place cuts where the recording plays on the timeline', () => {
+        // The recording from 2s plays at the start of the timeline
+        const composition = buildComposition([makeRecordingClip({ startTime: 0, endTime: 8, sourceIn: 2, sourceOut: 10 })])
+
+        const cuts = planSilenceCuts([{ start: 4, end: 6 }], [caption], composition, options)
+
+        expect(cuts.map(cut => [cut.reason, cut.start, cut.end])).toEqual([['silence', 2.25, 3.75]])
+    })
+
+    it('should propose nothing more once its cuts are applied', () => {
+        const clips = [makeRecordingClip({})]
+        const silences = [{ start: 4, end: 6 }]
+        const cuts = planSilenceCuts(silences, [caption], buildComposition(clips), options)
+
+        const edited = rippleDeleteRanges(clips, [], cuts).clips
+
+        expect(cuts).toHaveLength(2)
+        expect(planSilenceCuts(silences, [caption], buildComposition(edited), options)).toEqual([])
+    })
+})
@@ -0,0 +1,275 @@
+import { describe, it, expect } from 'vitest'
+import {
+    buildComposition,
+    createSourceComposition,
+    getAdjacentClips,
+    getClipResizeBounds,
+    getFrameSource,
+    getPlaybackPosition,
+    getSegmentAtTime,
+    slideClip,
+    slipClip,
+    splitClipAt,
+    sourceToTimelineTime,
+    syncClipSourceRange,
+    timelineToSourceTime,
+    trimComposition
+} from '../timelineComposition'
+import { SCREEN_RECORDING_ASSET_ID } from '../mediaAssets'
+import { makeClip, makeRecordingClip } from './fixtures'
+
+describe('timelineComposition', () => {
+    describe('buildComposition', () => {
+        it('should order clips by timeline position', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'b', startTime: 5, endTime: 8, sourceIn: 0 }),
+                makeClip({ id: 'a', startTime: 0, endTime: 5, sourceIn: 10 })
+            ])
+
+            expect(composition.segments.map(s => s.clipId)).toEqual(['a', 'b'])
+            expect(composition.segments[0].sourceIn).toBe(10)
+            expect(composition.segments[0].sourceOut).toBe(15)
+            expect(composition.duration).toBe(8)
+        })
+
+        it('should keep gaps between clips', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 2 }),
+                makeClip({ id: 'b', startTime: 4, endTime: 6 })
+            ])
+
+            expect(getSegmentAtTime(composition, 3)).toBeNull()
+            expect(getSegmentAtTime(composition, 5)?.clipId).toBe('b')
+            expect(composition.duration).toBe(6)
+        })
+
+        it('should ignore clips on other tracks and non-video clips', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'main' }),
+                makeClip({ id: 'webcam', trackId: 'effect-1' }),
+                makeClip({ id: 'annotation', type: 'effect' })
+            ])
+
+            expect(composition.segments.map(s => s.clipId)).toEqual(['main'])
+        })
+
+        it('should keep clips of imported media on the main track', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'recording', startTime: 0, endTime: 4 }),
+                makeClip({ id: 'imported', startTime: 4, endTime: 8, sourceId: 'asset-imported', sourceIn: 0, sourceOut: 4 })
+            ])
+
+            expect(composition.segments.map(s => s.sourceId)).toEqual([undefined, 'asset-imported'])
+        })
+
+        it('should cut overlapping clips at the start of the next clip', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 6 }),
+                makeClip({ id: 'b', startTime: 4, endTime: 8, sourceIn: 20 })
+            ])
+
+            expect(composition.segments[0].timelineEnd).toBe(4)
+            expect(composition.segments[0].sourceOut).toBe(4)
+            expect(composition.segments[1].sourceIn).toBe(20)
+        })
+
+        it('should default the source in-point to the timeline start', () => {
+            const composition = buildComposition([makeClip({ startTime: 3, endTime: 7 })])
+
+            expect(composition.segments[0].sourceIn).toBe(3)
+        })
+
+        it('should return an empty composition without video clips', () => {
+            const composition = buildComposition([])
+
+            expect(composition.segments).toHaveLength(0)
+            expect(composition.duration).toBe(0)
+        })
+    })
+
+    describe('createSourceComposition', () => {
+        it('should cover the whole source', () => {
+            const composition = createSourceComposition(12)
+
+            expect(composition.duration).toBe(12)
+            expect(timelineToSourceTime(composition, 7)).toBe(7)
+        })
+    })
+
+    describe('trimComposition', () => {
+        it('should cut the segment crossing the limit and drop the ones after it', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 5, sourceIn: 10 }),
+                makeClip({ id: 'b', startTime: 5, endTime: 9, sourceIn: 2 }),
+                makeClip({ id: 'c', startTime: 9, endTime: 12 })
+            ])
+
+            const trimmed = trimComposition(composition, 7)
+
+            expect(trimmed.duration).toBe(7)
+            expect(trimmed.segments.map(segment => segment.clipId)).toEqual(['a', 'b'])
+            expect(trimmed.segments[1]).toMatchObject({ timelineEnd: 7, sourceIn: 2, sourceOut: 4 })
+        })
+
+        it('should leave a composition within the limit as it is', () => {
+            const composition = createSourceComposition(12)
+
+            expect(trimComposition(composition, 60)).toBe(composition)
+        })
+    })
+
+    describe('timelineToSourceTime', () => {
+        it('should map timeline time into the clip source range', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 2, sourceIn: 8 })
+            ])
+
+            expect(timelineToSourceTime(composition, 1.5)).toBe(9.5)
+            expect(timelineToSourceTime(composition, 3)).toBeNull()
+        })
+    })
+
+    describe('sourceToTimelineTime', () => {
+        it('should map source time back onto the timeline', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 2, sourceIn: 8 }),
+                makeClip({ id: 'b', startTime: 2, endTime: 4, sourceIn: 0 })
+            ])
+
+            expect(sourceToTimelineTime(composition, 9.5)).toBe(1.5)
+            expect(sourceToTimelineTime(composition, 1)).toBe(3)
+            expect(sourceToTimelineTime(composition, 5)).toBeNull()
+        })
+
+        it('should only map time in the screen recording', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'imported', startTime: 0, endTime: 2, sourceId: 'asset-imported', sourceIn: 0 }),
+                makeRecordingClip({ id: 'recording', startTime: 2, endTime: 4, sourceIn: 0 })
+            ])
+
+            expect(sourceToTimelineTime(composition, 1)).toBe(3)
+        })
+    })
+
+    describe('getFrameSource', () => {
+        it('should take each frame from the media of the clip under it', () => {
+            const composition = buildComposition([
+                makeRecordingClip({ id: 'recording', startTime: 0, endTime: 4, sourceIn: 10 }),
+                makeClip({ id: 'imported', startTime: 4, endTime: 8, sourceId: 'asset-imported', sourceIn: 1 }),
+                makeClip({ id: 'legacy', startTime: 10, endTime: 12 })
+            ])
+
+            expect(getFrameSource(composition, 1)).toEqual({ sourceId: SCREEN_RECORDING_ASSET_ID, sourceTime: 11 })
+            expect(getFrameSource(composition, 5)).toEqual({ sourceId: 'asset-imported', sourceTime: 2 })
+            expect(getFrameSource(composition, 9)).toBeNull()
+            expect(getFrameSource(composition, 11)).toEqual({ sourceId: SCREEN_RECORDING_ASSET_ID, sourceTime: 11 })
+        })
+    })
+
+    describe('splitClipAt', () => {
+        it('should continue the right half where the left half stops', () => {
+            const [left, right] = splitClipAt(makeClip({ startTime: 2, endTime: 10, sourceIn: 5 }), 6, 'x')
+
+            expect(left).toMatchObject({ id: 'clip-left-x', startTime: 2, endTime: 6, sourceIn: 5 })
+            expect(right).toMatchObject({ id: 'clip-right-x', startTime: 6, endTime: 10, sourceIn: 9 })
+        })
+
+        it('should survive a ripple of the right half', () => {
+            const [, right] = splitClipAt(makeClip({ startTime: 0, endTime: 10 }), 4, 'x')
+            const rippled = { ...right, startTime: 0, endTime: 6 }
+
+            const composition = buildComposition([rippled])
+            expect(timelineToSourceTime(composition, 0)).toBe(4)
+        })
+    })
+
+    describe('getPlaybackPosition', () => {
+        it('should park the player at the next segment inside a gap', () => {
+            const composition = buildComposition([
+                makeClip({ id: 'a', startTime: 0, endTime: 2 }),
+                makeClip({ id: 'b', startTime: 4, endTime: 6, sourceIn: 10 })
+            ])
+
+            const position = getPlaybackPosition(composition, 3)
+            expect(position?.segment.clipId).toBe('b')
+            expect(position?.sourceTime).toBe(10)
+        })
+
+        it('should stay at the end of the last segment past the end', () => {
+            const composition = buildComposition([makeClip({ startTime: 0, endTime: 2, sourceIn: 1 })])
+
+            expect(getPlaybackPosition(composition, 5)?.sourceTime).toBe(3)
+        })
+    })
+
+    describe('syncClipSourceRange', () => {
+        it('should derive the out-point from the in-point and length', () => {
+            const clip = syncClipSourceRange(makeClip({ sourceId: 'asset', startTime: 2, endTime: 5, sourceIn: 1 }))
+
+            expect(clip.sourceOut).toBe(4)
+        })
+
+        it('should leave clips without a source untouched', () => {
+            const clip = makeClip({})
+
+            expect(syncClipSourceRange(clip)).toBe(clip)
+        })
+    })
+
+    describe('getClipResizeBounds', () => {
+        it('should stop edges at the ends of the source media', () => {
+            const bounds = getClipResizeBounds(makeClip({ startTime: 5, endTime: 8, sourceIn: 2 }), 20)
+
+            expect(bounds.minStart).toBe(3)
+            expect(bounds.maxEnd).toBe(23)
+        })
+
+        it('should not limit the end when the source length is unknown', () => {
+            expect(getClipResizeBounds(makeClip({}), 0).maxEnd).toBe(Infinity)
+        })
+    })
+
+    describe('slipClip', () => {
+        it('should move the source window without moving the clip', () => {
+            const updates = slipClip(makeClip({ startTime: 0, endTime: 4, sourceIn: 5 }), -2, 20)
+
+            expect(updates).toEqual({ sourceIn: 7, sourceOut: 11 })
+        })
+
+        it('should clamp to the source media', () => {
+            const clip = makeClip({ startTime: 0, endTime: 4, sourceIn: 5 })
+
+            expect(slipClip(clip, 10, 20).sourceIn).toBe(0)
+            expect(slipClip(clip, -30, 20).sourceIn).toBe(16)
+        })
+    })
+
+    describe('slideClip', () => {
+        const previous = makeClip({ id: 'prev', startTime: 0, endTime: 4, sourceIn: 0 })
+        const clip = makeClip({ id: 'mid', startTime: 4, endTime: 6, sourceIn: 10 })
+        const next = makeClip({ id: 'next', startTime: 6, endTime: 10, sourceIn: 20 })
+
+        it('should find touching neighbours on the same track', () => {
+            const adjacent = getAdjacentClips([previous, clip, next, makeClip({ id: 'other', trackId: 'effect-1' })], clip)
+
+            expect(adjacent.previous?.id).toBe('prev')
+            expect(adjacent.next?.id).toBe('next')
+        })
+
+        it('should let the neighbours absorb the move', () => {
+            const updates = slideClip(clip, previous, next, 1, () => 100)
+            const byId = Object.fromEntries(updates.map(u => [u.clipId, u.updates]))
+
+            expect(byId.mid).toMatchObject({ startTime: 5, endTime: 7, sourceIn: 10 })
+            expect(byId.prev).toMatchObject({ endTime: 5 })
+            expect(byId.next).toMatchObject({ startTime: 7, sourceIn: 21 })
+        })
+
+        it('should not slide past the start of the next clip source', () => {
+            const updates = slideClip(clip, previous, { ...next, sourceIn: 0.5 }, -2, () => 100)
+            const moved = updates.find(u => u.clipId === 'mid')
+
+            expect(moved?.updates.startTime).toBe(3.5)
+        })
+    })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { Caption } from '../captions'
+import { rippleDeleteClips } from '../rippleEdit'
+import { buildComposition, createSourceComposition } from '../timelineComposition'
+import { getCaptionWords, getWordSelectionRanges, mapWordsToTimeline } from '../transcriptEditing'
+import { makeRecordingClip } from './fixtures'
+
+const caption: Caption = {
+    id: 'c1',
+    start: 0,
+    end: 4,
+    text: 'so um this works',
+    words: [
+        { text: 'so', start: 0, end: 1 },
+        { text: 'um', start: 1, end: 2 },
+        { text: 'this', start: 2, end: 3 },
+        { text: 'works', start: 3, end: 4 }
+    ]
+}
+
+describe('transcriptEditing', () => {
+    it('should spread caption time over its words when it has no timings', () => {
+        const words = getCaptionWords({ id: 'c', start: 2, end: 4, text: 'hello  there' })
+
+        expect(words).toEqual([{ text: 'hello', start: 2, end: 3 }, { text: 'there', start: 3, end: 4 }])
+    })
+
+    it('should read words in timeline order after clips are moved', () => {
+        const composition = buildComposition([
+            makeRecordingClip({ id: 'late', startTime: 0, endTime: 2, sourceIn: 2, sourceOut: 4 }),
+            makeRecordingClip({ id: 'early', startTime: 2, endTime: 4, sourceIn: 0, sourceOut: 2 })
+        ])
+
+        const words = mapWordsToTimeline([caption], composition)
+
+        expect(words.map(w => [w.text, w.clipId, w.start])).toEqual([
+            ['this', 'late', 0], ['works', 'late', 1], ['so', 'early', 2], ['um', 'early', 3]
+        ])
+    })
+
+    it('should drop a deleted word from the transcript after the ripple delete', () => {
+        const clips = [makeRecordingClip({})]
+        const words = mapWordsToTimeline([caption], buildComposition(clips))
+        const ranges = getWordSelectionRanges(words, 1, 1)
+
+        const edited = rippleDeleteClips(clips, ranges[0])
+
+        expect(ranges).toEqual([{ start: 1, end: 2 }])
+        expect(mapWordsToTimeline([caption], buildComposition(edited)).map(w => [w.text, w.start]))
+            .toEqual([['so', 0], ['this', 1], ['works', 2]])
+    })
+
+    it('should cut a selection crossing clips one clip at a time', () => {
+        const composition = buildComposition([
+            makeRecordingClip({ id: 'a', endTime: 2, sourceOut: 2 }),
+            makeRecordingClip({ id: 'b', startTime: 5, endTime: 7, sourceIn: 2, sourceOut: 4 })
+        ])
+        const words = mapWordsToTimeline([caption], composition)
+
+        expect(getWordSelectionRanges(words, 2, 1)).toEqual([{ start: 1, end: 2 }, { start: 5, end: 6 }])
+    })
+
+    it('should map words against the whole recording when nothing was edited', () => {
+        expect(mapWordsToTimeline([caption], createSourceComposition(4))).toHaveLength(4)
+    })
+})
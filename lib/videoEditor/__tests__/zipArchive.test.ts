@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'node:zlib'
+import { crc32, createZipArchive, readZipArchive } from '../zipArchive'
+import { useNodeBlob } from './fixtures'
+
+const encoder = new TextEncoder()
+
+describe('zipArchive', () => {
+    useNodeBlob()
+
+    it('should compute the standard CRC-32', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+        expect(crc32(new Uint8Array())).toBe(0)
+    })
+
+    it('should read back what it writes', async () => {
+        const video = new Blob([new Uint8Array([0, 1, 2, 3, 255])], { type: 'video/webm' })
+        const archive = await createZipArchive([
+            { name: 'project.json', data: '{"name":"Démo"}' },
+            { name: 'media/clip.webm', data: video }
+        ])
+
+        const files = await readZipArchive(archive)
+
+        expect([...files.keys()]).toEqual(['project.json', 'media/clip.webm'])
+        expect(await files.get('project.json')!.text()).toBe('{"name":"Démo"}')
+        expect([...new Uint8Array(await files.get('media/clip.webm')!.arrayBuffer())]).toEqual([0, 1, 2, 3, 255])
+    })
+
+    it('should write a valid end of central directory record', async () => {
+        const archive = await createZipArchive([{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: 'bb' }])
+        const bytes = new Uint8Array(await archive.arrayBuffer())
+        const view = new DataView(bytes.buffer)
+        const end = bytes.length - 22
+
+        expect(view.getUint32(0, true)).toBe(0x04034b50)
+        expect(view.getUint32(end, true)).toBe(0x06054b50)
+        expect(view.getUint16(end + 10, true)).toBe(2)
+    })
+
+    it('should inflate deflated entries', async () => {
+        const content = 'hello hello hello hello'
+        const compressed = new Uint8Array(deflateRawSync(Buffer.from(content)))
+        const name = encoder.encode('note.txt')
+
+        // Hand-built archive with a single deflated entry
+        const local = new DataView(new ArrayBuffer(30))
+        local.setUint32(0, 0x04034b50, true)
+        local.setUint16(8, 8, true)
+        local.setUint32(14, crc32(encoder.encode(content)), true)
+        local.setUint32(18, compressed.length, true)
+        local.setUint32(22, content.length, true)
+        local.setUint16(26, name.length, true)
+
+        const central = new DataView(new ArrayBuffer(46))
+        central.setUint32(0, 0x02014b50, true)
+        central.setUint16(10, 8, true)
+        central.setUint32(20, compressed.length, true)
+        central.setUint32(24, content.length, true)
+        central.setUint16(28, name.length, true)
+
+        const directoryOffset = 30 + name.length + compressed.length
+        const end = new DataView(new ArrayBuffer(22))
+        end.setUint32(0, 0x06054b50, true)
+        end.setUint16(8, 1, true)
+        end.setUint16(10, 1, true)
+        end.setUint32(12, 46 + name.length, true)
+        end.setUint32(16, directoryOffset, true)
+
+        const archive = new Blob([local.buffer, name, compressed, central.buffer, name, end.buffer])
+        const files = await readZipArchive(archive)
+
+        expect(await files.get('note.txt')!.text()).toBe(content)
+    })
+
+    it('should reject files that are not ZIP archives', async () => {
+        await expect(readZipArchive(new Blob(['not a zip']))).rejects.toThrow('Not a ZIP archive')
+    })
+})
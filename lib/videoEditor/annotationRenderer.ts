@@ -0,0 +1,239 @@
+import type { Annotation } from '@/components/VideoAnnotation'
+import { wrapCaptionText } from './captions'
+
+export interface AnnotationBounds {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+// Stroke widths and font sizes are authored for a frame this tall
+const REFERENCE_FRAME_HEIGHT = 1080
+const DEFAULT_STROKE_WIDTH = 3
+const DEFAULT_FONT_SIZE = 24
+// Size of shapes saved without one, as a percentage of the frame
+const DEFAULT_SHAPE_SIZE = { width: 15, height: 12 }
+const TEXT_PADDING = 0.4
+const CORNER_RADIUS = 8
+const ARROW_HEAD_LENGTH = 15
+
+export const isAnnotationVisible = (annotation: Annotation, time: number): boolean =>
+    time >= annotation.startTime && time <= annotation.endTime
+
+// Shapes may be drawn from any corner, which leaves a negative width or height
+const getShapeBox = (annotation: Annotation) => {
+    const width = annotation.width ?? DEFAULT_SHAPE_SIZE.width
+    const height = annotation.height ?? DEFAULT_SHAPE_SIZE.height
+    return {
+        x: Math.min(annotation.x, annotation.x + width),
+        y: Math.min(annotation.y, annotation.y + height),
+        width: Math.abs(width),
+        height: Math.abs(height)
+    }
+}
+
+const getTextFont = (annotation: Annotation, scale: number) =>
+    `${annotation.fontWeight || 'bold'} ${(annotation.fontSize || DEFAULT_FONT_SIZE) * scale}px Arial, sans-serif`
+
+const getTextLines = (ctx: CanvasRenderingContext2D, annotation: Annotation, frameWidth: number) => {
+    const maxWidth = annotation.width ? (Math.abs(annotation.width) / 100) * frameWidth : Infinity
+    return wrapCaptionText(annotation.content || '', maxWidth, line => ctx.measureText(line).width)
+}
+
+/**
+ * Where an annotation sits on a frame of the given size, in pixels. Text is
+ * measured with ctx, so its font has to be available to that context.
+ */
+export const getAnnotationBounds = (
+    ctx: CanvasRenderingContext2D,
+    annotation: Annotation,
+    frameWidth: number,
+    frameHeight: number
+): AnnotationBounds => {
+    const scale = frameHeight / REFERENCE_FRAME_HEIGHT
+    const toX = (value: number) => (value / 100) * frameWidth
+    const toY = (value: number) => (value / 100) * frameHeight
+
+    switch (annotation.type) {
+        case 'text': {
+            const fontSize = (annotation.fontSize || DEFAULT_FONT_SIZE) * scale
+            const padding = fontSize * TEXT_PADDING
+            ctx.save()
+            ctx.font = getTextFont(annotation, scale)
+            const lines = getTextLines(ctx, annotation, frameWidth)
+            const textWidth = Math.max(0, ...lines.map(line => ctx.measureText(line).width))
+            ctx.restore()
+            return {
+                x: toX(annotation.x),
+                y: toY(annotation.y),
+                width: textWidth + padding * 2,
+                height: Math.max(1, lines.length) * fontSize * 1.2 + padding * 2
+            }
+        }
+        case 'arrow':
+        case 'line':
+        case 'freehand': {
+            const points = annotation.type === 'freehand'
+                ? annotation.points ?? [{ x: annotation.x, y: annotation.y }]
+                : [{ x: annotation.x, y: annotation.y }, { x: annotation.endX ?? annotation.x, y: annotation.endY ?? annotation.y }]
+            const xs = points.map(point => toX(point.x))
+            const ys = points.map(point => toY(point.y))
+            const x = Math.min(...xs)
+            const y = Math.min(...ys)
+            return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+        }
+        default: {
+            const box = getShapeBox(annotation)
+            return { x: toX(box.x), y: toY(box.y), width: toX(box.width), height: toY(box.height) }
+        }
+    }
+}
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+    ctx.beginPath()
+    ctx.moveTo(x + r, y)
+    ctx.arcTo(x + width, y, x + width, y + height, r)
+    ctx.arcTo(x + width, y + height, x, y + height, r)
+    ctx.arcTo(x, y + height, x, y, r)
+    ctx.arcTo(x, y, x + width, y, r)
+    ctx.closePath()
+}
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, length: number) => {
+    const angle = Math.atan2(y2 - y1, x2 - x1)
+    ctx.beginPath()
+    ctx.moveTo(x2, y2)
+    ctx.lineTo(x2 - length * Math.cos(angle - Math.PI / 6), y2 - length * Math.sin(angle - Math.PI / 6))
+    ctx.moveTo(x2, y2)
+    ctx.lineTo(x2 - length * Math.cos(angle + Math.PI / 6), y2 - length * Math.sin(angle + Math.PI / 6))
+    ctx.stroke()
+}
+
+/**
+ * Draw one annotation onto a frame. Used by both the preview and the
+ * exporter so exported annotations land where they were placed.
+ */
+export const drawAnnotation = (
+    ctx: CanvasRenderingContext2D,
+    annotation: Annotation,
+    frameWidth: number,
+    frameHeight: number,
+    isSelected: boolean = false
+) => {
+    const scale = frameHeight / REFERENCE_FRAME_HEIGHT
+    const toX = (value: number) => (value / 100) * frameWidth
+    const toY = (value: number) => (value / 100) * frameHeight
+    const strokeWidth = (annotation.strokeWidth || DEFAULT_STROKE_WIDTH) * scale
+
+    ctx.save()
+    ctx.strokeStyle = annotation.color
+    ctx.fillStyle = annotation.color
+    ctx.lineWidth = strokeWidth
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    if (isSelected) {
+        ctx.shadowColor = annotation.color
+        ctx.shadowBlur = 10 * scale
+    }
+
+    switch (annotation.type) {
+        case 'text': {
+            const bounds = getAnnotationBounds(ctx, annotation, frameWidth, frameHeight)
+            const fontSize = (annotation.fontSize || DEFAULT_FONT_SIZE) * scale
+            const padding = fontSize * TEXT_PADDING
+            ctx.font = getTextFont(annotation, scale)
+            ctx.textBaseline = 'top'
+            ctx.fillStyle = annotation.backgroundColor || 'rgba(0, 0, 0, 0.5)'
+            traceRoundedRect(ctx, bounds.x, bounds.y, bounds.width, bounds.height, CORNER_RADIUS * scale)
+            ctx.fill()
+            ctx.fillStyle = annotation.color
+            getTextLines(ctx, annotation, frameWidth).forEach((line, index) => {
+                ctx.fillText(line, bounds.x + padding, bounds.y + padding + index * fontSize * 1.2)
+            })
+            break
+        }
+
+        case 'arrow':
+        case 'line': {
+            if (annotation.endX === undefined || annotation.endY === undefined) break
+            const [x1, y1, x2, y2] = [toX(annotation.x), toY(annotation.y), toX(annotation.endX), toY(annotation.endY)]
+            ctx.beginPath()
+            ctx.moveTo(x1, y1)
+            ctx.lineTo(x2, y2)
+            ctx.stroke()
+            if (annotation.type === 'arrow') {
+                drawArrowHead(ctx, x1, y1, x2, y2, ARROW_HEAD_LENGTH * scale + strokeWidth * 2)
+            }
+            break
+        }
+
+        case 'rectangle':
+        case 'highlight': {
+            const box = getShapeBox(annotation)
+            traceRoundedRect(ctx, toX(box.x), toY(box.y), toX(box.width), toY(box.height), CORNER_RADIUS * scale)
+            if (annotation.type === 'highlight') {
+                ctx.fillStyle = annotation.backgroundColor || `${annotation.color}40`
+                ctx.fill()
+                ctx.lineWidth = 2 * scale
+            }
+            ctx.stroke()
+            break
+        }
+
+        case 'circle': {
+            const box = getShapeBox(annotation)
+            ctx.beginPath()
+            ctx.ellipse(
+                toX(box.x + box.width / 2),
+                toY(box.y + box.height / 2),
+                toX(box.width / 2),
+                toY(box.height / 2),
+                0,
+                0,
+                2 * Math.PI
+            )
+            ctx.stroke()
+            break
+        }
+
+        case 'freehand': {
+            const points = annotation.points ?? []
+            if (points.length < 2) break
+            ctx.beginPath()
+            ctx.moveTo(toX(points[0].x), toY(points[0].y))
+            points.slice(1).forEach(point => ctx.lineTo(toX(point.x), toY(point.y)))
+            ctx.stroke()
+            break
+        }
+    }
+
+    ctx.restore()
+}
+
+// Draw every annotation showing at a timeline time, in the order they were added
+export const drawAnnotations = (
+    ctx: CanvasRenderingContext2D,
+    annotations: Annotation[],
+    time: number,
+    frameWidth: number,
+    frameHeight: number,
+    selectedId: string | null = null
+) => {
+    annotations
+        .filter(annotation => isAnnotationVisible(annotation, time))
+        .forEach(annotation => drawAnnotation(ctx, annotation, frameWidth, frameHeight, annotation.id === selectedId))
+}
+
+/**
+ * Move an annotation by a distance in frame percentages. Every point moves,
+ * so lines, arrows and freehand strokes keep their shape.
+ */
+export const offsetAnnotation = (annotation: Annotation, dx: number, dy: number): Partial<Annotation> => {
+    const updates: Partial<Annotation> = { x: annotation.x + dx, y: annotation.y + dy }
+    if (annotation.endX !== undefined) updates.endX = annotation.endX + dx
+    if (annotation.endY !== undefined) updates.endY = annotation.endY + dy
+    if (annotation.points) updates.points = annotation.points.map(point => ({ x: point.x + dx, y: point.y + dy }))
+    return updates
+}
@@ -0,0 +1,253 @@
+import { Clip } from '@/hooks/useClips'
+import { AudioProcessor, SilenceRange, decodeAudioTrack, detectSilences } from '@/lib/videoEnhancement'
+import { SCREEN_RECORDING_ASSET_ID } from './mediaAssets'
+import { TimeRange } from './rippleEdit'
+import {
+    MAIN_VIDEO_TRACK_ID,
+    TimelineComposition,
+    buildComposition,
+    getClipSourceIn,
+    getSegmentSourceId,
+    isRecordingSegment
+} from './timelineComposition'
+import { Track, getTrackGain } from './timelineTracks'
+
+// The video tracks play the sound of the media under their clips and the
+// audio tracks play imported music. Everything is mixed in timeline time.
+
+export interface AudioMixSettings {
+    // Lower the music while the recording has speech
+    duckMusic: boolean
+    // Music volume under speech, as a fraction of its normal volume
+    duckLevel: number
+    // Bring imported music to an even loudness before it is mixed
+    normalizeMusic: boolean
+}
+
+// A gain at a timeline time; gains ramp linearly between points
+export interface GainPoint {
+    time: number
+    gain: number
+}
+
+export const DEFAULT_AUDIO_MIX: AudioMixSettings = {
+    duckMusic: true,
+    duckLevel: 0.3,
+    normalizeMusic: false
+}
+
+export const MAX_CLIP_GAIN = 2
+export const MAX_CLIP_FADE = 5
+
+// Seconds the music takes to duck and to come back up
+const DUCK_FADE = 0.3
+// Pauses in speech shorter than this keep the music down
+const MIN_DUCK_PAUSE = 1
+
+const MUSIC_NORMALIZER_CONFIG = {
+    enableNoiseReduction: false,
+    enableVolumeNormalization: true,
+    enableVoiceEnhancement: false,
+    enableEchoCancellation: false
+}
+
+/**
+ * A clip's gain over its length, with its fades. Fades are kept to half the
+ * clip each so they never cross.
+ */
+export const getClipGainEnvelope = (clip: Clip): GainPoint[] => {
+    const gain = clip.muted ? 0 : clip.gain ?? 1
+    const duration = clip.endTime - clip.startTime
+    const fadeIn = Math.min(Math.max(0, clip.fadeIn ?? 0), duration / 2)
+    const fadeOut = Math.min(Math.max(0, clip.fadeOut ?? 0), duration / 2)
+
+    const points: GainPoint[] = [{ time: clip.startTime, gain: fadeIn > 0 ? 0 : gain }]
+    if (fadeIn > 0) points.push({ time: clip.startTime + fadeIn, gain })
+    if (fadeOut > 0) points.push({ time: clip.endTime - fadeOut, gain }, { time: clip.endTime, gain: 0 })
+    return points
+}
+
+// The gain an envelope gives at a time; it holds its first and last gains outside its points
+export const getGainAtTime = (points: GainPoint[], time: number): number => {
+    if (points.length === 0) return 1
+    if (time <= points[0].time) return points[0].gain
+
+    for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1]
+        const to = points[i]
+        if (time <= to.time) {
+            const span = to.time - from.time
+            return span > 0 ? from.gain + (to.gain - from.gain) * (time - from.time) / span : to.gain
+        }
+    }
+    return points[points.length - 1].gain
+}
+
+// Where on the timeline the screen recording is heard between its pauses
+export const getSpeechRanges = (silences: SilenceRange[], composition: TimelineComposition): TimeRange[] => {
+    const sorted = [...silences].sort((a, b) => a.start - b.start)
+
+    return composition.segments
+        .filter(isRecordingSegment)
+        .flatMap(segment => {
+            const ranges: TimeRange[] = []
+            let start = segment.sourceIn
+            sorted
+                .filter(silence => silence.end > segment.sourceIn && silence.start < segment.sourceOut)
+                .forEach(silence => {
+                    if (silence.start > start) ranges.push({ start, end: silence.start })
+                    start = Math.max(start, silence.end)
+                })
+            if (start < segment.sourceOut) ranges.push({ start, end: segment.sourceOut })
+
+            return ranges.map(range => ({
+                start: segment.timelineStart + (range.start - segment.sourceIn),
+                end: segment.timelineStart + (range.end - segment.sourceIn)
+            }))
+        })
+        .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Music gain that dips to the duck level under speech. Speech with short
+ * pauses is treated as one stretch so the music does not pump between words.
+ */
+export const getDuckingEnvelope = (speech: TimeRange[], duckLevel: number): GainPoint[] => {
+    const merged: TimeRange[] = []
+    speech.forEach(range => {
+        const last = merged[merged.length - 1]
+        if (last && range.start - last.end < MIN_DUCK_PAUSE) {
+            last.end = Math.max(last.end, range.end)
+        } else {
+            merged.push({ ...range })
+        }
+    })
+
+    return merged.flatMap(range => [
+        { time: Math.max(0, range.start - DUCK_FADE), gain: 1 },
+        { time: range.start, gain: duckLevel },
+        { time: range.end, gain: duckLevel },
+        { time: range.end + DUCK_FADE, gain: 1 }
+    ])
+}
+
+const applyEnvelope = (param: AudioParam, points: GainPoint[]) => {
+    points.forEach((point, index) => {
+        const time = Math.max(0, point.time)
+        if (index === 0) param.setValueAtTime(point.gain, time)
+        else param.linearRampToValueAtTime(point.gain, time)
+    })
+}
+
+export interface TimelineAudioMix {
+    clips: Clip[]
+    tracks: Track[]
+    // What the main video track plays; the whole recording when nothing was edited
+    composition: TimelineComposition
+    settings: AudioMixSettings
+    // The media a source id refers to, or null when it is not available. Sound
+    // that was already decoded, such as an enhanced recording, is used as it is
+    loadSource: (sourceId: string) => Promise<Blob | AudioBuffer | null>
+}
+
+/**
+ * Render the sound of the timeline: the media under the video clips and the
+ * music on the audio tracks, with every clip's gain and fades, every track's
+ * volume, mute and solo, and the music ducked under the recording's speech.
+ * Resolves to null when nothing would be heard.
+ */
+export const mixTimelineAudio = async (mix: TimelineAudioMix): Promise<AudioBuffer | null> => {
+    const { clips, tracks, composition, settings, loadSource } = mix
+    if (composition.duration <= 0) return null
+
+    // Decoding needs a realtime context; the mix itself is rendered offline
+    const decoder = new AudioContext()
+    const decoded = new Map<string, Promise<AudioBuffer | null>>()
+    const decode = (sourceId: string): Promise<AudioBuffer | null> => {
+        if (!decoded.has(sourceId)) {
+            decoded.set(sourceId, loadSource(sourceId).then(source =>
+                source instanceof Blob ? decodeAudioTrack(source, decoder) : source
+            ))
+        }
+        return decoded.get(sourceId)!
+    }
+
+    try {
+        const context = new OfflineAudioContext(2, Math.ceil(composition.duration * decoder.sampleRate), decoder.sampleRate)
+        let scheduled = 0
+
+        const createTrackOutput = (trackId: string, ducking: GainPoint[] = []): AudioNode => {
+            const volume = context.createGain()
+            volume.gain.value = getTrackGain(trackId, tracks)
+            const duck = context.createGain()
+            applyEnvelope(duck.gain, ducking)
+            volume.connect(duck).connect(context.destination)
+            return volume
+        }
+
+        const schedule = (buffer: AudioBuffer, start: number, sourceIn: number, duration: number, envelope: GainPoint[], output: AudioNode) => {
+            if (duration <= 0) return
+            const source = context.createBufferSource()
+            source.buffer = buffer
+            const gain = context.createGain()
+            applyEnvelope(gain.gain, envelope)
+            source.connect(gain).connect(output)
+            source.start(start, sourceIn, duration)
+            scheduled++
+        }
+
+        // The main track is always mixed, even when its row was deleted from the timeline
+        const videoTrackIds = [MAIN_VIDEO_TRACK_ID, ...tracks.filter(t => t.type === 'video' && t.id !== MAIN_VIDEO_TRACK_ID).map(t => t.id)]
+        for (const trackId of videoTrackIds) {
+            if (getTrackGain(trackId, tracks) <= 0) continue
+            const segments = trackId === MAIN_VIDEO_TRACK_ID ? composition.segments : buildComposition(clips, trackId).segments
+            const output = createTrackOutput(trackId)
+            for (const segment of segments) {
+                const buffer = await decode(getSegmentSourceId(segment))
+                const clip = clips.find(c => c.id === segment.clipId)
+                if (!buffer) continue
+                schedule(
+                    buffer,
+                    segment.timelineStart,
+                    segment.sourceIn,
+                    segment.timelineEnd - segment.timelineStart,
+                    clip ? getClipGainEnvelope(clip) : [],
+                    output
+                )
+            }
+        }
+
+        const musicTracks = tracks.filter(track => track.type === 'audio' && getTrackGain(track.id, tracks) > 0)
+        const musicClips = clips.filter(clip => clip.sourceId && musicTracks.some(track => track.id === clip.trackId))
+        if (musicClips.length > 0) {
+            const recording = settings.duckMusic && getTrackGain(MAIN_VIDEO_TRACK_ID, tracks) > 0
+                ? await decode(SCREEN_RECORDING_ASSET_ID)
+                : null
+            const ducking = recording
+                ? getDuckingEnvelope(getSpeechRanges(detectSilences(recording, { minDuration: MIN_DUCK_PAUSE }), composition), settings.duckLevel)
+                : []
+
+            const processor = settings.normalizeMusic ? new AudioProcessor(MUSIC_NORMALIZER_CONFIG) : null
+            const normalized = new Map<string, AudioBuffer>()
+
+            for (const track of musicTracks) {
+                const output = createTrackOutput(track.id, ducking)
+                for (const clip of musicClips.filter(c => c.trackId === track.id)) {
+                    const sourceId = clip.sourceId!
+                    let buffer = await decode(sourceId)
+                    if (!buffer) continue
+                    if (processor) {
+                        if (!normalized.has(sourceId)) normalized.set(sourceId, processor.applyVolumeNormalization(buffer))
+                        buffer = normalized.get(sourceId)!
+                    }
+                    schedule(buffer, clip.startTime, getClipSourceIn(clip), clip.endTime - clip.startTime, getClipGainEnvelope(clip), output)
+                }
+            }
+        }
+
+        if (scheduled === 0) return null
+        return await context.startRendering()
+    } finally {
+        decoder.close()
+    }
+}
@@ -0,0 +1,308 @@
+import { TransitionPreset, easeTransitionProgress } from '@/lib/templates/transitionPresets'
+import { calculateMotionVectors } from '@/lib/videoEnhancement/utils/motionDetection'
+import { CursorTrack } from './cursorTracking'
+import { TimelineComposition, sourceToTimelineTime } from './timelineComposition'
+
+// Activity is found in recording time, like pauses, and only placed on the
+// timeline when zooms are generated, so zooms follow the current edit.
+
+export type ZoomEasing = TransitionPreset['easing']
+
+// A stretch of the timeline where the camera punches in on one spot
+export interface ZoomSegment {
+    id: string
+    // In timeline time
+    startTime: number
+    endTime: number
+    // How far to zoom in; 2 shows half the width of the recording
+    scale: number
+    // Spot to zoom in on, as fractions of the recording
+    x: number
+    y: number
+    easing: ZoomEasing
+    // Seconds the zoom takes to punch in and to ease back out
+    transitionDuration: number
+}
+
+// Something happening on screen at a time in the recording, as fractions of the frame
+export interface ActivityPoint {
+    time: number
+    x: number
+    y: number
+}
+
+export interface AutoZoomOptions {
+    scale: number
+    easing: ZoomEasing
+    transitionDuration: number
+}
+
+export interface ZoomState {
+    scale: number
+    x: number
+    y: number
+}
+
+// Part of the canvas the recording is drawn into, in pixels
+export interface ZoomFrame {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export const DEFAULT_AUTO_ZOOM_OPTIONS: AutoZoomOptions = {
+    scale: 2,
+    easing: 'ease-in-out',
+    transitionDuration: 0.6
+}
+
+export const ZOOM_EASINGS: { id: ZoomEasing; label: string }[] = [
+    { id: 'linear', label: 'Linear' },
+    { id: 'ease-in', label: 'Ease In' },
+    { id: 'ease-out', label: 'Ease Out' },
+    { id: 'ease-in-out', label: 'Ease In Out' }
+]
+
+export const MIN_ZOOM_SCALE = 1.1
+export const MAX_ZOOM_SCALE = 4
+export const MIN_ZOOM_DURATION = 0.5
+// Length of a zoom added by hand
+export const DEFAULT_ZOOM_DURATION = 3
+
+const NO_ZOOM: ZoomState = { scale: 1, x: 0.5, y: 0.5 }
+// Activity closer together than this in time and space is one zoom
+const MAX_ACTIVITY_GAP = 2
+const MAX_ACTIVITY_SPREAD = 0.3
+// How long a zoom starts before the first activity and holds after the last
+const ZOOM_LEAD = 0.4
+const ZOOM_HOLD = 1.5
+const MIN_GENERATED_DURATION = 2
+// Zooms this close together pan from one spot to the next instead of zooming out in between
+const PAN_GAP = 0.05
+
+// Motion is looked for in small frames a few times a second
+const MOTION_SAMPLE_INTERVAL = 0.5
+const MOTION_FRAME_WIDTH = 96
+const MOTION_BLOCK_SIZE = 8
+// A frame where most blocks moved is a scroll or a cut, not a spot to zoom in on
+const MAX_MOVING_FRACTION = 0.5
+
+export const createZoomSegmentId = () => `zoom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+export const createZoomSegment = (
+    startTime: number,
+    endTime: number,
+    focus: { x: number; y: number } = NO_ZOOM,
+    options: AutoZoomOptions = DEFAULT_AUTO_ZOOM_OPTIONS
+): ZoomSegment => ({
+    id: createZoomSegmentId(),
+    startTime,
+    endTime: Math.max(endTime, startTime + MIN_ZOOM_DURATION),
+    scale: options.scale,
+    x: focus.x,
+    y: focus.y,
+    easing: options.easing,
+    transitionDuration: options.transitionDuration
+})
+
+// Clicks are where the action is in a tutorial
+export const getCursorActivity = (track: CursorTrack): ActivityPoint[] =>
+    track.clicks.map(click => ({ time: click.time, x: click.x, y: click.y }))
+
+/**
+ * Where motion happened between two frames, from the motion detector's block
+ * vectors, or null when nothing or nearly everything moved.
+ */
+export const getMotionActivity = (previous: ImageData, next: ImageData, time: number): ActivityPoint | null => {
+    const vectors = calculateMotionVectors(previous, next, MOTION_BLOCK_SIZE)
+    const columns = Math.ceil((previous.width - MOTION_BLOCK_SIZE) / MOTION_BLOCK_SIZE)
+    if (vectors.length === 0 || columns <= 0) return null
+
+    const moving = vectors
+        .map((vector, index) => ({ vector, column: index % columns, row: Math.floor(index / columns) }))
+        .filter(({ vector }) => vector.magnitude > 0)
+    if (moving.length === 0 || moving.length / vectors.length > MAX_MOVING_FRACTION) return null
+
+    const center = (position: number) => position * MOTION_BLOCK_SIZE + MOTION_BLOCK_SIZE / 2
+    return {
+        time,
+        x: moving.reduce((sum, block) => sum + center(block.column), 0) / moving.length / previous.width,
+        y: moving.reduce((sum, block) => sum + center(block.row), 0) / moving.length / previous.height
+    }
+}
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onSeeked = () => {
+            cleanup()
+            resolve()
+        }
+        const onError = () => {
+            cleanup()
+            reject(new Error('Failed to seek the recording'))
+        }
+        const cleanup = () => {
+            video.removeEventListener('seeked', onSeeked)
+            video.removeEventListener('error', onError)
+        }
+        video.addEventListener('seeked', onSeeked)
+        video.addEventListener('error', onError)
+        video.currentTime = time
+    })
+
+/**
+ * Step through a recording and collect where motion happens. Frames are
+ * shrunk first, as block matching full-size frames would take minutes.
+ */
+export const detectMotionActivity = async (
+    recording: Blob,
+    onProgress?: (progress: number) => void
+): Promise<ActivityPoint[]> => {
+    const video = document.createElement('video')
+    const url = URL.createObjectURL(recording)
+    video.muted = true
+    video.preload = 'auto'
+    video.src = url
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            video.onloadeddata = () => resolve()
+            video.onerror = () => reject(new Error('Failed to load the recording'))
+        })
+
+        const width = MOTION_FRAME_WIDTH
+        const height = Math.max(MOTION_BLOCK_SIZE * 2, Math.round(width * video.videoHeight / Math.max(1, video.videoWidth)))
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })
+        if (!ctx) throw new Error('Canvas is not available')
+
+        const activity: ActivityPoint[] = []
+        let previous: ImageData | null = null
+        const duration = Number.isFinite(video.duration) ? video.duration : 0
+        for (let time = 0; time < duration; time += MOTION_SAMPLE_INTERVAL) {
+            await seekTo(video, time)
+            ctx.drawImage(video, 0, 0, width, height)
+            const frame = ctx.getImageData(0, 0, width, height)
+            const point = previous ? getMotionActivity(previous, frame, time) : null
+            if (point) activity.push(point)
+            previous = frame
+            onProgress?.(Math.min(1, time / duration))
+        }
+        return activity
+    } finally {
+        video.removeAttribute('src')
+        video.load()
+        URL.revokeObjectURL(url)
+    }
+}
+
+/**
+ * Group activity into zooms on the timeline. Activity close together in time
+ * and place becomes one zoom centered on it, starting just before the first
+ * event and holding a moment after the last. Activity in parts of the
+ * recording the edit leaves out is dropped.
+ */
+export const generateZoomSegments = (
+    activity: ActivityPoint[],
+    composition: TimelineComposition,
+    options: AutoZoomOptions = DEFAULT_AUTO_ZOOM_OPTIONS
+): ZoomSegment[] => {
+    const placed = activity
+        .flatMap(point => {
+            const time = sourceToTimelineTime(composition, point.time)
+            return time === null ? [] : [{ ...point, time }]
+        })
+        .sort((a, b) => a.time - b.time)
+
+    const groups: ActivityPoint[][] = []
+    placed.forEach(point => {
+        const group = groups[groups.length - 1]
+        const last = group?.[group.length - 1]
+        const centerX = group ? group.reduce((sum, p) => sum + p.x, 0) / group.length : 0
+        const centerY = group ? group.reduce((sum, p) => sum + p.y, 0) / group.length : 0
+        if (group && point.time - last.time <= MAX_ACTIVITY_GAP &&
+            Math.hypot(point.x - centerX, point.y - centerY) <= MAX_ACTIVITY_SPREAD) {
+            group.push(point)
+        } else {
+            groups.push([point])
+        }
+    })
+
+    const segments: ZoomSegment[] = []
+    groups.forEach(group => {
+        const previous = segments[segments.length - 1]
+        const startTime = Math.max(0, group[0].time - ZOOM_LEAD, previous?.endTime ?? 0)
+        const endTime = Math.min(
+            composition.duration,
+            Math.max(group[group.length - 1].time + ZOOM_HOLD, startTime + MIN_GENERATED_DURATION)
+        )
+        if (endTime - startTime < MIN_ZOOM_DURATION) return
+
+        const focus = {
+            x: group.reduce((sum, p) => sum + p.x, 0) / group.length,
+            y: group.reduce((sum, p) => sum + p.y, 0) / group.length
+        }
+        segments.push(createZoomSegment(startTime, endTime, focus, options))
+    })
+    return segments
+}
+
+const mixZoom = (from: ZoomState, to: ZoomState, amount: number): ZoomState => ({
+    scale: from.scale + (to.scale - from.scale) * amount,
+    x: from.x + (to.x - from.x) * amount,
+    y: from.y + (to.y - from.y) * amount
+})
+
+/**
+ * How far the camera is zoomed in, and on what, at a timeline time. Each zoom
+ * eases in and out over its transition, taking at most half of the zoom. A
+ * zoom that starts where the previous one ends pans across from it instead.
+ */
+export const getZoomAtTime = (segments: ZoomSegment[], time: number): ZoomState => {
+    const sorted = [...segments].sort((a, b) => a.startTime - b.startTime)
+    const index = sorted.findIndex(segment => time >= segment.startTime && time <= segment.endTime)
+    if (index < 0) return NO_ZOOM
+
+    const segment = sorted[index]
+    const previous = sorted[index - 1]
+    const next = sorted[index + 1]
+    const target: ZoomState = { scale: segment.scale, x: segment.x, y: segment.y }
+    const ramp = Math.min(segment.transitionDuration, (segment.endTime - segment.startTime) / 2)
+    if (ramp <= 0) return target
+
+    const entering = (time - segment.startTime) / ramp
+    if (entering < 1) {
+        const from = previous && segment.startTime - previous.endTime <= PAN_GAP
+            ? { scale: previous.scale, x: previous.x, y: previous.y }
+            : NO_ZOOM
+        return mixZoom(from, target, easeTransitionProgress(entering, segment.easing))
+    }
+
+    const exiting = (segment.endTime - time) / ramp
+    const pansOn = next && next.startTime - segment.endTime <= PAN_GAP
+    if (exiting < 1 && !pansOn) {
+        return mixZoom(NO_ZOOM, target, easeTransitionProgress(exiting, segment.easing))
+    }
+    return target
+}
+
+/**
+ * Where to draw the recording so the zoom's spot is magnified. The frame
+ * grows by the zoom's scale and is moved so the spot sits in the middle,
+ * without letting the edges come into view.
+ */
+export const getZoomedFrame = (frame: ZoomFrame, zoom: ZoomState): ZoomFrame => {
+    const scale = Math.max(1, zoom.scale)
+    const width = frame.width * scale
+    const height = frame.height * scale
+    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+    return {
+        x: clamp(frame.x + frame.width / 2 - zoom.x * width, frame.x + frame.width - width, frame.x),
+        y: clamp(frame.y + frame.height / 2 - zoom.y * height, frame.y + frame.height - height, frame.y),
+        width,
+        height
+    }
+}
@@ -0,0 +1,291 @@
+import { z } from 'zod'
+import { BrandKit } from '@/lib/templates/brandKit'
+import { toSafeFileName } from './projectBundle'
+
+// Custom brand kits are saved without image URLs; logo and watermark images
+// are stored next to them as blobs, keyed by the logo or watermark id
+interface BrandImageRecord {
+    key: string
+    kitId: string
+    imageId: string
+    blob: Blob
+}
+
+export interface StoredBrandKit {
+    kit: BrandKit
+    images: Record<string, Blob>
+}
+
+export const BRAND_KIT_DB_NAME = 'snipai-brand-kits'
+const BRAND_KIT_DB_VERSION = 1
+const KITS_STORE = 'kits'
+const IMAGES_STORE = 'images'
+
+export const BRAND_KIT_FILE_FORMAT = 'snip-brand-kit'
+export const BRAND_KIT_FILE_VERSION = 1
+export const BRAND_KIT_FILE_EXTENSION = '.brandkit.json'
+
+export class BrandKitFileError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'BrandKitFileError'
+    }
+}
+
+export const createBrandKitId = () => `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+export const createBrandImageId = () => `image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+const getImageKey = (kitId: string, imageId: string) => `${kitId}:${imageId}`
+
+export const isCustomBrandKit = (kit: BrandKit) => kit.id.startsWith('custom-')
+
+// Point every logo and watermark at a URL for its image, or clear it when there is none
+export const withBrandKitImageUrls = (kit: BrandKit, urls: Record<string, string>): BrandKit => ({
+    ...kit,
+    logos: kit.logos.map(logo => ({ ...logo, url: urls[logo.id] ?? '' })),
+    watermarks: kit.watermarks.map(watermark => ({ ...watermark, url: urls[watermark.id] ?? '' }))
+})
+
+const getImageIds = (kit: BrandKit) => new Set([...kit.logos, ...kit.watermarks].map(item => item.id))
+
+// Only the images of logos and watermarks the kit still has
+export const pickBrandKitImages = (kit: BrandKit, images: Record<string, Blob>): Record<string, Blob> => {
+    const imageIds = getImageIds(kit)
+    return Object.fromEntries(Object.entries(images).filter(([imageId]) => imageIds.has(imageId)))
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+    })
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openBrandKitDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'))
+    }
+
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(BRAND_KIT_DB_NAME, BRAND_KIT_DB_VERSION)
+
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(KITS_STORE)) {
+                    db.createObjectStore(KITS_STORE, { keyPath: 'id' })
+                }
+                if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+                    const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'key' })
+                    images.createIndex('kitId', 'kitId')
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        }).catch((error) => {
+            // Let the next call try again
+            databasePromise = null
+            throw error
+        })
+    }
+
+    return databasePromise
+}
+
+/**
+ * Save a custom brand kit with the images of its logos and watermarks.
+ * Stored images the kit no longer uses are deleted.
+ */
+export const saveBrandKit = async (kit: BrandKit, images: Record<string, Blob>): Promise<void> => {
+    const db = await openBrandKitDatabase()
+    const transaction = db.transaction([KITS_STORE, IMAGES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(KITS_STORE).put(withBrandKitImageUrls(kit, {}))
+
+    const imageIds = getImageIds(kit)
+    const imageStore = transaction.objectStore(IMAGES_STORE)
+    for (const [imageId, blob] of Object.entries(pickBrandKitImages(kit, images))) {
+        const entry: BrandImageRecord = { key: getImageKey(kit.id, imageId), kitId: kit.id, imageId, blob }
+        imageStore.put(entry)
+    }
+
+    const storedKeys = await requestToPromise(imageStore.index('kitId').getAllKeys(kit.id))
+    for (const key of storedKeys) {
+        const imageId = String(key).slice(kit.id.length + 1)
+        if (!imageIds.has(imageId)) imageStore.delete(key)
+    }
+
+    await done
+}
+
+export const loadBrandKits = async (): Promise<StoredBrandKit[]> => {
+    const db = await openBrandKitDatabase()
+    const transaction = db.transaction([KITS_STORE, IMAGES_STORE], 'readonly')
+
+    const kits = await requestToPromise<BrandKit[]>(transaction.objectStore(KITS_STORE).getAll())
+    const entries = await requestToPromise<BrandImageRecord[]>(transaction.objectStore(IMAGES_STORE).getAll())
+
+    return kits
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(kit => ({
+            kit,
+            images: Object.fromEntries(
+                entries.filter(entry => entry.kitId === kit.id).map(entry => [entry.imageId, entry.blob])
+            )
+        }))
+}
+
+export const deleteBrandKit = async (kitId: string): Promise<void> => {
+    const db = await openBrandKitDatabase()
+    const transaction = db.transaction([KITS_STORE, IMAGES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(KITS_STORE).delete(kitId)
+
+    const imageStore = transaction.objectStore(IMAGES_STORE)
+    const keys = await requestToPromise(imageStore.index('kitId').getAllKeys(kitId))
+    for (const key of keys) {
+        imageStore.delete(key)
+    }
+
+    await done
+}
+
+// Works on any Blob, including ones FileReader cannot read outside the browser
+const blobToDataUrl = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`
+}
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const match = /^data:([^;,]*);base64,(.*)$/.exec(dataUrl)
+    if (!match) throw new BrandKitFileError('The brand kit file has an image that is not a base64 data URL')
+
+    const binary = atob(match[2])
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i)
+    }
+    return new Blob([bytes], { type: match[1] })
+}
+
+/**
+ * Write a brand kit to a self-contained JSON file that can be shared;
+ * images are embedded as data URLs
+ */
+export const createBrandKitFile = async (kit: BrandKit, images: Record<string, Blob>): Promise<Blob> => {
+    const imageIds = [...getImageIds(kit)].filter(id => images[id])
+    const urls = Object.fromEntries(
+        await Promise.all(imageIds.map(async id => [id, await blobToDataUrl(images[id])] as const))
+    )
+
+    const file = {
+        format: BRAND_KIT_FILE_FORMAT,
+        version: BRAND_KIT_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        kit: withBrandKitImageUrls(kit, urls)
+    }
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+}
+
+export const getBrandKitFileName = (kit: BrandKit) =>
+    `${toSafeFileName(kit.name, 'brand-kit')}${BRAND_KIT_FILE_EXTENSION}`
+
+const positionSchema = z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right'])
+
+const brandKitSchema = z.looseObject({
+    name: z.string().min(1),
+    description: z.string(),
+    colors: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        hex: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+        usage: z.enum(['primary', 'secondary', 'accent', 'background', 'text'])
+    })),
+    fonts: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        family: z.string().min(1),
+        weights: z.array(z.number()),
+        usage: z.enum(['heading', 'body', 'caption'])
+    })),
+    logos: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        url: z.string(),
+        type: z.enum(['full', 'icon', 'wordmark']),
+        position: z.union([positionSchema, z.literal('center')]),
+        size: z.enum(['small', 'medium', 'large']),
+        opacity: z.number().min(0).max(1)
+    })),
+    watermarks: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        url: z.string(),
+        position: positionSchema,
+        size: z.number().positive(),
+        opacity: z.number().min(0).max(1),
+        padding: z.number().min(0)
+    })),
+    defaultSettings: z.looseObject({
+        logoPosition: z.union([positionSchema, z.literal('center')]),
+        logoSize: z.enum(['small', 'medium', 'large']),
+        watermarkOpacity: z.number().min(0).max(1),
+        primaryColor: z.string(),
+        secondaryColor: z.string()
+    })
+})
+
+const brandKitFileSchema = z.object({
+    format: z.literal(BRAND_KIT_FILE_FORMAT),
+    version: z.literal(BRAND_KIT_FILE_VERSION),
+    kit: brandKitSchema
+})
+
+/**
+ * Read a shared brand kit file. The kit gets a new id so importing it
+ * twice, or next to the kit it was exported from, keeps both.
+ * @throws BrandKitFileError describing what is wrong with the file
+ */
+export const parseBrandKitFile = (text: string): StoredBrandKit => {
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch {
+        throw new BrandKitFileError('This is not a brand kit file')
+    }
+
+    if (!data || typeof data !== 'object' || (data as Record<string, unknown>).format !== BRAND_KIT_FILE_FORMAT) {
+        throw new BrandKitFileError('This is not a brand kit file')
+    }
+    if ((data as Record<string, unknown>).version !== BRAND_KIT_FILE_VERSION) {
+        throw new BrandKitFileError('This brand kit was saved by a different version of the editor')
+    }
+
+    const result = brandKitFileSchema.safeParse(data)
+    if (!result.success) {
+        throw new BrandKitFileError(`The brand kit file is invalid:\n${z.prettifyError(result.error)}`)
+    }
+
+    const kit = { ...result.data.kit, id: createBrandKitId() } as BrandKit
+    const images: Record<string, Blob> = {}
+    for (const item of [...kit.logos, ...kit.watermarks]) {
+        if (item.url) images[item.id] = dataUrlToBlob(item.url)
+    }
+
+    return { kit: withBrandKitImageUrls(kit, {}), images }
+}
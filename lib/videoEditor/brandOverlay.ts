@@ -0,0 +1,71 @@
+import {
+    BrandKit,
+    BrandImage,
+    BrandLogo,
+    BrandMark,
+    drawBrandMark,
+    loadBrandMarkImage,
+    logoToBrandMark,
+    watermarkToBrandMark
+} from '@/lib/templates/brandKit'
+
+// A project's changes to where the brand kit's logo or watermark goes. Unset
+// fields follow the kit, so later edits to the kit still show up.
+export interface BrandMarkOverride {
+    position?: BrandLogo['position']
+    opacity?: number
+}
+
+export interface BrandOverlaySettings {
+    visible: boolean
+    logo: BrandMarkOverride
+    watermark: BrandMarkOverride
+}
+
+export const DEFAULT_BRAND_OVERLAY: BrandOverlaySettings = {
+    visible: true,
+    logo: {},
+    watermark: {}
+}
+
+export interface LoadedBrandMark {
+    mark: BrandMark
+    image: BrandImage
+}
+
+const applyOverride = (mark: BrandMark, override: BrandMarkOverride): BrandMark => ({
+    ...mark,
+    position: override.position ?? mark.position,
+    opacity: override.opacity ?? mark.opacity
+})
+
+// The kit's first logo and first watermark, as this project places them
+export const getBrandMarks = (kit: BrandKit | undefined, settings: BrandOverlaySettings): BrandMark[] => {
+    if (!kit || !settings.visible) return []
+
+    const logo = kit.logos[0]
+    const watermark = kit.watermarks[0]
+    return [
+        ...(logo ? [applyOverride(logoToBrandMark(logo), settings.logo)] : []),
+        ...(watermark ? [applyOverride(watermarkToBrandMark(watermark), settings.watermark)] : [])
+    ]
+}
+
+// Marks whose image fails to load are left out instead of failing the render
+export const loadBrandMarks = async (marks: BrandMark[]): Promise<LoadedBrandMark[]> => {
+    const images = await Promise.allSettled(marks.map(mark => loadBrandMarkImage(mark.url)))
+    return images.flatMap((result, index) => {
+        if (result.status === 'fulfilled') return [{ mark: marks[index], image: result.value }]
+        console.warn('Failed to load brand image:', marks[index].url)
+        return []
+    })
+}
+
+export const drawBrandMarks = (
+    ctx: CanvasRenderingContext2D,
+    loaded: LoadedBrandMark[],
+    frameWidth: number,
+    frameHeight: number
+) => {
+    loaded.forEach(({ mark, image }) => drawBrandMark(ctx, image, mark, frameWidth, frameHeight))
+}
@@ -0,0 +1,242 @@
+import type { TranscriptSegment } from '@/lib/transcription'
+import type { BrandKit } from '@/lib/templates/brandKit'
+import { SCREEN_RECORDING_ASSET_ID } from './mediaAssets'
+import { TimelineComposition } from './timelineComposition'
+
+// Captions are timed against the screen recording rather than the timeline,
+// so cutting, trimming or moving clips carries them along with the speech.
+
+export interface CaptionWord {
+    text: string
+    start: number
+    end: number
+}
+
+export interface Caption {
+    id: string
+    // Seconds into the screen recording
+    start: number
+    end: number
+    text: string
+    words?: CaptionWord[]
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom'
+
+export interface CaptionStyle {
+    // Shown in the preview and burned into exports
+    enabled: boolean
+    fontFamily: string
+    // Use the caption (or body) font of the applied brand kit instead
+    useBrandFont: boolean
+    // Pixels at a 1080px tall frame; scaled with the output height
+    fontSize: number
+    fontWeight: number
+    textColor: string
+    showBackground: boolean
+    backgroundColor: string
+    backgroundOpacity: number
+    position: CaptionPosition
+}
+
+// Caption on the timeline. A caption spanning a cut is split into one piece per clip.
+export interface TimelineCaption {
+    id: string
+    captionId: string
+    clipId: string
+    start: number
+    end: number
+    text: string
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+    enabled: true,
+    fontFamily: 'Inter',
+    useBrandFont: false,
+    fontSize: 48,
+    fontWeight: 600,
+    textColor: '#ffffff',
+    showBackground: true,
+    backgroundColor: '#000000',
+    backgroundOpacity: 0.6,
+    position: 'bottom'
+}
+
+export const CAPTION_FONT_FAMILIES = ['Inter', 'Arial', 'Helvetica', 'Georgia', 'Verdana', 'Courier New']
+
+const REFERENCE_FRAME_HEIGHT = 1080
+// Share of the frame width a caption line may take before it wraps
+const MAX_LINE_WIDTH = 0.8
+// Distance of top and bottom captions from the frame edge, as a share of its height
+const EDGE_MARGIN = 0.06
+const LINE_HEIGHT = 1.3
+
+export const createCaptionsFromTranscript = (segments: TranscriptSegment[]): Caption[] =>
+    segments.map((segment, index) => ({
+        id: `caption-${index + 1}`,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        words: segment.words
+    }))
+
+/**
+ * Place captions on the timeline by following the clips that play the screen
+ * recording. Speech that was cut away has no caption; a caption crossing a
+ * cut becomes one piece per clip it appears in.
+ */
+export const mapCaptionsToTimeline = (captions: Caption[], composition: TimelineComposition): TimelineCaption[] => {
+    const pieces: TimelineCaption[] = []
+
+    composition.segments
+        .filter(segment => segment.sourceId === undefined || segment.sourceId === SCREEN_RECORDING_ASSET_ID)
+        .forEach(segment => {
+            captions.forEach(caption => {
+                const sourceStart = Math.max(caption.start, segment.sourceIn)
+                const sourceEnd = Math.min(caption.end, segment.sourceOut)
+                if (sourceEnd <= sourceStart) return
+
+                pieces.push({
+                    id: `${caption.id}@${segment.clipId}`,
+                    captionId: caption.id,
+                    clipId: segment.clipId,
+                    start: segment.timelineStart + (sourceStart - segment.sourceIn),
+                    end: segment.timelineStart + (sourceEnd - segment.sourceIn),
+                    text: caption.text
+                })
+            })
+        })
+
+    return pieces.sort((a, b) => a.start - b.start)
+}
+
+export const getCaptionAtTime = (captions: TimelineCaption[], time: number): TimelineCaption | null =>
+    captions.find(caption => time >= caption.start && time < caption.end) ?? null
+
+/**
+ * Turn a caption piece dragged on the timeline back into recording time.
+ * The piece stays within the clip it belongs to.
+ */
+export const getCaptionSourceRange = (
+    composition: TimelineComposition,
+    piece: Pick<TimelineCaption, 'clipId'>,
+    start: number,
+    end: number
+): { start: number; end: number } | null => {
+    const segment = composition.segments.find(s => s.clipId === piece.clipId)
+    if (!segment) return null
+
+    const toSource = (time: number) =>
+        Math.min(segment.sourceOut, Math.max(segment.sourceIn, segment.sourceIn + (time - segment.timelineStart)))
+
+    const sourceStart = toSource(start)
+    const sourceEnd = toSource(end)
+    return sourceEnd > sourceStart ? { start: sourceStart, end: sourceEnd } : null
+}
+
+export const resolveCaptionFontFamily = (style: CaptionStyle, brandKit?: BrandKit): string => {
+    if (!style.useBrandFont || !brandKit) return style.fontFamily
+    const font = brandKit.fonts.find(f => f.usage === 'caption') ?? brandKit.fonts.find(f => f.usage === 'body')
+    return font?.family ?? style.fontFamily
+}
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000))
+    const hours = Math.floor(totalMs / 3600000)
+    const minutes = Math.floor(totalMs / 60000) % 60
+    const secs = Math.floor(totalMs / 1000) % 60
+    const ms = totalMs % 1000
+    const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0')
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+// Cue text may not contain blank lines, which would end the cue early
+const toCueText = (text: string) => text.trim().split(/\s*\n\s*/).filter(Boolean).join('\n')
+
+export const formatSrt = (captions: TimelineCaption[]): string =>
+    captions
+        .map((caption, index) =>
+            `${index + 1}\n${formatTimestamp(caption.start, ',')} --> ${formatTimestamp(caption.end, ',')}\n${toCueText(caption.text)}\n`
+        )
+        .join('\n')
+
+export const formatWebVtt = (captions: TimelineCaption[]): string =>
+    ['WEBVTT\n', ...captions.map(caption =>
+        `${formatTimestamp(caption.start, '.')} --> ${formatTimestamp(caption.end, '.')}\n${toCueText(caption.text).replace(/-->/g, '->')}\n`
+    )].join('\n')
+
+/**
+ * Break caption text into lines no wider than maxWidth. Words longer than a
+ * line are kept whole rather than split.
+ */
+export const wrapCaptionText = (text: string, maxWidth: number, measure: (text: string) => number): string[] => {
+    const lines: string[] = []
+
+    text.split('\n').forEach(paragraph => {
+        let line = ''
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word
+            if (line && measure(candidate) > maxWidth) {
+                lines.push(line)
+                line = word
+            } else {
+                line = candidate
+            }
+        })
+        if (line) lines.push(line)
+    })
+
+    return lines
+}
+
+const toRgba = (hex: string, opacity: number) => {
+    const value = hex.replace('#', '')
+    const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value
+    const r = parseInt(full.slice(0, 2), 16) || 0
+    const g = parseInt(full.slice(2, 4), 16) || 0
+    const b = parseInt(full.slice(4, 6), 16) || 0
+    return `rgba(${r}, ${g}, ${b}, ${opacity})`
+}
+
+/**
+ * Draw a caption onto a frame. Used by both the preview overlay and the
+ * exporter so burned-in captions look like what the editor shows.
+ */
+export const drawCaption = (
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    style: CaptionStyle,
+    fontFamily: string,
+    width: number,
+    height: number
+) => {
+    const fontSize = style.fontSize * (height / REFERENCE_FRAME_HEIGHT)
+    ctx.save()
+    ctx.font = `${style.fontWeight} ${fontSize}px "${fontFamily}", sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+
+    const lines = wrapCaptionText(text, width * MAX_LINE_WIDTH, line => ctx.measureText(line).width)
+    const lineHeight = fontSize * LINE_HEIGHT
+    const blockHeight = lines.length * lineHeight
+    const margin = height * EDGE_MARGIN
+    const top = style.position === 'top'
+        ? margin
+        : style.position === 'middle'
+            ? (height - blockHeight) / 2
+            : height - margin - blockHeight
+    const paddingX = fontSize * 0.4
+
+    lines.forEach((line, index) => {
+        const centerY = top + index * lineHeight + lineHeight / 2
+        if (style.showBackground) {
+            const lineWidth = ctx.measureText(line).width
+            ctx.fillStyle = toRgba(style.backgroundColor, style.backgroundOpacity)
+            ctx.fillRect(width / 2 - lineWidth / 2 - paddingX, centerY - lineHeight / 2, lineWidth + paddingX * 2, lineHeight)
+        }
+        ctx.fillStyle = style.textColor
+        ctx.fillText(line, width / 2, centerY)
+    })
+
+    ctx.restore()
+}
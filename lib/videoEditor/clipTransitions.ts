@@ -0,0 +1,135 @@
+import { TransitionPreset, easeTransitionProgress, getTransitionById } from '@/lib/templates/transitionPresets'
+import { CompositionSegment, TimelineComposition } from './timelineComposition'
+import { TimeRange } from './rippleEdit'
+
+// A transition sits on the cut between two clips that play back to back and
+// is centered on it: the outgoing clip keeps playing past its out-point for
+// the second half and the incoming clip starts before its in-point for the
+// first half, so the timeline does not get any shorter.
+export interface ClipTransition {
+    id: string
+    presetId: string
+    fromClipId: string
+    toClipId: string
+    duration: number
+}
+
+export interface ClipBoundary {
+    time: number
+    from: CompositionSegment
+    to: CompositionSegment
+}
+
+export interface PlacedTransition extends TimeRange {
+    transition: ClipTransition
+    preset: TransitionPreset
+    boundary: ClipBoundary
+}
+
+export interface TransitionFrame {
+    placed: PlacedTransition
+    // Eased progress from the outgoing clip (0) to the incoming one (1)
+    progress: number
+    fromSourceTime: number
+    toSourceTime: number
+    // Past the cut the incoming clip is the one the player is already showing
+    isPastCut: boolean
+}
+
+export const MIN_TRANSITION_DURATION = 0.1
+
+// Clips closer than this count as touching
+const BOUNDARY_EPSILON = 1e-3
+
+// Cuts where one clip runs straight into the next, in timeline order
+export const getClipBoundaries = (composition: TimelineComposition): ClipBoundary[] =>
+    composition.segments.slice(1).flatMap((to, index) => {
+        const from = composition.segments[index]
+        return Math.abs(from.timelineEnd - to.timelineStart) < BOUNDARY_EPSILON
+            ? [{ time: to.timelineStart, from, to }]
+            : []
+    })
+
+export const findNearestBoundary = (composition: TimelineComposition, time: number): ClipBoundary | null =>
+    getClipBoundaries(composition).reduce<ClipBoundary | null>(
+        (nearest, boundary) => !nearest || Math.abs(boundary.time - time) < Math.abs(nearest.time - time) ? boundary : nearest,
+        null
+    )
+
+// Half a transition may cover at most half of either clip, so the
+// transitions at both ends of a clip never overlap
+export const getMaxTransitionDuration = (boundary: ClipBoundary): number => Math.max(
+    MIN_TRANSITION_DURATION,
+    Math.min(boundary.from.timelineEnd - boundary.from.timelineStart, boundary.to.timelineEnd - boundary.to.timelineStart)
+)
+
+export const clampTransitionDuration = (duration: number, boundary: ClipBoundary): number =>
+    Math.max(MIN_TRANSITION_DURATION, Math.min(duration, getMaxTransitionDuration(boundary)))
+
+// A transition on a cut, as long as the preset asks for if the clips allow it
+export const createClipTransition = (preset: TransitionPreset, boundary: ClipBoundary): ClipTransition => ({
+    id: `transition-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    presetId: preset.id,
+    fromClipId: boundary.from.clipId,
+    toClipId: boundary.to.clipId,
+    duration: clampTransitionDuration(preset.duration, boundary)
+})
+
+/**
+ * Position transitions on the timeline. Transitions whose clips no longer
+ * meet, or whose preset is unknown, are left out.
+ */
+export const placeTransitions = (transitions: ClipTransition[], composition: TimelineComposition): PlacedTransition[] => {
+    const boundaries = getClipBoundaries(composition)
+
+    return transitions.flatMap(transition => {
+        const boundary = boundaries.find(b => b.from.clipId === transition.fromClipId && b.to.clipId === transition.toClipId)
+        const preset = getTransitionById(transition.presetId)
+        if (!boundary || !preset) return []
+
+        const half = clampTransitionDuration(transition.duration, boundary) / 2
+        return [{ transition, preset, boundary, start: boundary.time - half, end: boundary.time + half }]
+    })
+}
+
+// What to draw at a timeline time, or null outside every transition
+export const getTransitionFrame = (placed: PlacedTransition[], time: number): TransitionFrame | null => {
+    const active = placed.find(p => time >= p.start && time < p.end)
+    if (!active) return null
+
+    const { from, to } = active.boundary
+    return {
+        placed: active,
+        progress: easeTransitionProgress((time - active.start) / (active.end - active.start), active.preset.easing),
+        fromSourceTime: from.sourceIn + (time - from.timelineStart),
+        toSourceTime: Math.max(0, to.sourceIn + (time - to.timelineStart)),
+        isPastCut: time >= active.boundary.time
+    }
+}
+
+/**
+ * The transition frame for where the preview's video is in its source. The
+ * preview plays one clip at a time, so near a cut the source time tells
+ * whether it is in the tail of the outgoing clip or the head of the incoming one.
+ */
+export const getTransitionFrameAtSourceTime = (placed: PlacedTransition[], sourceTime: number): TransitionFrame | null => {
+    for (const p of placed) {
+        const { from, to, time } = p.boundary
+        if (sourceTime >= from.sourceOut - (time - p.start) && sourceTime < from.sourceOut) {
+            return getTransitionFrame([p], from.timelineStart + (sourceTime - from.sourceIn))
+        }
+        if (sourceTime >= to.sourceIn && sourceTime < to.sourceIn + (p.end - time)) {
+            return getTransitionFrame([p], to.timelineStart + (sourceTime - to.sourceIn))
+        }
+    }
+    return null
+}
+
+/**
+ * Duration after one edge of a transition was dragged on the timeline. The
+ * transition stays centered on its cut, so the dragged edge sets half of it.
+ */
+export const getResizedTransitionDuration = (placed: PlacedTransition, start: number, end: number): number => {
+    const half = end !== placed.end ? end - placed.boundary.time : placed.boundary.time - start
+    return clampTransitionDuration(half * 2, placed.boundary)
+}
@@ -30,7 +30,8 @@ export const VIDEO_EDITOR_CONSTANTS = {
         ARROW_LEFT: 'ArrowLeft',
         ARROW_RIGHT: 'ArrowRight',
         ESCAPE: 'Escape',
-        EXPORT: 'e'
+        EXPORT: 'e',
+        UNDO: 'z'
     },
 
     // Seek amounts
@@ -0,0 +1,329 @@
+import { z } from 'zod'
+import { easeTransitionProgress } from '@/lib/templates/transitionPresets'
+
+// Where the pointer was at a time in the screen recording, as fractions of the frame
+export interface CursorSample {
+    time: number
+    x: number
+    y: number
+}
+
+export type CursorClick = CursorSample
+
+// Pointer movement and clicks captured alongside a screen recording
+export interface CursorTrack {
+    samples: CursorSample[]
+    clicks: CursorClick[]
+}
+
+export interface CursorSettings {
+    visible: boolean
+    // Multiplier on the cursor's normal size
+    size: number
+    // 0 follows the recording exactly, 1 smooths the most
+    smoothing: number
+    clickEffects: boolean
+    clickColor: string
+    hideWhenIdle: boolean
+    // Seconds without movement before an idle cursor fades out
+    idleTimeout: number
+}
+
+// Part of the canvas a frame of the screen recording is drawn into, in pixels
+export interface CursorFrame {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export const DEFAULT_CURSOR_SETTINGS: CursorSettings = {
+    visible: true,
+    size: 1.5,
+    smoothing: 0.5,
+    clickEffects: true,
+    clickColor: '#3b82f6',
+    hideWhenIdle: true,
+    idleTimeout: 2
+}
+
+export const CURSOR_TRACK_FILE_FORMAT = 'snip-cursor-track'
+export const CURSOR_TRACK_FILE_VERSION = 1
+export const CURSOR_TRACK_FILE_EXTENSION = '.cursor.json'
+
+// Pointer events come faster than frames; keep about one sample per frame
+const MIN_SAMPLE_INTERVAL = 1 / 60
+// The time window a smoothing of 1 averages over
+const MAX_SMOOTHING_WINDOW = 0.4
+const SMOOTHING_STEPS = 9
+const IDLE_FADE_DURATION = 0.3
+const CLICK_RIPPLE_DURATION = 0.5
+// Sizes for a 1080p frame at a cursor size of 1
+const REFERENCE_FRAME_HEIGHT = 1080
+const CLICK_RIPPLE_RADIUS = 28
+const CURSOR_SCALE = 1.6
+
+// A classic arrow pointer with its tip at 0, 0
+const CURSOR_PATH: [number, number][] = [[0, 0], [0, 17], [4, 13], [7, 20], [10, 19], [7, 12.5], [12.5, 12.5]]
+
+export class CursorTrackFileError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'CursorTrackFileError'
+    }
+}
+
+export interface CursorRecorder {
+    pause: () => void
+    resume: () => void
+    stop: () => CursorTrack
+}
+
+/**
+ * Start capturing the pointer over a window, timed from now. Only the page's
+ * own pointer events are seen, so this follows the cursor when the recording
+ * is of this tab. Time spent paused is left out to match the recording.
+ */
+export const recordCursor = (target: Window): CursorRecorder => {
+    const track: CursorTrack = { samples: [], clicks: [] }
+    let startedAt = performance.now()
+    let pausedAt: number | null = null
+
+    const getSample = (event: PointerEvent): CursorSample => ({
+        time: (performance.now() - startedAt) / 1000,
+        x: event.clientX / Math.max(1, target.innerWidth),
+        y: event.clientY / Math.max(1, target.innerHeight)
+    })
+
+    const handleMove = (event: PointerEvent) => {
+        if (pausedAt !== null) return
+        const sample = getSample(event)
+        const last = track.samples[track.samples.length - 1]
+        if (last && sample.time - last.time < MIN_SAMPLE_INTERVAL) return
+        track.samples.push(sample)
+    }
+
+    const handleDown = (event: PointerEvent) => {
+        if (pausedAt !== null) return
+        const click = getSample(event)
+        track.samples.push(click)
+        track.clicks.push(click)
+    }
+
+    target.addEventListener('pointermove', handleMove, true)
+    target.addEventListener('pointerdown', handleDown, true)
+
+    return {
+        pause: () => {
+            if (pausedAt === null) pausedAt = performance.now()
+        },
+        resume: () => {
+            if (pausedAt === null) return
+            startedAt += performance.now() - pausedAt
+            pausedAt = null
+        },
+        stop: () => {
+            target.removeEventListener('pointermove', handleMove, true)
+            target.removeEventListener('pointerdown', handleDown, true)
+            return track
+        }
+    }
+}
+
+export const hasCursorData = (track: CursorTrack | null): track is CursorTrack =>
+    !!track && track.samples.length > 0
+
+// Index of the last sample at or before the time, or -1 when the time is before them all
+const findSampleIndex = (samples: CursorSample[], time: number): number => {
+    let low = 0
+    let high = samples.length - 1
+    let found = -1
+    while (low <= high) {
+        const middle = (low + high) >> 1
+        if (samples[middle].time <= time) {
+            found = middle
+            low = middle + 1
+        } else {
+            high = middle - 1
+        }
+    }
+    return found
+}
+
+const interpolatePosition = (samples: CursorSample[], time: number): { x: number; y: number } => {
+    const index = Math.max(0, findSampleIndex(samples, time))
+    if (index === samples.length - 1) return { x: samples[index].x, y: samples[index].y }
+
+    const from = samples[index]
+    const to = samples[index + 1]
+    const progress = (time - from.time) / Math.max(to.time - from.time, 1e-6)
+    return {
+        x: from.x + (to.x - from.x) * progress,
+        y: from.y + (to.y - from.y) * progress
+    }
+}
+
+/**
+ * Where the cursor is at a time in the recording, or null before it first
+ * moved. Smoothing averages the path over a window around the time, so
+ * seeking and export land on the same position as playback.
+ */
+export const getCursorPosition = (track: CursorTrack, time: number, smoothing: number = 0): { x: number; y: number } | null => {
+    const { samples } = track
+    if (samples.length === 0 || time < samples[0].time) return null
+
+    const span = Math.max(0, Math.min(1, smoothing)) * MAX_SMOOTHING_WINDOW
+    if (span === 0) return interpolatePosition(samples, time)
+
+    let x = 0
+    let y = 0
+    for (let step = 0; step < SMOOTHING_STEPS; step++) {
+        const point = interpolatePosition(samples, time - span / 2 + (span * step) / (SMOOTHING_STEPS - 1))
+        x += point.x
+        y += point.y
+    }
+    return { x: x / SMOOTHING_STEPS, y: y / SMOOTHING_STEPS }
+}
+
+// How visible the cursor is at a time, fading out once it has sat still too long
+export const getCursorOpacity = (track: CursorTrack, settings: CursorSettings, time: number): number => {
+    if (!settings.hideWhenIdle) return 1
+
+    const index = findSampleIndex(track.samples, time)
+    if (index < 0) return 1
+
+    const idleFor = time - track.samples[index].time - settings.idleTimeout
+    return Math.max(0, Math.min(1, 1 - idleFor / IDLE_FADE_DURATION))
+}
+
+// Clicks whose ripple is showing at a time, with how far along each one is
+export const getActiveClicks = (track: CursorTrack, time: number): { click: CursorClick; progress: number }[] =>
+    track.clicks
+        .filter(click => time >= click.time && time < click.time + CLICK_RIPPLE_DURATION)
+        .map(click => ({ click, progress: (time - click.time) / CLICK_RIPPLE_DURATION }))
+
+const drawClickRipple = (
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    progress: number,
+    radius: number,
+    color: string
+) => {
+    const eased = easeTransitionProgress(progress, 'ease-out')
+    ctx.save()
+    ctx.beginPath()
+    ctx.arc(x, y, radius * (0.3 + 0.7 * eased), 0, Math.PI * 2)
+    ctx.fillStyle = color
+    ctx.globalAlpha = (1 - progress) * 0.35
+    ctx.fill()
+    ctx.globalAlpha = 1 - progress
+    ctx.lineWidth = Math.max(1, radius / 10)
+    ctx.strokeStyle = color
+    ctx.stroke()
+    ctx.restore()
+}
+
+const drawPointer = (ctx: CanvasRenderingContext2D, x: number, y: number, scale: number, opacity: number) => {
+    ctx.save()
+    ctx.globalAlpha = opacity
+    ctx.translate(x, y)
+    ctx.scale(scale, scale)
+    ctx.beginPath()
+    CURSOR_PATH.forEach(([pointX, pointY], index) => {
+        if (index === 0) ctx.moveTo(pointX, pointY)
+        else ctx.lineTo(pointX, pointY)
+    })
+    ctx.closePath()
+    ctx.fillStyle = '#ffffff'
+    ctx.fill()
+    ctx.lineWidth = 1.5
+    ctx.lineJoin = 'round'
+    ctx.strokeStyle = '#000000'
+    ctx.stroke()
+    ctx.restore()
+}
+
+/**
+ * Draw the recorded cursor and its click ripples over a frame of the screen
+ * recording. Used by both the preview and the exporter, with the time in the
+ * recording rather than on the timeline.
+ */
+export const drawCursor = (
+    ctx: CanvasRenderingContext2D,
+    track: CursorTrack,
+    settings: CursorSettings,
+    time: number,
+    frame: CursorFrame
+) => {
+    if (!settings.visible) return
+
+    const scale = (frame.height / REFERENCE_FRAME_HEIGHT) * settings.size
+    if (settings.clickEffects) {
+        getActiveClicks(track, time).forEach(({ click, progress }) => {
+            drawClickRipple(
+                ctx,
+                frame.x + click.x * frame.width,
+                frame.y + click.y * frame.height,
+                progress,
+                CLICK_RIPPLE_RADIUS * scale,
+                settings.clickColor
+            )
+        })
+    }
+
+    const position = getCursorPosition(track, time, settings.smoothing)
+    const opacity = getCursorOpacity(track, settings, time)
+    if (!position || opacity <= 0) return
+
+    drawPointer(ctx, frame.x + position.x * frame.width, frame.y + position.y * frame.height, scale * CURSOR_SCALE, opacity)
+}
+
+const cursorSampleSchema = z.object({
+    time: z.number().min(0),
+    x: z.number(),
+    y: z.number()
+})
+
+const cursorTrackFileSchema = z.object({
+    format: z.literal(CURSOR_TRACK_FILE_FORMAT),
+    version: z.literal(CURSOR_TRACK_FILE_VERSION),
+    samples: z.array(cursorSampleSchema),
+    clicks: z.array(cursorSampleSchema).default([])
+})
+
+export const createCursorTrackFile = (track: CursorTrack): Blob =>
+    new Blob([JSON.stringify({
+        format: CURSOR_TRACK_FILE_FORMAT,
+        version: CURSOR_TRACK_FILE_VERSION,
+        samples: track.samples,
+        clicks: track.clicks
+    })], { type: 'application/json' })
+
+// Reads a cursor track file; samples and clicks are put back in time order
+export const parseCursorTrackFile = (text: string): CursorTrack => {
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch {
+        throw new CursorTrackFileError('This is not a cursor track file')
+    }
+
+    if (!data || typeof data !== 'object' || (data as Record<string, unknown>).format !== CURSOR_TRACK_FILE_FORMAT) {
+        throw new CursorTrackFileError('This is not a cursor track file')
+    }
+    if ((data as Record<string, unknown>).version !== CURSOR_TRACK_FILE_VERSION) {
+        throw new CursorTrackFileError('This cursor track was saved by a different version of the editor')
+    }
+
+    const result = cursorTrackFileSchema.safeParse(data)
+    if (!result.success) {
+        throw new CursorTrackFileError(`The cursor track file is invalid:\n${z.prettifyError(result.error)}`)
+    }
+
+    const byTime = (a: CursorSample, b: CursorSample) => a.time - b.time
+    return {
+        samples: [...result.data.samples].sort(byTime),
+        clicks: [...result.data.clicks].sort(byTime)
+    }
+}
@@ -0,0 +1,78 @@
+export interface HistoryEntry<T> {
+    id: string
+    label: string
+    timestamp: number
+    snapshot: T
+    // Consecutive entries with the same key merge while they arrive quickly
+    coalesceKey?: string
+}
+
+export interface EditorHistory<T> {
+    entries: HistoryEntry<T>[]
+    // Entry the editor currently shows; entries after it can be redone
+    index: number
+}
+
+export const MAX_HISTORY_ENTRIES = 100
+
+// Window in which repeated edits with the same coalesce key become one step
+export const HISTORY_COALESCE_WINDOW_MS = 1000
+
+let entryCounter = 0
+const createEntryId = () => `history-${Date.now()}-${entryCounter++}`
+
+// Snapshots hold immutable store slices, so comparing references is enough
+export const isSnapshotEqual = <T extends object>(a: T, b: T): boolean => {
+    const keys = Object.keys(a) as (keyof T)[]
+    return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]))
+}
+
+export const createHistory = <T extends object>(snapshot: T, label: string = 'Open project'): EditorHistory<T> => ({
+    entries: [{ id: createEntryId(), label, timestamp: Date.now(), snapshot }],
+    index: 0
+})
+
+export const canUndo = <T>(history: EditorHistory<T>): boolean => history.index > 0
+
+export const canRedo = <T>(history: EditorHistory<T>): boolean => history.index < history.entries.length - 1
+
+/**
+ * Record a new step after the current one, dropping anything that could have
+ * been redone. Nothing is recorded when the snapshot did not change, and a
+ * step with the same coalesce key as the last one replaces it if it follows
+ * within HISTORY_COALESCE_WINDOW_MS.
+ */
+export const pushHistoryEntry = <T extends object>(
+    history: EditorHistory<T>,
+    label: string,
+    snapshot: T,
+    options: { coalesceKey?: string; now?: number } = {}
+): EditorHistory<T> => {
+    const now = options.now ?? Date.now()
+    const current = history.entries[history.index]
+    if (current && isSnapshotEqual(current.snapshot, snapshot)) return history
+
+    const canCoalesce = !!options.coalesceKey &&
+        history.index > 0 &&
+        history.index === history.entries.length - 1 &&
+        current?.coalesceKey === options.coalesceKey &&
+        now - current.timestamp <= HISTORY_COALESCE_WINDOW_MS
+
+    if (canCoalesce) {
+        const entries = [...history.entries]
+        entries[history.index] = { ...current, snapshot, timestamp: now }
+        return { entries, index: history.index }
+    }
+
+    const entries = [
+        ...history.entries.slice(0, history.index + 1),
+        { id: createEntryId(), label, timestamp: now, snapshot, coalesceKey: options.coalesceKey }
+    ].slice(-MAX_HISTORY_ENTRIES)
+
+    return { entries, index: entries.length - 1 }
+}
+
+export const moveHistoryIndex = <T>(history: EditorHistory<T>, index: number): EditorHistory<T> => ({
+    entries: history.entries,
+    index: Math.max(0, Math.min(history.entries.length - 1, index))
+})
@@ -0,0 +1,70 @@
+export type MediaAssetType = 'video' | 'audio' | 'image'
+
+export interface MediaAsset {
+    id: string
+    type: MediaAssetType
+    name: string
+    url: string
+    duration: number
+    // What produced the asset; recordings are re-registered when the editor reloads them
+    origin: 'screen-recording' | 'webcam-recording' | 'import'
+    mimeType?: string
+    thumbnail?: string
+}
+
+export const SCREEN_RECORDING_ASSET_ID = 'asset-screen-recording'
+export const WEBCAM_RECORDING_ASSET_ID = 'asset-webcam-recording'
+
+// Still images have no natural length; this is how long they sit on the timeline
+export const DEFAULT_IMAGE_DURATION = 5
+
+export const getMediaAssetType = (mimeType: string): MediaAssetType | null => {
+    if (mimeType.startsWith('video/')) return 'video'
+    if (mimeType.startsWith('audio/')) return 'audio'
+    if (mimeType.startsWith('image/')) return 'image'
+    return null
+}
+
+/**
+ * Read the duration of a video or audio URL by loading its metadata.
+ * Resolves to 0 when the browser cannot tell (e.g. MediaRecorder WebM without cues).
+ */
+export const probeMediaDuration = (url: string, type: MediaAssetType, timeoutMs: number = 10000): Promise<number> => {
+    if (type === 'image') return Promise.resolve(DEFAULT_IMAGE_DURATION)
+
+    return new Promise((resolve) => {
+        const element = document.createElement(type === 'video' ? 'video' : 'audio')
+        element.preload = 'metadata'
+
+        const finish = (duration: number) => {
+            clearTimeout(timeout)
+            element.removeAttribute('src')
+            element.load()
+            resolve(isFinite(duration) && duration > 0 ? duration : 0)
+        }
+
+        const timeout = setTimeout(() => finish(0), timeoutMs)
+        element.onloadedmetadata = () => finish(element.duration)
+        element.onerror = () => finish(0)
+        element.src = url
+    })
+}
+
+export const createMediaAssetFromFile = async (file: File): Promise<MediaAsset | null> => {
+    const type = getMediaAssetType(file.type)
+    if (!type) return null
+
+    const url = URL.createObjectURL(file)
+    const duration = await probeMediaDuration(url, type)
+
+    return {
+        id: `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        type,
+        name: file.name,
+        url,
+        duration,
+        origin: 'import',
+        mimeType: file.type,
+        thumbnail: type === 'image' ? url : undefined
+    }
+}
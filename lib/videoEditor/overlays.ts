@@ -0,0 +1,254 @@
+import { easeTransitionProgress } from '@/lib/templates/transitionPresets'
+import { BrandImage, loadBrandMarkImage } from '@/lib/templates/brandKit'
+import { wrapCaptionText } from './captions'
+
+export type OverlayAnimation = 'none' | 'fade' | 'slide-up' | 'slide-down' | 'slide-left' | 'slide-right' | 'zoom'
+
+// Text or an image placed over the video for a stretch of the timeline
+export interface Overlay {
+    id: string
+    type: 'text' | 'image'
+    // The text, or the image URL
+    content: string
+    // Top left corner and size, as percentages of the frame
+    x: number
+    y: number
+    width: number
+    height: number
+    // Degrees clockwise around the center
+    rotation: number
+    opacity: number
+    // In timeline time
+    startTime: number
+    endTime: number
+    animationIn: OverlayAnimation
+    animationOut: OverlayAnimation
+    // Seconds each animation takes
+    animationDuration: number
+    textColor: string
+    // Authored for a 1080p frame
+    fontSize: number
+    // Box behind text; none when unset
+    backgroundColor?: string
+}
+
+export interface OverlayBounds {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export const OVERLAY_ANIMATIONS: { id: OverlayAnimation; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'fade', label: 'Fade' },
+    { id: 'slide-up', label: 'Slide Up' },
+    { id: 'slide-down', label: 'Slide Down' },
+    { id: 'slide-left', label: 'Slide Left' },
+    { id: 'slide-right', label: 'Slide Right' },
+    { id: 'zoom', label: 'Zoom' }
+]
+
+export const DEFAULT_OVERLAY_DURATION = 5
+export const MIN_OVERLAY_DURATION = 0.1
+// Smallest box a resize can leave, as a percentage of the frame
+export const MIN_OVERLAY_SIZE = 2
+
+const REFERENCE_FRAME_HEIGHT = 1080
+// How far slides travel, as a percentage of the frame
+const SLIDE_DISTANCE = 10
+// Where zooms start from and end at
+const ZOOM_FROM_SCALE = 0.5
+const LINE_HEIGHT = 1.2
+
+const DEFAULT_SIZES: Record<Overlay['type'], { width: number; height: number }> = {
+    text: { width: 40, height: 12 },
+    image: { width: 25, height: 25 }
+}
+
+// A new overlay in the middle of the frame, starting at the given time
+export const createOverlay = (
+    type: Overlay['type'],
+    content: string,
+    startTime: number,
+    duration: number = DEFAULT_OVERLAY_DURATION
+): Overlay => {
+    const size = DEFAULT_SIZES[type]
+    return {
+        id: `overlay-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        type,
+        content,
+        x: (100 - size.width) / 2,
+        y: (100 - size.height) / 2,
+        ...size,
+        rotation: 0,
+        opacity: 1,
+        startTime,
+        endTime: startTime + Math.max(MIN_OVERLAY_DURATION, duration),
+        animationIn: 'fade',
+        animationOut: 'fade',
+        animationDuration: 0.5,
+        textColor: '#ffffff',
+        fontSize: 64
+    }
+}
+
+export const isOverlayVisible = (overlay: Overlay, time: number): boolean =>
+    time >= overlay.startTime && time <= overlay.endTime
+
+interface AnimationState {
+    opacity: number
+    scale: number
+    // Percentages of the frame
+    offsetX: number
+    offsetY: number
+}
+
+// How far an animation has moved the overlay away from where it rests; 1 is all the way
+const getAnimationOffset = (animation: OverlayAnimation, amount: number, isExit: boolean): AnimationState => {
+    // Entries come in from a side, exits leave towards it
+    const distance = SLIDE_DISTANCE * amount * (isExit ? -1 : 1)
+    switch (animation) {
+        case 'fade':
+            return { opacity: 1 - amount, scale: 1, offsetX: 0, offsetY: 0 }
+        case 'slide-up':
+            return { opacity: 1 - amount, scale: 1, offsetX: 0, offsetY: distance }
+        case 'slide-down':
+            return { opacity: 1 - amount, scale: 1, offsetX: 0, offsetY: -distance }
+        case 'slide-left':
+            return { opacity: 1 - amount, scale: 1, offsetX: distance, offsetY: 0 }
+        case 'slide-right':
+            return { opacity: 1 - amount, scale: 1, offsetX: -distance, offsetY: 0 }
+        case 'zoom':
+            return { opacity: 1 - amount, scale: 1 - (1 - ZOOM_FROM_SCALE) * amount, offsetX: 0, offsetY: 0 }
+        default:
+            return { opacity: 1, scale: 1, offsetX: 0, offsetY: 0 }
+    }
+}
+
+/**
+ * How the entry and exit animations change an overlay at a timeline time.
+ * Each animation takes at most half of the overlay, so they never overlap.
+ */
+export const getOverlayAnimationState = (overlay: Overlay, time: number): AnimationState => {
+    const length = Math.min(overlay.animationDuration, (overlay.endTime - overlay.startTime) / 2)
+    if (length <= 0) return { opacity: 1, scale: 1, offsetX: 0, offsetY: 0 }
+
+    const entering = (time - overlay.startTime) / length
+    const exiting = (overlay.endTime - time) / length
+    const state = entering < 1
+        ? getAnimationOffset(overlay.animationIn, 1 - easeTransitionProgress(entering, 'ease-out'), false)
+        : exiting < 1
+            ? getAnimationOffset(overlay.animationOut, 1 - easeTransitionProgress(exiting, 'ease-out'), true)
+            : null
+
+    return state ?? { opacity: 1, scale: 1, offsetX: 0, offsetY: 0 }
+}
+
+// Where an overlay's box sits on a frame of the given size, in pixels, before rotation
+export const getOverlayBounds = (overlay: Overlay, frameWidth: number, frameHeight: number): OverlayBounds => ({
+    x: (overlay.x / 100) * frameWidth,
+    y: (overlay.y / 100) * frameHeight,
+    width: (overlay.width / 100) * frameWidth,
+    height: (overlay.height / 100) * frameHeight
+})
+
+// The overlay moved by a drag, kept on the frame
+export const moveOverlay = (overlay: Overlay, deltaX: number, deltaY: number): Pick<Overlay, 'x' | 'y'> => ({
+    x: Math.max(-overlay.width / 2, Math.min(100 - overlay.width / 2, overlay.x + deltaX)),
+    y: Math.max(-overlay.height / 2, Math.min(100 - overlay.height / 2, overlay.y + deltaY))
+})
+
+const drawOverlayText = (ctx: CanvasRenderingContext2D, overlay: Overlay, width: number, height: number, scale: number) => {
+    const fontSize = overlay.fontSize * scale
+    ctx.font = `bold ${fontSize}px Inter, Arial, sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+
+    if (overlay.backgroundColor) {
+        ctx.fillStyle = overlay.backgroundColor
+        ctx.fillRect(-width / 2, -height / 2, width, height)
+    }
+
+    const lines = wrapCaptionText(overlay.content, width, line => ctx.measureText(line).width)
+    const lineHeight = fontSize * LINE_HEIGHT
+    const top = -(lines.length * lineHeight) / 2
+    ctx.fillStyle = overlay.textColor
+    lines.forEach((line, index) => {
+        ctx.fillText(line, 0, top + index * lineHeight + lineHeight / 2)
+    })
+}
+
+// Images keep their aspect ratio and are centered in the box
+const drawOverlayImage = (ctx: CanvasRenderingContext2D, image: BrandImage, width: number, height: number) => {
+    const fit = Math.min(width / image.width, height / image.height)
+    const drawWidth = image.width * fit
+    const drawHeight = image.height * fit
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight)
+}
+
+/**
+ * Draw an overlay onto a frame at a timeline time. Used by both the preview
+ * and the exporter so exported overlays move the way the editor shows them.
+ * Image overlays are skipped until their image has loaded.
+ */
+export const drawOverlay = (
+    ctx: CanvasRenderingContext2D,
+    overlay: Overlay,
+    image: BrandImage | undefined,
+    time: number,
+    frameWidth: number,
+    frameHeight: number
+) => {
+    if (!isOverlayVisible(overlay, time)) return
+    if (overlay.type === 'image' && !image) return
+
+    const state = getOverlayAnimationState(overlay, time)
+    const opacity = overlay.opacity * state.opacity
+    if (opacity <= 0) return
+
+    const bounds = getOverlayBounds(overlay, frameWidth, frameHeight)
+    ctx.save()
+    ctx.globalAlpha = opacity
+    ctx.translate(
+        bounds.x + bounds.width / 2 + (state.offsetX / 100) * frameWidth,
+        bounds.y + bounds.height / 2 + (state.offsetY / 100) * frameHeight
+    )
+    ctx.rotate((overlay.rotation * Math.PI) / 180)
+    ctx.scale(state.scale, state.scale)
+
+    if (overlay.type === 'image' && image) {
+        drawOverlayImage(ctx, image, bounds.width, bounds.height)
+    } else {
+        drawOverlayText(ctx, overlay, bounds.width, bounds.height, frameHeight / REFERENCE_FRAME_HEIGHT)
+    }
+
+    ctx.restore()
+}
+
+// Later overlays are drawn on top of earlier ones
+export const drawOverlays = (
+    ctx: CanvasRenderingContext2D,
+    overlays: Overlay[],
+    images: Map<string, BrandImage>,
+    time: number,
+    frameWidth: number,
+    frameHeight: number
+) => {
+    overlays.forEach(overlay => drawOverlay(ctx, overlay, images.get(overlay.content), time, frameWidth, frameHeight))
+}
+
+// Images are keyed by URL; ones that fail to load are left out instead of failing the render
+export const loadOverlayImages = async (overlays: Overlay[]): Promise<Map<string, HTMLImageElement>> => {
+    const urls = [...new Set(overlays.filter(overlay => overlay.type === 'image' && overlay.content).map(overlay => overlay.content))]
+    const images = await Promise.allSettled(urls.map(url => loadBrandMarkImage(url)))
+    const loaded = new Map<string, HTMLImageElement>()
+    images.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            loaded.set(urls[index], result.value)
+        } else {
+            console.warn('Failed to load overlay image:', urls[index])
+        }
+    })
+    return loaded
+}
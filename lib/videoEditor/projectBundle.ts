@@ -0,0 +1,509 @@
+import { z } from 'zod'
+import type { EditorSnapshot } from '@/stores/videoEditorStore'
+import { DEFAULT_CAPTION_STYLE } from './captions'
+import { DEFAULT_BRAND_OVERLAY } from './brandOverlay'
+import { DEFAULT_CURSOR_SETTINGS } from './cursorTracking'
+import { DEFAULT_TRACKS } from './timelineTracks'
+import { DEFAULT_AUDIO_MIX } from './audioMixing'
+import { MediaAsset } from './mediaAssets'
+import { ProjectRecord, StoredMediaAsset } from './projectStorage'
+import { createZipArchive, readZipArchive } from './zipArchive'
+
+// A .snip file is a ZIP archive holding a JSON manifest and the project's media
+
+export const SNIP_FILE_EXTENSION = '.snip'
+export const SNIP_MIME_TYPE = 'application/vnd.snipai.project+zip'
+
+// Bump when the manifest or the editor state in it changes shape, and add a
+// migration from the previous version to PROJECT_BUNDLE_MIGRATIONS
+export const PROJECT_BUNDLE_VERSION = 8
+
+const MANIFEST_FILE = 'project.json'
+const MEDIA_FOLDER = 'media/'
+
+export interface ProjectBundleMedia extends StoredMediaAsset {
+    // Path of the media inside the archive
+    file: string
+}
+
+export interface ProjectBundleManifest {
+    format: 'snip'
+    version: number
+    exportedAt: string
+    project: {
+        name: string
+        duration: number
+        createdAt?: number
+    }
+    editor: EditorSnapshot
+    media: ProjectBundleMedia[]
+}
+
+export class ProjectBundleError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'ProjectBundleError'
+    }
+}
+
+type ManifestData = Record<string, unknown>
+
+// Upgrades a manifest from the version it is registered under to the next one
+export type ManifestMigration = (manifest: ManifestData) => ManifestData
+
+export const PROJECT_BUNDLE_MIGRATIONS: Record<number, ManifestMigration> = {
+    // Version 2 added captions
+    1: manifest => ({
+        ...manifest,
+        editor: { captions: [], captionStyle: DEFAULT_CAPTION_STYLE, ...(manifest.editor as ManifestData) }
+    }),
+    // Version 3 added transitions
+    2: manifest => ({
+        ...manifest,
+        editor: { transitions: [], ...(manifest.editor as ManifestData) }
+    }),
+    // Version 4 added brand overlay settings
+    3: manifest => ({
+        ...manifest,
+        editor: { brandOverlay: DEFAULT_BRAND_OVERLAY, ...(manifest.editor as ManifestData) }
+    }),
+    // Version 5 added overlays
+    4: manifest => ({
+        ...manifest,
+        editor: { overlays: [], ...(manifest.editor as ManifestData) }
+    }),
+    // Version 6 added the cursor track and cursor settings
+    5: manifest => ({
+        ...manifest,
+        editor: { cursorTrack: null, cursorSettings: DEFAULT_CURSOR_SETTINGS, ...(manifest.editor as ManifestData) }
+    }),
+    // Version 7 added zooms
+    6: manifest => ({
+        ...manifest,
+        editor: { zoomSegments: [], ...(manifest.editor as ManifestData) }
+    }),
+    // Version 8 added the timeline tracks and the audio mix
+    7: manifest => ({
+        ...manifest,
+        editor: { tracks: DEFAULT_TRACKS, audioMix: DEFAULT_AUDIO_MIX, ...(manifest.editor as ManifestData) }
+    })
+}
+
+// Editor objects allow fields the schema doesn't list, so newer optional
+// properties survive a round trip instead of being stripped
+const clipSchema = z.looseObject({
+    id: z.string(),
+    type: z.enum(['video', 'audio', 'effect', 'text', 'image']),
+    name: z.string(),
+    startTime: z.number().min(0),
+    endTime: z.number().min(0),
+    sourceId: z.string().optional(),
+    sourceIn: z.number().min(0).optional(),
+    sourceOut: z.number().min(0).optional(),
+    trackId: z.string(),
+    color: z.string(),
+    muted: z.boolean().optional(),
+    locked: z.boolean().optional(),
+    gain: z.number().min(0).optional(),
+    fadeIn: z.number().min(0).optional(),
+    fadeOut: z.number().min(0).optional()
+}).refine(clip => clip.endTime >= clip.startTime, { message: 'Clip ends before it starts' })
+
+const annotationSchema = z.looseObject({
+    id: z.string(),
+    type: z.enum(['text', 'arrow', 'rectangle', 'circle', 'line', 'highlight', 'freehand']),
+    x: z.number(),
+    y: z.number(),
+    color: z.string(),
+    startTime: z.number().min(0),
+    endTime: z.number().min(0),
+    points: z.array(z.object({ x: z.number(), y: z.number() })).optional()
+})
+
+const webcamSettingsSchema = z.looseObject({
+    visible: z.boolean(),
+    shape: z.enum(['rectangle', 'square', 'circle']),
+    shadowIntensity: z.number(),
+    borderWidth: z.number(),
+    borderColor: z.string()
+})
+
+const backgroundSettingsSchema = z.looseObject({
+    type: z.enum(['wallpaper', 'gradient', 'color', 'image']),
+    wallpaperIndex: z.number(),
+    wallpaperUrl: z.string(),
+    blurAmount: z.number(),
+    padding: z.number(),
+    borderRadius: z.number(),
+    shadowIntensity: z.number(),
+    backgroundColor: z.string(),
+    gradientColors: z.array(z.string())
+})
+
+const enhancementConfigSchema = z.looseObject({
+    autoColorCorrection: z.boolean(),
+    autoBrightnessAdjust: z.boolean(),
+    autoContrast: z.boolean(),
+    autoWhiteBalance: z.boolean(),
+    autoNoiseReduction: z.boolean(),
+    autoVolumeNormalization: z.boolean(),
+    autoVoiceEnhancement: z.boolean(),
+    autoEchoCancel: z.boolean(),
+    autoStabilization: z.boolean()
+})
+
+const enhancementSettingsSchema = z.looseObject({
+    brightness: z.number(),
+    contrast: z.number(),
+    saturation: z.number(),
+    temperature: z.number(),
+    noiseReduction: z.number(),
+    volumeBoost: z.number(),
+    voiceClarity: z.number(),
+    echoReduction: z.number(),
+    stabilizationStrength: z.number()
+})
+
+const captionSchema = z.looseObject({
+    id: z.string(),
+    start: z.number().min(0),
+    end: z.number().min(0),
+    text: z.string(),
+    words: z.array(z.object({ text: z.string(), start: z.number().min(0), end: z.number().min(0) })).optional()
+}).refine(caption => caption.end >= caption.start, { message: 'Caption ends before it starts' })
+
+const captionStyleSchema = z.looseObject({
+    enabled: z.boolean(),
+    fontFamily: z.string(),
+    useBrandFont: z.boolean(),
+    fontSize: z.number().positive(),
+    fontWeight: z.number(),
+    textColor: z.string(),
+    showBackground: z.boolean(),
+    backgroundColor: z.string(),
+    backgroundOpacity: z.number().min(0).max(1),
+    position: z.enum(['top', 'middle', 'bottom'])
+})
+
+const transitionSchema = z.looseObject({
+    id: z.string(),
+    presetId: z.string(),
+    fromClipId: z.string(),
+    toClipId: z.string(),
+    duration: z.number().positive()
+})
+
+const brandMarkOverrideSchema = z.looseObject({
+    position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center']).optional(),
+    opacity: z.number().min(0).max(1).optional()
+})
+
+const brandOverlaySchema = z.looseObject({
+    visible: z.boolean(),
+    logo: brandMarkOverrideSchema,
+    watermark: brandMarkOverrideSchema
+})
+
+const overlayAnimationSchema = z.enum(['none', 'fade', 'slide-up', 'slide-down', 'slide-left', 'slide-right', 'zoom'])
+
+const overlaySchema = z.looseObject({
+    id: z.string(),
+    type: z.enum(['text', 'image']),
+    content: z.string(),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    rotation: z.number(),
+    opacity: z.number().min(0).max(1),
+    startTime: z.number().min(0),
+    endTime: z.number().min(0),
+    animationIn: overlayAnimationSchema,
+    animationOut: overlayAnimationSchema,
+    animationDuration: z.number().min(0),
+    textColor: z.string(),
+    fontSize: z.number().positive(),
+    backgroundColor: z.string().optional()
+}).refine(overlay => overlay.endTime >= overlay.startTime, { message: 'Overlay ends before it starts' })
+
+const cursorSampleSchema = z.object({
+    time: z.number().min(0),
+    x: z.number(),
+    y: z.number()
+})
+
+const cursorTrackSchema = z.object({
+    samples: z.array(cursorSampleSchema),
+    clicks: z.array(cursorSampleSchema)
+})
+
+const cursorSettingsSchema = z.looseObject({
+    visible: z.boolean(),
+    size: z.number().positive(),
+    smoothing: z.number().min(0).max(1),
+    clickEffects: z.boolean(),
+    clickColor: z.string(),
+    hideWhenIdle: z.boolean(),
+    idleTimeout: z.number().min(0)
+})
+
+const zoomSegmentSchema = z.looseObject({
+    id: z.string(),
+    startTime: z.number().min(0),
+    endTime: z.number().min(0),
+    scale: z.number().min(1),
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    easing: z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out']),
+    transitionDuration: z.number().min(0)
+}).refine(segment => segment.endTime >= segment.startTime, { message: 'Zoom ends before it starts' })
+
+const trackSchema = z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    type: z.enum(['video', 'audio', 'effect', 'text']),
+    muted: z.boolean(),
+    solo: z.boolean(),
+    locked: z.boolean(),
+    visible: z.boolean(),
+    volume: z.number().min(0),
+    height: z.number().positive(),
+    color: z.string()
+})
+
+const audioMixSchema = z.looseObject({
+    duckMusic: z.boolean(),
+    duckLevel: z.number().min(0).max(1),
+    normalizeMusic: z.boolean()
+})
+
+const editorSchema = z.object({
+    clips: z.array(clipSchema),
+    annotations: z.array(annotationSchema),
+    webcamOverlayPosition: z.object({ x: z.number(), y: z.number() }),
+    webcamOverlaySize: z.object({ width: z.number().positive(), height: z.number().positive() }),
+    webcamSettings: webcamSettingsSchema,
+    aspectRatio: z.string(),
+    backgroundSettings: backgroundSettingsSchema,
+    currentColorPreset: z.string().optional(),
+    currentAspectRatio: z.string().optional(),
+    currentBrandKit: z.string().optional(),
+    brandOverlay: brandOverlaySchema,
+    colorGradingFilters: z.unknown(),
+    enhancementConfig: enhancementConfigSchema,
+    enhancementSettings: enhancementSettingsSchema,
+    captions: z.array(captionSchema),
+    captionStyle: captionStyleSchema,
+    transitions: z.array(transitionSchema),
+    overlays: z.array(overlaySchema),
+    cursorTrack: cursorTrackSchema.nullable(),
+    cursorSettings: cursorSettingsSchema,
+    zoomSegments: z.array(zoomSegmentSchema),
+    tracks: z.array(trackSchema),
+    audioMix: audioMixSchema
+})
+
+const mediaSchema = z.object({
+    id: z.string(),
+    type: z.enum(['video', 'audio', 'image']),
+    name: z.string(),
+    duration: z.number().min(0),
+    origin: z.enum(['screen-recording', 'webcam-recording', 'import']),
+    mimeType: z.string().optional(),
+    thumbnail: z.string().optional(),
+    file: z.string().startsWith(MEDIA_FOLDER)
+})
+
+const manifestSchema = z.object({
+    format: z.literal('snip'),
+    version: z.literal(PROJECT_BUNDLE_VERSION),
+    exportedAt: z.string(),
+    project: z.object({
+        name: z.string().min(1),
+        duration: z.number().min(0),
+        createdAt: z.number().optional()
+    }),
+    editor: editorSchema,
+    media: z.array(mediaSchema)
+}).superRefine((manifest, ctx) => {
+    const mediaIds = new Set(manifest.media.map(media => media.id))
+    manifest.editor.clips.forEach((clip, index) => {
+        if (clip.sourceId && !mediaIds.has(clip.sourceId)) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['editor', 'clips', index, 'sourceId'],
+                message: `Clip "${clip.name}" uses media that is not in the bundle`
+            })
+        }
+    })
+})
+
+/**
+ * Upgrade a manifest of an older bundle version to the current one
+ * @throws ProjectBundleError for bundles from a newer version or without a migration path
+ */
+export const migrateManifest = (
+    data: unknown,
+    migrations: Record<number, ManifestMigration> = PROJECT_BUNDLE_MIGRATIONS,
+    targetVersion: number = PROJECT_BUNDLE_VERSION
+): ManifestData => {
+    if (!data || typeof data !== 'object' || (data as ManifestData).format !== 'snip') {
+        throw new ProjectBundleError('This is not a Snip project file')
+    }
+
+    let manifest = data as ManifestData
+    const version = manifest.version
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ProjectBundleError('The project file has no valid version')
+    }
+    if (version > targetVersion) {
+        throw new ProjectBundleError('This project was saved by a newer version of the editor')
+    }
+
+    for (let from = version; from < targetVersion; from++) {
+        const migrate = migrations[from]
+        if (!migrate) {
+            throw new ProjectBundleError(`Project files of version ${from} can no longer be opened`)
+        }
+        manifest = { ...migrate(manifest), version: from + 1 }
+    }
+
+    return manifest
+}
+
+/**
+ * Migrate and validate a parsed manifest
+ * @throws ProjectBundleError describing what is wrong with it
+ */
+export const parseProjectManifest = (data: unknown): ProjectBundleManifest => {
+    const result = manifestSchema.safeParse(migrateManifest(data))
+    if (!result.success) {
+        throw new ProjectBundleError(`The project file is invalid:\n${z.prettifyError(result.error)}`)
+    }
+    return result.data as unknown as ProjectBundleManifest
+}
+
+const getMediaExtension = (mimeType: string | undefined) => {
+    const subtype = mimeType?.split('/')[1]?.split(';')[0]
+    return subtype && /^[a-z0-9.+-]+$/i.test(subtype) ? `.${subtype.replace('+xml', '')}` : '.bin'
+}
+
+/**
+ * Package a project and its media into a .snip file
+ * @param media - Contents of every asset, keyed by asset id
+ */
+export const createProjectBundle = async (
+    project: { name: string; createdAt?: number },
+    editor: EditorSnapshot,
+    mediaAssets: MediaAsset[],
+    media: Record<string, Blob>,
+    duration: number,
+    now: Date = new Date()
+): Promise<Blob> => {
+    const bundleMedia: ProjectBundleMedia[] = mediaAssets.map(asset => {
+        const blob = media[asset.id]
+        if (!blob) {
+            throw new ProjectBundleError(`Media for "${asset.name}" is missing`)
+        }
+        const mimeType = asset.mimeType || blob.type || undefined
+        return {
+            id: asset.id,
+            type: asset.type,
+            name: asset.name,
+            duration: asset.duration,
+            origin: asset.origin,
+            mimeType,
+            thumbnail: asset.thumbnail?.startsWith('blob:') ? undefined : asset.thumbnail,
+            file: `${MEDIA_FOLDER}${asset.id}${getMediaExtension(mimeType)}`
+        }
+    })
+
+    const manifest: ProjectBundleManifest = {
+        format: 'snip',
+        version: PROJECT_BUNDLE_VERSION,
+        exportedAt: now.toISOString(),
+        project: { name: project.name, duration, createdAt: project.createdAt },
+        editor,
+        media: bundleMedia
+    }
+
+    const archive = await createZipArchive([
+        { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+        ...bundleMedia.map(entry => ({ name: entry.file, data: media[entry.id] }))
+    ], now)
+
+    return archive.slice(0, archive.size, SNIP_MIME_TYPE)
+}
+
+/**
+ * Open a .snip file
+ * @returns The validated manifest and the media of every asset, keyed by asset id
+ * @throws ProjectBundleError when the file is not a readable project bundle
+ */
+export const readProjectBundle = async (
+    file: Blob
+): Promise<{ manifest: ProjectBundleManifest; media: Record<string, Blob> }> => {
+    let files: Map<string, Blob>
+    try {
+        files = await readZipArchive(file)
+    } catch (error) {
+        throw new ProjectBundleError(`The project file could not be read: ${(error as Error).message}`)
+    }
+
+    const manifestFile = files.get(MANIFEST_FILE)
+    if (!manifestFile) {
+        throw new ProjectBundleError('The project file has no manifest')
+    }
+
+    let data: unknown
+    try {
+        data = JSON.parse(await manifestFile.text())
+    } catch {
+        throw new ProjectBundleError('The project manifest is not valid JSON')
+    }
+
+    const manifest = parseProjectManifest(data)
+
+    const media: Record<string, Blob> = {}
+    for (const entry of manifest.media) {
+        const blob = files.get(entry.file)
+        if (!blob) {
+            throw new ProjectBundleError(`Media for "${entry.name}" is missing from the project file`)
+        }
+        media[entry.id] = blob.slice(0, blob.size, entry.mimeType ?? '')
+    }
+
+    return { manifest, media }
+}
+
+/**
+ * Turn an imported bundle into a local project record
+ */
+export const createProjectRecordFromBundle = (
+    manifest: ProjectBundleManifest,
+    projectId: string,
+    now: number = Date.now()
+): ProjectRecord => ({
+    id: projectId,
+    name: manifest.project.name,
+    createdAt: manifest.project.createdAt ?? now,
+    updatedAt: now,
+    duration: manifest.project.duration,
+    mediaAssets: manifest.media.map(entry => ({
+        id: entry.id,
+        type: entry.type,
+        name: entry.name,
+        duration: entry.duration,
+        origin: entry.origin,
+        mimeType: entry.mimeType,
+        thumbnail: entry.thumbnail
+    })),
+    editor: manifest.editor
+})
+
+// Strip characters that are not allowed in file names on common systems
+export const toSafeFileName = (name: string, fallback: string) =>
+    name.replace(/[\\/:*?"<>|]+/g, '-').trim() || fallback
+
+export const getProjectBundleFileName = (projectName: string) =>
+    `${toSafeFileName(projectName, 'project')}${SNIP_FILE_EXTENSION}`
@@ -0,0 +1,308 @@
+import type { EditorSnapshot } from '@/stores/videoEditorStore'
+import { MediaAsset } from './mediaAssets'
+import { DEFAULT_CAPTION_STYLE } from './captions'
+import { DEFAULT_BRAND_OVERLAY } from './brandOverlay'
+import { DEFAULT_CURSOR_SETTINGS } from './cursorTracking'
+import { DEFAULT_TRACKS } from './timelineTracks'
+import { DEFAULT_AUDIO_MIX } from './audioMixing'
+
+// Asset metadata as saved; URLs are object URLs and only live as long as the page
+export type StoredMediaAsset = Omit<MediaAsset, 'url'>
+
+export interface ProjectRecord {
+    id: string
+    name: string
+    createdAt: number
+    updatedAt: number
+    // Length of the edited sequence, shown in the recent projects list
+    duration: number
+    thumbnail?: string
+    mediaAssets: StoredMediaAsset[]
+    editor: EditorSnapshot
+}
+
+export type ProjectSummary = Omit<ProjectRecord, 'mediaAssets' | 'editor'>
+
+// A project open in the editor
+export interface ProjectSession {
+    id: string
+    name: string
+    // Only set for projects that have been saved before
+    createdAt?: number
+    thumbnail?: string
+    // Asset ids mapped to the URL whose media is already stored for them
+    storedMedia: Record<string, string>
+}
+
+interface MediaRecord {
+    key: string
+    projectId: string
+    assetId: string
+    blob: Blob
+}
+
+export const PROJECT_DB_NAME = 'snipai-projects'
+const PROJECT_DB_VERSION = 1
+const PROJECTS_STORE = 'projects'
+const MEDIA_STORE = 'media'
+
+export const RECENT_PROJECTS_LIMIT = 8
+
+// Delay between the last edit and the autosave that follows it
+export const AUTOSAVE_DELAY_MS = 1500
+
+// Set while a project is open in the editor and cleared when the editor is
+// left normally, so a leftover value means the tab went away mid-edit
+export const ACTIVE_PROJECT_STORAGE_KEY = 'snipai_activeProject'
+
+export const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+export const getDefaultProjectName = (date: Date = new Date()) =>
+    `Recording ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+
+const getMediaKey = (projectId: string, assetId: string) => `${projectId}:${assetId}`
+
+const toStoredMediaAsset = (asset: MediaAsset): StoredMediaAsset => {
+    const stored: StoredMediaAsset & { url?: string } = { ...asset }
+    delete stored.url
+    // Image thumbnails point at the asset's own object URL
+    if (stored.thumbnail?.startsWith('blob:')) delete stored.thumbnail
+    return stored
+}
+
+/**
+ * Build the record saved for a project from the editor state.
+ * createdAt is kept from the previous save when there is one.
+ */
+export const createProjectRecord = (
+    project: { id: string; name: string; createdAt?: number; thumbnail?: string },
+    editor: EditorSnapshot,
+    mediaAssets: MediaAsset[],
+    duration: number,
+    now: number = Date.now()
+): ProjectRecord => ({
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt ?? now,
+    updatedAt: now,
+    duration,
+    thumbnail: project.thumbnail,
+    mediaAssets: mediaAssets.map(toStoredMediaAsset),
+    editor
+})
+
+export const toProjectSummary = (record: ProjectRecord): ProjectSummary => ({
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    duration: record.duration,
+    thumbnail: record.thumbnail
+})
+
+/**
+ * Turn a saved project back into editor state, giving every asset a URL for its
+ * stored media. Assets whose media is missing are dropped along with their clips.
+ */
+export const restoreProjectRecord = (
+    record: ProjectRecord,
+    mediaUrls: Record<string, string>
+): { editor: EditorSnapshot; mediaAssets: MediaAsset[] } => {
+    const mediaAssets: MediaAsset[] = record.mediaAssets
+        .filter(asset => !!mediaUrls[asset.id])
+        .map(asset => ({
+            ...asset,
+            url: mediaUrls[asset.id],
+            thumbnail: asset.type === 'image' ? mediaUrls[asset.id] : asset.thumbnail
+        }))
+
+    const assetIds = new Set(mediaAssets.map(asset => asset.id))
+
+    return {
+        editor: {
+            ...record.editor,
+            clips: record.editor.clips.filter(clip => !clip.sourceId || assetIds.has(clip.sourceId)),
+            // Projects saved before captions, transitions, brand overlays, overlays, cursor tracking, zooms or the audio mix existed have none
+            captions: record.editor.captions ?? [],
+            captionStyle: record.editor.captionStyle ?? DEFAULT_CAPTION_STYLE,
+            transitions: record.editor.transitions ?? [],
+            brandOverlay: record.editor.brandOverlay ?? DEFAULT_BRAND_OVERLAY,
+            overlays: record.editor.overlays ?? [],
+            cursorTrack: record.editor.cursorTrack ?? null,
+            cursorSettings: record.editor.cursorSettings ?? DEFAULT_CURSOR_SETTINGS,
+            zoomSegments: record.editor.zoomSegments ?? [],
+            tracks: record.editor.tracks ?? DEFAULT_TRACKS,
+            audioMix: record.editor.audioMix ?? DEFAULT_AUDIO_MIX
+        },
+        mediaAssets
+    }
+}
+
+/**
+ * Grab the frame a video element currently shows as a small JPEG data URL
+ * @returns undefined when no frame is available yet
+ */
+export const captureVideoThumbnail = (video: HTMLVideoElement, width: number = 320): string | undefined => {
+    if (video.readyState < 2 || video.videoWidth === 0) return undefined
+
+    try {
+        const canvas = document.createElement('canvas')
+        canvas.width = width
+        canvas.height = Math.round(width * video.videoHeight / video.videoWidth)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) return undefined
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+        return canvas.toDataURL('image/jpeg', 0.7)
+    } catch (error) {
+        console.warn('Failed to capture project thumbnail:', error)
+        return undefined
+    }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+    })
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export const openProjectDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'))
+    }
+
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(PROJECT_DB_NAME, PROJECT_DB_VERSION)
+
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' })
+                }
+                if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+                    const media = db.createObjectStore(MEDIA_STORE, { keyPath: 'key' })
+                    media.createIndex('projectId', 'projectId')
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        }).catch((error) => {
+            // Let the next call try again
+            databasePromise = null
+            throw error
+        })
+    }
+
+    return databasePromise
+}
+
+/**
+ * Save a project. Only media that is passed in is written, so blobs that are
+ * already stored don't have to be copied again; stored media of assets the
+ * project no longer has is deleted.
+ */
+export const saveProject = async (record: ProjectRecord, media: Record<string, Blob> = {}): Promise<void> => {
+    const db = await openProjectDatabase()
+    const transaction = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(PROJECTS_STORE).put(record)
+
+    const mediaStore = transaction.objectStore(MEDIA_STORE)
+    for (const [assetId, blob] of Object.entries(media)) {
+        const entry: MediaRecord = { key: getMediaKey(record.id, assetId), projectId: record.id, assetId, blob }
+        mediaStore.put(entry)
+    }
+
+    const assetIds = new Set(record.mediaAssets.map(asset => asset.id))
+    const storedKeys = await requestToPromise(mediaStore.index('projectId').getAllKeys(record.id))
+    for (const key of storedKeys) {
+        const assetId = String(key).slice(record.id.length + 1)
+        if (!assetIds.has(assetId)) mediaStore.delete(key)
+    }
+
+    await done
+}
+
+export const loadProject = async (
+    projectId: string
+): Promise<{ record: ProjectRecord; media: Record<string, Blob> } | null> => {
+    const db = await openProjectDatabase()
+    const transaction = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readonly')
+
+    const record = await requestToPromise<ProjectRecord | undefined>(
+        transaction.objectStore(PROJECTS_STORE).get(projectId)
+    )
+    if (!record) return null
+
+    const entries = await requestToPromise<MediaRecord[]>(
+        transaction.objectStore(MEDIA_STORE).index('projectId').getAll(projectId)
+    )
+
+    const media: Record<string, Blob> = {}
+    for (const entry of entries) {
+        media[entry.assetId] = entry.blob
+    }
+
+    return { record, media }
+}
+
+export const listProjects = async (limit: number = RECENT_PROJECTS_LIMIT): Promise<ProjectSummary[]> => {
+    const db = await openProjectDatabase()
+    const transaction = db.transaction(PROJECTS_STORE, 'readonly')
+    const records = await requestToPromise<ProjectRecord[]>(transaction.objectStore(PROJECTS_STORE).getAll())
+
+    return records
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, limit)
+        .map(toProjectSummary)
+}
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+    const db = await openProjectDatabase()
+    const transaction = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+
+    transaction.objectStore(PROJECTS_STORE).delete(projectId)
+
+    const mediaStore = transaction.objectStore(MEDIA_STORE)
+    const keys = await requestToPromise(mediaStore.index('projectId').getAllKeys(projectId))
+    for (const key of keys) {
+        mediaStore.delete(key)
+    }
+
+    await done
+}
+
+export const markProjectActive = (projectId: string) => {
+    try {
+        localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, projectId)
+    } catch (error) {
+        console.warn('Failed to mark project as open:', error)
+    }
+}
+
+export const clearActiveProject = () => {
+    try {
+        localStorage.removeItem(ACTIVE_PROJECT_STORAGE_KEY)
+    } catch (error) {
+        console.warn('Failed to clear open project:', error)
+    }
+}
+
+export const getActiveProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY)
+    } catch {
+        return null
+    }
+}
@@ -0,0 +1,85 @@
+import { ZoomFrame, ZoomState } from './autoZoom'
+import { CursorTrack, getCursorPosition } from './cursorTracking'
+
+// How the recording is fitted into a frame of another shape, e.g. a 16:9
+// screen recording exported for a 9:16 platform
+export type ReframeMode = 'fit' | 'blur-fill' | 'smart-crop'
+
+export const REFRAME_MODES: { id: ReframeMode; label: string; description: string }[] = [
+    { id: 'fit', label: 'Fit', description: 'Whole recording, with bars on the background' },
+    { id: 'blur-fill', label: 'Blurred fill', description: 'Whole recording over a blurred copy of itself' },
+    { id: 'smart-crop', label: 'Smart crop', description: 'Fills the frame, following the cursor and zooms' }
+]
+
+// Blur of the copy behind the recording, as a fraction of the frame's longer side
+export const BLUR_FILL_RADIUS = 0.03
+
+// Seconds of cursor movement a smart crop averages, so it pans like a camera
+// operator instead of jumping with every flick of the pointer
+export const CROP_FOLLOW_WINDOW = 2
+const CROP_FOLLOW_STEPS = 9
+
+const CENTER = { x: 0.5, y: 0.5 }
+
+// The recording scaled to fit inside the frame, centered
+export const getFitRect = (source: { width: number; height: number }, frame: ZoomFrame): ZoomFrame => {
+    const scale = Math.min(frame.width / source.width, frame.height / source.height)
+    const width = source.width * scale
+    const height = source.height * scale
+    return {
+        x: frame.x + (frame.width - width) / 2,
+        y: frame.y + (frame.height - height) / 2,
+        width,
+        height
+    }
+}
+
+/**
+ * The recording scaled to cover the frame. The focus, as fractions of the
+ * recording, is brought as close to the middle of the frame as the
+ * recording's edges allow.
+ */
+export const getCoverRect = (
+    source: { width: number; height: number },
+    frame: ZoomFrame,
+    focus: { x: number; y: number } = CENTER
+): ZoomFrame => {
+    const scale = Math.max(frame.width / source.width, frame.height / source.height)
+    const width = source.width * scale
+    const height = source.height * scale
+    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+    return {
+        x: clamp(frame.x + frame.width / 2 - focus.x * width, frame.x + frame.width - width, frame.x),
+        y: clamp(frame.y + frame.height / 2 - focus.y * height, frame.y + frame.height - height, frame.y),
+        width,
+        height
+    }
+}
+
+// Where the cursor is on average around a time in the recording, or null when it never moved then
+export const getCursorFocus = (track: CursorTrack, sourceTime: number): { x: number; y: number } | null => {
+    const points: { x: number; y: number }[] = []
+    for (let step = 0; step < CROP_FOLLOW_STEPS; step++) {
+        const time = sourceTime - CROP_FOLLOW_WINDOW / 2 + (CROP_FOLLOW_WINDOW * step) / (CROP_FOLLOW_STEPS - 1)
+        const point = getCursorPosition(track, time)
+        if (point) points.push(point)
+    }
+    if (points.length === 0) return null
+    return {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+    }
+}
+
+/**
+ * What a smart crop keeps in view: the spot a zoom is on, taking over from
+ * the cursor as the zoom punches in, or the middle without either.
+ */
+export const getReframeFocus = (zoom: ZoomState, cursor: { x: number; y: number } | null): { x: number; y: number } => {
+    const base = cursor ?? CENTER
+    const weight = Math.max(0, Math.min(1, zoom.scale - 1))
+    return {
+        x: base.x + (zoom.x - base.x) * weight,
+        y: base.y + (zoom.y - base.y) * weight
+    }
+}
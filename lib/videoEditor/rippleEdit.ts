@@ -0,0 +1,102 @@
+import { Clip } from '@/hooks/useClips'
+import { getClipSourceIn, syncClipSourceRange } from './timelineComposition'
+
+export interface TimeRange {
+    start: number
+    end: number
+}
+
+// Anything with a place on the timeline, such as annotations
+interface TimedItem {
+    startTime: number
+    endTime: number
+}
+
+// Sort ranges and merge the ones that overlap or touch
+export const normalizeRanges = (ranges: TimeRange[]): TimeRange[] =>
+    ranges
+        .filter(range => range.end > range.start)
+        .sort((a, b) => a.start - b.start)
+        .reduce<TimeRange[]>((merged, range) => {
+            const last = merged[merged.length - 1]
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end)
+            } else {
+                merged.push({ ...range })
+            }
+            return merged
+        }, [])
+
+/**
+ * Remove a timeline range from every track and close the gap. Clips inside
+ * the range go, clips crossing it are trimmed (or split in two when it falls
+ * in their middle) and everything after it moves left.
+ */
+export const rippleDeleteClips = (clips: Clip[], range: TimeRange, idSuffix: string = `${Date.now()}`): Clip[] => {
+    const length = range.end - range.start
+    if (length <= 0) return clips
+
+    return clips.flatMap((clip): Clip[] => {
+        const sourceIn = getClipSourceIn(clip)
+
+        if (clip.endTime <= range.start) return [clip]
+        if (clip.startTime >= range.end) {
+            return [syncClipSourceRange({ ...clip, sourceIn, startTime: clip.startTime - length, endTime: clip.endTime - length })]
+        }
+        if (clip.startTime >= range.start && clip.endTime <= range.end) return []
+
+        const left: Clip | null = clip.startTime < range.start
+            ? syncClipSourceRange({ ...clip, sourceIn, endTime: range.start })
+            : null
+        const right: Clip | null = clip.endTime > range.end
+            ? syncClipSourceRange({
+                ...clip,
+                // The left piece keeps the original id so selections and references survive
+                id: left ? `${clip.id}-ripple-${idSuffix}` : clip.id,
+                sourceIn: sourceIn + (range.end - clip.startTime),
+                startTime: range.start,
+                endTime: clip.endTime - length
+            })
+            : null
+
+        return [left, right].filter((piece): piece is Clip => piece !== null)
+    })
+}
+
+// Same as rippleDeleteClips for items that are not clips; an item spanning the range just gets shorter
+export const rippleDeleteTimedItems = <T extends TimedItem>(items: T[], range: TimeRange): T[] => {
+    const length = range.end - range.start
+    if (length <= 0) return items
+
+    const shift = (time: number) => time <= range.start ? time : time >= range.end ? time - length : range.start
+
+    return items.flatMap(item => {
+        if (item.startTime >= range.start && item.endTime <= range.end) return []
+        const startTime = shift(item.startTime)
+        const endTime = shift(item.endTime)
+        if (startTime === item.startTime && endTime === item.endTime) return [item]
+        return [{ ...item, startTime, endTime }]
+    })
+}
+
+/**
+ * Ripple delete several ranges at once. They are removed from the last to
+ * the first so each range still refers to the timeline it was measured on.
+ */
+export const rippleDeleteRanges = <T extends TimedItem>(
+    clips: Clip[],
+    items: T[],
+    ranges: TimeRange[],
+    idSuffix: string = `${Date.now()}`
+): { clips: Clip[]; items: T[] } =>
+    normalizeRanges(ranges).reverse().reduce(
+        (state, range, index) => ({
+            clips: rippleDeleteClips(state.clips, range, `${idSuffix}-${index}`),
+            items: rippleDeleteTimedItems(state.items, range)
+        }),
+        { clips, items }
+    )
+
+// Timeline length removed by a set of ranges
+export const getRangesDuration = (ranges: TimeRange[]): number =>
+    normalizeRanges(ranges).reduce((total, range) => total + range.end - range.start, 0)
@@ -0,0 +1,112 @@
+import { SilenceRange, decodeAudioTrack, detectSilences } from '@/lib/videoEnhancement'
+import { Caption } from './captions'
+import { SCREEN_RECORDING_ASSET_ID } from './mediaAssets'
+import { TimeRange } from './rippleEdit'
+import { TimelineComposition } from './timelineComposition'
+import { getCaptionWords } from './transcriptEditing'
+
+// Pauses and fillers are found in recording time, like captions, and only
+// placed on the timeline when cuts are planned. Cutting one therefore makes
+// it disappear from the next plan instead of leaving a sliver behind.
+
+export type CutReason = 'silence' | 'filler'
+
+// A cut the editor proposes, in timeline time
+export interface ProposedCut extends TimeRange {
+    id: string
+    reason: CutReason
+    // The filler word, for filler cuts
+    text?: string
+}
+
+export interface SilenceRemovalOptions {
+    // Shortest pause that gets cut, in seconds
+    minSilence: number
+    // Pause kept on each side of a cut so speech does not sound clipped
+    padding: number
+    removeFillers: boolean
+}
+
+export const DEFAULT_SILENCE_REMOVAL_OPTIONS: SilenceRemovalOptions = {
+    minSilence: 0.75,
+    padding: 0.15,
+    removeFillers: true
+}
+
+// Pauses shorter than this are never looked for, whatever minSilence is set to
+export const MIN_DETECTED_SILENCE = 0.3
+
+export const FILLER_WORDS = ['um', 'umm', 'uh', 'uhh', 'uhm', 'erm', 'er', 'ah', 'hmm', 'mm', 'mhm']
+
+export const isFillerWord = (text: string): boolean =>
+    FILLER_WORDS.includes(text.toLowerCase().replace(/[^a-z]/g, ''))
+
+// Filler words in the transcript, in recording time
+export const findFillerWords = (captions: Caption[]): (TimeRange & { text: string })[] =>
+    captions.flatMap(caption =>
+        getCaptionWords(caption)
+            .filter(word => word.end > word.start && isFillerWord(word.text))
+            .map(word => ({ start: word.start, end: word.end, text: word.text }))
+    )
+
+// Where a stretch of the screen recording plays on the timeline; one range per clip showing part of it
+const mapRecordingRangeToTimeline = (range: TimeRange, composition: TimelineComposition): TimeRange[] =>
+    composition.segments
+        .filter(segment => segment.sourceId === undefined || segment.sourceId === SCREEN_RECORDING_ASSET_ID)
+        .flatMap(segment => {
+            const start = Math.max(range.start, segment.sourceIn)
+            const end = Math.min(range.end, segment.sourceOut)
+            if (end <= start) return []
+            return [{
+                start: segment.timelineStart + (start - segment.sourceIn),
+                end: segment.timelineStart + (end - segment.sourceIn)
+            }]
+        })
+
+/**
+ * Turn detected pauses (and, when asked, filler words) into timeline cuts.
+ * Pauses shorter than minSilence are kept and the rest are shortened by the
+ * padding on both sides before being placed on the timeline.
+ */
+export const planSilenceCuts = (
+    silences: SilenceRange[],
+    captions: Caption[],
+    composition: TimelineComposition,
+    options: SilenceRemovalOptions
+): ProposedCut[] => {
+    const cuts: Omit<ProposedCut, 'id'>[] = []
+
+    silences
+        .filter(silence => silence.end - silence.start >= options.minSilence)
+        .forEach(silence => {
+            const range = { start: silence.start + options.padding, end: silence.end - options.padding }
+            if (range.end <= range.start) return
+            mapRecordingRangeToTimeline(range, composition).forEach(piece => cuts.push({ ...piece, reason: 'silence' }))
+        })
+
+    if (options.removeFillers) {
+        findFillerWords(captions).forEach(filler => {
+            mapRecordingRangeToTimeline(filler, composition).forEach(piece =>
+                cuts.push({ ...piece, reason: 'filler', text: filler.text })
+            )
+        })
+    }
+
+    return cuts
+        .sort((a, b) => a.start - b.start)
+        .map((cut, index) => ({ ...cut, id: `${cut.reason}-${index}` }))
+}
+
+/**
+ * Decode a recording's audio and find its pauses. Returns no pauses for
+ * media without an audio track.
+ */
+export const detectRecordingSilences = async (recording: Blob): Promise<SilenceRange[]> => {
+    const audioContext = new AudioContext()
+    try {
+        const audioBuffer = await decodeAudioTrack(recording, audioContext)
+        return audioBuffer ? detectSilences(audioBuffer, { minDuration: MIN_DETECTED_SILENCE }) : []
+    } finally {
+        audioContext.close()
+    }
+}
@@ -16,7 +16,8 @@ export const createTemplateHandlers = (
     setCurrentAspectRatio: (template: string) => void,
     setAspectRatio: (ratio: string) => void,
     setCurrentBrandKit: (brandKit: string) => void,
-    setBackgroundSettings: (settings: any) => void
+    setBackgroundSettings: (settings: any) => void,
+    addTransitionAtPlayhead: (preset: TransitionPreset) => void
 ): TemplateHandlers => ({
     onApplyColorGrading: (preset: ColorGradingPreset) => {
         console.log('Applying color grading preset:', preset.name)
@@ -47,8 +48,6 @@ export const createTemplateHandlers = (
 
     onApplyTransition: (transition: TransitionPreset) => {
         console.log('Applying transition:', transition.name)
-        // Add transition to timeline between clips
-        // This would be implemented with the timeline system
-        alert(`Transition "${transition.name}" will be applied between clips. Full implementation coming soon!`)
+        addTransitionAtPlayhead(transition)
     }
 })
@@ -0,0 +1,280 @@
+import { Clip } from '@/hooks/useClips'
+import { SCREEN_RECORDING_ASSET_ID } from './mediaAssets'
+
+export const MAIN_VIDEO_TRACK_ID = 'video-1'
+
+// Shortest clip the editing tools will leave behind (one frame at 30fps)
+export const MIN_CLIP_DURATION = 1 / 30
+
+export interface CompositionSegment {
+    clipId: string
+    sourceId?: string
+    timelineStart: number
+    timelineEnd: number
+    sourceIn: number
+    sourceOut: number
+}
+
+export interface TimelineComposition {
+    segments: CompositionSegment[]
+    duration: number
+}
+
+// Where in the source media a clip begins playing. Clips created before
+// in-points were tracked simply play the source at their timeline position.
+export const getClipSourceIn = (clip: Clip): number => clip.sourceIn ?? clip.startTime
+
+export const getClipSourceOut = (clip: Clip): number => getClipSourceIn(clip) + (clip.endTime - clip.startTime)
+
+// Keep the stored out-point consistent with the in-point and timeline length
+export const syncClipSourceRange = (clip: Clip): Clip => {
+    if (clip.sourceId === undefined && clip.sourceIn === undefined) return clip
+    const sourceIn = getClipSourceIn(clip)
+    return { ...clip, sourceIn, sourceOut: sourceIn + (clip.endTime - clip.startTime) }
+}
+
+/**
+ * Build the ordered list of segments the exporter has to play for a track.
+ * Gaps between clips are preserved (nothing is drawn there) and overlapping
+ * clips are cut at the start of the clip that follows them.
+ */
+export const buildComposition = (clips: Clip[], trackId: string = MAIN_VIDEO_TRACK_ID): TimelineComposition => {
+    const trackClips = clips
+        .filter(clip => clip.trackId === trackId && clip.type === 'video')
+        .filter(clip => clip.endTime > clip.startTime)
+        .sort((a, b) => a.startTime - b.startTime)
+
+    const segments: CompositionSegment[] = []
+
+    trackClips.forEach((clip, index) => {
+        const next = trackClips[index + 1]
+        const timelineStart = clip.startTime
+        const timelineEnd = next ? Math.min(clip.endTime, next.startTime) : clip.endTime
+        if (timelineEnd <= timelineStart) return
+
+        const sourceIn = getClipSourceIn(clip)
+        segments.push({
+            clipId: clip.id,
+            sourceId: clip.sourceId,
+            timelineStart,
+            timelineEnd,
+            sourceIn,
+            sourceOut: sourceIn + (timelineEnd - timelineStart)
+        })
+    })
+
+    const duration = segments.length > 0 ? segments[segments.length - 1].timelineEnd : 0
+
+    return { segments, duration }
+}
+
+// Composition used when no timeline edit exists: the whole source, untouched
+export const createSourceComposition = (duration: number): TimelineComposition => ({
+    segments: [{
+        clipId: 'source',
+        timelineStart: 0,
+        timelineEnd: duration,
+        sourceIn: 0,
+        sourceOut: duration
+    }],
+    duration
+})
+
+// The composition cut off at a duration, e.g. a platform's upload limit
+export const trimComposition = (composition: TimelineComposition, maxDuration: number): TimelineComposition => {
+    if (composition.duration <= maxDuration) return composition
+    const segments = composition.segments
+        .filter(segment => segment.timelineStart < maxDuration)
+        .map(segment => segment.timelineEnd <= maxDuration ? segment : {
+            ...segment,
+            timelineEnd: maxDuration,
+            sourceOut: segment.sourceIn + (maxDuration - segment.timelineStart)
+        })
+    return { segments, duration: maxDuration }
+}
+
+export const getSegmentAtTime = (composition: TimelineComposition, time: number): CompositionSegment | null => {
+    return composition.segments.find(segment => time >= segment.timelineStart && time < segment.timelineEnd) ?? null
+}
+
+/**
+ * Where the preview player should be for a timeline time. Inside a gap the
+ * player is parked at the start of the next segment (or the end of the last).
+ */
+export const getPlaybackPosition = (
+    composition: TimelineComposition,
+    time: number
+): { segment: CompositionSegment; sourceTime: number } | null => {
+    const segment = getSegmentAtTime(composition, time)
+    if (segment) {
+        return { segment, sourceTime: segment.sourceIn + (time - segment.timelineStart) }
+    }
+
+    const next = composition.segments.find(s => s.timelineStart > time)
+    if (next) return { segment: next, sourceTime: next.sourceIn }
+
+    const last = composition.segments[composition.segments.length - 1]
+    return last ? { segment: last, sourceTime: last.sourceOut } : null
+}
+
+// Map a timeline time to the matching source time, or null inside a gap
+export const timelineToSourceTime = (composition: TimelineComposition, time: number): number | null => {
+    const segment = getSegmentAtTime(composition, time)
+    if (!segment) return null
+    return segment.sourceIn + (time - segment.timelineStart)
+}
+
+// The media asset a segment plays. Clips from before assets were tracked play the screen recording.
+export const getSegmentSourceId = (segment: CompositionSegment): string =>
+    segment.sourceId ?? SCREEN_RECORDING_ASSET_ID
+
+export const isRecordingSegment = (segment: CompositionSegment): boolean =>
+    getSegmentSourceId(segment) === SCREEN_RECORDING_ASSET_ID
+
+// Which media the frame at a timeline time comes from and where in it, or null inside a gap
+export const getFrameSource = (
+    composition: TimelineComposition,
+    time: number
+): { sourceId: string; sourceTime: number } | null => {
+    const segment = getSegmentAtTime(composition, time)
+    if (!segment) return null
+    return { sourceId: getSegmentSourceId(segment), sourceTime: segment.sourceIn + (time - segment.timelineStart) }
+}
+
+/**
+ * Map where the preview's recording is in its source back to the timeline.
+ * A source time used by several clips maps to the first of them.
+ */
+export const sourceToTimelineTime = (composition: TimelineComposition, sourceTime: number): number | null => {
+    const segment = composition.segments.find(s =>
+        isRecordingSegment(s) && sourceTime >= s.sourceIn && sourceTime < s.sourceOut
+    )
+    if (!segment) return null
+    return segment.timelineStart + (sourceTime - segment.sourceIn)
+}
+
+/**
+ * Split a clip at a timeline time. The right half keeps playing the source
+ * from where the left half stopped instead of restarting at the split point.
+ */
+export const splitClipAt = (clip: Clip, time: number, idSuffix: string = `${Date.now()}`): [Clip, Clip] => {
+    const sourceIn = getClipSourceIn(clip)
+    const leftClip: Clip = syncClipSourceRange({
+        ...clip,
+        id: `${clip.id}-left-${idSuffix}`,
+        sourceIn,
+        endTime: time
+    })
+    const rightClip: Clip = syncClipSourceRange({
+        ...clip,
+        id: `${clip.id}-right-${idSuffix}`,
+        sourceIn: sourceIn + (time - clip.startTime),
+        startTime: time
+    })
+    return [leftClip, rightClip]
+}
+
+export interface ClipUpdate {
+    clipId: string
+    updates: Partial<Clip>
+}
+
+/**
+ * Timeline range a clip edge may be dragged to without running off either
+ * end of its source media. A sourceDuration of 0 means the length is unknown.
+ */
+export const getClipResizeBounds = (clip: Clip, sourceDuration: number): { minStart: number; maxEnd: number } => {
+    const sourceIn = getClipSourceIn(clip)
+    return {
+        minStart: Math.max(0, clip.startTime - sourceIn),
+        maxEnd: sourceDuration > 0 ? clip.startTime + (sourceDuration - sourceIn) : Infinity
+    }
+}
+
+/**
+ * Slip: keep the clip where it is on the timeline and move the window of
+ * footage it shows. Dragging right reveals earlier footage, like in an NLE.
+ */
+export const slipClip = (clip: Clip, delta: number, sourceDuration: number): Partial<Clip> => {
+    const length = clip.endTime - clip.startTime
+    const maxIn = sourceDuration > 0 ? Math.max(0, sourceDuration - length) : Infinity
+    const sourceIn = Math.max(0, Math.min(maxIn, getClipSourceIn(clip) - delta))
+    return { sourceIn, sourceOut: sourceIn + length }
+}
+
+/**
+ * How far a clip can slide before a neighbour would shrink below one frame
+ * or run off the end of its source media.
+ */
+export const getSlideRange = (
+    clip: Clip,
+    previous: Clip | null,
+    next: Clip | null,
+    getSourceDuration: (clip: Clip) => number
+): { min: number; max: number } => {
+    let min = -clip.startTime
+    let max = Infinity
+
+    if (previous) {
+        min = Math.max(min, -(previous.endTime - previous.startTime - MIN_CLIP_DURATION))
+        const previousSourceDuration = getSourceDuration(previous)
+        if (previousSourceDuration > 0) {
+            max = Math.min(max, previousSourceDuration - getClipSourceOut(previous))
+        }
+    }
+    if (next) {
+        max = Math.min(max, next.endTime - next.startTime - MIN_CLIP_DURATION)
+        min = Math.max(min, -getClipSourceIn(next))
+    }
+
+    return { min, max }
+}
+
+/**
+ * Slide: move a clip along the timeline while its neighbours absorb the
+ * change, so the sequence keeps its length. The previous clip's out-point and
+ * the next clip's in-point follow the slid clip. All clips are the states
+ * from when the drag started.
+ */
+export const slideClip = (
+    clip: Clip,
+    previous: Clip | null,
+    next: Clip | null,
+    delta: number,
+    getSourceDuration: (clip: Clip) => number
+): ClipUpdate[] => {
+    const range = getSlideRange(clip, previous, next, getSourceDuration)
+    const clamped = Math.max(range.min, Math.min(range.max, delta))
+    const updates: ClipUpdate[] = [{
+        clipId: clip.id,
+        updates: {
+            startTime: clip.startTime + clamped,
+            endTime: clip.endTime + clamped,
+            sourceIn: getClipSourceIn(clip)
+        }
+    }]
+
+    if (previous) {
+        updates.push({
+            clipId: previous.id,
+            updates: { endTime: previous.endTime + clamped, sourceIn: getClipSourceIn(previous) }
+        })
+    }
+    if (next) {
+        updates.push({
+            clipId: next.id,
+            updates: { startTime: next.startTime + clamped, sourceIn: getClipSourceIn(next) + clamped }
+        })
+    }
+
+    return updates
+}
+
+// Clips on the same track whose edges touch the given clip
+export const getAdjacentClips = (clips: Clip[], clip: Clip, tolerance: number = 0.001): { previous: Clip | null; next: Clip | null } => {
+    const trackClips = clips.filter(c => c.trackId === clip.trackId && c.id !== clip.id)
+    return {
+        previous: trackClips.find(c => Math.abs(c.endTime - clip.startTime) <= tolerance) ?? null,
+        next: trackClips.find(c => Math.abs(c.startTime - clip.endTime) <= tolerance) ?? null
+    }
+}
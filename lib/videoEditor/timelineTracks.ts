@@ -0,0 +1,117 @@
+import { MAIN_VIDEO_TRACK_ID } from './timelineComposition'
+
+export type TrackType = 'video' | 'audio' | 'effect' | 'text'
+
+// A row of the timeline clips are placed on
+export interface Track {
+    id: string
+    name: string
+    type: TrackType
+    muted: boolean
+    solo: boolean
+    locked: boolean
+    visible: boolean
+    // Gain applied to everything on the track; 1 leaves it unchanged
+    volume: number
+    height: number
+    color: string
+}
+
+// Imported music goes here, so a new project already has somewhere to put it
+export const MUSIC_TRACK_ID = 'audio-1'
+
+export const MAX_TRACK_VOLUME = 2
+
+export const DEFAULT_TRACKS: Track[] = [
+    {
+        id: MAIN_VIDEO_TRACK_ID,
+        name: 'Video Track 1',
+        type: 'video',
+        muted: false,
+        solo: false,
+        locked: false,
+        visible: true,
+        volume: 1,
+        height: 60,
+        color: '#eab308'
+    },
+    {
+        id: MUSIC_TRACK_ID,
+        name: 'Audio Track 1',
+        type: 'audio',
+        muted: false,
+        solo: false,
+        locked: false,
+        visible: true,
+        volume: 1,
+        height: 50,
+        color: '#10b981'
+    },
+    {
+        id: 'effect-1',
+        name: 'Effect Track 1',
+        type: 'effect',
+        muted: false,
+        solo: false,
+        locked: false,
+        visible: true,
+        volume: 1,
+        height: 50,
+        color: '#a855f7'
+    },
+    {
+        id: 'text-1',
+        name: 'Text Track 1',
+        type: 'text',
+        muted: false,
+        solo: false,
+        locked: false,
+        visible: true,
+        volume: 1,
+        height: 40,
+        color: '#14b8a6'
+    }
+]
+
+const TRACK_HEIGHTS: Record<TrackType, number> = { video: 80, audio: 60, text: 50, effect: 70 }
+const TRACK_COLORS: Record<TrackType, string> = { video: '#3b82f6', audio: '#10b981', text: '#f59e0b', effect: '#8b5cf6' }
+
+// A new track of a type, numbered after the ones already there
+export const createTrack = (type: TrackType, tracks: Track[]): Track => {
+    let number = tracks.filter(track => track.type === type).length + 1
+    while (tracks.some(track => track.id === `${type}-${number}`)) number++
+
+    return {
+        id: `${type}-${number}`,
+        name: `${type.charAt(0).toUpperCase() + type.slice(1)} Track ${number}`,
+        type,
+        muted: false,
+        solo: false,
+        locked: false,
+        visible: true,
+        volume: 1,
+        height: TRACK_HEIGHTS[type],
+        color: TRACK_COLORS[type]
+    }
+}
+
+// Tracks that carry sound: the video tracks play their recording's audio
+export const hasTrackAudio = (track: Track): boolean => track.type === 'video' || track.type === 'audio'
+
+// Whether a track is heard, given the mute and solo flags of every track
+export const isTrackAudible = (track: Track, tracks: Track[]): boolean => {
+    if (track.muted) return false
+    const anySolo = tracks.some(t => t.solo)
+    return !anySolo || track.solo
+}
+
+// Solo one track, or unsolo it; only one track is soloed at a time
+export const toggleSolo = (tracks: Track[], trackId: string): Track[] =>
+    tracks.map(track => track.id === trackId ? { ...track, solo: !track.solo } : { ...track, solo: false })
+
+// Volume a track plays at, or 0 when it is muted or another track is soloed
+export const getTrackGain = (trackId: string, tracks: Track[]): number => {
+    const track = tracks.find(t => t.id === trackId)
+    if (!track) return 1
+    return isTrackAudible(track, tracks) ? track.volume : 0
+}
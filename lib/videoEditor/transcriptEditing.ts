@@ -0,0 +1,95 @@
+import { Caption, CaptionWord } from './captions'
+import { SCREEN_RECORDING_ASSET_ID } from './mediaAssets'
+import { TimeRange } from './rippleEdit'
+import { TimelineComposition } from './timelineComposition'
+
+// A transcript word placed on the timeline. Words are read in timeline order,
+// so moving or splitting clips reorders the transcript with them.
+export interface TimelineWord {
+    id: string
+    captionId: string
+    // Position of the word within its caption
+    wordIndex: number
+    clipId: string
+    text: string
+    start: number
+    end: number
+}
+
+/**
+ * Words of a caption with their recording times. Captions without word
+ * timings (typed in by hand, or from a provider that has none) share their
+ * time out evenly between their words.
+ */
+export const getCaptionWords = (caption: Caption): CaptionWord[] => {
+    if (caption.words && caption.words.length > 0) return caption.words
+
+    const texts = caption.text.split(/\s+/).filter(Boolean)
+    const length = (caption.end - caption.start) / Math.max(1, texts.length)
+    return texts.map((text, index) => ({
+        text,
+        start: caption.start + index * length,
+        end: caption.start + (index + 1) * length
+    }))
+}
+
+/**
+ * Place every transcript word on the timeline. A word belongs to the clip
+ * holding its midpoint, so a cut through a word does not leave a sliver of
+ * it behind in the transcript.
+ */
+export const mapWordsToTimeline = (captions: Caption[], composition: TimelineComposition): TimelineWord[] => {
+    const words: TimelineWord[] = []
+    const captionWords = captions.map(caption => ({ caption, words: getCaptionWords(caption) }))
+
+    composition.segments
+        .filter(segment => segment.sourceId === undefined || segment.sourceId === SCREEN_RECORDING_ASSET_ID)
+        .forEach(segment => {
+            captionWords.forEach(({ caption, words: captionWordList }) => {
+                if (caption.end <= segment.sourceIn || caption.start >= segment.sourceOut) return
+
+                captionWordList.forEach((word, wordIndex) => {
+                    const middle = (word.start + word.end) / 2
+                    if (middle < segment.sourceIn || middle >= segment.sourceOut) return
+
+                    const toTimeline = (time: number) =>
+                        segment.timelineStart + (Math.min(segment.sourceOut, Math.max(segment.sourceIn, time)) - segment.sourceIn)
+
+                    words.push({
+                        id: `${caption.id}:${wordIndex}@${segment.clipId}`,
+                        captionId: caption.id,
+                        wordIndex,
+                        clipId: segment.clipId,
+                        text: word.text,
+                        start: toTimeline(word.start),
+                        end: toTimeline(word.end)
+                    })
+                })
+            })
+        })
+
+    return words.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Timeline ranges to cut for a run of selected words. The run is contiguous
+ * in the transcript but may cross clips, so it becomes one range per clip.
+ * Pauses between selected words go too; pauses around the run are kept.
+ */
+export const getWordSelectionRanges = (words: TimelineWord[], fromIndex: number, toIndex: number): TimeRange[] => {
+    const first = Math.max(0, Math.min(fromIndex, toIndex))
+    const last = Math.min(words.length - 1, Math.max(fromIndex, toIndex))
+    const ranges: TimeRange[] = []
+
+    for (let index = first; index <= last; index++) {
+        const word = words[index]
+        const previous = ranges[ranges.length - 1]
+        if (previous && index > first && words[index - 1].clipId === word.clipId) {
+            previous.end = Math.max(previous.end, word.end)
+        } else {
+            ranges.push({ start: word.start, end: word.end })
+        }
+    }
+
+    return ranges
+}
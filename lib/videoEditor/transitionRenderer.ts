@@ -0,0 +1,39 @@
+import { TransitionPreset, applyTransition } from '@/lib/templates/transitionPresets'
+import { createCanvas } from '@/lib/canvasSurface'
+
+// Blends two video frames with a transition preset. Shared by the preview
+// and the exporter so both show the same thing.
+export interface TransitionRenderer {
+    width: number
+    height: number
+    render: (from: CanvasImageSource, to: CanvasImageSource, preset: TransitionPreset, progress: number) => HTMLCanvasElement
+}
+
+const createContext = (width: number, height: number) => {
+    const canvas = createCanvas(width, height)
+    return canvas.getContext('2d', { willReadFrequently: true })!
+}
+
+export const createTransitionRenderer = (width: number, height: number): TransitionRenderer => {
+    const fromCtx = createContext(width, height)
+    const toCtx = createContext(width, height)
+    const outputCtx = createContext(width, height)
+
+    const readFrame = (ctx: CanvasRenderingContext2D, source: CanvasImageSource) => {
+        ctx.clearRect(0, 0, width, height)
+        ctx.drawImage(source, 0, 0, width, height)
+        return ctx.getImageData(0, 0, width, height)
+    }
+
+    return {
+        width,
+        height,
+        render: (from, to, preset, progress) => {
+            const fromFrame = readFrame(fromCtx, from)
+            const toFrame = readFrame(toCtx, to)
+            outputCtx.clearRect(0, 0, width, height)
+            applyTransition(outputCtx, fromFrame, toFrame, preset, progress)
+            return outputCtx.canvas
+        }
+    }
+}
@@ -0,0 +1,223 @@
+// Minimal ZIP support for project bundles. Entries are written uncompressed:
+// the media in a bundle is already compressed video, audio or images, and
+// storing lets large files be sliced out of the archive without copying them.
+// Reading also accepts deflated entries where the browser can inflate them.
+
+export interface ZipEntryInput {
+    name: string
+    data: Blob | string
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+const LOCAL_FILE_HEADER_SIZE = 30
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+
+const ZIP_VERSION = 20
+const UTF8_FLAG = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+// ZIP64 is not supported, so sizes, offsets and counts must fit the classic fields
+const MAX_UINT32 = 0xffffffff
+const MAX_ENTRIES = 0xffff
+
+let crcTable: Uint32Array | null = null
+
+const getCrcTable = (): Uint32Array => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256)
+        for (let n = 0; n < 256; n++) {
+            let c = n
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+            }
+            crcTable[n] = c >>> 0
+        }
+    }
+    return crcTable
+}
+
+export const crc32 = (bytes: Uint8Array, crc: number = 0): number => {
+    const table = getCrcTable()
+    let c = (crc ^ 0xffffffff) >>> 0
+    for (let i = 0; i < bytes.length; i++) {
+        c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+    }
+    return (c ^ 0xffffffff) >>> 0
+}
+
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+})
+
+const readBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer())
+
+/**
+ * Build a ZIP archive from the given entries, in order
+ * @param entries - Files to add; names may contain folders ("media/clip.webm")
+ * @param modified - Modification time recorded for every entry
+ */
+export const createZipArchive = async (entries: ZipEntryInput[], modified: Date = new Date()): Promise<Blob> => {
+    if (entries.length > MAX_ENTRIES) {
+        throw new Error(`A ZIP archive can hold at most ${MAX_ENTRIES} files`)
+    }
+
+    const encoder = new TextEncoder()
+    const { time, date } = toDosDateTime(modified)
+    const parts: BlobPart[] = []
+    const centralDirectory: Uint8Array[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name)
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : await readBytes(entry.data)
+        const crc = crc32(data)
+
+        if (data.length > MAX_UINT32 || offset > MAX_UINT32) {
+            throw new Error(`"${entry.name}" is too large for a ZIP archive`)
+        }
+
+        const local = new DataView(new ArrayBuffer(LOCAL_FILE_HEADER_SIZE))
+        local.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+        local.setUint16(4, ZIP_VERSION, true)
+        local.setUint16(6, UTF8_FLAG, true)
+        local.setUint16(8, METHOD_STORE, true)
+        local.setUint16(10, time, true)
+        local.setUint16(12, date, true)
+        local.setUint32(14, crc, true)
+        local.setUint32(18, data.length, true)
+        local.setUint32(22, data.length, true)
+        local.setUint16(26, name.length, true)
+        local.setUint16(28, 0, true)
+
+        const central = new DataView(new ArrayBuffer(CENTRAL_DIRECTORY_HEADER_SIZE + name.length))
+        central.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+        central.setUint16(4, ZIP_VERSION, true)
+        central.setUint16(6, ZIP_VERSION, true)
+        central.setUint16(8, UTF8_FLAG, true)
+        central.setUint16(10, METHOD_STORE, true)
+        central.setUint16(12, time, true)
+        central.setUint16(14, date, true)
+        central.setUint32(16, crc, true)
+        central.setUint32(20, data.length, true)
+        central.setUint32(24, data.length, true)
+        central.setUint16(28, name.length, true)
+        central.setUint16(30, 0, true)          // extra field length
+        central.setUint16(32, 0, true)          // comment length
+        central.setUint16(34, 0, true)          // disk number
+        central.setUint16(36, 0, true)          // internal attributes
+        central.setUint32(38, 0, true)          // external attributes
+        central.setUint32(42, offset, true)
+        const centralBytes = new Uint8Array(central.buffer)
+        centralBytes.set(name, CENTRAL_DIRECTORY_HEADER_SIZE)
+
+        parts.push(local.buffer, name as BlobPart, data as BlobPart)
+        centralDirectory.push(centralBytes)
+        offset += LOCAL_FILE_HEADER_SIZE + name.length + data.length
+    }
+
+    const centralDirectorySize = centralDirectory.reduce((size, header) => size + header.length, 0)
+    if (offset > MAX_UINT32 || offset + centralDirectorySize > MAX_UINT32) {
+        throw new Error('Archive is too large for a ZIP file')
+    }
+
+    const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+    end.setUint16(4, 0, true)
+    end.setUint16(6, 0, true)
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, centralDirectorySize, true)
+    end.setUint32(16, offset, true)
+    end.setUint16(20, 0, true)
+
+    return new Blob([...parts, ...(centralDirectory as BlobPart[]), end.buffer], { type: 'application/zip' })
+}
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot read compressed ZIP entries')
+    }
+    const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    return new Response(stream).blob()
+}
+
+/**
+ * Read the files of a ZIP archive. Stored entries are returned as slices of
+ * the archive, so their contents are not read until they are used.
+ * @returns Entry names mapped to their contents; folders are left out
+ */
+export const readZipArchive = async (archive: Blob): Promise<Map<string, Blob>> => {
+    const tailStart = Math.max(0, archive.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE)
+    const tail = await readBytes(archive.slice(tailStart))
+    const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength)
+
+    let endOffset = -1
+    for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+        if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i
+            break
+        }
+    }
+    if (endOffset === -1) {
+        throw new Error('Not a ZIP archive')
+    }
+
+    const entryCount = tailView.getUint16(endOffset + 10, true)
+    const directorySize = tailView.getUint32(endOffset + 12, true)
+    const directoryOffset = tailView.getUint32(endOffset + 16, true)
+    if (directoryOffset === MAX_UINT32 || directoryOffset + directorySize > archive.size) {
+        throw new Error('Unsupported or damaged ZIP archive')
+    }
+
+    const directory = await readBytes(archive.slice(directoryOffset, directoryOffset + directorySize))
+    const directoryView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength)
+    const decoder = new TextDecoder()
+    const files = new Map<string, Blob>()
+    let position = 0
+
+    for (let i = 0; i < entryCount; i++) {
+        if (position + CENTRAL_DIRECTORY_HEADER_SIZE > directory.length ||
+            directoryView.getUint32(position, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+            throw new Error('Damaged ZIP central directory')
+        }
+
+        const method = directoryView.getUint16(position + 10, true)
+        const compressedSize = directoryView.getUint32(position + 20, true)
+        const nameLength = directoryView.getUint16(position + 28, true)
+        const extraLength = directoryView.getUint16(position + 30, true)
+        const commentLength = directoryView.getUint16(position + 32, true)
+        const localOffset = directoryView.getUint32(position + 42, true)
+        const nameStart = position + CENTRAL_DIRECTORY_HEADER_SIZE
+        const name = decoder.decode(directory.subarray(nameStart, nameStart + nameLength))
+        position = nameStart + nameLength + extraLength + commentLength
+
+        if (name.endsWith('/')) continue
+
+        // The local header can carry a different extra field than the directory
+        const localHeader = await readBytes(archive.slice(localOffset, localOffset + LOCAL_FILE_HEADER_SIZE))
+        const localView = new DataView(localHeader.buffer, localHeader.byteOffset, localHeader.byteLength)
+        if (localHeader.length < LOCAL_FILE_HEADER_SIZE || localView.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+            throw new Error(`Damaged ZIP entry "${name}"`)
+        }
+        const dataStart = localOffset + LOCAL_FILE_HEADER_SIZE +
+            localView.getUint16(26, true) + localView.getUint16(28, true)
+        const data = archive.slice(dataStart, dataStart + compressedSize)
+
+        if (method === METHOD_STORE) {
+            files.set(name, data)
+        } else if (method === METHOD_DEFLATE) {
+            files.set(name, await inflateRaw(data))
+        } else {
+            throw new Error(`ZIP entry "${name}" uses an unsupported compression method`)
+        }
+    }
+
+    return files
+}
@@ -21,6 +21,17 @@ import { AudioProcessor } from './processors/AudioProcessor'
 import { FrameProcessor } from './processors/FrameProcessor'
 import { getGPUCapabilities } from './utils/gpuDetection'
 import { ErrorHandler, MemoryManager } from './utils/errorHandler'
+import { createCanvas } from '../canvasSurface'
+import {
+    DEFAULT_ENHANCEMENT_FPS,
+    FrameRecorder,
+    decodeAudioTrack,
+    encodeWav,
+    getFrameTimestamps,
+    loadVideoElement,
+    muxAudioIntoVideo,
+    seekVideo
+} from './utils/mediaCodec'
 
 /**
  * Options for initializing the enhancement pipeline
@@ -111,7 +122,7 @@ export class EnhancementPipeline {
             const useGPU = options.useGPU !== false && (gpuCapabilities.webgl || gpuCapabilities.webgl2)
 
             // Create canvas for processing
-            const canvas = document.createElement('canvas')
+            const canvas = createCanvas()
             const ctx = canvas.getContext('2d', { willReadFrequently: true })
 
             if (!ctx) {
@@ -488,8 +499,7 @@ export class EnhancementPipeline {
         const processingSettings: any = {}
 
         // Add color correction if enabled
-        if (this.config.autoColorCorrection || this.config.autoBrightnessAdjust ||
-            this.config.autoContrast || this.config.autoWhiteBalance) {
+        if (this.hasFrameEnhancements()) {
             processingSettings.colorCorrection = {
                 brightness: this.settings.brightness,
                 contrast: this.settings.contrast,
@@ -546,44 +556,218 @@ export class EnhancementPipeline {
         return result.processedBuffer
     }
 
+    /**
+     * Enhance one frame from an image source, for renders that step through
+     * the video themselves instead of going through enhanceVideo()
+     *
+     * @param source - The frame to enhance
+     * @param width - Width to process the frame at
+     * @param height - Height to process the frame at
+     * @param timestamp - Time of the frame in the video
+     * @param index - Index of the frame in the render
+     * @returns The enhanced frame, or the source itself when no frame enhancement is enabled
+     */
+    enhanceImage(
+        source: CanvasImageSource,
+        width: number,
+        height: number,
+        timestamp: number,
+        index: number
+    ): CanvasImageSource {
+        this.ensureInitialized()
+
+        if (!this.hasFrameEnhancements()) {
+            return source
+        }
+
+        const { canvas, ctx } = this.context!
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width
+            canvas.height = height
+        }
+
+        ctx.drawImage(source, 0, 0, width, height)
+        const frame = this.processFrame({ imageData: ctx.getImageData(0, 0, width, height), timestamp, index })
+        ctx.putImageData(frame.imageData, 0, 0)
+
+        return canvas
+    }
+
+    /**
+     * Decode a video's sound and run it through processAudio(), for renders
+     * that enhance the frames themselves with enhanceImage()
+     *
+     * @param videoBlob - The video whose sound to enhance
+     * @param onProgress - Optional progress callback (0-1)
+     * @returns The enhanced sound, or null when there is none to enhance
+     */
+    async enhanceAudioTrack(
+        videoBlob: Blob,
+        onProgress?: (progress: number) => void
+    ): Promise<AudioBuffer | null> {
+        this.ensureInitialized()
+
+        const audioContext = this.context!.audioContext
+        if (!this.audioProcessor || !audioContext || !this.hasAudioEnhancements()) {
+            return null
+        }
+
+        const audioBuffer = await decodeAudioTrack(videoBlob, audioContext)
+        if (!audioBuffer) {
+            return null
+        }
+
+        return this.processAudio(
+            {
+                buffer: audioBuffer,
+                sampleRate: audioBuffer.sampleRate,
+                channels: audioBuffer.numberOfChannels
+            },
+            onProgress
+        )
+    }
+
     /**
      * Enhance entire video blob
      * Requirements: 1.7, 2.7, 4.3, 6.1, 6.2, 6.3, 6.4, 6.5, 6.6, 6.7
      * 
-     * This is a placeholder implementation. Full video processing requires
-     * extracting frames from the blob, processing each frame, and recombining.
-     * This would typically be done using FFmpeg or similar tools.
+     * Decodes the video, steps through every frame at a constant frame rate
+     * and runs it through processFrame(), runs the decoded audio through
+     * processAudio(), then records the processed frames and muxes the
+     * processed audio back in. Blobs the browser cannot decode are returned
+     * untouched.
      * 
      * @param videoBlob - The video blob to enhance
      * @param onProgress - Optional progress callback (0-1)
+     * @param fps - Frame rate of the enhanced video
      * @returns Enhanced video blob
      */
     async enhanceVideo(
         videoBlob: Blob,
-        onProgress?: (progress: number) => void
+        onProgress?: (progress: number) => void,
+        fps: number = DEFAULT_ENHANCEMENT_FPS
     ): Promise<Blob> {
         this.ensureInitialized()
 
-        console.log('enhanceVideo called - this is a placeholder implementation')
-
         // Reset metrics for new processing
         this.resetMetrics()
 
-        onProgress?.(0.1)
+        onProgress?.(0)
 
-        // TODO: Implement full video enhancement
-        // This would require:
-        // 1. Extract frames from video blob
-        // 2. Process each frame with processFrame()
-        // 3. Extract and process audio with processAudio()
-        // 4. Recombine frames and audio into output blob
+        const enhanceFrames = this.hasFrameEnhancements()
+        const enhanceAudio = !!this.audioProcessor && this.hasAudioEnhancements()
 
-        // For now, return the original blob
-        console.warn('Full video enhancement not yet implemented, returning original video')
+        if (!enhanceFrames && !enhanceAudio) {
+            onProgress?.(1.0)
+            return videoBlob
+        }
+
+        let loaded: { video: HTMLVideoElement; url: string }
+        try {
+            loaded = await loadVideoElement(videoBlob)
+        } catch (error) {
+            console.warn('Video could not be decoded for enhancement, returning original video:', error)
+            onProgress?.(1.0)
+            return videoBlob
+        }
 
-        onProgress?.(1.0)
+        const { video, url } = loaded
+        const { canvas, ctx, audioContext } = this.context!
 
-        return videoBlob
+        try {
+            // Audio first (0-20%): the processed track is muxed in at the end
+            let audioBuffer: AudioBuffer | null = null
+            if (audioContext) {
+                audioBuffer = await decodeAudioTrack(videoBlob, audioContext)
+            }
+            if (audioBuffer && enhanceAudio) {
+                audioBuffer = await this.processAudio(
+                    {
+                        buffer: audioBuffer,
+                        sampleRate: audioBuffer.sampleRate,
+                        channels: audioBuffer.numberOfChannels
+                    },
+                    (audioProgress) => onProgress?.(audioProgress * 0.2)
+                )
+            }
+            onProgress?.(0.2)
+
+            // Frames (20-90%)
+            canvas.width = video.videoWidth
+            canvas.height = video.videoHeight
+
+            const outputCanvas = createCanvas(canvas.width, canvas.height)
+            const outputCtx = outputCanvas.getContext('2d')
+            if (!outputCtx) {
+                throw new Error('Failed to create output canvas context')
+            }
+
+            const recorder = new FrameRecorder(outputCanvas, fps)
+            const timestamps = getFrameTimestamps(video.duration, fps)
+
+            for (let index = 0; index < timestamps.length; index++) {
+                await seekVideo(video, timestamps[index])
+
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+                const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+                const frame = enhanceFrames
+                    ? this.processFrame({ imageData, timestamp: timestamps[index], index })
+                    : { imageData, timestamp: timestamps[index], index }
+
+                outputCtx.putImageData(frame.imageData, 0, 0)
+                await recorder.addFrame()
+
+                onProgress?.(0.2 + ((index + 1) / timestamps.length) * 0.7)
+            }
+
+            const enhancedVideo = await recorder.finish()
+
+            if (enhanceFrames) {
+                this.metrics.brightnessAdjustment = this.settings.brightness
+                this.metrics.contrastAdjustment = this.settings.contrast
+                this.metrics.colorTemperatureShift = this.settings.temperature
+                if (!this.appliedEnhancements.includes('color-correction')) {
+                    this.appliedEnhancements.push('color-correction')
+                }
+            }
+
+            // Mux (90-100%)
+            let result = enhancedVideo
+            if (audioBuffer) {
+                result = await muxAudioIntoVideo(enhancedVideo, encodeWav(audioBuffer))
+            }
+
+            onProgress?.(1.0)
+
+            console.log('Video enhancement complete', {
+                frames: timestamps.length,
+                applied: this.appliedEnhancements,
+                withAudio: !!audioBuffer
+            })
+
+            return result
+        } finally {
+            video.removeAttribute('src')
+            video.load()
+            URL.revokeObjectURL(url)
+        }
+    }
+
+    /**
+     * Whether any per-frame enhancement is enabled
+     */
+    private hasFrameEnhancements(): boolean {
+        return this.config.autoColorCorrection || this.config.autoBrightnessAdjust ||
+            this.config.autoContrast || this.config.autoWhiteBalance
+    }
+
+    /**
+     * Whether any audio enhancement is enabled
+     */
+    private hasAudioEnhancements(): boolean {
+        return this.config.autoNoiseReduction || this.config.autoVolumeNormalization ||
+            this.config.autoVoiceEnhancement || this.config.autoEchoCancel
     }
 
     /**
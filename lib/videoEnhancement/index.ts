@@ -66,10 +66,20 @@ export {
     calculateAverageVolume,
     calculatePeakVolume,
     measureNoiseFloor,
-    calculateDynamicRange
+    calculateDynamicRange,
+    detectSilences
 } from './utils/audioAnalysis'
 
-export type { AudioAnalysisResult } from './utils/audioAnalysis'
+export type { AudioAnalysisResult, SilenceRange, SilenceDetectionOptions } from './utils/audioAnalysis'
+
+export {
+    DEFAULT_ENHANCEMENT_FPS,
+    decodeAudioTrack,
+    encodeWav,
+    getFrameTimestamps,
+    seekVideo,
+    FrameRecorder
+} from './utils/mediaCodec'
 
 // Presets and Configuration
 export {
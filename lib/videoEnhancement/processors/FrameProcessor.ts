@@ -13,6 +13,7 @@ import {
     type ColorCorrectionSettings
 } from '../enhancements/colorCorrection'
 import type { StabilizationResult } from '../enhancements/stabilization'
+import { createCanvas } from '../../canvasSurface'
 
 /**
  * Settings for frame processing
@@ -199,9 +200,7 @@ export class FrameProcessor {
         ctx.translate(-width / 2, -height / 2)
 
         // Create temporary canvas for source image
-        const tempCanvas = document.createElement('canvas')
-        tempCanvas.width = width
-        tempCanvas.height = height
+        const tempCanvas = createCanvas(width, height)
         const tempCtx = tempCanvas.getContext('2d')!
         tempCtx.putImageData(imageData, 0, 0)
 
@@ -227,9 +226,7 @@ export class FrameProcessor {
 
             // Scale back to original size
             ctx.clearRect(0, 0, width, height)
-            const scaledCanvas = document.createElement('canvas')
-            scaledCanvas.width = croppedWidth
-            scaledCanvas.height = croppedHeight
+            const scaledCanvas = createCanvas(croppedWidth, croppedHeight)
             const scaledCtx = scaledCanvas.getContext('2d')!
             scaledCtx.putImageData(croppedData, 0, 0)
 
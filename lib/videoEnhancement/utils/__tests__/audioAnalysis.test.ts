@@ -5,6 +5,7 @@ import {
   measureNoiseFloor,
   calculateDynamicRange,
   analyzeAudio,
+  detectSilences,
 } from '../audioAnalysis';
 
 /**
@@ -272,4 +273,44 @@ describe('audioAnalysis', () => {
       expect(isFinite(analysis.dynamicRange)).toBe(true);
     });
   });
+
+  describe('detectSilences', () => {
+    const sampleRate = 8000;
+
+    // Tone everywhere except the given silent ranges (in seconds)
+    const createSpeechBuffer = (seconds: number, silentRanges: [number, number][]) => {
+      const buffer = createMockAudioBuffer(sampleRate, seconds * sampleRate, 1);
+      fillAudioBuffer(buffer, (_, i) => {
+        const time = i / sampleRate;
+        const isSilent = silentRanges.some(([start, end]) => time >= start && time < end);
+        return isSilent ? 0.001 * Math.sin(i) : 0.5 * Math.sin(2 * Math.PI * 220 * time);
+      });
+      return buffer;
+    };
+
+    it('should find pauses longer than the minimum', () => {
+      const buffer = createSpeechBuffer(6, [[1, 2.5], [3, 3.2], [5, 6]]);
+
+      const silences = detectSilences(buffer, { minDuration: 0.5, windowSize: 400 });
+
+      expect(silences).toHaveLength(2);
+      expect(silences[0].start).toBeCloseTo(1, 1);
+      expect(silences[0].end).toBeCloseTo(2.5, 1);
+      expect(silences[1].start).toBeCloseTo(5, 1);
+      expect(silences[1].end).toBe(6);
+    });
+
+    it('should report nothing for continuous sound', () => {
+      const buffer = createSpeechBuffer(2, []);
+
+      expect(detectSilences(buffer)).toEqual([]);
+    });
+
+    it('should respect an explicit threshold', () => {
+      const buffer = createSpeechBuffer(2, [[0.5, 1.5]]);
+
+      expect(detectSilences(buffer, { threshold: 0.0001, windowSize: 400 })).toEqual([]);
+      expect(detectSilences(buffer, { threshold: 1, windowSize: 400 })).toEqual([{ start: 0, end: 2 }]);
+    });
+  });
 });
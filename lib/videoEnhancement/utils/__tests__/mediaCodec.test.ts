@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWav, getFrameTimestamps } from '../mediaCodec';
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('mediaCodec', () => {
+  describe('getFrameTimestamps', () => {
+    it('should produce one timestamp per frame', () => {
+      expect(getFrameTimestamps(2, 30)).toHaveLength(60);
+    });
+
+    it('should sample the middle of each frame', () => {
+      const timestamps = getFrameTimestamps(1, 10);
+
+      expect(timestamps[0]).toBeCloseTo(0.05);
+      expect(timestamps[9]).toBeCloseTo(0.95);
+    });
+
+    it('should return at least one frame for very short clips', () => {
+      expect(getFrameTimestamps(0.01, 30)).toEqual([0.01]);
+    });
+
+    it('should return no frames for an empty clip', () => {
+      expect(getFrameTimestamps(0, 30)).toEqual([]);
+    });
+  });
+
+  describe('encodeWav', () => {
+    it('should write a PCM header and interleaved samples', async () => {
+      const buffer = new AudioBuffer({ length: 2, numberOfChannels: 2, sampleRate: 8000 });
+      buffer.getChannelData(0).set([1, -1]);
+      buffer.getChannelData(1).set([0, 0.5]);
+
+      const wav = encodeWav(buffer);
+      const view = new DataView(await readBlob(wav));
+
+      expect(wav.type).toBe('audio/wav');
+      expect(wav.size).toBe(44 + 2 * 2 * 2);
+      expect(String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))).toBe('RIFF');
+      expect(view.getUint16(22, true)).toBe(2);
+      expect(view.getUint32(24, true)).toBe(8000);
+      expect(view.getInt16(44, true)).toBe(0x7fff);
+      expect(view.getInt16(46, true)).toBe(0);
+      expect(view.getInt16(48, true)).toBe(-0x8000);
+      expect(view.getInt16(50, true)).toBe(Math.floor(0.5 * 0x7fff));
+    });
+  });
+});
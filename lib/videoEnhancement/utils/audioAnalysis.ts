@@ -10,6 +10,24 @@ export interface AudioAnalysisResult {
   dynamicRange: number;        // Dynamic range in dB
 }
 
+export interface SilenceRange {
+  start: number;               // Seconds from the start of the buffer
+  end: number;
+}
+
+export interface SilenceDetectionOptions {
+  minDuration?: number;        // Shortest pause reported, in seconds (default: 0.75)
+  threshold?: number;          // RMS level below which audio counts as silent (default: derived from the noise floor)
+  windowSize?: number;         // Analysis window in samples (default: 1024)
+}
+
+// Audio this far above the noise floor (about 6 dB) still counts as silence
+const SILENCE_NOISE_FLOOR_FACTOR = 2;
+// Lowest threshold used, so near-digital silence does not treat breaths as speech
+const MIN_SILENCE_THRESHOLD = 0.005;
+// Without real pauses the noise floor is the speech itself; stay well below the average level
+const MAX_SILENCE_THRESHOLD_RATIO = 0.5;
+
 /**
  * Calculate the average volume (RMS) of an audio buffer
  * @param audioBuffer - The audio buffer to analyze
@@ -133,3 +151,56 @@ export function analyzeAudio(audioBuffer: AudioBuffer): AudioAnalysisResult {
     dynamicRange: calculateDynamicRange(audioBuffer),
   };
 }
+
+/**
+ * Find pauses in an audio buffer
+ * Windows whose RMS (across all channels) stays below the threshold for at
+ * least minDuration are reported as one silent range
+ * @param audioBuffer - The audio buffer to analyze
+ * @param options - Detection settings
+ * @returns Silent ranges in seconds, in order
+ */
+export function detectSilences(
+  audioBuffer: AudioBuffer,
+  options: SilenceDetectionOptions = {}
+): SilenceRange[] {
+  const { minDuration = 0.75, windowSize = 1024 } = options;
+  const threshold = options.threshold ?? Math.max(
+    MIN_SILENCE_THRESHOLD,
+    Math.min(
+      measureNoiseFloor(audioBuffer, windowSize) * SILENCE_NOISE_FLOOR_FACTOR,
+      calculateAverageVolume(audioBuffer) * MAX_SILENCE_THRESHOLD_RATIO
+    )
+  );
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel));
+  const silences: SilenceRange[] = [];
+  let silenceStart: number | null = null;
+
+  const closeSilence = (end: number) => {
+    if (silenceStart !== null && end - silenceStart >= minDuration) {
+      silences.push({ start: silenceStart, end });
+    }
+    silenceStart = null;
+  };
+
+  for (let i = 0; i < audioBuffer.length; i += windowSize) {
+    const windowEnd = Math.min(i + windowSize, audioBuffer.length);
+    let sumSquares = 0;
+
+    for (const channelData of channels) {
+      for (let j = i; j < windowEnd; j++) {
+        sumSquares += channelData[j] * channelData[j];
+      }
+    }
+
+    const rms = Math.sqrt(sumSquares / ((windowEnd - i) * Math.max(1, channels.length)));
+    if (rms < threshold) {
+      if (silenceStart === null) silenceStart = i / audioBuffer.sampleRate;
+    } else {
+      closeSilence(i / audioBuffer.sampleRate);
+    }
+  }
+
+  closeSilence(audioBuffer.length / audioBuffer.sampleRate);
+  return silences;
+}
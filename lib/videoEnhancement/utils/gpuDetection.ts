@@ -3,6 +3,8 @@
  * Requirements: 8.2, 8.3
  */
 
+import { createCanvas } from '../../canvasSurface'
+
 export interface GPUCapabilities {
   webgl: boolean
   webgl2: boolean
@@ -20,7 +22,7 @@ export interface GPUCapabilities {
  */
 export function detectWebGLSupport(): boolean {
   try {
-    const canvas = document.createElement('canvas')
+    const canvas = createCanvas()
     const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl')
     return gl !== null && gl !== undefined
   } catch (e) {
@@ -34,7 +36,7 @@ export function detectWebGLSupport(): boolean {
  */
 export function detectWebGL2Support(): boolean {
   try {
-    const canvas = document.createElement('canvas')
+    const canvas = createCanvas()
     const gl = canvas.getContext('webgl2')
     return gl !== null && gl !== undefined
   } catch (e) {
@@ -47,7 +49,7 @@ export function detectWebGL2Support(): boolean {
  * @returns GPUCapabilities object with detailed information
  */
 export function getGPUCapabilities(): GPUCapabilities {
-  const canvas = document.createElement('canvas')
+  const canvas = createCanvas()
   let gl: WebGLRenderingContext | WebGL2RenderingContext | null = null
   
   // Try WebGL2 first, then fall back to WebGL
@@ -154,9 +156,7 @@ export function createWebGLContext(
  */
 export function testGPUProcessing(): boolean {
   try {
-    const canvas = document.createElement('canvas')
-    canvas.width = 256
-    canvas.height = 256
+    const canvas = createCanvas(256, 256)
     
     const gl = createWebGLContext(canvas, true)
     if (!gl) return false
@@ -0,0 +1,255 @@
+/**
+ * Media Codec Utility
+ * Helpers for decoding a video blob into frames and audio, and for
+ * re-encoding the enhanced result
+ */
+
+import { fetchFile } from '@ffmpeg/util';
+import { loadFFmpeg } from '../../ffmpegLoader';
+
+export const DEFAULT_ENHANCEMENT_FPS = 30;
+
+/**
+ * Load a video blob into a detached video element and wait for its metadata.
+ * MediaRecorder WebM files report an infinite duration until the element has
+ * been seeked to the end, so the real duration is resolved here as well.
+ * @param videoBlob - The video to load
+ * @param timeoutMs - How long to wait for the browser before giving up
+ * @returns The loaded element and the object URL that must be revoked later
+ */
+export async function loadVideoElement(
+  videoBlob: Blob,
+  timeoutMs: number = 10000
+): Promise<{ video: HTMLVideoElement; url: string }> {
+  const url = URL.createObjectURL(videoBlob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Timed out loading video metadata')), timeoutMs);
+      video.onloadedmetadata = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      video.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error('Video could not be decoded'));
+      };
+      video.src = url;
+    });
+
+    if (!isFinite(video.duration)) {
+      await seekVideo(video, Number.MAX_SAFE_INTEGER, timeoutMs);
+      await seekVideo(video, 0, timeoutMs);
+    }
+
+    if (!isFinite(video.duration) || video.duration <= 0 || video.videoWidth === 0) {
+      throw new Error('Video has no decodable frames');
+    }
+
+    return { video, url };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+}
+
+/**
+ * Seek a video element and resolve once the frame at that time is available
+ * @param video - The video element to seek
+ * @param time - Target time in seconds
+ * @param timeoutMs - Resolve anyway after this long so a stuck seek cannot hang processing
+ */
+export function seekVideo(video: HTMLVideoElement, time: number, timeoutMs: number = 2000): Promise<void> {
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timeout);
+      video.removeEventListener('seeked', finish);
+      resolve();
+    };
+    const timeout = setTimeout(finish, timeoutMs);
+    video.addEventListener('seeked', finish);
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Timestamps (in seconds) of every frame of a clip at a constant frame rate
+ * @param duration - Clip duration in seconds
+ * @param fps - Frames per second
+ * @returns Frame timestamps, each sampled at the middle of its frame
+ */
+export function getFrameTimestamps(duration: number, fps: number): number[] {
+  if (duration <= 0 || fps <= 0) {
+    return [];
+  }
+
+  const frameCount = Math.max(1, Math.round(duration * fps));
+  const timestamps: number[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    // Sampling mid-frame avoids landing on the previous frame due to rounding
+    timestamps.push(Math.min((i + 0.5) / fps, duration));
+  }
+
+  return timestamps;
+}
+
+/**
+ * Decode the audio track of a media blob
+ * @param mediaBlob - The media to decode
+ * @param audioContext - Context used for decoding
+ * @returns Decoded audio, or null when the blob has no audio track
+ */
+export async function decodeAudioTrack(mediaBlob: Blob, audioContext: AudioContext): Promise<AudioBuffer | null> {
+  try {
+    const arrayBuffer = await mediaBlob.arrayBuffer();
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } catch (error) {
+    console.warn('No decodable audio track found:', error);
+    return null;
+  }
+}
+
+/**
+ * Encode an AudioBuffer as a 16-bit PCM WAV file
+ * @param audioBuffer - The audio to encode
+ * @returns WAV blob
+ */
+export function encodeWav(audioBuffer: AudioBuffer): Blob {
+  const channels = audioBuffer.numberOfChannels;
+  const sampleRate = audioBuffer.sampleRate;
+  const bytesPerSample = 2;
+  const dataSize = audioBuffer.length * channels * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);               // fmt chunk size
+  view.setUint16(20, 1, true);                // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => audioBuffer.getChannelData(c));
+  let offset = 44;
+
+  // Interleave channels
+  for (let i = 0; i < audioBuffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Record frames drawn onto a canvas into a WebM video, one frame at a time.
+ * The recorder is only running while a frame is being shown, so the output
+ * plays at the intended frame rate no matter how long each frame took to
+ * produce.
+ */
+export class FrameRecorder {
+  private recorder: MediaRecorder;
+  private track: CanvasCaptureMediaStreamTrack;
+  private chunks: Blob[] = [];
+  private frameDurationMs: number;
+
+  constructor(canvas: HTMLCanvasElement, fps: number) {
+    const stream = canvas.captureStream(0);
+    this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    this.frameDurationMs = 1000 / fps;
+
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+      .find(type => MediaRecorder.isTypeSupported(type));
+
+    this.recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: 8000000
+    });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    this.recorder.start();
+    this.recorder.pause();
+  }
+
+  /**
+   * Emit whatever is currently drawn on the canvas as the next frame
+   */
+  async addFrame(): Promise<void> {
+    this.recorder.resume();
+    this.track.requestFrame();
+    await new Promise(resolve => setTimeout(resolve, this.frameDurationMs));
+    this.recorder.pause();
+  }
+
+  /**
+   * Stop recording and return the encoded video
+   */
+  finish(): Promise<Blob> {
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        this.track.stop();
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+      };
+      this.recorder.stop();
+    });
+  }
+}
+
+/**
+ * Replace the audio of a video with an encoded audio file, keeping the video
+ * stream as-is
+ * @param videoBlob - Video-only WebM
+ * @param audioBlob - Audio to mux in (e.g. from encodeWav)
+ * @returns WebM with both streams
+ */
+export async function muxAudioIntoVideo(videoBlob: Blob, audioBlob: Blob): Promise<Blob> {
+  const ffmpeg = await loadFFmpeg();
+
+  await ffmpeg.writeFile('enhance-video.webm', await fetchFile(videoBlob));
+  await ffmpeg.writeFile('enhance-audio.wav', await fetchFile(audioBlob));
+
+  try {
+    await ffmpeg.exec([
+      '-i', 'enhance-video.webm',
+      '-i', 'enhance-audio.wav',
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      '-c:v', 'copy',
+      '-c:a', 'libopus',
+      '-b:a', '128k',
+      '-shortest',
+      'enhance-output.webm'
+    ]);
+
+    const data = await ffmpeg.readFile('enhance-output.webm');
+    return new Blob([data as BlobPart], { type: 'video/webm' });
+  } finally {
+    for (const file of ['enhance-video.webm', 'enhance-audio.wav', 'enhance-output.webm']) {
+      await ffmpeg.deleteFile(file).catch(() => undefined);
+    }
+  }
+}
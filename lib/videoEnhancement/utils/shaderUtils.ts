@@ -237,11 +237,96 @@ export const COMBINED_COLOR_CORRECTION_SHADER = `
 `;
 
 /**
- * Setup full-screen quad geometry
+ * Fragment shader for export color grading presets.
+ * Mirrors applyColorGradingToCanvas, working in 0-1 instead of 0-255
+ */
+export const COLOR_GRADING_FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform sampler2D u_image;
+  uniform vec2 u_resolution;
+  uniform float u_brightness;
+  uniform float u_contrast;
+  uniform float u_saturation;
+  uniform float u_temperature;
+  uniform float u_tint;
+  uniform float u_highlights;
+  uniform float u_shadows;
+  uniform float u_vibrance;
+  uniform float u_hue;
+  uniform float u_vignette;
+  uniform float u_grain;
+  uniform float u_seed;
+  varying vec2 v_texCoord;
+
+  float random(vec2 co) {
+    return fract(sin(dot(co + u_seed, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  void main() {
+    vec4 color = texture2D(u_image, v_texCoord);
+    vec3 result = color.rgb;
+
+    // Highlights and shadows
+    float luminance = dot(result, vec3(0.299, 0.587, 0.114)) * 255.0;
+    if (luminance > 128.0) {
+      result *= 1.0 + u_highlights * ((luminance - 128.0) / 127.0);
+    } else {
+      result *= 1.0 + u_shadows * (1.0 - luminance / 128.0);
+    }
+
+    // Brightness and contrast
+    result *= 1.0 + u_brightness;
+    result = (result - 0.5) * (1.0 + u_contrast) + 0.5;
+
+    // Temperature (warm/cool) and tint (green/magenta)
+    result.r += (u_temperature * 30.0 - u_tint * 15.0) / 255.0;
+    result.g += u_tint * 30.0 / 255.0;
+    result.b -= (u_temperature * 30.0 + u_tint * 15.0) / 255.0;
+
+    // Saturation, then vibrance which boosts muted colors more
+    float gray = dot(result, vec3(0.299, 0.587, 0.114));
+    result = mix(vec3(gray), result, 1.0 + u_saturation);
+    float maxChannel = max(result.r, max(result.g, result.b));
+    float minChannel = min(result.r, min(result.g, result.b));
+    float currentSaturation = maxChannel > 0.0 ? (maxChannel - minChannel) / maxChannel : 0.0;
+    result = mix(vec3(gray), result, 1.0 + (1.0 - currentSaturation) * u_vibrance);
+
+    // Hue rotation, with the matrix CSS hue-rotate() uses
+    if (u_hue != 0.0) {
+      float c = cos(u_hue);
+      float s = sin(u_hue);
+      result = vec3(
+        dot(result, vec3(0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928)),
+        dot(result, vec3(0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.140, 0.072 - c * 0.072 - s * 0.283)),
+        dot(result, vec3(0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072))
+      );
+    }
+    result = clamp(result, 0.0, 1.0);
+
+    // Vignette
+    if (u_vignette > 0.0) {
+      vec2 offset = (v_texCoord - 0.5) * u_resolution;
+      result *= 1.0 - (length(offset) / length(u_resolution * 0.5)) * u_vignette;
+    }
+
+    // Film grain
+    if (u_grain > 0.0) {
+      result += (random(v_texCoord) - 0.5) * u_grain * 50.0 / 255.0;
+    }
+
+    gl_FragColor = vec4(clamp(result, 0.0, 1.0), color.a);
+  }
+`;
+
+/**
+ * Setup full-screen quad geometry. With flipY the first row of the texture is
+ * drawn at the top of the canvas, for sources uploaded without
+ * UNPACK_FLIP_Y_WEBGL (which WebGL ignores for ImageBitmaps)
  */
 export function setupQuadGeometry(
   gl: WebGLRenderingContext | WebGL2RenderingContext,
-  program: WebGLProgram
+  program: WebGLProgram,
+  flipY: boolean = false
 ): void {
   // Create position buffer
   const positionBuffer = gl.createBuffer();
@@ -264,7 +349,12 @@ export function setupQuadGeometry(
   const texCoordBuffer = gl.createBuffer();
   gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
   
-  const texCoords = new Float32Array([
+  const texCoords = new Float32Array(flipY ? [
+    0, 1,
+    1, 1,
+    0, 0,
+    1, 0,
+  ] : [
     0, 0,
     1, 0,
     0, 1,
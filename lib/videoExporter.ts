@@ -1,33 +1,114 @@
 import { ExportOptions } from '@/components/ExportDialog'
 import { convertWebMToMP4, isFFmpegSupported } from './ffmpegConverter'
-import { EnhancementPipeline, EnhancementConfig, EnhancementSettings } from './videoEnhancement'
+import { getFFmpegState } from './ffmpegLoader'
+import {
+    ExportCancelledError,
+    WebCodecsConfig,
+    getFrameCount,
+    getWebCodecsConfig,
+    toEncodableAudio
+} from './webCodecsExport'
+import {
+    CaptionBurnIn,
+    ExportBackground,
+    ExportScene,
+    ExportWebcam,
+    createFrameCompositor
+} from './exportCompositor'
+import {
+    EXPORT_FRAME_WINDOW,
+    ExportWorkerFrame,
+    ExportWorkerRequest,
+    ExportWorkerResponse,
+    ExportWorkerStart,
+    getFrameBitmaps
+} from './exportWorkerProtocol'
+import { EnhancementPipeline, EnhancementConfig, EnhancementSettings, seekVideo } from './videoEnhancement'
+import { Clip } from '@/hooks/useClips'
+import {
+    CompositionSegment,
+    TimelineComposition,
+    buildComposition,
+    createSourceComposition,
+    getFrameSource,
+    getSegmentAtTime,
+    getSegmentSourceId,
+    isRecordingSegment,
+    trimComposition
+} from './videoEditor/timelineComposition'
+import { mapCaptionsToTimeline } from './videoEditor/captions'
+import { Overlay, loadOverlayImages } from './videoEditor/overlays'
+import { ZoomSegment } from './videoEditor/autoZoom'
+import { AudioMixSettings, DEFAULT_AUDIO_MIX, TimelineAudioMix, mixTimelineAudio } from './videoEditor/audioMixing'
+import { MediaAsset, SCREEN_RECORDING_ASSET_ID } from './videoEditor/mediaAssets'
+import { DEFAULT_TRACKS, Track } from './videoEditor/timelineTracks'
+import { ColorGradingFilters } from './templates/applyColorGrading'
+import { ClipTransition, TransitionFrame, getTransitionFrame, placeTransitions } from './videoEditor/clipTransitions'
+import { LoadedBrandMark, loadBrandMarks } from './videoEditor/brandOverlay'
+import { ReframeMode } from './videoEditor/reframing'
+import type { BrandImage, BrandMark } from './templates/brandKit'
+import type { Annotation } from '@/components/VideoAnnotation'
+
+export { ExportCancelledError }
+
+// How far the source video may drift from the timeline before we re-seek it
+const MAX_SOURCE_DRIFT = 0.25
+const AUDIO_BITRATE = 128000
+
+// What an export is doing, reported with its progress
+export type ExportStage =
+    | 'loading' // Fetching the recording and webcam
+    | 'enhancing'
+    | 'mixing-audio'
+    | 'rendering'
+    | 'converting' // To MP4 with FFmpeg, when the render could not encode it
+    | 'finalizing'
+
+// What the mix is made from
+interface ExportAudio {
+    tracks: Track[]
+    settings: AudioMixSettings
+}
+
+// A platform to render for instead of the chosen resolution: its frame, how
+// the recording is reframed into it, and its upload limits
+export interface ExportTarget {
+    id: string
+    name: string // Shown for the export, e.g. "TikTok Vertical"
+    width: number
+    height: number
+    reframe: ReframeMode
+    maxDuration?: number // Seconds; the edit is cut off there
+    maxVideoBitrate?: number // Bits per second, capping the quality's bitrate
+}
 
-interface VideoExportParams {
+export interface VideoExportParams {
     videoUrl: string
     webcamUrl?: string
     options: ExportOptions
     videoDuration?: number // Actual duration from the video element
-    webcamSettings?: {
-        visible: boolean
-        position: { x: number; y: number }
-        size: { width: number; height: number }
-        shape: 'rectangle' | 'square' | 'circle'
-        borderWidth: number
-        borderColor: string
-    }
-    backgroundSettings?: {
-        type: 'wallpaper' | 'gradient' | 'color' | 'image'
-        padding: number
-        borderRadius: number
-        backgroundColor?: string
-        gradientColors?: string[]
-        wallpaperIndex?: number
-        wallpaperUrl?: string
-        blurAmount?: number
-    }
+    clips?: Clip[] // Timeline edit to render; the whole source is exported when omitted
+    mediaAssets?: MediaAsset[] // Imported media the clips play, read from the asset URLs
+    webcamSettings?: ExportWebcam
+    backgroundSettings?: ExportBackground
     enhancementConfig?: EnhancementConfig
     enhancementSettings?: EnhancementSettings
-    onProgress?: (progress: number) => void
+    captions?: CaptionBurnIn
+    annotations?: Annotation[] // In timeline time
+    overlays?: Overlay[] // In timeline time
+    cursor?: ExportScene['cursor'] // Timed against the recording
+    zoomSegments?: ZoomSegment[] // In timeline time
+    audio?: ExportAudio // Mixed down and recorded with the frames; the recording's own sound when omitted
+    colorGrading?: ColorGradingFilters | null
+    transitions?: ClipTransition[]
+    brandMarks?: BrandMark[] // Logo and watermark, drawn on the whole frame
+    target?: ExportTarget
+    onProgress?: (progress: number, stage: ExportStage) => void
+    signal?: AbortSignal // Cancels the export, which then rejects with ExportCancelledError
+}
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new ExportCancelledError()
 }
 
 export async function exportVideo(params: VideoExportParams): Promise<Blob> {
@@ -36,48 +117,41 @@ export async function exportVideo(params: VideoExportParams): Promise<Blob> {
         webcamUrl,
         options,
         videoDuration,
+        clips,
+        mediaAssets = [],
         webcamSettings,
         backgroundSettings,
         enhancementConfig,
         enhancementSettings,
-        onProgress
+        captions,
+        annotations = [],
+        overlays = [],
+        cursor,
+        zoomSegments = [],
+        audio,
+        colorGrading = null,
+        transitions = [],
+        brandMarks = [],
+        target,
+        onProgress,
+        signal
     } = params
 
+    // Only fall back to the raw recording when there is no edit to render
+    const timelineComposition = clips ? buildComposition(clips) : null
+    const composition = timelineComposition && timelineComposition.segments.length > 0
+        ? timelineComposition
+        : null
+
     try {
-        onProgress?.(0.05) // 5% - Starting
+        onProgress?.(0.05, 'loading') // 5% - Starting
 
         // Fetch the main video
         const videoResponse = await fetch(videoUrl)
         const videoBlob = await videoResponse.blob()
+        throwIfCancelled(signal)
 
-        onProgress?.(0.15) // 15% - Main video loaded
-
-        // Apply video enhancements if configured
-        let enhancedVideoBlob = videoBlob
-        if (enhancementConfig && enhancementSettings) {
-            try {
-                onProgress?.(0.20) // 20% - Starting enhancement
-
-                console.log('Applying video enhancements...')
-                const pipeline = new EnhancementPipeline(enhancementConfig)
-                await pipeline.initialize()
-
-                enhancedVideoBlob = await pipeline.enhanceVideo(videoBlob, (enhancementProgress: number) => {
-                    // Map enhancement progress (0-1) to overall progress (20%-30%)
-                    const overallProgress = 0.20 + (enhancementProgress * 0.10)
-                    onProgress?.(overallProgress)
-                })
-
-                console.log('Video enhancement complete')
-                onProgress?.(0.30) // 30% - Enhancement complete
-            } catch (error) {
-                console.warn('Video enhancement failed, using original video:', error)
-                // Continue with original video if enhancement fails
-                onProgress?.(0.30) // 30% - Enhancement skipped
-            }
-        } else {
-            onProgress?.(0.30) // 30% - No enhancement configured
-        }
+        onProgress?.(0.15, 'loading') // 15% - Main video loaded
 
         // If we need to include webcam and it exists
         let webcamBlob: Blob | null = null
@@ -94,53 +168,125 @@ export async function exportVideo(params: VideoExportParams): Promise<Blob> {
             } catch (error) {
                 console.warn('Failed to fetch webcam video, continuing without it:', error)
             }
-            onProgress?.(0.25) // 25% - Webcam loaded or skipped
-        } else {
-            onProgress?.(0.25) // 25% - Skip webcam
         }
+        throwIfCancelled(signal)
 
-        // Get resolution dimensions
-        const dimensions = getResolutionDimensions(options.resolution)
+        onProgress?.(0.20, 'loading') // 20% - Webcam loaded or skipped
+
+        // Apply video enhancements if configured. The export worker enhances each
+        // frame as it draws it, so only the sound is enhanced here; the real-time
+        // recorder cannot, so the whole recording is enhanced up front for it. Should
+        // the worker turn out unable to encode this export, the render enhances it then
+        let enhancedVideoBlob = videoBlob
+        let enhancedAudio: AudioBuffer | null = null
+        let frameEnhancement: ExportWorkerStart['enhancement'] = null
+        if (enhancementConfig && enhancementSettings) {
+            try {
+                onProgress?.(0.20, 'enhancing') // 20% - Starting enhancement
+
+                console.log('Applying video enhancements...')
+                const pipeline = new EnhancementPipeline(enhancementConfig, enhancementSettings)
+                await pipeline.initialize()
+
+                // Map enhancement progress (0-1) to overall progress (20%-30%)
+                const onEnhancementProgress = (enhancementProgress: number) => {
+                    onProgress?.(0.20 + (enhancementProgress * 0.10), 'enhancing')
+                }
+
+                try {
+                    if (canRenderInWorker()) {
+                        if (options.includeAudio) {
+                            enhancedAudio = await pipeline.enhanceAudioTrack(videoBlob, onEnhancementProgress)
+                        }
+                        frameEnhancement = { config: enhancementConfig, settings: enhancementSettings }
+                    } else {
+                        enhancedVideoBlob = await pipeline.enhanceVideo(videoBlob, onEnhancementProgress, options.fps)
+                    }
+                } finally {
+                    pipeline.dispose()
+                }
 
-        onProgress?.(0.30) // 30% - Ready to process
+                console.log('Video enhancement complete')
+                onProgress?.(0.30, 'enhancing') // 30% - Enhancement complete
+            } catch (error) {
+                console.warn('Video enhancement failed, using original video:', error)
+                // Continue with original video if enhancement fails
+                onProgress?.(0.30, 'enhancing') // 30% - Enhancement skipped
+            }
+        }
+        throwIfCancelled(signal)
+
+        // The recording's sound is the enhanced sound, taken from the enhanced copy
+        // when the whole recording was enhanced, so it matches the frames
+        const audioSources = audio ?? { tracks: DEFAULT_TRACKS, settings: DEFAULT_AUDIO_MIX }
+        const audioMix: Omit<TimelineAudioMix, 'composition'> | undefined = options.includeAudio
+            ? {
+                clips: clips ?? [],
+                tracks: audioSources.tracks,
+                settings: audioSources.settings,
+                loadSource: async (sourceId) => {
+                    if (sourceId === SCREEN_RECORDING_ASSET_ID) return enhancedAudio ?? enhancedVideoBlob
+                    const asset = mediaAssets.find(a => a.id === sourceId)
+                    return asset ? (await fetch(asset.url)).blob() : null
+                }
+            }
+            : undefined
 
-        // Process video with canvas (30% to 85%)
-        const webmBlob = await processVideoWithCanvas(
+        // Get resolution dimensions
+        const dimensions = target ?? getResolutionDimensions(options.resolution)
+
+        // Process video with canvas (30% to 85%); WebCodecs renders MP4 directly
+        const renderedBlob = await processVideoWithCanvas(
             enhancedVideoBlob, // Use enhanced video instead of original
             webcamBlob,
             dimensions,
             options,
             videoDuration,
+            composition,
+            mediaAssets,
             webcamSettings,
             backgroundSettings,
-            (progress) => {
+            captions,
+            annotations,
+            overlays,
+            cursor,
+            zoomSegments,
+            colorGrading,
+            transitions,
+            brandMarks,
+            audioMix,
+            frameEnhancement,
+            target,
+            signal,
+            (progress, stage) => {
                 // Map canvas progress (0-1) to overall progress (30%-85%)
                 const overallProgress = 0.30 + (progress * 0.55)
-                onProgress?.(overallProgress)
+                onProgress?.(overallProgress, stage)
             }
         )
 
-        onProgress?.(0.85) // 85% - Canvas processing complete
+        onProgress?.(0.85, 'rendering') // 85% - Canvas processing complete
+        throwIfCancelled(signal)
 
-        // Convert to MP4 if requested and supported (85% to 98%)
-        let finalBlob = webmBlob
+        // Convert to MP4 if requested, not rendered already and supported (85% to 98%)
+        let finalBlob = renderedBlob
         let actualFormat = options.format
 
-        if (options.format === 'mp4') {
+        if (options.format === 'mp4' && renderedBlob.type !== 'video/mp4') {
             console.log('MP4 format requested, checking FFmpeg support...')
             const ffmpegSupported = await isFFmpegSupported()
             console.log('FFmpeg supported:', ffmpegSupported)
 
             if (ffmpegSupported) {
                 console.log('Converting WebM to MP4...')
-                console.log('WebM blob size:', webmBlob.size, 'bytes')
+                console.log('WebM blob size:', renderedBlob.size, 'bytes')
                 try {
-                    finalBlob = await convertWebMToMP4(webmBlob, (conversionProgress) => {
+                    finalBlob = await convertWebMToMP4(renderedBlob, (conversionProgress) => {
                         // Map conversion progress (0-1) to overall progress (85%-98%)
                         const overallProgress = 0.85 + (conversionProgress * 0.13)
                         console.log('Conversion progress:', Math.round(conversionProgress * 100) + '%')
-                        onProgress?.(overallProgress)
-                    })
+                        onProgress?.(overallProgress, 'converting')
+                    }, target?.maxVideoBitrate)
                     console.log('✅ MP4 conversion complete! Final blob size:', finalBlob.size, 'bytes')
                     console.log('Blob type:', finalBlob.type)
                 } catch (error) {
@@ -149,9 +295,7 @@ export async function exportVideo(params: VideoExportParams): Promise<Blob> {
                     // Fall back to WebM if conversion fails
                 }
             } else {
-                console.warn('⚠️ FFmpeg not supported in this browser, exporting as WebM')
-                console.warn('SharedArrayBuffer available:', typeof SharedArrayBuffer !== 'undefined')
-                console.warn('Secure context:', typeof window !== 'undefined' ? window.isSecureContext : 'unknown')
+                console.warn('⚠️ FFmpeg not available, exporting as WebM:', getFFmpegState().error)
                 actualFormat = 'webm'
             }
         }
@@ -160,11 +304,13 @@ export async function exportVideo(params: VideoExportParams): Promise<Blob> {
         console.log('Final blob size:', finalBlob.size, 'bytes')
         console.log('Final blob type:', finalBlob.type)
 
-        onProgress?.(0.98) // 98% - Finalizing
+        onProgress?.(0.98, 'finalizing') // 98% - Finalizing
 
         return finalBlob
     } catch (error) {
-        console.error('Video export error:', error)
+        if (!(error instanceof ExportCancelledError)) {
+            console.error('Video export error:', error)
+        }
         throw error
     }
 }
@@ -185,30 +331,68 @@ function getResolutionDimensions(resolution: ExportOptions['resolution']): { wid
     }
 }
 
+// Renders the edit: offline in the export worker where the browser can encode
+// it there, otherwise by playing the sources and recording a canvas
 async function processVideoWithCanvas(
     videoBlob: Blob,
     webcamBlob: Blob | null,
     dimensions: { width: number; height: number },
     options: ExportOptions,
-    knownDuration?: number,
-    webcamSettings?: any,
-    backgroundSettings?: any,
-    onProgress?: (progress: number) => void
+    knownDuration: number | undefined,
+    timelineComposition: TimelineComposition | null,
+    mediaAssets: MediaAsset[],
+    webcamSettings?: ExportWebcam,
+    backgroundSettings?: ExportBackground,
+    captionBurnIn?: CaptionBurnIn,
+    annotations: Annotation[] = [],
+    overlays: Overlay[] = [],
+    cursor?: ExportScene['cursor'],
+    zoomSegments: ZoomSegment[] = [],
+    colorGrading: ColorGradingFilters | null = null,
+    transitions: ClipTransition[] = [],
+    brandMarks: BrandMark[] = [],
+    audioMix?: Omit<TimelineAudioMix, 'composition'>,
+    frameEnhancement: ExportWorkerStart['enhancement'] = null,
+    target?: ExportTarget,
+    signal?: AbortSignal,
+    onProgress?: (progress: number, stage: 'enhancing' | 'mixing-audio' | 'rendering') => void
 ): Promise<Blob> {
     return new Promise(async (resolve, reject) => {
-        try {
-            // Create video elements
-            const video = document.createElement('video')
-            let webcamVideo: HTMLVideoElement | null = null
+        // Create video elements
+        const video = document.createElement('video')
+        let webcamVideo: HTMLVideoElement | null = null
+
+        // Every way out of the export, done, failed or cancelled, lets go of the
+        // sources and of whatever else was set up for it, once
+        const cleanups: (() => void)[] = []
+        const objectUrls: string[] = []
+        let settled = false
+        const settle = (outcome: () => void) => {
+            if (settled) return
+            settled = true
+            cleanups.forEach(cleanup => cleanup())
+            video.pause()
+            webcamVideo?.pause()
+            objectUrls.forEach(url => URL.revokeObjectURL(url))
+            outcome()
+        }
+        const createSourceUrl = (blob: Blob) => {
+            const url = URL.createObjectURL(blob)
+            objectUrls.push(url)
+            return url
+        }
+        const finish = (blob: Blob) => settle(() => resolve(blob))
+        const fail = (error: unknown) => settle(() => reject(error))
 
+        try {
             // Only create webcam video if we have a blob and settings say to use it
             if (webcamBlob && webcamSettings?.visible) {
                 webcamVideo = document.createElement('video')
             }
 
-            video.src = URL.createObjectURL(videoBlob)
+            video.src = createSourceUrl(videoBlob)
             if (webcamVideo && webcamBlob) {
-                webcamVideo.src = URL.createObjectURL(webcamBlob)
+                webcamVideo.src = createSourceUrl(webcamBlob)
             }
 
             video.muted = true
@@ -218,22 +402,7 @@ async function processVideoWithCanvas(
                 webcamVideo.preload = 'metadata'
             }
 
-            // Wait for main video metadata with timeout
-            await new Promise((resolve, reject) => {
-                const timeout = setTimeout(() => {
-                    reject(new Error('Video metadata loading timeout'))
-                }, 10000)
-
-                video.onloadedmetadata = () => {
-                    clearTimeout(timeout)
-                    resolve(null)
-                }
-
-                video.onerror = () => {
-                    clearTimeout(timeout)
-                    reject(new Error('Video loading error'))
-                }
-            })
+            await waitForMetadata(video)
 
             // Try to load webcam video, but don't fail if it doesn't work
             if (webcamVideo && webcamBlob) {
@@ -275,28 +444,184 @@ async function processVideoWithCanvas(
                 }
             }
 
+            const fullComposition = timelineComposition ?? createSourceComposition(duration)
+            const composition = target?.maxDuration ? trimComposition(fullComposition, target.maxDuration) : fullComposition
+            duration = composition.duration
+
             console.log('Video info:', {
                 duration,
+                segments: composition.segments.length,
                 videoWidth: video.videoWidth,
                 videoHeight: video.videoHeight,
                 readyState: video.readyState
             })
 
-            // Determine canvas dimensions
-            const canvasWidth = dimensions.width || video.videoWidth
-            const canvasHeight = dimensions.height || video.videoHeight
+            // Determine canvas dimensions; video encoders need them even, so round down to a multiple of 2
+            const canvasWidth = Math.floor((dimensions.width || video.videoWidth) / 2) * 2
+            const canvasHeight = Math.floor((dimensions.height || video.videoHeight) / 2) * 2
+
+            const scene: ExportScene = {
+                width: canvasWidth,
+                height: canvasHeight,
+                background: backgroundSettings,
+                webcam: webcamSettings,
+                captions: captionBurnIn
+                    ? { ...captionBurnIn, captions: mapCaptionsToTimeline(captionBurnIn.captions, composition) }
+                    : undefined,
+                annotations,
+                overlays,
+                cursor,
+                zoomSegments,
+                colorGrading,
+                reframe: target && video.videoWidth > 0 && video.videoHeight > 0
+                    ? { mode: target.reframe, sourceWidth: video.videoWidth, sourceHeight: video.videoHeight }
+                    : undefined
+            }
+
+            const createSourceVideo = (url: string) => {
+                const sourceVideo = document.createElement('video')
+                sourceVideo.src = url
+                sourceVideo.muted = true
+                sourceVideo.preload = 'auto'
+                cleanups.push(() => sourceVideo.pause())
+                return sourceVideo
+            }
+
+            // The video each media asset plays from: clips of imported video have
+            // one of their own. Media that does not load is left out, so its clips
+            // export as gaps
+            const sourceVideos = new Map([[SCREEN_RECORDING_ASSET_ID, video]])
+            const mediaSourceIds = new Set(composition.segments.filter(s => !isRecordingSegment(s)).map(getSegmentSourceId))
+            await Promise.all([...mediaSourceIds].map(async (sourceId) => {
+                const asset = mediaAssets.find(a => a.id === sourceId && a.type === 'video')
+                if (!asset) return
+                const mediaVideo = createSourceVideo(asset.url)
+                try {
+                    await waitForMetadata(mediaVideo)
+                    sourceVideos.set(sourceId, mediaVideo)
+                } catch (error) {
+                    console.warn('Imported video did not load, exporting its clips as gaps:', asset.name, error)
+                }
+            }))
+            const getSourceVideo = (segment: CompositionSegment) => sourceVideos.get(getSegmentSourceId(segment)) ?? null
+
+            // Transitions play the other side of the cut from a second copy of its media
+            const placedTransitions = placeTransitions(transitions, composition)
+            const transitionVideos = new Map<string, HTMLVideoElement>()
+            placedTransitions.forEach(({ boundary }) => [boundary.from, boundary.to].forEach(segment => {
+                const sourceId = getSegmentSourceId(segment)
+                const url = getSourceVideo(segment)?.src
+                if (url && !transitionVideos.has(sourceId)) transitionVideos.set(sourceId, createSourceVideo(url))
+            }))
+            const getTransitionSide = (frame: TransitionFrame) => {
+                const segment = frame.isPastCut ? frame.placed.boundary.from : frame.placed.boundary.to
+                const source = transitionVideos.get(getSegmentSourceId(segment))
+                return source ? { source, sourceTime: frame.isPastCut ? frame.fromSourceTime : frame.toSourceTime } : null
+            }
+
+            // Brand and overlay images have to be ready before the first frame is recorded
+            const loadedBrandMarks = await loadBrandMarks(brandMarks)
+            const overlayImages = await loadOverlayImages(overlays)
+
+            // The mix is rendered up front and encoded or played along with the frames
+            let mixdown: AudioBuffer | null = null
+            if (audioMix) {
+                onProgress?.(0, 'mixing-audio')
+                try {
+                    mixdown = await mixTimelineAudio({ ...audioMix, composition })
+                } catch (error) {
+                    console.warn('Audio mixdown failed, exporting without sound:', error)
+                }
+            }
+            onProgress?.(0, 'rendering')
+
+            // Render offline in the export worker where the browser can encode the
+            // export there, seeking the sources to each frame instead of playing them
+            const videoBitrate = Math.min(
+                getVideoBitrate(options.quality, canvasWidth, canvasHeight),
+                target?.maxVideoBitrate ?? Infinity
+            )
+            const webCodecs = canRenderInWorker()
+                ? await getWebCodecsConfig(options.format, canvasWidth, canvasHeight, options.fps, videoBitrate, mixdown)
+                : null
+            if (webCodecs) {
+                console.log('Rendering offline in the export worker:', webCodecs.video.codec, webCodecs.audio?.codec ?? 'no audio')
+                const blob = await renderInWorker({
+                    config: webCodecs,
+                    scene,
+                    overlayImages,
+                    brandMarks: loadedBrandMarks,
+                    mixdown,
+                    duration,
+                    fps: options.fps,
+                    enhancement: frameEnhancement,
+                    captureFrame: async (timelineTime) => {
+                        const frameSource = getFrameSource(composition, timelineTime)
+                        const source = frameSource ? sourceVideos.get(frameSource.sourceId) : undefined
+                        if (!frameSource || !source) {
+                            return { recording: null, sourceTime: video.currentTime, transition: null, webcam: null }
+                        }
+
+                        // The webcam and the cursor were recorded along with the screen only
+                        const isRecording = source === video
+                        const webcam = isRecording ? webcamVideo : null
+                        const { sourceTime } = frameSource
+                        await seekVideo(source, sourceTime)
+                        if (webcam) await seekVideo(webcam, sourceTime)
+
+                        const transition = getTransitionFrame(placedTransitions, timelineTime)
+                        const side = transition ? getTransitionSide(transition) : null
+                        if (side) await seekVideo(side.source, side.sourceTime)
+
+                        return {
+                            recording: await createImageBitmap(source),
+                            sourceTime: isRecording ? sourceTime : null,
+                            transition: transition && side
+                                ? { frame: transition, source: await createImageBitmap(side.source) }
+                                : null,
+                            webcam: webcam ? await createImageBitmap(webcam) : null
+                        }
+                    },
+                    onProgress: (progress) => onProgress?.(progress, 'rendering'),
+                    signal
+                })
+                console.log('Export complete, blob size:', blob.size)
+                finish(blob)
+                return
+            }
+
+            // The frames were to be enhanced as the worker drew them. Recording in
+            // real time cannot do that, so the whole recording is enhanced first
+            if (frameEnhancement) {
+                onProgress?.(0, 'enhancing')
+                const enhancedBlob = await enhanceRecording(videoBlob, frameEnhancement, options.fps)
+                throwIfCancelled(signal)
+                if (enhancedBlob) {
+                    video.src = createSourceUrl(enhancedBlob)
+                    await waitForMetadata(video)
+                    const recordingCopy = transitionVideos.get(SCREEN_RECORDING_ASSET_ID)
+                    if (recordingCopy) recordingCopy.src = video.src
+                }
+                onProgress?.(0, 'rendering')
+            }
 
-            // Create canvas
             const canvas = document.createElement('canvas')
             canvas.width = canvasWidth
             canvas.height = canvasHeight
             const ctx = canvas.getContext('2d')!
+            const compositor = createFrameCompositor(scene, { overlays: overlayImages, brandMarks: loadedBrandMarks })
+            cleanups.push(() => compositor.dispose())
+
+            const mixPlayback = mixdown ? await createMixdownPlayback(mixdown) : null
+            if (mixPlayback) cleanups.push(() => mixPlayback.stop())
 
             // Setup MediaRecorder
             const stream = canvas.captureStream(options.fps)
+            mixPlayback?.stream.getAudioTracks().forEach(track => stream.addTrack(track))
             const mediaRecorder = new MediaRecorder(stream, {
-                mimeType: 'video/webm;codecs=vp9',
-                videoBitsPerSecond: getVideoBitrate(options.quality, canvasWidth, canvasHeight)
+                mimeType: getRecorderMimeType(!!mixPlayback),
+                videoBitsPerSecond: videoBitrate,
+                audioBitsPerSecond: mixPlayback ? AUDIO_BITRATE : undefined
             })
 
             const chunks: Blob[] = []
@@ -307,25 +632,33 @@ async function processVideoWithCanvas(
             }
 
             mediaRecorder.onstop = () => {
-                const blob = new Blob(chunks, { type: 'video/webm' })
-                URL.revokeObjectURL(video.src)
-                if (webcamVideo && webcamVideo.src) {
-                    URL.revokeObjectURL(webcamVideo.src)
+                if (signal?.aborted) {
+                    fail(new ExportCancelledError())
+                    return
                 }
+                const blob = new Blob(chunks, { type: 'video/webm' })
                 console.log('Export complete, blob size:', blob.size)
-                resolve(blob)
+                finish(blob)
             }
 
             mediaRecorder.onerror = (error) => {
                 console.error('MediaRecorder error:', error)
-                reject(error)
+                fail(error)
+            }
+
+            // Cue the sources at the first segment before recording starts
+            const firstSegment = composition.segments[0]
+            const firstSource = firstSegment ? getSourceVideo(firstSegment) : null
+            if (firstSegment && firstSource && firstSegment.timelineStart === 0 && firstSegment.sourceIn > 0) {
+                firstSource.currentTime = firstSegment.sourceIn
+                if (webcamVideo) webcamVideo.currentTime = firstSegment.sourceIn
             }
 
             // Start recording
             mediaRecorder.start(100) // Collect data every 100ms
 
             // Play videos
-            await video.play()
+            await (firstSource ?? video).play()
             if (webcamVideo) {
                 try {
                     await webcamVideo.play()
@@ -340,56 +673,90 @@ async function processVideoWithCanvas(
             const frameInterval = 1000 / fps
             let lastFrameTime = 0
             let currentFrame = 0
-            const totalFrames = Math.floor(duration * fps)
+            let activeSegmentId: string | null = firstSegment?.clipId ?? null
             const startTime = Date.now()
+            mixPlayback?.start()
 
-            console.log('Starting render:', { duration, fps, totalFrames })
+            console.log('Starting render:', { duration, fps, segments: composition.segments })
 
-            const renderFrame = (timestamp: number) => {
-                if (timestamp - lastFrameTime >= frameInterval) {
-                    // Clear canvas
-                    ctx.clearRect(0, 0, canvasWidth, canvasHeight)
+            // Keep the source videos at the position the timeline asks for
+            const syncSources = (timelineTime: number) => {
+                const segment = getSegmentAtTime(composition, timelineTime)
+                const source = segment ? getSourceVideo(segment) : null
+                const webcam = segment && isRecordingSegment(segment) ? webcamVideo : null
 
-                    // Draw background if needed
-                    if (backgroundSettings) {
-                        drawBackground(ctx, canvasWidth, canvasHeight, backgroundSettings)
-                    }
+                // Hold the sources not on screen until their next clip, e.g. in a gap
+                for (const sourceVideo of [...sourceVideos.values(), webcamVideo]) {
+                    if (sourceVideo && sourceVideo !== source && sourceVideo !== webcam && !sourceVideo.paused) sourceVideo.pause()
+                }
 
-                    // Calculate padding
-                    const padding = backgroundSettings?.padding || 0
-                    const paddingPx = (canvasWidth * padding) / 100
-                    const videoX = paddingPx
-                    const videoY = paddingPx
-                    const videoWidth = canvasWidth - paddingPx * 2
-                    const videoHeight = canvasHeight - paddingPx * 2
-
-                    // Draw main video
-                    ctx.drawImage(video, videoX, videoY, videoWidth, videoHeight)
-
-                    // Draw webcam overlay if enabled
-                    if (webcamVideo && webcamSettings?.visible) {
-                        drawWebcamOverlay(
-                            ctx,
-                            webcamVideo,
-                            webcamSettings,
-                            canvasWidth,
-                            canvasHeight
-                        )
-                    }
+                if (!segment || !source) {
+                    activeSegmentId = null
+                    return null
+                }
+
+                const sourceTime = segment.sourceIn + (timelineTime - segment.timelineStart)
+                const enteredSegment = activeSegmentId !== segment.clipId
+                if (enteredSegment || Math.abs(source.currentTime - sourceTime) > MAX_SOURCE_DRIFT) {
+                    source.currentTime = sourceTime
+                    if (webcam) webcam.currentTime = sourceTime
+                }
+                activeSegmentId = segment.clipId
+
+                if (source.paused) source.play().catch(() => { })
+                if (webcam && webcam.paused) webcam.play().catch(() => { })
+
+                return { segment, source }
+            }
+
+            // Keep a second copy on the side of the cut the main source is not showing
+            const syncTransitionSource = (timelineTime: number) => {
+                const frame = getTransitionFrame(placedTransitions, timelineTime)
+                const side = frame ? getTransitionSide(frame) : null
+
+                transitionVideos.forEach(copy => {
+                    if (copy !== side?.source && !copy.paused) copy.pause()
+                })
+                if (!frame || !side) return null
+
+                if (Math.abs(side.source.currentTime - side.sourceTime) > MAX_SOURCE_DRIFT) {
+                    side.source.currentTime = side.sourceTime
+                }
+                if (side.source.paused) side.source.play().catch(() => { })
+
+                // Until the copy has a frame, show the cut without the transition
+                return side.source.readyState >= 2 ? { frame, source: side.source } : null
+            }
+
+            const renderFrame = (timestamp: number) => {
+                const timelineTime = (Date.now() - startTime) / 1000
+                const synced = syncSources(timelineTime)
+                const isRecording = synced !== null && isRecordingSegment(synced.segment)
+                const transition = syncTransitionSource(timelineTime)
+
+                if (timestamp - lastFrameTime >= frameInterval) {
+                    compositor.draw(ctx, timelineTime, {
+                        recording: synced?.source ?? null,
+                        sourceTime: isRecording ? video.currentTime : null,
+                        transition,
+                        webcam: isRecording ? webcamVideo : null
+                    })
 
                     lastFrameTime = timestamp
                     currentFrame++
 
                     // Update progress (clamp between 0 and 1)
-                    const progress = Math.min(currentFrame / totalFrames, 1)
-                    onProgress?.(progress)
+                    const progress = Math.min(timelineTime / duration, 1)
+                    onProgress?.(progress, 'rendering')
                 }
 
                 // Check if we should continue rendering
-                const elapsed = (Date.now() - startTime) / 1000
-                const shouldContinue = video.currentTime < duration &&
-                    elapsed < duration + 5 && // Add 5 second buffer
-                    !video.ended
+                const isLastSegment = synced !== null &&
+                    synced.segment === composition.segments[composition.segments.length - 1]
+                const shouldContinue = timelineTime < duration &&
+                    !(isLastSegment && synced.source.ended) &&
+                    !signal?.aborted &&
+                    !settled
 
                 if (shouldContinue) {
                     requestAnimationFrame(renderFrame)
@@ -397,133 +764,192 @@ async function processVideoWithCanvas(
                     console.log('Stopping render:', {
                         currentTime: video.currentTime,
                         duration,
-                        elapsed,
+                        timelineTime,
                         ended: video.ended,
                         framesRendered: currentFrame
                     })
-                    mediaRecorder.stop()
+                    sourceVideos.forEach(sourceVideo => sourceVideo.pause())
+                    webcamVideo?.pause()
+                    transitionVideos.forEach(copy => copy.pause())
+                    if (mediaRecorder.state !== 'inactive') mediaRecorder.stop()
                 }
             }
 
             requestAnimationFrame(renderFrame)
         } catch (error) {
             console.error('processVideoWithCanvas error:', error)
-            reject(error)
+            fail(error)
         }
     })
 }
 
-function drawBackground(
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number,
-    settings: any
-) {
-    const { type, backgroundColor, gradientColors, wallpaperIndex, wallpaperUrl } = settings
-
-    switch (type) {
-        case 'wallpaper':
-            if (wallpaperUrl) {
-                // For wallpaper with URL, we'd need to load the image first
-                // For now, fall back to gradient
-                const gradient = ctx.createLinearGradient(0, 0, width, height)
-                gradient.addColorStop(0, `hsl(${wallpaperIndex * 24}, 70%, 60%)`)
-                gradient.addColorStop(0.5, `hsl(${wallpaperIndex * 24 + 120}, 70%, 60%)`)
-                gradient.addColorStop(1, `hsl(${wallpaperIndex * 24 + 240}, 70%, 60%)`)
-                ctx.fillStyle = gradient
-                ctx.fillRect(0, 0, width, height)
-            } else {
-                // Generate gradient based on wallpaper index
-                const gradient = ctx.createLinearGradient(0, 0, width, height)
-                gradient.addColorStop(0, `hsl(${wallpaperIndex * 24}, 70%, 60%)`)
-                gradient.addColorStop(0.5, `hsl(${wallpaperIndex * 24 + 120}, 70%, 60%)`)
-                gradient.addColorStop(1, `hsl(${wallpaperIndex * 24 + 240}, 70%, 60%)`)
-                ctx.fillStyle = gradient
-                ctx.fillRect(0, 0, width, height)
-            }
-            break
-        case 'color':
-            ctx.fillStyle = backgroundColor || '#000000'
-            ctx.fillRect(0, 0, width, height)
-            break
-        case 'gradient':
-            const gradient = ctx.createLinearGradient(0, 0, width, height)
-            gradient.addColorStop(0, gradientColors?.[0] || '#ff6b6b')
-            gradient.addColorStop(1, gradientColors?.[1] || '#4ecdc4')
-            ctx.fillStyle = gradient
-            ctx.fillRect(0, 0, width, height)
-            break
-        case 'image':
-            // For custom images, fall back to gradient
-            const imgGradient = ctx.createLinearGradient(0, 0, width, height)
-            imgGradient.addColorStop(0, '#667eea')
-            imgGradient.addColorStop(1, '#764ba2')
-            ctx.fillStyle = imgGradient
-            ctx.fillRect(0, 0, width, height)
-            break
-        default:
-            ctx.fillStyle = '#000000'
-            ctx.fillRect(0, 0, width, height)
+// Wait for a video's metadata, with a timeout
+function waitForMetadata(video: HTMLVideoElement): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+            reject(new Error('Video metadata loading timeout'))
+        }, 10000)
+
+        video.onloadedmetadata = () => {
+            clearTimeout(timeout)
+            resolve()
+        }
+
+        video.onerror = () => {
+            clearTimeout(timeout)
+            reject(new Error('Video loading error'))
+        }
+    })
+}
+
+// Enhances every frame of a recording, for when they cannot be enhanced as they
+// are drawn. Null when enhancement fails, so the export goes on with the original
+async function enhanceRecording(
+    videoBlob: Blob,
+    { config, settings }: NonNullable<ExportWorkerStart['enhancement']>,
+    fps: number
+): Promise<Blob | null> {
+    const pipeline = new EnhancementPipeline(config, settings)
+    try {
+        await pipeline.initialize()
+        return await pipeline.enhanceVideo(videoBlob, undefined, fps)
+    } catch (error) {
+        console.warn('Video enhancement failed, using original video:', error)
+        return null
+    } finally {
+        pipeline.dispose()
     }
 }
 
-function drawWebcamOverlay(
-    ctx: CanvasRenderingContext2D,
-    webcamVideo: HTMLVideoElement,
-    settings: any,
-    canvasWidth: number,
-    canvasHeight: number
-) {
-    const { position, size, shape, borderWidth, borderColor } = settings
-
-    // Calculate position as percentage of canvas
-    const x = (canvasWidth * position.x) / 100
-    const y = (canvasHeight * position.y) / 100
-    const width = size.width
-    const height = size.height
-
-    ctx.save()
-
-    // Create clipping path based on shape
-    if (shape === 'circle') {
-        const radius = Math.min(width, height) / 2
-        ctx.beginPath()
-        ctx.arc(x + radius, y + radius, radius, 0, Math.PI * 2)
-        ctx.clip()
-    } else if (shape === 'square') {
-        const size = Math.min(width, height)
-        ctx.beginPath()
-        ctx.rect(x, y, size, size)
-        ctx.clip()
-    } else {
-        // Rectangle with rounded corners
-        ctx.beginPath()
-        roundRect(ctx, x, y, width, height, 12)
-        ctx.clip()
+// The worker needs to draw on an OffscreenCanvas and encode with WebCodecs;
+// the page sends it the frames as bitmaps
+function canRenderInWorker(): boolean {
+    return typeof Worker !== 'undefined' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        typeof createImageBitmap !== 'undefined' &&
+        typeof VideoEncoder !== 'undefined'
+}
+
+interface WorkerRender {
+    config: WebCodecsConfig
+    scene: ExportScene
+    overlayImages: Map<string, BrandImage>
+    brandMarks: LoadedBrandMark[]
+    mixdown: AudioBuffer | null
+    duration: number
+    fps: number
+    enhancement: ExportWorkerStart['enhancement']
+    // Seek the sources to a timeline time and capture them
+    captureFrame: (time: number) => Promise<ExportWorkerFrame>
+    onProgress?: (progress: number) => void
+    signal?: AbortSignal
+}
+
+/**
+ * Render an export in the export worker. The page only seeks the sources and
+ * posts bitmaps of them, at most EXPORT_FRAME_WINDOW frames ahead of the
+ * worker, which draws and encodes them off the editor's thread.
+ */
+async function renderInWorker(render: WorkerRender): Promise<Blob> {
+    const { config, scene, duration, fps, signal } = render
+    if (signal?.aborted) throw new ExportCancelledError()
+
+    const audio = config.audio && render.mixdown ? await toEncodableAudio(render.mixdown, config.audio) : null
+    const overlayImages = await Promise.all(
+        [...render.overlayImages].map(async ([url, image]): Promise<[string, ImageBitmap]> => [url, await createImageBitmap(image)])
+    )
+    const brandMarks = await Promise.all(
+        render.brandMarks.map(async ({ mark, image }) => ({ mark, image: await createImageBitmap(image) }))
+    )
+
+    const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' })
+    const post = (request: ExportWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer)
+
+    let framesDone = 0
+    let finished = false
+    let wakeSender: (() => void) | null = null
+
+    const result = new Promise<Blob>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+            const response = event.data
+            switch (response.type) {
+                case 'progress':
+                    framesDone = response.framesDone
+                    render.onProgress?.(response.progress)
+                    wakeSender?.()
+                    break
+                case 'done':
+                    resolve(response.blob)
+                    break
+                case 'cancelled':
+                    reject(new ExportCancelledError())
+                    break
+                case 'error':
+                    reject(new Error(response.message))
+                    break
+            }
+        }
+        worker.onerror = (event) => reject(new Error(event.message || 'The export worker failed'))
+    })
+    // Once the worker is done either way, nothing more is sent
+    const stopSending = () => {
+        finished = true
+        wakeSender?.()
+    }
+    result.then(stopSending, stopSending)
+
+    const cancel = () => post({ type: 'cancel' })
+    signal?.addEventListener('abort', cancel)
+
+    try {
+        post(
+            { type: 'start', config, scene, overlayImages, brandMarks, audio, duration, fps, enhancement: render.enhancement },
+            [...overlayImages.map(([, image]) => image), ...brandMarks.map(({ image }) => image)]
+        )
+
+        const totalFrames = getFrameCount(duration, fps)
+        for (let index = 0; index < totalFrames; index++) {
+            while (!finished && index - framesDone >= EXPORT_FRAME_WINDOW) {
+                await new Promise<void>(resolve => {
+                    wakeSender = resolve
+                })
+            }
+            if (finished || signal?.aborted) break
+
+            const frame = await render.captureFrame(index / fps)
+            post({ type: 'frame', index, frame }, getFrameBitmaps(frame))
+        }
+
+        return await result
+    } finally {
+        signal?.removeEventListener('abort', cancel)
+        worker.terminate()
     }
+}
 
-    // Draw webcam video
-    ctx.drawImage(webcamVideo, x, y, width, height)
-
-    ctx.restore()
-
-    // Draw border
-    if (borderWidth > 0) {
-        ctx.strokeStyle = borderColor || '#3b82f6'
-        ctx.lineWidth = borderWidth
-
-        if (shape === 'circle') {
-            const radius = Math.min(width, height) / 2
-            ctx.beginPath()
-            ctx.arc(x + radius, y + radius, radius, 0, Math.PI * 2)
-            ctx.stroke()
-        } else if (shape === 'square') {
-            const size = Math.min(width, height)
-            ctx.strokeRect(x, y, size, size)
-        } else {
-            ctx.beginPath()
-            roundRect(ctx, x, y, width, height, 12)
-            ctx.stroke()
+// WebM recorders take their sound as Opus; VP8 is the fallback where VP9 is not supported
+function getRecorderMimeType(withAudio: boolean): string {
+    const candidates = withAudio
+        ? ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+        : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm'
+}
+
+// Plays a rendered mix into a stream the recorder can take its sound from. The
+// context is resumed up front so the sound starts on the same tick as the frames
+async function createMixdownPlayback(mixdown: AudioBuffer) {
+    const context = new AudioContext({ sampleRate: mixdown.sampleRate })
+    await context.resume().catch(() => { })
+    const destination = context.createMediaStreamDestination()
+    const source = context.createBufferSource()
+    source.buffer = mixdown
+    source.connect(destination)
+
+    return {
+        stream: destination.stream,
+        start: () => source.start(),
+        stop: () => {
+            if (context.state !== 'closed') context.close().catch(() => { })
         }
     }
 }
@@ -544,30 +970,6 @@ function getVideoBitrate(quality: ExportOptions['quality'], width: number, heigh
     }
 }
 
-// Helper function for rounded rectangles (fallback for browsers without roundRect)
-function roundRect(
-    ctx: CanvasRenderingContext2D,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    radius: number
-) {
-    if (typeof (ctx as any).roundRect === 'function') {
-        (ctx as any).roundRect(x, y, width, height, radius)
-    } else {
-        // Fallback implementation
-        ctx.moveTo(x + radius, y)
-        ctx.lineTo(x + width - radius, y)
-        ctx.quadraticCurveTo(x + width, y, x + width, y + radius)
-        ctx.lineTo(x + width, y + height - radius)
-        ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height)
-        ctx.lineTo(x + radius, y + height)
-        ctx.quadraticCurveTo(x, y + height, x, y + height - radius)
-        ctx.lineTo(x, y + radius)
-        ctx.quadraticCurveTo(x, y, x + radius, y)
-    }
-}
 
 export function downloadBlob(blob: Blob, filename: string) {
     const url = URL.createObjectURL(blob)
@@ -1,21 +1,9 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg'
-import { fetchFile, toBlobURL } from '@ffmpeg/util'
-
-let ffmpeg: FFmpeg | null = null
+import { fetchFile } from '@ffmpeg/util'
+import { loadFFmpeg } from './ffmpegLoader'
 
+// Every FFmpeg user in the app shares the one self-hosted instance
 export async function initializeFFmpeg() {
-    if (ffmpeg) return ffmpeg
-
-    ffmpeg = new FFmpeg()
-
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm'
-
-    await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-    })
-
-    return ffmpeg
+    return loadFFmpeg()
 }
 
 export async function trimVideo(
@@ -0,0 +1,255 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer'
+import { ArrayBufferTarget as WebMTarget, Muxer as WebMMuxer } from 'webm-muxer'
+
+// Renders an export frame by frame and encodes it with WebCodecs, as fast as
+// the frames can be drawn rather than in real time
+
+export type ExportContainer = 'mp4' | 'webm'
+
+export class ExportCancelledError extends Error {
+    constructor(message: string = 'Export cancelled') {
+        super(message)
+        this.name = 'ExportCancelledError'
+    }
+}
+
+// Sound as planar samples. AudioBuffers only exist on the page, so this is
+// what is posted to the export worker and encoded there
+export interface EncodableAudio {
+    sampleRate: number
+    channels: Float32Array[]
+}
+
+// The encoders an export will use, once the browser has confirmed it supports them
+export interface WebCodecsConfig {
+    container: ExportContainer
+    video: VideoEncoderConfig
+    audio: AudioEncoderConfig | null
+}
+
+export interface WebCodecsRender {
+    config: WebCodecsConfig
+    canvas: HTMLCanvasElement | OffscreenCanvas
+    duration: number
+    fps: number
+    // Draw the frame at a timeline time onto the canvas
+    drawFrame: (time: number, index: number) => Promise<void> | void
+    audio: EncodableAudio | null
+    onProgress?: (progress: number) => void
+    signal?: AbortSignal
+}
+
+const AUDIO_BITRATE = 128000
+// Opus is only encoded at 48 kHz
+const OPUS_SAMPLE_RATE = 48000
+// Seconds between keyframes, so players can seek the export
+const KEYFRAME_INTERVAL = 2
+// Frames the encoder may have queued before drawing waits for it
+const MAX_ENCODE_QUEUE = 8
+// Audio is encoded this far ahead of the frames, so the muxer can interleave both
+const AUDIO_LEAD = 1
+const AUDIO_CHUNK_FRAMES = 4096
+
+// H.264 needs a higher level above 1080p; the profiles go from High to Baseline
+const getVideoCodecs = (container: ExportContainer, width: number, height: number): string[] => {
+    if (container === 'webm') return ['vp09.00.10.08', 'vp8']
+    const level = width * height > 1920 * 1088 ? '33' : '28'
+    return [`avc1.6400${level}`, `avc1.4d00${level}`, `avc1.4200${level}`]
+}
+
+/**
+ * Pick encoders for an export, or null when WebCodecs cannot encode it here
+ * and the real-time recorder has to be used. An export with sound needs an
+ * audio encoder too, so it is never rendered silently.
+ */
+export async function getWebCodecsConfig(
+    container: ExportContainer,
+    width: number,
+    height: number,
+    fps: number,
+    bitrate: number,
+    audio: { sampleRate: number; numberOfChannels: number } | null
+): Promise<WebCodecsConfig | null> {
+    if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null
+    if (audio && (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined')) return null
+    // 4:2:0 encoders need even dimensions
+    if (width % 2 !== 0 || height % 2 !== 0) return null
+
+    let video: VideoEncoderConfig | null = null
+    for (const codec of getVideoCodecs(container, width, height)) {
+        const config: VideoEncoderConfig = {
+            codec,
+            width,
+            height,
+            bitrate: Math.round(bitrate),
+            framerate: fps,
+            ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+        }
+        const support = await VideoEncoder.isConfigSupported(config).catch(() => null)
+        if (support?.supported) {
+            video = config
+            break
+        }
+    }
+    if (!video) return null
+
+    if (!audio) return { container, video, audio: null }
+
+    const audioConfig: AudioEncoderConfig = {
+        codec: container === 'mp4' ? 'mp4a.40.2' : 'opus',
+        sampleRate: container === 'mp4' ? audio.sampleRate : OPUS_SAMPLE_RATE,
+        numberOfChannels: audio.numberOfChannels,
+        bitrate: AUDIO_BITRATE
+    }
+    const audioSupport = await AudioEncoder.isConfigSupported(audioConfig).catch(() => null)
+    if (!audioSupport?.supported) return null
+
+    return { container, video, audio: audioConfig }
+}
+
+/**
+ * Get a mix ready for the audio encoder: resampled to the rate it encodes at
+ * and split into one array per channel
+ */
+export async function toEncodableAudio(buffer: AudioBuffer, config: AudioEncoderConfig): Promise<EncodableAudio> {
+    let resampled = buffer
+    if (buffer.sampleRate !== config.sampleRate) {
+        const context = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * config.sampleRate), config.sampleRate)
+        const source = context.createBufferSource()
+        source.buffer = buffer
+        source.connect(context.destination)
+        source.start()
+        resampled = await context.startRendering()
+    }
+
+    return {
+        sampleRate: resampled.sampleRate,
+        channels: Array.from({ length: resampled.numberOfChannels }, (_, channel) => resampled.getChannelData(channel))
+    }
+}
+
+// Both muxers take the same chunks; only their setup differs
+const createMuxer = (config: WebCodecsConfig, fps: number) => {
+    const { container, video, audio } = config
+
+    if (container === 'mp4') {
+        const muxer = new Mp4Muxer({
+            target: new Mp4Target(),
+            video: { codec: 'avc', width: video.width, height: video.height, frameRate: fps },
+            audio: audio ? { codec: 'aac', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : undefined,
+            fastStart: 'in-memory'
+        })
+        return {
+            addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+            addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+            finalize: () => {
+                muxer.finalize()
+                return new Blob([muxer.target.buffer], { type: 'video/mp4' })
+            }
+        }
+    }
+
+    const muxer = new WebMMuxer({
+        target: new WebMTarget(),
+        video: { codec: video.codec.startsWith('vp09') ? 'V_VP9' : 'V_VP8', width: video.width, height: video.height, frameRate: fps },
+        audio: audio ? { codec: 'A_OPUS', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : undefined
+    })
+    return {
+        addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => {
+            muxer.finalize()
+            return new Blob([muxer.target.buffer], { type: 'video/webm' })
+        }
+    }
+}
+
+// Every frame that starts before the end of the export
+export const getFrameCount = (duration: number, fps: number): number => Math.max(1, Math.ceil(duration * fps))
+
+/**
+ * Draw every frame of the export at its exact time, encode it and mux it with
+ * the sound. Frames are timed by their index, so the result is frame-accurate
+ * however long each one takes to draw.
+ */
+export async function renderWithWebCodecs(render: WebCodecsRender): Promise<Blob> {
+    const { config, canvas, duration, fps, drawFrame, audio, onProgress, signal } = render
+    const muxer = createMuxer(config, fps)
+
+    let encoderError: Error | null = null
+    const onError = (error: Error) => {
+        encoderError ??= error
+    }
+
+    const videoEncoder = new VideoEncoder({ output: muxer.addVideoChunk, error: onError })
+    videoEncoder.configure(config.video)
+
+    const audioEncoder = config.audio && audio ? new AudioEncoder({ output: muxer.addAudioChunk, error: onError }) : null
+    if (audioEncoder && config.audio) audioEncoder.configure(config.audio)
+
+    // Hand the sound to the encoder up to a time, in chunks of planar samples
+    const audioFrames = audio ? Math.min(audio.channels[0]?.length ?? 0, Math.ceil(duration * audio.sampleRate)) : 0
+    let audioPosition = 0
+    const encodeAudioUntil = (time: number) => {
+        if (!audio || !audioEncoder) return
+        const end = Math.min(audioFrames, Math.ceil(time * audio.sampleRate))
+        while (audioPosition < end) {
+            const frames = Math.min(AUDIO_CHUNK_FRAMES, end - audioPosition)
+            const data = new Float32Array(frames * audio.channels.length)
+            audio.channels.forEach((samples, channel) => {
+                data.set(samples.subarray(audioPosition, audioPosition + frames), channel * frames)
+            })
+            const audioData = new AudioData({
+                format: 'f32-planar',
+                sampleRate: audio.sampleRate,
+                numberOfFrames: frames,
+                numberOfChannels: audio.channels.length,
+                timestamp: Math.round((audioPosition / audio.sampleRate) * 1e6),
+                data
+            })
+            audioEncoder.encode(audioData)
+            audioData.close()
+            audioPosition += frames
+        }
+    }
+
+    try {
+        const totalFrames = getFrameCount(duration, fps)
+        const frameDuration = 1e6 / fps
+        const keyframeEvery = Math.max(1, Math.round(KEYFRAME_INTERVAL * fps))
+
+        for (let index = 0; index < totalFrames; index++) {
+            if (encoderError) throw encoderError
+            if (signal?.aborted) throw new ExportCancelledError()
+
+            const time = index / fps
+            await drawFrame(time, index)
+
+            const frame = new VideoFrame(canvas, {
+                timestamp: Math.round(index * frameDuration),
+                duration: Math.round(frameDuration)
+            })
+            videoEncoder.encode(frame, { keyFrame: index % keyframeEvery === 0 })
+            frame.close()
+
+            encodeAudioUntil(time + AUDIO_LEAD)
+
+            // Let the encoder catch up instead of queueing the whole export in memory
+            while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+                await new Promise(resolve => setTimeout(resolve, 1))
+            }
+
+            onProgress?.((index + 1) / totalFrames)
+        }
+
+        encodeAudioUntil(duration)
+        await videoEncoder.flush()
+        await audioEncoder?.flush()
+        if (encoderError) throw encoderError
+
+        return muxer.finalize()
+    } finally {
+        if (videoEncoder.state !== 'closed') videoEncoder.close()
+        if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close()
+    }
+}
@@ -0,0 +1,26 @@
+// Copies the FFmpeg core into public/ffmpeg so the app serves it itself
+// instead of fetching it from a CDN at runtime. Runs after npm install.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+
+const builds = [
+    { name: 'st', pkg: '@ffmpeg/core', files: ['ffmpeg-core.js', 'ffmpeg-core.wasm'] },
+    { name: 'mt', pkg: '@ffmpeg/core-mt', files: ['ffmpeg-core.js', 'ffmpeg-core.wasm', 'ffmpeg-core.worker.js'] }
+]
+
+for (const build of builds) {
+    const source = join(root, 'node_modules', build.pkg, 'dist', 'esm')
+    const target = join(root, 'public', 'ffmpeg', build.name)
+
+    if (!existsSync(source)) {
+        console.warn(`[ffmpeg] ${build.pkg} is not installed; MP4 export will be unavailable`)
+        continue
+    }
+
+    mkdirSync(target, { recursive: true })
+    build.files.forEach(file => copyFileSync(join(source, file), join(target, file)))
+    console.log(`[ffmpeg] Copied ${build.pkg} to public/ffmpeg/${build.name}`)
+}
@@ -0,0 +1,77 @@
+import { create } from 'zustand'
+import { BrandKit } from '@/lib/templates/brandKit'
+import {
+    deleteBrandKit,
+    loadBrandKits,
+    pickBrandKitImages,
+    saveBrandKit,
+    withBrandKitImageUrls
+} from '@/lib/videoEditor/brandKitStorage'
+
+// Custom brand kits live outside projects, so every project can use them
+interface BrandKitState {
+    // Kits with object URLs for their images, ready to draw
+    customKits: BrandKit[]
+    // Image blobs of each kit, keyed by kit id and then logo or watermark id
+    images: Record<string, Record<string, Blob>>
+    isLoaded: boolean
+
+    loadKits: () => Promise<void>
+    saveKit: (kit: BrandKit, images: Record<string, Blob>) => Promise<void>
+    deleteKit: (kitId: string) => Promise<void>
+}
+
+const createImageUrls = (images: Record<string, Blob>) =>
+    Object.fromEntries(Object.entries(images).map(([imageId, blob]) => [imageId, URL.createObjectURL(blob)]))
+
+const revokeImageUrls = (kit: BrandKit | undefined) => {
+    kit?.logos.forEach(logo => logo.url && URL.revokeObjectURL(logo.url))
+    kit?.watermarks.forEach(watermark => watermark.url && URL.revokeObjectURL(watermark.url))
+}
+
+export const useBrandKitStore = create<BrandKitState>()((set, get) => ({
+    customKits: [],
+    images: {},
+    isLoaded: false,
+
+    loadKits: async () => {
+        if (get().isLoaded) return
+        try {
+            const stored = await loadBrandKits()
+            set({
+                customKits: stored.map(({ kit, images }) => withBrandKitImageUrls(kit, createImageUrls(images))),
+                images: Object.fromEntries(stored.map(({ kit, images }) => [kit.id, images])),
+                isLoaded: true
+            })
+        } catch (error) {
+            console.warn('Failed to load brand kits:', error)
+            set({ isLoaded: true })
+        }
+    },
+
+    saveKit: async (kit, allImages) => {
+        const images = pickBrandKitImages(kit, allImages)
+        await saveBrandKit(kit, images)
+
+        const previous = get().customKits.find(k => k.id === kit.id)
+        revokeImageUrls(previous)
+        const saved = withBrandKitImageUrls(kit, createImageUrls(images))
+        set(state => ({
+            customKits: previous
+                ? state.customKits.map(k => k.id === kit.id ? saved : k)
+                : [...state.customKits, saved],
+            images: { ...state.images, [kit.id]: images }
+        }))
+    },
+
+    deleteKit: async (kitId) => {
+        await deleteBrandKit(kitId)
+
+        revokeImageUrls(get().customKits.find(k => k.id === kitId))
+        set(state => {
+            const images = { ...state.images }
+            delete images[kitId]
+            return { customKits: state.customKits.filter(k => k.id !== kitId), images }
+        })
+    }
+}))
@@ -0,0 +1,106 @@
+import { create } from 'zustand'
+import { ExportCancelledError, exportVideo } from '@/lib/videoExporter'
+import {
+    ExportJob,
+    ExportRequest,
+    createExportJob,
+    getExportFileName,
+    getNextExportJob,
+    isExportJobActive
+} from '@/lib/exportJobs'
+
+// Exports render in the background, one at a time, so several can be queued
+// and the editor stays usable while they run. Jobs are not part of the project
+interface ExportQueueState {
+    jobs: ExportJob[]
+
+    // Returns the new job's id
+    enqueueExport: (request: ExportRequest) => string
+    // Queued jobs are dropped from the queue; running ones stop at the next frame
+    cancelExport: (jobId: string) => void
+    retryExport: (jobId: string) => void
+    removeExport: (jobId: string) => void
+    clearFinishedExports: () => void
+}
+
+// How to stop each running job; kept out of the state as nothing renders from it
+const controllers = new Map<string, AbortController>()
+
+export const useExportQueueStore = create<ExportQueueState>()((set, get) => {
+    const updateJob = (jobId: string, updates: Partial<ExportJob>) => {
+        set(state => ({ jobs: state.jobs.map(job => job.id === jobId ? { ...job, ...updates } : job) }))
+    }
+
+    const runNext = async () => {
+        const job = getNextExportJob(get().jobs)
+        if (!job) return
+
+        const controller = new AbortController()
+        controllers.set(job.id, controller)
+        updateJob(job.id, { status: 'running', stage: 'loading', progress: 0, error: null })
+
+        try {
+            const blob = await exportVideo({
+                ...job.request,
+                signal: controller.signal,
+                onProgress: (progress, stage) => updateJob(job.id, { progress, stage })
+            })
+            updateJob(job.id, {
+                status: 'done',
+                stage: null,
+                progress: 1,
+                output: { blob, fileName: getExportFileName(job, blob) }
+            })
+        } catch (error) {
+            if (error instanceof ExportCancelledError) {
+                updateJob(job.id, { status: 'cancelled', stage: null })
+            } else {
+                updateJob(job.id, {
+                    status: 'failed',
+                    stage: null,
+                    error: error instanceof Error ? error.message : String(error)
+                })
+            }
+        } finally {
+            controllers.delete(job.id)
+            runNext()
+        }
+    }
+
+    return {
+        jobs: [],
+
+        enqueueExport: (request) => {
+            const job = createExportJob(request)
+            set(state => ({ jobs: [...state.jobs, job] }))
+            runNext()
+            return job.id
+        },
+
+        cancelExport: (jobId) => {
+            const job = get().jobs.find(j => j.id === jobId)
+            if (job?.status === 'queued') {
+                updateJob(jobId, { status: 'cancelled' })
+            } else if (job?.status === 'running') {
+                controllers.get(jobId)?.abort()
+            }
+        },
+
+        retryExport: (jobId) => {
+            const job = get().jobs.find(j => j.id === jobId)
+            if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return
+            updateJob(jobId, { status: 'queued', stage: null, progress: 0, error: null })
+            runNext()
+        },
+
+        removeExport: (jobId) => {
+            const job = get().jobs.find(j => j.id === jobId)
+            if (!job || isExportJobActive(job)) return
+            set(state => ({ jobs: state.jobs.filter(j => j.id !== jobId) }))
+        },
+
+        clearFinishedExports: () => {
+            set(state => ({ jobs: state.jobs.filter(isExportJobActive) }))
+        }
+    }
+})
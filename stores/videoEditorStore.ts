@@ -3,7 +3,19 @@ import { subscribeWithSelector } from 'zustand/middleware'
 import { Clip } from '@/hooks/useClips'
 import { Annotation } from '@/components/VideoAnnotation'
 import { BackgroundSettings, getDefaultBackgroundSettings } from '@/lib/videoEditor/backgroundUtils'
+import { getClipSourceIn, syncClipSourceRange } from '@/lib/videoEditor/timelineComposition'
+import { MediaAsset, SCREEN_RECORDING_ASSET_ID, WEBCAM_RECORDING_ASSET_ID } from '@/lib/videoEditor/mediaAssets'
+import { EditorHistory, createHistory, moveHistoryIndex, pushHistoryEntry } from '@/lib/videoEditor/editorHistory'
 import { EnhancementConfig, EnhancementSettings, getDefaultPreset } from '@/lib/videoEnhancement'
+import { Caption, CaptionStyle, DEFAULT_CAPTION_STYLE } from '@/lib/videoEditor/captions'
+import { TimeRange, rippleDeleteRanges } from '@/lib/videoEditor/rippleEdit'
+import { ClipTransition } from '@/lib/videoEditor/clipTransitions'
+import { BrandOverlaySettings, DEFAULT_BRAND_OVERLAY } from '@/lib/videoEditor/brandOverlay'
+import { Overlay } from '@/lib/videoEditor/overlays'
+import { CursorSettings, CursorTrack, DEFAULT_CURSOR_SETTINGS } from '@/lib/videoEditor/cursorTracking'
+import { ZoomSegment } from '@/lib/videoEditor/autoZoom'
+import { DEFAULT_TRACKS, Track } from '@/lib/videoEditor/timelineTracks'
+import { AudioMixSettings, DEFAULT_AUDIO_MIX } from '@/lib/videoEditor/audioMixing'
 
 interface VideoPlayerState {
     isPlaying: boolean
@@ -35,13 +47,44 @@ interface AnnotationsState {
     annotationFontSize: number
 }
 
-interface VideoEditorState {
+// The parts of the editor state that undo/redo restores. Playback, selection,
+// tool choices and the media bin are deliberately left out.
+export interface EditorSnapshot {
+    clips: Clip[]
+    annotations: Annotation[]
+    webcamOverlayPosition: WebcamOverlayState['webcamOverlayPosition']
+    webcamOverlaySize: WebcamOverlayState['webcamOverlaySize']
+    webcamSettings: WebcamOverlayState['webcamSettings']
+    aspectRatio: string
+    backgroundSettings: BackgroundSettings
+    currentColorPreset: string | undefined
+    currentAspectRatio: string | undefined
+    currentBrandKit: string | undefined
+    brandOverlay: BrandOverlaySettings
+    colorGradingFilters: VideoEditorState['colorGradingFilters']
+    enhancementConfig: EnhancementConfig
+    enhancementSettings: EnhancementSettings
+    captions: Caption[]
+    captionStyle: CaptionStyle
+    transitions: ClipTransition[]
+    overlays: Overlay[]
+    cursorTrack: CursorTrack | null
+    cursorSettings: CursorSettings
+    zoomSegments: ZoomSegment[]
+    tracks: Track[]
+    audioMix: AudioMixSettings
+}
+
+export interface VideoEditorState {
     // Video player state
     videoPlayer: VideoPlayerState
 
     // Clips state
     clips: Clip[]
 
+    // Media the clips play from, referenced by Clip.sourceId
+    mediaAssets: MediaAsset[]
+
     // Webcam overlay state
     webcamOverlay: WebcamOverlayState
 
@@ -59,12 +102,40 @@ interface VideoEditorState {
     currentColorPreset: string | undefined
     currentAspectRatio: string | undefined
     currentBrandKit: string | undefined
+    // Where this project shows the brand kit's logo and watermark
+    brandOverlay: BrandOverlaySettings
     colorGradingFilters: any
 
     // Enhancement state
     enhancementConfig: EnhancementConfig
     enhancementSettings: EnhancementSettings
 
+    // Captions, timed against the screen recording
+    captions: Caption[]
+    captionStyle: CaptionStyle
+
+    // Transitions on the cuts between clips
+    transitions: ClipTransition[]
+
+    // Text and image overlays, timed against the timeline
+    overlays: Overlay[]
+    selectedOverlay: string | null
+
+    // Pointer movement captured with the screen recording, timed against it
+    cursorTrack: CursorTrack | null
+    cursorSettings: CursorSettings
+
+    // Zooms on the recording, timed against the timeline
+    zoomSegments: ZoomSegment[]
+    selectedZoomSegment: string | null
+
+    // Timeline tracks, with the mute, solo and volume the mix follows
+    tracks: Track[]
+    audioMix: AudioMixSettings
+
+    // Undo/redo history of named editing steps
+    history: EditorHistory<EditorSnapshot>
+
     // Actions
     setVideoPlayer: (state: Partial<VideoPlayerState>) => void
     setClips: (clips: Clip[]) => void
@@ -72,9 +143,14 @@ interface VideoEditorState {
     updateClip: (clipId: string, updates: Partial<Clip>) => void
     deleteClip: (clipId: string) => void
     duplicateClip: (clipId: string) => void
+    // Cut timeline ranges out of every track and close the gaps, as one step
+    rippleDelete: (ranges: TimeRange[], label?: string) => void
     addRecordedVideoClip: (duration: number, videoUrl: string) => void
     addWebcamClip: (duration: number, webcamUrl: string) => void
 
+    registerMediaAsset: (asset: MediaAsset) => void
+    updateMediaAsset: (assetId: string, updates: Partial<MediaAsset>) => void
+
     setWebcamOverlay: (state: Partial<WebcamOverlayState>) => void
     setWebcamVideoUrl: (url: string | null) => void
     setWebcamOverlayPosition: (position: { x: number; y: number }) => void
@@ -100,249 +176,160 @@ interface VideoEditorState {
     setCurrentColorPreset: (preset: string | undefined) => void
     setCurrentAspectRatio: (ratio: string | undefined) => void
     setCurrentBrandKit: (kit: string | undefined) => void
+    setBrandOverlay: (settings: Partial<BrandOverlaySettings>) => void
     setColorGradingFilters: (filters: any) => void
 
     setEnhancementConfig: (config: EnhancementConfig) => void
     setEnhancementSettings: (settings: EnhancementSettings) => void
 
+    setCaptions: (captions: Caption[]) => void
+    updateCaption: (id: string, updates: Partial<Caption>) => void
+    removeCaption: (id: string) => void
+    setCaptionStyle: (style: Partial<CaptionStyle>) => void
+
+    // Adding a transition to a cut replaces the one already there
+    addTransition: (transition: ClipTransition) => void
+    updateTransition: (id: string, updates: Partial<ClipTransition>) => void
+    removeTransition: (id: string) => void
+
+    addOverlay: (overlay: Overlay) => void
+    updateOverlay: (id: string, updates: Partial<Overlay>) => void
+    removeOverlay: (id: string) => void
+    setSelectedOverlay: (id: string | null) => void
+
+    // Cursor actions
+    setCursorTrack: (track: CursorTrack | null) => void
+    setCursorSettings: (settings: Partial<CursorSettings>) => void
+
+    // Generated zooms replace the ones already there
+    setZoomSegments: (segments: ZoomSegment[]) => void
+    addZoomSegment: (segment: ZoomSegment) => void
+    updateZoomSegment: (id: string, updates: Partial<ZoomSegment>) => void
+    removeZoomSegment: (id: string) => void
+    setSelectedZoomSegment: (id: string | null) => void
+
+    // Track actions; adding, removing and reordering replace the list as one step
+    setTracks: (tracks: Track[], label: string) => void
+    updateTrack: (trackId: string, updates: Partial<Track>) => void
+    setAudioMix: (settings: Partial<AudioMixSettings>) => void
+
+    // History actions
+    undo: () => void
+    redo: () => void
+    jumpToHistory: (index: number) => void
+    beginHistoryTransaction: (label: string) => void
+    endHistoryTransaction: () => void
+
+    // Replace the edit with a saved project; its history starts over
+    openProject: (editor: EditorSnapshot, mediaAssets: MediaAsset[]) => void
+
     // Reset
     reset: () => void
 }
 
 const defaultPreset = getDefaultPreset()
 
-export const useVideoEditorStore = create<VideoEditorState>()(
-    subscribeWithSelector((set, get) => ({
-        // Initial state
-        videoPlayer: {
-            isPlaying: false,
-            currentTime: 0,
-            duration: 0,
-            isVideoReady: false,
-            forceReady: false
-        },
-
-        clips: [],
-
-        webcamOverlay: {
-            webcamVideoUrl: null,
-            webcamOverlayPosition: { x: 2, y: 2 },
-            webcamOverlaySize: { width: 100, height: 100 },
-            webcamSettings: {
-                visible: true,
-                shape: 'rectangle',
-                shadowIntensity: 0,
-                borderWidth: 2,
-                borderColor: '#3b82f6'
-            }
-        },
-
-        annotations: {
-            annotations: [],
-            selectedAnnotation: null,
-            selectedAnnotationTool: null,
-            annotationColor: '#ff0000',
-            annotationStrokeWidth: 3,
-            annotationFontSize: 24
-        },
-
-        isProcessing: false,
-        isDarkMode: true,
-        aspectRatio: '16:9',
-        backgroundSettings: getDefaultBackgroundSettings(),
-        showExportDialog: false,
-
-        currentColorPreset: undefined,
-        currentAspectRatio: 'youtube-standard',
-        currentBrandKit: undefined,
-        colorGradingFilters: null,
-
-        enhancementConfig: defaultPreset.config,
-        enhancementSettings: defaultPreset.settings,
-
-        // Actions
-        setVideoPlayer: (state) => set((prev) => ({
-            videoPlayer: { ...prev.videoPlayer, ...state }
-        })),
-
-        setClips: (clips) => set({ clips }),
-
-        addClip: (clip) => set((prev) => ({
-            clips: [...prev.clips, clip]
-        })),
-
-        updateClip: (clipId, updates) => set((prev) => ({
-            clips: prev.clips.map(clip =>
-                clip.id === clipId ? { ...clip, ...updates } : clip
-            )
-        })),
-
-        deleteClip: (clipId) => set((prev) => ({
-            clips: prev.clips.filter(clip => clip.id !== clipId)
-        })),
-
-        duplicateClip: (clipId) => set((prev) => {
-            const clip = prev.clips.find(c => c.id === clipId)
-            if (!clip) return prev
-
-            const duration = clip.endTime - clip.startTime
-            const newClip: Clip = {
-                ...clip,
-                id: `${clip.id}-copy-${Date.now()}`,
-                name: `${clip.name} (Copy)`,
-                startTime: clip.endTime,
-                endTime: clip.endTime + duration
-            }
-
-            return {
-                clips: [...prev.clips, newClip]
-            }
-        }),
-
-        addRecordedVideoClip: (duration, videoUrl) => set((prev) => {
-            if (!videoUrl || !duration || duration <= 0 || !isFinite(duration)) {
-                return prev
-            }
-
-            const existingIndex = prev.clips.findIndex(clip => clip.name === 'Recorded Video')
-
-            if (existingIndex !== -1) {
-                const updated = [...prev.clips]
-                updated[existingIndex] = {
-                    ...updated[existingIndex],
-                    endTime: duration,
-                }
-                return { clips: updated }
-            }
-
-            const recordedVideoClip: Clip = {
-                id: `recorded-video-${Date.now()}`,
-                type: 'video',
-                name: 'Recorded Video',
-                startTime: 0,
-                endTime: duration,
-                trackId: 'video-1',
-                thumbnail: videoUrl,
-                color: '#3b82f6',
-                muted: false,
-                locked: false
-            }
-
-            return { clips: [...prev.clips, recordedVideoClip] }
-        }),
-
-        addWebcamClip: (duration, webcamUrl) => set((prev) => {
-            if (!webcamUrl || !duration || duration <= 0 || !isFinite(duration)) {
-                return prev
-            }
-
-            const existingIndex = prev.clips.findIndex(clip => clip.name === 'Webcam')
-            if (existingIndex !== -1) {
-                return prev
-            }
-
-            const webcamClip: Clip = {
-                id: `webcam-${Date.now()}`,
-                type: 'video',
-                name: 'Webcam',
-                startTime: 0,
-                endTime: duration,
-                trackId: 'effect-1',
-                thumbnail: webcamUrl,
-                color: '#a855f7',
-                muted: false,
-                locked: false
-            }
-
-            return { clips: [...prev.clips, webcamClip] }
-        }),
-
-        setWebcamOverlay: (state) => set((prev) => ({
-            webcamOverlay: { ...prev.webcamOverlay, ...state }
-        })),
-
-        setWebcamVideoUrl: (url) => set((prev) => ({
-            webcamOverlay: { ...prev.webcamOverlay, webcamVideoUrl: url }
-        })),
-
-        setWebcamOverlayPosition: (position) => set((prev) => ({
-            webcamOverlay: { ...prev.webcamOverlay, webcamOverlayPosition: position }
-        })),
-
-        setWebcamOverlaySize: (size) => set((prev) => ({
-            webcamOverlay: { ...prev.webcamOverlay, webcamOverlaySize: size }
-        })),
-
-        setWebcamSettings: (settings) => set((prev) => ({
-            webcamOverlay: {
-                ...prev.webcamOverlay,
-                webcamSettings: { ...prev.webcamOverlay.webcamSettings, ...settings }
-            }
-        })),
-
-        setAnnotations: (state) => set((prev) => ({
-            annotations: { ...prev.annotations, ...state }
-        })),
-
-        addAnnotation: (annotation) => set((prev) => ({
-            annotations: {
-                ...prev.annotations,
-                annotations: [...prev.annotations.annotations, annotation]
-            }
-        })),
-
-        updateAnnotation: (id, updates) => set((prev) => ({
-            annotations: {
-                ...prev.annotations,
-                annotations: prev.annotations.annotations.map(ann =>
-                    ann.id === id ? { ...ann, ...updates } : ann
-                )
-            }
-        })),
-
-        removeAnnotation: (id) => set((prev) => ({
-            annotations: {
-                ...prev.annotations,
-                annotations: prev.annotations.annotations.filter(ann => ann.id !== id),
-                selectedAnnotation: prev.annotations.selectedAnnotation === id ? null : prev.annotations.selectedAnnotation
-            }
-        })),
-
-        setSelectedAnnotation: (id) => set((prev) => ({
-            annotations: { ...prev.annotations, selectedAnnotation: id }
-        })),
+const isClipUnchanged = (clip: Clip, updated: Clip): boolean =>
+    (Object.keys(updated) as (keyof Clip)[]).every(key => Object.is(clip[key], updated[key]))
 
-        setSelectedAnnotationTool: (tool) => set((prev) => ({
-            annotations: { ...prev.annotations, selectedAnnotationTool: tool }
-        })),
-
-        setAnnotationColor: (color) => set((prev) => ({
-            annotations: { ...prev.annotations, annotationColor: color }
-        })),
-
-        setAnnotationStrokeWidth: (width) => set((prev) => ({
-            annotations: { ...prev.annotations, annotationStrokeWidth: width }
-        })),
-
-        setAnnotationFontSize: (size) => set((prev) => ({
-            annotations: { ...prev.annotations, annotationFontSize: size }
-        })),
-
-        setProcessing: (processing) => set({ isProcessing: processing }),
-        setDarkMode: (darkMode) => set({ isDarkMode: darkMode }),
-        setAspectRatio: (ratio) => set({ aspectRatio: ratio }),
-        setBackgroundSettings: (settings) => set({ backgroundSettings: settings }),
-        setShowExportDialog: (show) => set({ showExportDialog: show }),
-
-        setCurrentColorPreset: (preset) => set({ currentColorPreset: preset }),
-        setCurrentAspectRatio: (ratio) => set({ currentAspectRatio: ratio }),
-        setCurrentBrandKit: (kit) => set({ currentBrandKit: kit }),
-        setColorGradingFilters: (filters) => set({ colorGradingFilters: filters }),
+const upsertMediaAsset = (assets: MediaAsset[], asset: MediaAsset): MediaAsset[] => {
+    const exists = assets.some(a => a.id === asset.id)
+    return exists
+        ? assets.map(a => a.id === asset.id ? { ...a, ...asset } : a)
+        : [...assets, asset]
+}
 
-        setEnhancementConfig: (config) => set({ enhancementConfig: config }),
-        setEnhancementSettings: (settings) => set({ enhancementSettings: settings }),
+export const takeSnapshot = (state: VideoEditorState): EditorSnapshot => ({
+    clips: state.clips,
+    annotations: state.annotations.annotations,
+    webcamOverlayPosition: state.webcamOverlay.webcamOverlayPosition,
+    webcamOverlaySize: state.webcamOverlay.webcamOverlaySize,
+    webcamSettings: state.webcamOverlay.webcamSettings,
+    aspectRatio: state.aspectRatio,
+    backgroundSettings: state.backgroundSettings,
+    currentColorPreset: state.currentColorPreset,
+    currentAspectRatio: state.currentAspectRatio,
+    currentBrandKit: state.currentBrandKit,
+    brandOverlay: state.brandOverlay,
+    colorGradingFilters: state.colorGradingFilters,
+    enhancementConfig: state.enhancementConfig,
+    enhancementSettings: state.enhancementSettings,
+    captions: state.captions,
+    captionStyle: state.captionStyle,
+    transitions: state.transitions,
+    overlays: state.overlays,
+    cursorTrack: state.cursorTrack,
+    cursorSettings: state.cursorSettings,
+    zoomSegments: state.zoomSegments,
+    tracks: state.tracks,
+    audioMix: state.audioMix
+})
+
+const restoreSnapshot = (state: VideoEditorState, snapshot: EditorSnapshot): Partial<VideoEditorState> => ({
+    clips: snapshot.clips,
+    annotations: {
+        ...state.annotations,
+        annotations: snapshot.annotations,
+        selectedAnnotation: snapshot.annotations.some(a => a.id === state.annotations.selectedAnnotation)
+            ? state.annotations.selectedAnnotation
+            : null
+    },
+    webcamOverlay: {
+        ...state.webcamOverlay,
+        webcamOverlayPosition: snapshot.webcamOverlayPosition,
+        webcamOverlaySize: snapshot.webcamOverlaySize,
+        webcamSettings: snapshot.webcamSettings
+    },
+    aspectRatio: snapshot.aspectRatio,
+    backgroundSettings: snapshot.backgroundSettings,
+    currentColorPreset: snapshot.currentColorPreset,
+    currentAspectRatio: snapshot.currentAspectRatio,
+    currentBrandKit: snapshot.currentBrandKit,
+    brandOverlay: snapshot.brandOverlay,
+    colorGradingFilters: snapshot.colorGradingFilters,
+    enhancementConfig: snapshot.enhancementConfig,
+    enhancementSettings: snapshot.enhancementSettings,
+    captions: snapshot.captions,
+    captionStyle: snapshot.captionStyle,
+    transitions: snapshot.transitions,
+    overlays: snapshot.overlays,
+    selectedOverlay: snapshot.overlays.some(o => o.id === state.selectedOverlay) ? state.selectedOverlay : null,
+    cursorTrack: snapshot.cursorTrack,
+    cursorSettings: snapshot.cursorSettings,
+    zoomSegments: snapshot.zoomSegments,
+    selectedZoomSegment: snapshot.zoomSegments.some(z => z.id === state.selectedZoomSegment) ? state.selectedZoomSegment : null,
+    tracks: snapshot.tracks,
+    audioMix: snapshot.audioMix
+})
+
+type StateUpdate = Partial<VideoEditorState> | ((prev: VideoEditorState) => Partial<VideoEditorState>)
 
-        reset: () => set({
+export const useVideoEditorStore = create<VideoEditorState>()(
+    subscribeWithSelector((set, get) => {
+        // Open transaction: everything until it ends is recorded as one step
+        let transaction: { label: string; depth: number } | null = null
+
+        const recordHistory = (label: string, coalesceKey?: string) => {
+            if (transaction) return
+            set((prev) => ({
+                history: pushHistoryEntry(prev.history, label, takeSnapshot(prev), { coalesceKey })
+            }))
+        }
+
+        // Apply an edit and record it as a named, undoable step
+        const commit = (label: string, update: StateUpdate, coalesceKey?: string) => {
+            set(update)
+            recordHistory(label, coalesceKey)
+        }
+
+        // Loading a recording is a step like any other. Reloading the media of an
+        // opened project changes nothing in the snapshot, so nothing is recorded
+        const recordRecordingLoaded = () => {
+            recordHistory(get().history.index === 0 ? 'Open recording' : 'Add recording')
+        }
+
+        return {
+            // Initial state
             videoPlayer: {
                 isPlaying: false,
                 currentTime: 0,
@@ -350,7 +337,11 @@ export const useVideoEditorStore = create<VideoEditorState>()(
                 isVideoReady: false,
                 forceReady: false
             },
+
             clips: [],
+
+            mediaAssets: [],
+
             webcamOverlay: {
                 webcamVideoUrl: null,
                 webcamOverlayPosition: { x: 2, y: 2 },
@@ -363,6 +354,7 @@ export const useVideoEditorStore = create<VideoEditorState>()(
                     borderColor: '#3b82f6'
                 }
             },
+
             annotations: {
                 annotations: [],
                 selectedAnnotation: null,
@@ -371,17 +363,484 @@ export const useVideoEditorStore = create<VideoEditorState>()(
                 annotationStrokeWidth: 3,
                 annotationFontSize: 24
             },
+
             isProcessing: false,
             isDarkMode: true,
             aspectRatio: '16:9',
             backgroundSettings: getDefaultBackgroundSettings(),
             showExportDialog: false,
+
             currentColorPreset: undefined,
             currentAspectRatio: 'youtube-standard',
             currentBrandKit: undefined,
+            brandOverlay: DEFAULT_BRAND_OVERLAY,
             colorGradingFilters: null,
+
             enhancementConfig: defaultPreset.config,
-            enhancementSettings: defaultPreset.settings
-        })
-    }))
+            enhancementSettings: defaultPreset.settings,
+
+            captions: [],
+            captionStyle: DEFAULT_CAPTION_STYLE,
+
+            transitions: [],
+
+            overlays: [],
+            selectedOverlay: null,
+
+            cursorTrack: null,
+            cursorSettings: DEFAULT_CURSOR_SETTINGS,
+
+            zoomSegments: [],
+            selectedZoomSegment: null,
+
+            tracks: DEFAULT_TRACKS,
+            audioMix: DEFAULT_AUDIO_MIX,
+
+            // Replaced with the real initial snapshot once the store exists
+            history: { entries: [], index: 0 },
+
+            // Actions
+            setVideoPlayer: (state) => set((prev) => ({
+                videoPlayer: { ...prev.videoPlayer, ...state }
+            })),
+
+            setClips: (clips) => commit('Edit clips', { clips }),
+
+            addClip: (clip) => commit('Add clip', (prev) => ({
+                clips: [...prev.clips, syncClipSourceRange(clip)]
+            })),
+
+            updateClip: (clipId, updates) => commit('Edit clip', (prev) => {
+                const clip = prev.clips.find(c => c.id === clipId)
+                if (!clip) return {}
+                const updated = syncClipSourceRange({ ...clip, ...updates })
+                // No-op updates keep the same state so they don't become history steps
+                if (isClipUnchanged(clip, updated)) return {}
+                return { clips: prev.clips.map(c => c.id === clipId ? updated : c) }
+            }, `clip:${clipId}`),
+
+            deleteClip: (clipId) => commit('Delete clip', (prev) => ({
+                clips: prev.clips.filter(clip => clip.id !== clipId)
+            })),
+
+            duplicateClip: (clipId) => commit('Duplicate clip', (prev) => {
+                const clip = prev.clips.find(c => c.id === clipId)
+                if (!clip) return prev
+
+                const duration = clip.endTime - clip.startTime
+                const newClip: Clip = {
+                    ...clip,
+                    id: `${clip.id}-copy-${Date.now()}`,
+                    name: `${clip.name} (Copy)`,
+                    sourceIn: getClipSourceIn(clip),
+                    startTime: clip.endTime,
+                    endTime: clip.endTime + duration
+                }
+
+                return {
+                    clips: [...prev.clips, syncClipSourceRange(newClip)]
+                }
+            }),
+
+            rippleDelete: (ranges, label = 'Ripple delete') => commit(label, (prev) => {
+                if (ranges.every(range => range.end <= range.start)) return {}
+                const { clips, items } = rippleDeleteRanges(prev.clips, prev.annotations.annotations, ranges)
+                return {
+                    clips,
+                    annotations: { ...prev.annotations, annotations: items },
+                    overlays: rippleDeleteRanges([], prev.overlays, ranges).items,
+                    zoomSegments: rippleDeleteRanges([], prev.zoomSegments, ranges).items
+                }
+            }),
+
+            addRecordedVideoClip: (duration, videoUrl) => {
+                set((prev) => {
+                    if (!videoUrl || !duration || duration <= 0 || !isFinite(duration)) {
+                        return prev
+                    }
+
+                    const asset: MediaAsset = {
+                        id: SCREEN_RECORDING_ASSET_ID,
+                        type: 'video',
+                        name: 'Recorded Video',
+                        url: videoUrl,
+                        duration,
+                        origin: 'screen-recording'
+                    }
+                    const mediaAssets = upsertMediaAsset(prev.mediaAssets, asset)
+
+                    const existingClips = prev.clips.filter(clip => clip.sourceId === SCREEN_RECORDING_ASSET_ID)
+
+                    if (existingClips.length > 0) {
+                        // Only stretch the clip while it is still the untouched full recording
+                        const [clip] = existingClips
+                        const previousAsset = prev.mediaAssets.find(a => a.id === SCREEN_RECORDING_ASSET_ID)
+                        const isUntouched = existingClips.length === 1 &&
+                            clip.startTime === 0 &&
+                            getClipSourceIn(clip) === 0 &&
+                            clip.endTime === previousAsset?.duration &&
+                            clip.endTime !== duration
+
+                        return {
+                            mediaAssets,
+                            clips: isUntouched
+                                ? prev.clips.map(c => c.id === clip.id ? syncClipSourceRange({ ...c, endTime: duration }) : c)
+                                : prev.clips
+                        }
+                    }
+
+                    const recordedVideoClip: Clip = {
+                        id: `recorded-video-${Date.now()}`,
+                        type: 'video',
+                        name: 'Recorded Video',
+                        startTime: 0,
+                        endTime: duration,
+                        sourceId: SCREEN_RECORDING_ASSET_ID,
+                        sourceIn: 0,
+                        sourceOut: duration,
+                        trackId: 'video-1',
+                        color: '#3b82f6',
+                        muted: false,
+                        locked: false
+                    }
+
+                    return { mediaAssets, clips: [...prev.clips, recordedVideoClip] }
+                })
+                recordRecordingLoaded()
+            },
+
+            addWebcamClip: (duration, webcamUrl) => {
+                set((prev) => {
+                    if (!webcamUrl || !duration || duration <= 0 || !isFinite(duration)) {
+                        return prev
+                    }
+
+                    const mediaAssets = upsertMediaAsset(prev.mediaAssets, {
+                        id: WEBCAM_RECORDING_ASSET_ID,
+                        type: 'video',
+                        name: 'Webcam',
+                        url: webcamUrl,
+                        duration,
+                        origin: 'webcam-recording'
+                    })
+
+                    const existingIndex = prev.clips.findIndex(clip => clip.sourceId === WEBCAM_RECORDING_ASSET_ID)
+                    if (existingIndex !== -1) {
+                        return { mediaAssets }
+                    }
+
+                    const webcamClip: Clip = {
+                        id: `webcam-${Date.now()}`,
+                        type: 'video',
+                        name: 'Webcam',
+                        startTime: 0,
+                        endTime: duration,
+                        sourceId: WEBCAM_RECORDING_ASSET_ID,
+                        sourceIn: 0,
+                        sourceOut: duration,
+                        trackId: 'effect-1',
+                        color: '#a855f7',
+                        muted: false,
+                        locked: false
+                    }
+
+                    return { mediaAssets, clips: [...prev.clips, webcamClip] }
+                })
+                recordRecordingLoaded()
+            },
+
+            registerMediaAsset: (asset) => set((prev) => ({
+                mediaAssets: upsertMediaAsset(prev.mediaAssets, asset)
+            })),
+
+            updateMediaAsset: (assetId, updates) => set((prev) => ({
+                mediaAssets: prev.mediaAssets.map(asset =>
+                    asset.id === assetId ? { ...asset, ...updates } : asset
+                )
+            })),
+
+            setWebcamOverlay: (state) => set((prev) => ({
+                webcamOverlay: { ...prev.webcamOverlay, ...state }
+            })),
+
+            setWebcamVideoUrl: (url) => set((prev) => ({
+                webcamOverlay: { ...prev.webcamOverlay, webcamVideoUrl: url }
+            })),
+
+            setWebcamOverlayPosition: (position) => commit('Move webcam', (prev) => ({
+                webcamOverlay: { ...prev.webcamOverlay, webcamOverlayPosition: position }
+            }), 'webcam-position'),
+
+            setWebcamOverlaySize: (size) => commit('Resize webcam', (prev) => ({
+                webcamOverlay: { ...prev.webcamOverlay, webcamOverlaySize: size }
+            }), 'webcam-size'),
+
+            setWebcamSettings: (settings) => commit('Change webcam style', (prev) => ({
+                webcamOverlay: {
+                    ...prev.webcamOverlay,
+                    webcamSettings: { ...prev.webcamOverlay.webcamSettings, ...settings }
+                }
+            }), 'webcam-settings'),
+
+            setAnnotations: (state) => commit('Edit annotations', (prev) => ({
+                annotations: { ...prev.annotations, ...state }
+            })),
+
+            addAnnotation: (annotation) => commit('Add annotation', (prev) => ({
+                annotations: {
+                    ...prev.annotations,
+                    annotations: [...prev.annotations.annotations, annotation]
+                }
+            })),
+
+            updateAnnotation: (id, updates) => commit('Edit annotation', (prev) => ({
+                annotations: {
+                    ...prev.annotations,
+                    annotations: prev.annotations.annotations.map(ann =>
+                        ann.id === id ? { ...ann, ...updates } : ann
+                    )
+                }
+            }), `annotation:${id}`),
+
+            removeAnnotation: (id) => commit('Delete annotation', (prev) => ({
+                annotations: {
+                    ...prev.annotations,
+                    annotations: prev.annotations.annotations.filter(ann => ann.id !== id),
+                    selectedAnnotation: prev.annotations.selectedAnnotation === id ? null : prev.annotations.selectedAnnotation
+                }
+            })),
+
+            setSelectedAnnotation: (id) => set((prev) => ({
+                annotations: { ...prev.annotations, selectedAnnotation: id }
+            })),
+
+            setSelectedAnnotationTool: (tool) => set((prev) => ({
+                annotations: { ...prev.annotations, selectedAnnotationTool: tool }
+            })),
+
+            setAnnotationColor: (color) => set((prev) => ({
+                annotations: { ...prev.annotations, annotationColor: color }
+            })),
+
+            setAnnotationStrokeWidth: (width) => set((prev) => ({
+                annotations: { ...prev.annotations, annotationStrokeWidth: width }
+            })),
+
+            setAnnotationFontSize: (size) => set((prev) => ({
+                annotations: { ...prev.annotations, annotationFontSize: size }
+            })),
+
+            setProcessing: (processing) => set({ isProcessing: processing }),
+            setDarkMode: (darkMode) => set({ isDarkMode: darkMode }),
+            setAspectRatio: (ratio) => commit('Change aspect ratio', { aspectRatio: ratio }),
+            setBackgroundSettings: (settings) => commit('Change background', { backgroundSettings: settings }, 'background'),
+            setShowExportDialog: (show) => set({ showExportDialog: show }),
+
+            setCurrentColorPreset: (preset) => commit('Apply color preset', { currentColorPreset: preset }),
+            setCurrentAspectRatio: (ratio) => commit('Apply aspect ratio template', { currentAspectRatio: ratio }),
+            setCurrentBrandKit: (kit) => commit('Apply brand kit', { currentBrandKit: kit }),
+            setBrandOverlay: (settings) => commit('Change brand overlay', (prev) => ({
+                brandOverlay: { ...prev.brandOverlay, ...settings }
+            }), 'brand-overlay'),
+            setColorGradingFilters: (filters) => commit('Change color grading', { colorGradingFilters: filters }, 'color-grading'),
+
+            setEnhancementConfig: (config) => commit('Toggle enhancements', { enhancementConfig: config }),
+            setEnhancementSettings: (settings) => commit('Adjust enhancements', { enhancementSettings: settings }, 'enhancement-settings'),
+
+            setCaptions: (captions) => commit('Generate captions', { captions }),
+
+            // Typing into a caption becomes one step per caption
+            updateCaption: (id, updates) => commit('Edit caption', (prev) => ({
+                captions: prev.captions.map(caption => caption.id === id ? { ...caption, ...updates } : caption)
+            }), `caption:${id}`),
+
+            removeCaption: (id) => commit('Delete caption', (prev) => ({
+                captions: prev.captions.filter(caption => caption.id !== id)
+            })),
+
+            setCaptionStyle: (style) => commit('Change caption style', (prev) => ({
+                captionStyle: { ...prev.captionStyle, ...style }
+            }), 'caption-style'),
+
+            addTransition: (transition) => commit('Add transition', (prev) => ({
+                transitions: [
+                    ...prev.transitions.filter(t => t.fromClipId !== transition.fromClipId || t.toClipId !== transition.toClipId),
+                    transition
+                ]
+            })),
+
+            // Dragging a transition's length becomes one step per transition
+            updateTransition: (id, updates) => commit('Edit transition', (prev) => ({
+                transitions: prev.transitions.map(transition => transition.id === id ? { ...transition, ...updates } : transition)
+            }), `transition:${id}`),
+
+            removeTransition: (id) => commit('Remove transition', (prev) => ({
+                transitions: prev.transitions.filter(transition => transition.id !== id)
+            })),
+
+            addOverlay: (overlay) => commit('Add overlay', (prev) => ({
+                overlays: [...prev.overlays, overlay],
+                selectedOverlay: overlay.id
+            })),
+
+            // Dragging or retiming an overlay becomes one step per overlay
+            updateOverlay: (id, updates) => commit('Edit overlay', (prev) => ({
+                overlays: prev.overlays.map(overlay => overlay.id === id ? { ...overlay, ...updates } : overlay)
+            }), `overlay:${id}`),
+
+            removeOverlay: (id) => commit('Delete overlay', (prev) => ({
+                overlays: prev.overlays.filter(overlay => overlay.id !== id),
+                selectedOverlay: prev.selectedOverlay === id ? null : prev.selectedOverlay
+            })),
+
+            setSelectedOverlay: (id) => set({ selectedOverlay: id }),
+
+            setCursorTrack: (track) => commit(track ? 'Add cursor track' : 'Remove cursor track', { cursorTrack: track }),
+            setCursorSettings: (settings) => commit('Change cursor', (prev) => ({
+                cursorSettings: { ...prev.cursorSettings, ...settings }
+            }), 'cursor-settings'),
+
+            setZoomSegments: (segments) => commit('Generate zooms', {
+                zoomSegments: segments,
+                selectedZoomSegment: null
+            }),
+
+            addZoomSegment: (segment) => commit('Add zoom', (prev) => ({
+                zoomSegments: [...prev.zoomSegments, segment],
+                selectedZoomSegment: segment.id
+            })),
+
+            // Dragging or adjusting a zoom becomes one step per zoom
+            updateZoomSegment: (id, updates) => commit('Edit zoom', (prev) => ({
+                zoomSegments: prev.zoomSegments.map(segment => segment.id === id ? { ...segment, ...updates } : segment)
+            }), `zoom:${id}`),
+
+            removeZoomSegment: (id) => commit('Delete zoom', (prev) => ({
+                zoomSegments: prev.zoomSegments.filter(segment => segment.id !== id),
+                selectedZoomSegment: prev.selectedZoomSegment === id ? null : prev.selectedZoomSegment
+            })),
+
+            setSelectedZoomSegment: (id) => set({ selectedZoomSegment: id }),
+
+            setTracks: (tracks, label) => commit(label, { tracks }),
+
+            // Dragging a volume slider becomes one step per track
+            updateTrack: (trackId, updates) => commit('Edit track', (prev) => ({
+                tracks: prev.tracks.map(track => track.id === trackId ? { ...track, ...updates } : track)
+            }), `track:${trackId}`),
+
+            setAudioMix: (settings) => commit('Change audio mix', (prev) => ({
+                audioMix: { ...prev.audioMix, ...settings }
+            }), 'audio-mix'),
+
+            undo: () => get().jumpToHistory(get().history.index - 1),
+
+            redo: () => get().jumpToHistory(get().history.index + 1),
+
+            jumpToHistory: (index) => {
+                // Never restore in the middle of a drag
+                if (transaction) return
+                const history = moveHistoryIndex(get().history, index)
+                if (history.index === get().history.index) return
+                set((prev) => ({
+                    ...restoreSnapshot(prev, history.entries[history.index].snapshot),
+                    history
+                }))
+            },
+
+            beginHistoryTransaction: (label) => {
+                if (transaction) {
+                    transaction.depth++
+                } else {
+                    transaction = { label, depth: 1 }
+                }
+            },
+
+            endHistoryTransaction: () => {
+                if (!transaction) return
+                transaction.depth--
+                if (transaction.depth > 0) return
+                const { label } = transaction
+                transaction = null
+                recordHistory(label)
+            },
+
+            openProject: (editor, mediaAssets) => {
+                transaction = null
+                set((prev) => ({
+                    ...restoreSnapshot(prev, editor),
+                    mediaAssets,
+                    videoPlayer: {
+                        isPlaying: false,
+                        currentTime: 0,
+                        duration: 0,
+                        isVideoReady: false,
+                        forceReady: false
+                    },
+                    history: createHistory(editor)
+                }))
+            },
+
+            reset: () => {
+                transaction = null
+                set({
+                    videoPlayer: {
+                        isPlaying: false,
+                        currentTime: 0,
+                        duration: 0,
+                        isVideoReady: false,
+                        forceReady: false
+                    },
+                    clips: [],
+                    mediaAssets: [],
+                    webcamOverlay: {
+                        webcamVideoUrl: null,
+                        webcamOverlayPosition: { x: 2, y: 2 },
+                        webcamOverlaySize: { width: 100, height: 100 },
+                        webcamSettings: {
+                            visible: true,
+                            shape: 'rectangle',
+                            shadowIntensity: 0,
+                            borderWidth: 2,
+                            borderColor: '#3b82f6'
+                        }
+                    },
+                    annotations: {
+                        annotations: [],
+                        selectedAnnotation: null,
+                        selectedAnnotationTool: null,
+                        annotationColor: '#ff0000',
+                        annotationStrokeWidth: 3,
+                        annotationFontSize: 24
+                    },
+                    isProcessing: false,
+                    isDarkMode: true,
+                    aspectRatio: '16:9',
+                    backgroundSettings: getDefaultBackgroundSettings(),
+                    showExportDialog: false,
+                    currentColorPreset: undefined,
+                    currentAspectRatio: 'youtube-standard',
+                    currentBrandKit: undefined,
+                    brandOverlay: DEFAULT_BRAND_OVERLAY,
+                    colorGradingFilters: null,
+                    enhancementConfig: defaultPreset.config,
+                    enhancementSettings: defaultPreset.settings,
+                    captions: [],
+                    captionStyle: DEFAULT_CAPTION_STYLE,
+                    transitions: [],
+                    overlays: [],
+                    selectedOverlay: null,
+                    cursorTrack: null,
+                    cursorSettings: DEFAULT_CURSOR_SETTINGS,
+                    zoomSegments: [],
+                    selectedZoomSegment: null,
+                    tracks: DEFAULT_TRACKS,
+                    audioMix: DEFAULT_AUDIO_MIX
+                })
+                set((prev) => ({ history: createHistory(takeSnapshot(prev)) }))
+            }
+        }
+    })
 )
+
+useVideoEditorStore.setState((state) => ({ history: createHistory(takeSnapshot(state)) }))